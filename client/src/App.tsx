@@ -11,6 +11,11 @@ import OnboardingPage from "@/pages/onboarding/[id]";
 import ApiDocs from "@/pages/admin/api-docs";
 import Notifications from "@/pages/admin/notifications";
 import Help from "@/pages/admin/help";
+import Team from "@/pages/admin/team";
+import Reports from "@/pages/admin/reports";
+import Templates from "@/pages/admin/templates";
+import Fonts from "@/pages/admin/fonts";
+import AcceptInvitation from "@/pages/accept-invitation";
 
 function Router() {
   return (
@@ -22,6 +27,13 @@ function Router() {
       <Route path="/admin/api-docs" component={ApiDocs} />
       <Route path="/admin/notifications" component={Notifications} />
       <Route path="/admin/help" component={Help} />
+      <Route path="/admin/team" component={Team} />
+      <Route path="/admin/reports" component={Reports} />
+      <Route path="/admin/reports/:id" component={Reports} />
+      <Route path="/admin/templates" component={Templates} />
+      <Route path="/admin/templates/:id" component={Templates} />
+      <Route path="/admin/fonts" component={Fonts} />
+      <Route path="/accept-invitation" component={AcceptInvitation} />
       <Route path="/onboarding/:id" component={OnboardingPage} />
       <Route component={NotFound} />
     </Switch>
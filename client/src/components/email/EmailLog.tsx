@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { emailTemplateNames, type EmailLogEntry, type EmailTemplateName } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTheme } from '@/lib/theme-context';
+
+const PAGE_SIZE = 25;
+
+type EmailStatus = EmailLogEntry['status'];
+
+const statusStyles: Record<EmailStatus, string> = {
+  sent: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 border-0',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border-0',
+};
+
+const templateLabels: Record<EmailTemplateName, string> = {
+  clientReminder: 'Client reminder',
+  invitation: 'Invitation',
+  completionReceipt: 'Completion receipt',
+  teamAlert: 'Team alert',
+  digest: 'Digest report',
+};
+
+type EmailLogResponse = { emails: EmailLogEntry[]; total: number };
+
+export function EmailLog() {
+  const { theme } = useTheme();
+  const [templateFilter, setTemplateFilter] = useState<'all' | EmailTemplateName>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | EmailStatus>('all');
+  const [recipient, setRecipient] = useState('');
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (templateFilter !== 'all') params.set('template', templateFilter);
+  if (statusFilter !== 'all') params.set('status', statusFilter);
+  if (recipient.trim()) params.set('to', recipient.trim());
+
+  const { data, isLoading, refetch, isFetching } = useQuery<EmailLogResponse>({
+    queryKey: [`/api/email-log?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  const emails = data?.emails ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Email Log</h2>
+          <p className="text-muted-foreground">
+            Every email sent to clients and the team, including ones that failed.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Recipient</Label>
+            <Input
+              className="w-48"
+              placeholder="Search email"
+              value={recipient}
+              onChange={(e) => { setRecipient(e.target.value); setPage(0); }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={templateFilter} onValueChange={(value) => { setTemplateFilter(value as typeof templateFilter); setPage(0); }}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {emailTemplateNames.map(template => (
+                  <SelectItem key={template} value={template}>{templateLabels[template]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value as typeof statusFilter); setPage(0); }}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="gap-2">
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className={`${theme === 'dark' ? 'bg-gray-800/50' : 'bg-gray-50'}`}>
+                <tr>
+                  <th className="text-left p-4 font-medium text-sm">Recipient</th>
+                  <th className="text-left p-4 font-medium text-sm">Subject</th>
+                  <th className="text-left p-4 font-medium text-sm">Type</th>
+                  <th className="text-left p-4 font-medium text-sm">Status</th>
+                  <th className="text-left p-4 font-medium text-sm">Sent</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {isLoading && (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-muted-foreground">Loading emails...</td>
+                  </tr>
+                )}
+                {!isLoading && emails.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-muted-foreground">No emails match these filters.</td>
+                  </tr>
+                )}
+                {emails.map(email => (
+                  <tr key={email.id}>
+                    <td className="p-4 text-sm font-medium">{email.to_email}</td>
+                    <td className="p-4 text-sm">
+                      <div className="truncate max-w-xs">{email.subject}</div>
+                      {email.error && (
+                        <div className="text-xs text-red-600 dark:text-red-400 truncate max-w-xs" title={email.error}>{email.error}</div>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm">{templateLabels[email.template as EmailTemplateName] ?? email.template}</td>
+                    <td className="p-4">
+                      <Badge className={statusStyles[email.status]}>{email.status === 'sent' ? 'Sent' : 'Failed'}</Badge>
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {email.created_at ? new Date(email.created_at).toLocaleString() : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total.toLocaleString()} emails</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
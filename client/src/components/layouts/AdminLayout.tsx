@@ -1,12 +1,18 @@
 import React from 'react';
 import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import type { NotificationCounts } from '@shared/schema';
 import { 
   Home, 
   Settings, 
   FileText, 
   Bell, 
   LogOut,
-  HelpCircle
+  HelpCircle,
+  Users,
+  BarChart3,
+  LayoutTemplate,
+  Type
 } from 'lucide-react';
 import { 
   Sidebar, 
@@ -16,6 +22,7 @@ import {
   SidebarHeader, 
   SidebarMenu, 
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarMenuItem,
   SidebarInset,
 } from '@/components/ui/sidebar';
@@ -28,10 +35,19 @@ interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
+const NOTIFICATION_COUNTS_KEY = '/api/notifications/counts';
+
 export function AdminLayout({ children }: AdminLayoutProps) {
   const [location, setLocation] = useLocation();
   const { theme } = useTheme();
 
+  // Polled so new notifications show up without a reload
+  const { data: notificationCounts } = useQuery<NotificationCounts>({
+    queryKey: [NOTIFICATION_COUNTS_KEY],
+    refetchInterval: 30000,
+  });
+  const unread = notificationCounts?.unread ?? 0;
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setLocation('/admin');
@@ -81,6 +97,47 @@ export function AdminLayout({ children }: AdminLayoutProps) {
                   <Bell className="h-4 w-4" />
                   <span>Notifications</span>
                 </SidebarMenuButton>
+                {unread > 0 && (
+                  <SidebarMenuBadge className="bg-blue-500 text-white" aria-label={`${unread} unread notifications`}>
+                    {unread > 99 ? '99+' : unread}
+                  </SidebarMenuBadge>
+                )}
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton 
+                  onClick={() => setLocation('/admin/reports')}
+                  isActive={location.startsWith('/admin/reports')}
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  <span>Reports</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton 
+                  onClick={() => setLocation('/admin/templates')}
+                  isActive={location.startsWith('/admin/templates')}
+                >
+                  <LayoutTemplate className="h-4 w-4" />
+                  <span>Templates</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton 
+                  onClick={() => setLocation('/admin/fonts')}
+                  isActive={location === '/admin/fonts'}
+                >
+                  <Type className="h-4 w-4" />
+                  <span>Fonts</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton 
+                  onClick={() => setLocation('/admin/team')}
+                  isActive={location === '/admin/team'}
+                >
+                  <Users className="h-4 w-4" />
+                  <span>Team</span>
+                </SidebarMenuButton>
               </SidebarMenuItem>
               <SidebarMenuItem>
                 <SidebarMenuButton 
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Bell, CheckCircle2, Mail } from 'lucide-react';
+import {
+  defaultNotificationPreferences,
+  digestFrequencies,
+  type DigestFrequency,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationType,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+
+const NOTIFICATION_PREFERENCES_KEY = '/api/notifications/preferences';
+
+const alertLabels: Record<NotificationType, { label: string; description: string }> = {
+  form_completed: {
+    label: "Form Completions",
+    description: "When a client completes their onboarding form",
+  },
+  section_completed: {
+    label: "Section Completions",
+    description: "When a client finishes a section of their form",
+  },
+  form_created: {
+    label: "New Form Created",
+    description: "When a team member creates a form",
+  },
+  reminder_sent: {
+    label: "Client Reminders",
+    description: "When a reminder is emailed to a client",
+  },
+  webhook_failed: {
+    label: "Webhook Failures",
+    description: "When a webhook delivery runs out of retries (admins only)",
+  },
+};
+
+const digestLabels: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+// The signed-in user's own preferences; each person on the team sets theirs
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(defaultNotificationPreferences);
+
+  const { data: savedPreferences, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: [NOTIFICATION_PREFERENCES_KEY],
+  });
+
+  useEffect(() => {
+    if (savedPreferences) setPreferences(savedPreferences);
+  }, [savedPreferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: NotificationPreferences) => {
+      const res = await apiRequest('PUT', NOTIFICATION_PREFERENCES_KEY, value);
+      return (await res.json()) as NotificationPreferences;
+    },
+    onSuccess: (value) => {
+      queryClient.setQueryData([NOTIFICATION_PREFERENCES_KEY], value);
+      toast({
+        title: "Preferences saved",
+        description: "Your notification preferences have been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving preferences",
+        description: getApiErrorMessage(error, "Failed to save your notification preferences."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (type: NotificationType, channel: NotificationChannel, checked: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      alerts: { ...prev.alerts, [type]: { ...prev.alerts[type], [channel]: checked } },
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Notification Preferences
+        </CardTitle>
+        <CardDescription>
+          Choose which alerts you get in the app and by email. These settings are yours; teammates set their own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 gap-y-5">
+          <span />
+          <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Bell className="w-3 h-3" />
+            In-app
+          </span>
+          <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Mail className="w-3 h-3" />
+            Email
+          </span>
+
+          {(Object.keys(alertLabels) as NotificationType[]).map((type) => (
+            <div key={type} className="contents">
+              <div className="space-y-0.5">
+                <Label>{alertLabels[type].label}</Label>
+                <p className="text-sm text-muted-foreground">{alertLabels[type].description}</p>
+              </div>
+              <Switch
+                aria-label={`${alertLabels[type].label} in-app`}
+                checked={preferences.alerts[type].inApp}
+                onCheckedChange={(checked) => toggle(type, 'inApp', checked)}
+                disabled={isLoading}
+              />
+              <Switch
+                aria-label={`${alertLabels[type].label} email`}
+                checked={preferences.alerts[type].email}
+                onCheckedChange={(checked) => toggle(type, 'email', checked)}
+                disabled={isLoading}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-4 border-t">
+          <div className="space-y-0.5">
+            <Label htmlFor="digest-frequency">Summary Reports</Label>
+            <p className="text-sm text-muted-foreground">
+              An email summary of form activity, with a link to the full report
+            </p>
+          </div>
+          <Select
+            value={preferences.digest}
+            onValueChange={(value) => setPreferences(prev => ({ ...prev, digest: value as DigestFrequency }))}
+            disabled={isLoading}
+          >
+            <SelectTrigger id="digest-frequency" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {digestFrequencies.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>{digestLabels[frequency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="pt-4">
+          <Button
+            className="gap-2"
+            onClick={() => saveMutation.mutate(preferences)}
+            disabled={isLoading || saveMutation.isPending}
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Preferences'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
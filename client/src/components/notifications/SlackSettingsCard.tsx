@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { CheckCircle2, Send, Slack } from 'lucide-react';
+import { defaultSlackSettings, type SlackNotificationType, type SlackSettings } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+
+const SLACK_SETTINGS_KEY = '/api/slack-settings';
+
+const alertLabels: Record<SlackNotificationType, { label: string; description: string }> = {
+  form_completed: {
+    label: "Form Completions",
+    description: "Post when a client completes their onboarding form",
+  },
+  section_completed: {
+    label: "Section Completions",
+    description: "Post when a client finishes a section",
+  },
+  webhook_failed: {
+    label: "Webhook Failures",
+    description: "Post when a webhook delivery runs out of retries",
+  },
+};
+
+// Team-wide: every alert that's switched on goes to the one incoming webhook
+export function SlackSettingsCard() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SlackSettings>(defaultSlackSettings);
+
+  const { data: savedSettings, isLoading } = useQuery<SlackSettings>({
+    queryKey: [SLACK_SETTINGS_KEY],
+  });
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: SlackSettings) => {
+      const res = await apiRequest('PUT', SLACK_SETTINGS_KEY, value);
+      return (await res.json()) as SlackSettings;
+    },
+    onSuccess: (value) => {
+      queryClient.setQueryData([SLACK_SETTINGS_KEY], value);
+      toast({
+        title: "Slack settings saved",
+        description: value.enabled ? "Alerts will be posted to Slack." : "Slack alerts are off.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving Slack settings",
+        description: getApiErrorMessage(error, "Failed to save the Slack settings."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Uses what's in the form, so the URL can be checked before saving
+  const testMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `${SLACK_SETTINGS_KEY}/test`, {
+      webhookUrl: settings.webhookUrl || undefined,
+      channel: settings.channel,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Test message sent",
+        description: "Check your Slack channel for the message.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Slack test failed",
+        description: getApiErrorMessage(error, "Failed to send the test message."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Slack className="w-5 h-5" />
+          Slack Integration
+        </CardTitle>
+        <CardDescription>
+          Send notifications directly to your Slack workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="slack-enabled">Enable Slack Notifications</Label>
+            <p className="text-sm text-muted-foreground">
+              Turn on Slack integration for your workspace
+            </p>
+          </div>
+          <Switch
+            id="slack-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => setSettings(prev => ({ ...prev, enabled: checked }))}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="slack-webhook">Slack Webhook URL</Label>
+          <Input
+            id="slack-webhook"
+            placeholder="https://hooks.slack.com/services/..."
+            value={settings.webhookUrl}
+            onChange={(e) => setSettings(prev => ({ ...prev, webhookUrl: e.target.value }))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Create an incoming webhook in your Slack app and paste its URL here
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="slack-channel">Channel Override (Optional)</Label>
+          <Input
+            id="slack-channel"
+            placeholder="#general"
+            value={settings.channel}
+            onChange={(e) => setSettings(prev => ({ ...prev, channel: e.target.value }))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Only legacy webhooks can post to another channel; newer ones use the channel they were created for
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {(Object.keys(alertLabels) as SlackNotificationType[]).map((type) => (
+            <div key={type} className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor={`slack-${type}`}>{alertLabels[type].label}</Label>
+                <p className="text-sm text-muted-foreground">
+                  {alertLabels[type].description}
+                </p>
+              </div>
+              <Switch
+                id={`slack-${type}`}
+                checked={settings.alerts[type]}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, alerts: { ...prev.alerts, [type]: checked } }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-4 flex gap-2">
+          <Button
+            className="gap-2"
+            onClick={() => saveMutation.mutate(settings)}
+            disabled={isLoading || saveMutation.isPending}
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Slack Settings'}
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => testMutation.mutate()}
+            disabled={!settings.webhookUrl || testMutation.isPending}
+          >
+            <Send className="w-4 h-4" />
+            {testMutation.isPending ? 'Sending...' : 'Send Test Message'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
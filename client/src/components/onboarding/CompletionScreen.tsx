@@ -1,6 +1,6 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, ThumbsUp, ArrowRight, Building, Globe, Phone, Mail, Palette } from 'lucide-react';
+import { CheckCircle, ThumbsUp, ArrowRight, Building, Globe, Phone, Mail, Palette, Download, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import confetti from 'canvas-confetti';
 import { useTheme } from '@/lib/theme-context';
@@ -10,11 +10,23 @@ interface CompletionScreenProps {
   formData?: any;
   onClose?: () => void;
   isAdmin?: boolean;
+  onDownloadSummary?: () => Promise<void>; // Shows the PDF summary button
 }
 
-export function CompletionScreen({ clientName, formData, onClose, isAdmin }: CompletionScreenProps) {
+export function CompletionScreen({ clientName, formData, onClose, isAdmin, onDownloadSummary }: CompletionScreenProps) {
   const confettiCanvasRef = useRef<HTMLCanvasElement>(null);
   const { theme } = useTheme();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownloadSummary = async () => {
+    if (!onDownloadSummary) return;
+    setIsDownloading(true);
+    try {
+      await onDownloadSummary();
+    } finally {
+      setIsDownloading(false);
+    }
+  };
 
   useEffect(() => {
     // Trigger confetti when component mounts
@@ -238,8 +250,19 @@ export function CompletionScreen({ clientName, formData, onClose, isAdmin }: Com
           initial={{ y: 20, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
           transition={{ delay: 0.6, duration: 0.5 }}
-          className="text-center mt-8 mb-6"
+          className="flex flex-wrap items-center justify-center gap-4 mt-8 mb-6"
         >
+          {onDownloadSummary && (
+            <Button
+              variant="outline"
+              onClick={handleDownloadSummary}
+              disabled={isDownloading}
+              className="px-8 py-6 text-lg rounded-xl font-medium"
+            >
+              {isDownloading ? <Loader2 className="mr-2 w-5 h-5 animate-spin" /> : <Download className="mr-2 w-5 h-5" />}
+              Download PDF Summary
+            </Button>
+          )}
           {isAdmin && onClose && (
             <Button 
               onClick={onClose}
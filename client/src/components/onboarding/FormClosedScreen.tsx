@@ -0,0 +1,37 @@
+import { motion } from 'framer-motion';
+import { Ban } from 'lucide-react';
+import { useTheme } from '@/lib/theme-context';
+
+interface FormClosedScreenProps {
+  clientName: string;
+}
+
+export function FormClosedScreen({ clientName }: FormClosedScreenProps) {
+  const { theme } = useTheme();
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`w-full max-w-md mx-auto px-6 py-10 rounded-2xl text-center ${
+          theme === 'dark'
+            ? 'bg-[#0d1116] border-gray-800/50'
+            : 'bg-white border-gray-200/70'
+        } backdrop-blur-lg border shadow-2xl`}
+      >
+        <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-gray-500/20 flex items-center justify-center">
+          <Ban className={`w-8 h-8 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`} />
+        </div>
+        <h1 className={`text-2xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-800'} mb-2`}>
+          This form is closed
+        </h1>
+        <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+          {clientName ? `The onboarding form for ${clientName}` : 'This onboarding form'} is no longer
+          accepting responses. If you think this is a mistake, please get in touch with your
+          <span className="text-emerald-400"> Sixty Seconds</span> contact.
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRight, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useTheme } from '@/lib/theme-context';
+
+interface FormLockScreenProps {
+  clientName: string;
+  onUnlock: (password: string) => Promise<void>;
+}
+
+export function FormLockScreen({ clientName, onUnlock }: FormLockScreenProps) {
+  const { theme } = useTheme();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onUnlock(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock form');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`w-full max-w-md mx-auto px-6 py-10 rounded-2xl ${
+          theme === 'dark'
+            ? 'bg-[#0d1116] border-gray-800/50'
+            : 'bg-white border-gray-200/70'
+        } backdrop-blur-lg border shadow-2xl`}
+      >
+        <div className="text-center mb-8">
+          <motion.div
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ delay: 0.2, duration: 0.5 }}
+            className="w-16 h-16 mx-auto mb-6 rounded-full bg-emerald-500/20 flex items-center justify-center"
+          >
+            <Lock className="w-8 h-8 text-emerald-400" />
+          </motion.div>
+
+          <h1 className={`text-2xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-800'} mb-2`}>
+            <span className="text-emerald-400">Sixty Seconds</span> Onboarding
+          </h1>
+          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+            {clientName ? `The form for ${clientName} is` : 'This form is'} password protected.
+            Enter the password you were given to continue.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            autoComplete="current-password"
+            disabled={isSubmitting}
+            className={theme === 'dark' ? 'bg-gray-800/50 border-gray-700 text-white' : ''}
+          />
+          {error && (
+            <p className="text-sm text-red-400" role="alert">{error}</p>
+          )}
+          <Button
+            type="submit"
+            disabled={!password || isSubmitting}
+            className="w-full py-5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-medium"
+          >
+            {isSubmitting ? 'Checking...' : 'Unlock Form'}
+            {!isSubmitting && <ArrowRight className="ml-2 w-4 h-4" />}
+          </Button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,1028 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import {
+  AlertCircle, Building2, Calendar, FileText, FileUp, FormInput, Globe, Hash, Info, Mail, MessageSquare,
+  Loader2, Palette, Phone, Plus, Settings, Target, Type, Users, X, type LucideIcon,
+} from 'lucide-react';
+import {
+  fileAnswerSchema, fontCategories, FONT_FILE_ACCEPT,
+  type BrandAsset, type CatalogueFont, type FileAnswer, type FontCategory, type FormField, type FormFieldType, type FormFonts, type FormSectionIcon, type FormTemplateSection,
+} from '@shared/schema';
+import {
+  countAnsweredFields, getActiveFields, getFieldSuggestions, getOptionLabel, inferFieldValue, isBlankAnswer, toAnswerList, type FormAnswers,
+} from '@shared/formTemplate';
+import { findCatalogueFont, getFontPairings, getFontStack, normalizeFontName } from '@shared/fonts';
+import {
+  checkPaletteContrast, generateShadeRamp, getReadableTextColor, parseHex, shadeSteps, type ContrastLevel, type PaletteColor,
+} from '@shared/colors';
+import { useTheme } from '@/lib/theme-context';
+import { loadCatalogueFonts } from '@/lib/fonts';
+
+// Renders one section of a form template. It holds no answers of its own: the onboarding
+// form passes them in and saves whatever comes back through onChange.
+
+export const sectionIcons: Record<FormSectionIcon, LucideIcon> = {
+  building: Building2,
+  target: Target,
+  users: Users,
+  type: Type,
+  palette: Palette,
+  settings: Settings,
+  file: FileText,
+  message: MessageSquare,
+};
+
+const fieldIcons: Partial<Record<FormFieldType, LucideIcon>> = {
+  textarea: MessageSquare,
+  email: Mail,
+  phone: Phone,
+  url: Globe,
+  number: Hash,
+  date: Calendar,
+  select: Target,
+};
+
+// Fields that get the whole row rather than half of it
+const wideFieldTypes: FormFieldType[] = ['textarea', 'multiselect', 'font', 'file'];
+
+const inputTypes: Partial<Record<FormFieldType, string>> = {
+  email: 'email',
+  phone: 'tel',
+  url: 'url',
+  number: 'number',
+  date: 'date',
+};
+
+const fadeInUp = {
+  hidden: { opacity: 0, y: 20 },
+  visible: { opacity: 1, y: 0, transition: { type: "spring", stiffness: 100, damping: 15, mass: 1 } },
+  exit: { opacity: 0, y: -20, transition: { duration: 0.2, ease: "easeOut" } },
+};
+
+// Uploads for file and font fields. Without them, as in template previews, a chosen file is only shown.
+export interface FileHandlers {
+  upload: (fieldKey: string, file: File) => Promise<BrandAsset>;
+  // An object URL for the file's thumbnail, or null when it has none
+  preview: (answer: FileAnswer) => Promise<string | null>;
+  // The main colours of an uploaded image
+  palette: (answer: FileAnswer) => Promise<string[]>;
+}
+
+interface TemplateFieldProps {
+  field: FormField;
+  value: unknown;
+  formData: FormAnswers;
+  error?: string;
+  touched?: boolean;
+  files?: FileHandlers;
+  fonts?: FormFonts;
+  // For font fields: the fonts chosen in the section's other font fields
+  pairWith?: string[];
+  onChange: (value: unknown) => void;
+  onBlur: () => void;
+}
+
+export function TemplateField({ field, value, formData, error, touched, files, fonts, pairWith, onChange, onBlur }: TemplateFieldProps) {
+  const { theme } = useTheme();
+  const hasError = !!(touched && error);
+  const inputId = `field-${field.key}`;
+
+  return (
+    <div className="group space-y-2">
+      <label htmlFor={inputId} className={`block text-sm font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'} flex items-center justify-between`}>
+        <span className="flex items-center">
+          {field.label}
+          {field.validation?.required && <span className="ml-1 text-emerald-500">*</span>}
+          {field.helpText && !hasError && (
+            <span className={`ml-2 ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'} cursor-help`} title={field.helpText}>
+              <Info className="w-3.5 h-3.5" />
+            </span>
+          )}
+        </span>
+        {hasError && (
+          <span className="text-red-500 text-xs flex items-center animate-fadeIn">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            {error}
+          </span>
+        )}
+      </label>
+
+      <FieldInput field={field} value={value} inputId={inputId} hasError={hasError} isValid={!!touched && !error && !isBlankAnswer(value)}
+        files={files}
+        fonts={fonts}
+        pairWith={pairWith}
+        onChange={onChange}
+        onBlur={onBlur}
+      />
+
+      <Inference field={field} value={value} formData={formData} onChange={onChange} />
+      <Suggestions field={field} value={value} formData={formData} onChange={onChange} />
+    </div>
+  );
+}
+
+interface FieldInputProps {
+  field: FormField;
+  value: unknown;
+  inputId: string;
+  hasError: boolean;
+  isValid: boolean;
+  files?: FileHandlers;
+  fonts?: FormFonts;
+  pairWith?: string[];
+  onChange: (value: unknown) => void;
+  onBlur: () => void;
+}
+
+function FieldInput(props: FieldInputProps) {
+  switch (props.field.type) {
+    case 'multiselect':
+      return <MultiSelectInput {...props} />;
+    case 'font':
+      return props.field.options?.length ? <FontOptionsInput {...props} /> : <FontCatalogueInput {...props} />;
+    case 'color':
+      return <ColorInput {...props} />;
+    case 'file':
+      return <FileInput {...props} />;
+    default:
+      return <BoxedInput {...props} />;
+  }
+}
+
+// Text-like inputs and single selects, with the icon block down the left
+function BoxedInput({ field, value, inputId, hasError, isValid, onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const Icon = fieldIcons[field.type] ?? FormInput;
+  const text = typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+
+  const borderClasses = hasError
+    ? 'border-red-400 focus-within:border-red-400 focus-within:ring-red-400'
+    : isValid
+      ? 'border-emerald-500/50 shadow-sm shadow-emerald-500/10'
+      : theme === 'dark' ? 'border-gray-700' : 'border-gray-300';
+
+  const iconContainerClasses = hasError
+    ? theme === 'dark' ? 'bg-red-900/20' : 'bg-red-100'
+    : isValid
+      ? theme === 'dark' ? 'bg-emerald-900/20' : 'bg-emerald-100'
+      : theme === 'dark' ? 'bg-gray-700/50' : 'bg-gray-100';
+
+  const iconClasses = hasError
+    ? 'text-red-400'
+    : isValid
+      ? 'text-emerald-500'
+      : theme === 'dark' ? 'text-gray-500 group-hover:text-emerald-400' : 'text-gray-600 group-hover:text-emerald-600';
+
+  const controlClasses = `w-full h-full py-3 pl-20 pr-4 bg-transparent ${theme === 'dark' ? 'text-gray-200 placeholder:text-gray-500' : 'text-gray-800 placeholder:text-gray-400'} focus:outline-none transition-all duration-200`;
+
+  return (
+    <div className={`relative border rounded-lg overflow-hidden ${theme === 'dark' ? 'bg-gray-800/50 hover:border-gray-600' : 'bg-white hover:border-gray-400'} transition-all duration-200 focus-within:ring-1 focus-within:ring-emerald-500 focus-within:border-emerald-500 ${borderClasses}`}>
+      <div
+        aria-hidden="true"
+        className={`absolute top-0 bottom-0 left-0 w-16 flex items-center justify-center ${iconContainerClasses} border-r ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'} rounded-l-lg transition-colors duration-200`}
+      >
+        <Icon className={`w-4 h-4 ${iconClasses} transition-colors duration-200`} />
+      </div>
+
+      {field.type === 'select' ? (
+        <select
+          id={inputId}
+          value={text}
+          onChange={e => onChange(e.target.value)}
+          onBlur={onBlur}
+          className={`${controlClasses} pr-10 appearance-none`}
+          aria-invalid={hasError}
+        >
+          <option value="" disabled>{field.placeholder || `Select ${field.label.toLowerCase()}`}</option>
+          {field.options?.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      ) : field.type === 'textarea' ? (
+        <textarea
+          id={inputId}
+          value={text}
+          rows={4}
+          onChange={e => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          className={`${controlClasses} resize-y`}
+          aria-invalid={hasError}
+        />
+      ) : (
+        <input
+          id={inputId}
+          type={inputTypes[field.type] ?? 'text'}
+          value={text}
+          onChange={e => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          className={controlClasses}
+          aria-invalid={hasError}
+        />
+      )}
+    </div>
+  );
+}
+
+function chipClasses(selected: boolean, dark: boolean) {
+  if (selected) {
+    return dark ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'bg-emerald-50 border-emerald-500 text-emerald-700';
+  }
+  return dark ? 'bg-gray-800/50 border-gray-700 text-gray-300 hover:border-emerald-500/50' : 'bg-white border-gray-300 text-gray-700 hover:border-emerald-400';
+}
+
+// Options as toggles; answers outside the options (from "Other") are listed too so they can be removed
+function MultiSelectInput({ field, value, inputId, onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+  const selected = toAnswerList(value);
+  const [otherValue, setOtherValue] = useState('');
+  const [showOther, setShowOther] = useState(false);
+  const others = selected.filter(item => !field.options?.some(option => option.value === item));
+
+  const toggle = (item: string) => {
+    onChange(selected.includes(item) ? selected.filter(existing => existing !== item) : [...selected, item]);
+    onBlur();
+  };
+
+  const addOther = () => {
+    const item = otherValue.trim();
+    if (item && !selected.includes(item)) onChange([...selected, item]);
+    setOtherValue('');
+    setShowOther(false);
+    onBlur();
+  };
+
+  return (
+    <div id={inputId} className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {field.options?.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${chipClasses(selected.includes(option.value), dark)}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {others.map(item => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => toggle(item)}
+            className={`px-3 py-1.5 rounded-full border text-sm flex items-center gap-1 transition-colors ${chipClasses(true, dark)}`}
+          >
+            {item} <X className="w-3 h-3" />
+          </button>
+        ))}
+        {field.allowOther && !showOther && (
+          <button
+            type="button"
+            onClick={() => setShowOther(true)}
+            className={`px-3 py-1.5 rounded-full border border-dashed text-sm flex items-center gap-1 transition-colors ${chipClasses(false, dark)}`}
+          >
+            <Plus className="w-3 h-3" /> Other
+          </button>
+        )}
+      </div>
+      {showOther && (
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            value={otherValue}
+            onChange={e => setOtherValue(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addOther();
+              }
+            }}
+            placeholder="Type another option"
+            className={`flex-1 px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500 ${dark ? 'bg-gray-800/50 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-800'}`}
+          />
+          <button type="button" onClick={addOther} className="px-3 py-2 rounded-lg text-sm bg-emerald-600 hover:bg-emerald-700 text-white">
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Each font option is shown in that font. With allowOther, any other font name can be typed in.
+// Fonts listed by the template itself
+function FontOptionsInput({ field, value, inputId, onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+  const text = typeof value === 'string' ? value : '';
+  const isCustom = text !== '' && !field.options?.some(option => option.value === text);
+  const [showCustom, setShowCustom] = useState(isCustom);
+
+  const choose = (font: string) => {
+    setShowCustom(false);
+    onChange(font);
+    onBlur();
+  };
+
+  return (
+    <div id={inputId} className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {field.options?.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => choose(option.value)}
+            className={`p-3 rounded-lg border text-left transition-colors ${chipClasses(text === option.value, dark)}`}
+          >
+            <span className="block text-base" style={{ fontFamily: option.value }}>{option.label}</span>
+            <span className={`block text-xs mt-1 ${dark ? 'text-gray-500' : 'text-gray-400'}`} style={{ fontFamily: option.value }}>Aa Bb Cc 123</span>
+          </button>
+        ))}
+        {field.allowOther && (
+          <button
+            type="button"
+            onClick={() => setShowCustom(true)}
+            className={`p-3 rounded-lg border border-dashed text-left text-sm transition-colors ${chipClasses(showCustom || isCustom, dark)}`}
+          >
+            <Plus className="w-4 h-4 mb-1" /> Custom font
+          </button>
+        )}
+      </div>
+      {(showCustom || isCustom) && (
+        <input
+          value={isCustom ? text : ''}
+          onChange={e => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder="Enter the font name"
+          className={`w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500 ${dark ? 'bg-gray-800/50 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-800'}`}
+        />
+      )}
+    </div>
+  );
+}
+
+const fontCategoryLabels: Record<FontCategory, string> = {
+  'sans-serif': 'Sans serif',
+  serif: 'Serif',
+  display: 'Display',
+  handwriting: 'Handwriting',
+  monospace: 'Monospace',
+};
+
+// How many catalogue fonts to show at once; searching narrows them down
+const FONT_RESULTS = 12;
+
+// The font catalogue, searchable by name and category, with the client's own font files
+// above it. Fonts that pair with those chosen in the other font fields are suggested first.
+function FontCatalogueInput({ field, value, inputId, files, fonts, pairWith = [], onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+  const text = typeof value === 'string' ? value : '';
+  const catalogue = fonts?.catalogue ?? [];
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<FontCategory | null>(null);
+  const [showCustom, setShowCustom] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Each uploaded family once, with the styles its files cover
+  const uploaded = new Map<string, string[]>();
+  for (const font of fonts?.uploaded ?? []) {
+    uploaded.set(font.family, [...(uploaded.get(font.family) ?? []), font.subfamily]);
+  }
+  const selectedFont = findCatalogueFont(catalogue, text);
+  const selectedUpload = Array.from(uploaded.keys()).find(family => normalizeFontName(family) === normalizeFontName(text));
+  const isCustom = text !== '' && !selectedFont && !selectedUpload;
+
+  const suggested = new Map<string, CatalogueFont>();
+  for (const family of pairWith) {
+    for (const font of getFontPairings(catalogue, family)) suggested.set(font.id, font);
+  }
+  const query = normalizeFontName(search);
+  const matches = catalogue.filter(font => (!category || font.category === category) && (!query || normalizeFontName(font.family).includes(query)));
+  const shown = matches.slice(0, FONT_RESULTS);
+
+  const toLoad = [...shown, ...Array.from(suggested.values()), ...(selectedFont ? [selectedFont] : [])];
+  useEffect(() => {
+    loadCatalogueFonts(toLoad);
+  }, [toLoad.map(font => font.family).join()]);
+
+  const choose = (family: string) => {
+    setShowCustom(false);
+    onChange(family);
+    onBlur();
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!files || chosen.length === 0) return;
+    setUploadError(null);
+    setUploading(true);
+    try {
+      // Regular, bold, italic... usually arrive together; the answer is their family
+      let family: string | undefined;
+      for (const file of chosen) {
+        const asset = await files.upload(field.key, file);
+        family ??= asset.font?.family;
+      }
+      if (family) choose(family);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload the font');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const fontButton = (family: string, detail: string, stack: string, key: string = family) => (
+    <button
+      key={key}
+      type="button"
+      onClick={() => choose(family)}
+      className={`p-3 rounded-lg border text-left transition-colors ${chipClasses(normalizeFontName(text) === normalizeFontName(family), dark)}`}
+    >
+      <span className="block text-base truncate" style={{ fontFamily: stack }}>{family}</span>
+      <span className={`block text-xs mt-1 truncate ${dark ? 'text-gray-500' : 'text-gray-400'}`}>{detail}</span>
+    </button>
+  );
+  const headingClasses = `text-xs font-medium uppercase tracking-wide ${dark ? 'text-gray-500' : 'text-gray-400'}`;
+  const inputClasses = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500 ${dark ? 'bg-gray-800/50 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-800'}`;
+
+  return (
+    <div id={inputId} className="space-y-4">
+      {uploaded.size > 0 && (
+        <div className="space-y-2">
+          <p className={headingClasses}>Your fonts</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {Array.from(uploaded).map(([family, styles]) => fontButton(family, styles.join(', '), getFontStack(family)))}
+          </div>
+        </div>
+      )}
+
+      {suggested.size > 0 && (
+        <div className="space-y-2">
+          <p className={headingClasses}>Pairs well with {pairWith.join(' and ')}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {Array.from(suggested.values()).map(font => fontButton(font.family, fontCategoryLabels[font.category], getFontStack(font.family, font.category), `pair-${font.id}`))}
+          </div>
+        </div>
+      )}
+
+      {catalogue.length > 0 && (
+        <div className="space-y-2">
+          <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search fonts" className={inputClasses} />
+          <div className="flex flex-wrap gap-1.5">
+            {[null, ...fontCategories].map(option => (
+              <button
+                key={option ?? 'all'}
+                type="button"
+                onClick={() => setCategory(option)}
+                className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${chipClasses(category === option, dark)}`}
+              >
+                {option ? fontCategoryLabels[option] : 'All'}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {shown.map(font => fontButton(font.family, fontCategoryLabels[font.category], getFontStack(font.family, font.category)))}
+          </div>
+          {matches.length === 0 && <p className={`text-sm ${dark ? 'text-gray-500' : 'text-gray-400'}`}>No fonts match. You can enter or upload your own.</p>}
+          {matches.length > shown.length && (
+            <p className={`text-xs ${dark ? 'text-gray-500' : 'text-gray-400'}`}>{matches.length - shown.length} more. Search to narrow them down.</p>
+          )}
+        </div>
+      )}
+
+      {(field.allowOther || catalogue.length === 0) && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setShowCustom(true)}
+            className={`flex items-center gap-1 px-3 py-2 rounded-lg border border-dashed text-sm transition-colors ${chipClasses(showCustom || isCustom, dark)}`}
+          >
+            <Plus className="w-4 h-4" /> Enter a font name
+          </button>
+          {files && (
+            <label className={`flex items-center gap-1 px-3 py-2 rounded-lg border border-dashed text-sm transition-colors ${uploading ? 'cursor-wait' : 'cursor-pointer'} ${chipClasses(false, dark)}`}>
+              {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+              {uploading ? 'Uploading…' : 'Upload font files'}
+              <input type="file" multiple accept={FONT_FILE_ACCEPT} onChange={handleFiles} disabled={uploading} className="hidden" />
+            </label>
+          )}
+        </div>
+      )}
+      {uploadError && <p className="text-red-500 text-xs">{uploadError}</p>}
+      {(showCustom || isCustom) && (
+        <input value={isCustom ? text : ''} onChange={e => onChange(e.target.value)} onBlur={onBlur} placeholder="Enter the font name" className={inputClasses} />
+      )}
+
+      {text && (
+        <div className={`rounded-lg border p-4 ${dark ? 'border-gray-700 bg-gray-800/30 text-gray-200' : 'border-gray-200 bg-gray-50 text-gray-800'}`} style={{ fontFamily: getFontStack(text, selectedFont?.category) }}>
+          <p className="text-2xl">{text}</p>
+          <p className="text-sm mt-1">The quick brown fox jumps over the lazy dog. 0123456789</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ColorInput({ value, inputId, onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="color"
+        aria-label="Pick a color"
+        value={/^#[0-9a-f]{6}$/i.test(text) ? text : '#000000'}
+        onChange={e => onChange(e.target.value.toUpperCase())}
+        onBlur={onBlur}
+        className="w-12 h-12 rounded-lg border-0 cursor-pointer bg-transparent"
+      />
+      <input
+        id={inputId}
+        value={text}
+        onChange={e => onChange(e.target.value)}
+        onBlur={onBlur}
+        placeholder="#10B981"
+        className={`flex-1 px-3 py-2 rounded-lg border font-mono text-sm uppercase focus:outline-none focus:ring-1 focus:ring-emerald-500 ${theme === 'dark' ? 'bg-gray-800/50 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-800'}`}
+      />
+    </div>
+  );
+}
+
+// Uploads the chosen file and saves the server's reference to it as the answer
+function FileInput({ field, value, inputId, files, onChange, onBlur }: FieldInputProps) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+  const parsed = fileAnswerSchema.safeParse(value);
+  const answer = parsed.success ? parsed.data : null;
+  const [chosen, setChosen] = useState<{ name: string; preview: string | null } | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!files || !answer) return;
+    let url: string | null = null;
+    let cancelled = false;
+    files.preview(answer)
+      .then(result => {
+        url = result;
+        if (cancelled && url) URL.revokeObjectURL(url);
+        else setPreview(url);
+      })
+      .catch(() => setPreview(null));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setPreview(null);
+    };
+  }, [files, answer?.assetId]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploadError(null);
+
+    if (!files) {
+      if (!file.type.startsWith('image/')) {
+        setChosen({ name: file.name, preview: null });
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => setChosen({ name: file.name, preview: reader.result as string });
+      reader.readAsDataURL(file);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const asset = await files.upload(field.key, file);
+      const uploaded: FileAnswer = { assetId: asset.id, name: asset.file_name, contentType: asset.content_type };
+      onChange(uploaded);
+      onBlur();
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload the file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const name = answer?.name ?? chosen?.name;
+  const image = files ? preview : chosen?.preview;
+
+  return (
+    <div className="space-y-1">
+      <div className={`flex items-center gap-4 p-4 rounded-lg border-2 border-dashed transition-colors ${dark ? 'border-gray-700 bg-gray-800/30' : 'border-gray-300 bg-gray-50'}`}>
+        <label htmlFor={inputId} className={`flex flex-1 min-w-0 items-center gap-4 ${uploading ? 'cursor-wait' : 'cursor-pointer'}`}>
+          {uploading ? (
+            <Loader2 className="w-8 h-8 text-emerald-500 animate-spin" />
+          ) : image ? (
+            <img src={image} alt="" className="w-16 h-16 object-contain rounded" />
+          ) : (
+            <FileUp className={`w-8 h-8 ${dark ? 'text-gray-500' : 'text-gray-400'}`} />
+          )}
+          <span className={`text-sm truncate ${dark ? 'text-gray-400' : 'text-gray-600'}`}>
+            {uploading ? 'Uploading…' : name ?? 'Click to choose a file'}
+          </span>
+          <input id={inputId} type="file" accept={field.accept} onChange={handleFile} disabled={uploading} className="hidden" />
+        </label>
+        {answer && !uploading && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className={`p-1 rounded ${dark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'}`}
+            aria-label={`Remove ${answer.name}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {uploadError && <p className="text-red-500 text-xs">{uploadError}</p>}
+    </div>
+  );
+}
+
+// "Based on your answers" banner for fields that can be guessed from another answer
+function Inference({ field, value, formData, onChange }: Pick<TemplateFieldProps, 'field' | 'value' | 'formData' | 'onChange'>) {
+  const { theme } = useTheme();
+  const inferred = isBlankAnswer(value) ? inferFieldValue(field, formData) : null;
+  if (!inferred) return null;
+
+  return (
+    <div className={`p-3 rounded-lg border ${theme === 'dark' ? 'border-blue-500/30 bg-blue-900/10' : 'border-blue-300 bg-blue-50'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <span className={`text-sm ${theme === 'dark' ? 'text-blue-300' : 'text-blue-700'}`}>
+          Based on your earlier answers, this looks like <strong>{getOptionLabel(field, inferred)}</strong>
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(inferred)}
+          className={`text-xs px-3 py-1 rounded ${theme === 'dark' ? 'bg-blue-500/20 text-blue-400 hover:bg-blue-500/30' : 'bg-blue-100 text-blue-700 hover:bg-blue-200'} transition-colors`}
+        >
+          Use This
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Clicking a suggestion adds a line to a textarea, adds a choice to a multiselect, and
+// fills in any other (blank) field
+function Suggestions({ field, value, formData, onChange }: Pick<TemplateFieldProps, 'field' | 'value' | 'formData' | 'onChange'>) {
+  const { theme } = useTheme();
+  const all = getFieldSuggestions(field, formData);
+  if (all.length === 0) return null;
+
+  let remaining: string[];
+  let apply: (suggestion: string) => void;
+  if (field.type === 'textarea') {
+    const text = typeof value === 'string' ? value : '';
+    const lines = text.split('\n').map(line => line.trim());
+    remaining = all.filter(suggestion => !lines.includes(suggestion));
+    apply = suggestion => onChange(text.trim() ? `${text.trimEnd()}\n${suggestion}` : suggestion);
+  } else if (field.type === 'multiselect') {
+    const selected = toAnswerList(value);
+    remaining = all.filter(suggestion => !selected.includes(suggestion));
+    apply = suggestion => onChange([...selected, suggestion]);
+  } else {
+    remaining = isBlankAnswer(value) ? all : [];
+    apply = suggestion => onChange(suggestion);
+  }
+  if (remaining.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>{field.suggestions?.label ?? 'Suggestions'}</p>
+      <div className="flex flex-wrap gap-2">
+        {remaining.map(suggestion => (
+          <button
+            key={suggestion}
+            type="button"
+            onClick={() => apply(suggestion)}
+            className={`px-2.5 py-1 rounded-md text-xs flex items-center gap-1 transition-colors ${theme === 'dark' ? 'bg-gray-800 text-gray-300 hover:bg-emerald-500/20 hover:text-emerald-300' : 'bg-gray-100 text-gray-700 hover:bg-emerald-50 hover:text-emerald-700'}`}
+          >
+            <Plus className="w-3 h-3" /> {suggestion}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Consecutive fields with the same group go under one heading
+function groupFields(fields: FormField[]) {
+  const groups: { name?: string; fields: FormField[] }[] = [];
+  for (const field of fields) {
+    const last = groups[groups.length - 1];
+    if (last && last.name === field.group) {
+      last.fields.push(field);
+    } else {
+      groups.push({ name: field.group, fields: [field] });
+    }
+  }
+  return groups;
+}
+
+// Under a section's colour fields: how readable each colour is on the others and on white,
+// with a close colour that passes for any that don't, the tints and shades of each colour,
+// and colours picked out of the logo
+function ColorPaletteCheck({ colors, logo, files, onChange }: {
+  colors: PaletteColor[];
+  logo: FileAnswer | null;
+  files?: FileHandlers;
+  onChange: (fieldKey: string, value: unknown) => void;
+}) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+  const [logoColors, setLogoColors] = useState<string[] | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const [extractError, setExtractError] = useState<string | null>(null);
+
+  // A new logo needs its own suggestions
+  useEffect(() => {
+    setLogoColors(null);
+    setExtractError(null);
+  }, [logo?.assetId]);
+
+  const valid = colors.filter(color => parseHex(color.value));
+  const pairings = checkPaletteContrast(valid);
+  const canExtract = !!files && !!logo && logo.contentType.startsWith('image/');
+  if (valid.length === 0 && !canExtract) return null;
+
+  const extract = async () => {
+    if (!files || !logo) return;
+    setExtracting(true);
+    setExtractError(null);
+    try {
+      setLogoColors(await files.palette(logo));
+    } catch (error) {
+      setExtractError(error instanceof Error ? error.message : 'Failed to read the logo');
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const levelClasses = (level: ContrastLevel) => {
+    if (level === 'Fail') return dark ? 'bg-red-500/20 text-red-300' : 'bg-red-100 text-red-700';
+    if (level === 'AA Large') return dark ? 'bg-amber-500/20 text-amber-300' : 'bg-amber-100 text-amber-700';
+    return dark ? 'bg-emerald-500/20 text-emerald-300' : 'bg-emerald-100 text-emerald-700';
+  };
+
+  return (
+    <div className={`space-y-4 p-4 rounded-lg border ${dark ? 'border-gray-700 bg-gray-800/30' : 'border-gray-200 bg-gray-50'}`}>
+      {canExtract && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <p className={`text-sm font-medium ${dark ? 'text-gray-200' : 'text-gray-800'}`}>Colours from your logo</p>
+            {!logoColors && (
+              <button
+                type="button"
+                onClick={extract}
+                disabled={extracting}
+                className={`text-xs px-3 py-1 rounded flex items-center gap-1 ${dark ? 'bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30' : 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200'} transition-colors`}
+              >
+                {extracting && <Loader2 className="w-3 h-3 animate-spin" />}
+                Suggest Colours
+              </button>
+            )}
+          </div>
+          {logoColors && logoColors.length === 0 && (
+            <p className={`text-xs ${dark ? 'text-gray-400' : 'text-gray-500'}`}>We couldn't find any colours in your logo.</p>
+          )}
+          {logoColors && logoColors.length > 0 && (
+            <div className="flex items-center gap-3">
+              <div className="flex gap-1">
+                {logoColors.map(color => (
+                  <span key={color} title={color} className="w-8 h-8 rounded-md border border-black/10" style={{ backgroundColor: color }} />
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => colors.forEach((color, index) => logoColors[index] && onChange(color.key, logoColors[index]))}
+                className={`text-xs px-3 py-1 rounded ${dark ? 'bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30' : 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200'} transition-colors`}
+              >
+                Use These
+              </button>
+            </div>
+          )}
+          {extractError && <p className="text-red-500 text-xs">{extractError}</p>}
+        </div>
+      )}
+
+      {pairings.length > 0 && (
+        <div className="space-y-2">
+          <p className={`text-sm font-medium ${dark ? 'text-gray-200' : 'text-gray-800'}`}>Text contrast</p>
+          {pairings.map(pairing => (
+            <div key={`${pairing.foreground.key}-${pairing.background.key}`} className="flex flex-wrap items-center gap-3 text-sm">
+              <span
+                className="w-10 h-8 rounded-md border border-black/10 flex items-center justify-center font-semibold"
+                style={{ backgroundColor: pairing.background.value, color: pairing.foreground.value }}
+              >
+                Aa
+              </span>
+              <span className={dark ? 'text-gray-300' : 'text-gray-700'}>
+                {pairing.foreground.label} on {pairing.background.label.toLowerCase()}
+              </span>
+              <span className={`font-mono text-xs ${dark ? 'text-gray-400' : 'text-gray-500'}`}>{pairing.ratio.toFixed(1)}:1</span>
+              <span className={`text-xs px-2 py-0.5 rounded-full ${levelClasses(pairing.level)}`}>{pairing.level}</span>
+              {pairing.level === 'AA Large' && (
+                <span className={`text-xs ${dark ? 'text-amber-300' : 'text-amber-700'}`}>Only for large text</span>
+              )}
+              {pairing.level === 'Fail' && (
+                <span className={`flex items-center gap-1 text-xs ${dark ? 'text-red-300' : 'text-red-600'}`}>
+                  <AlertCircle className="w-3 h-3" />
+                  Hard to read
+                </span>
+              )}
+              {pairing.suggestion && (
+                <button
+                  type="button"
+                  onClick={() => onChange(pairing.foreground.key, pairing.suggestion)}
+                  className={`text-xs px-2 py-0.5 rounded flex items-center gap-1 ${dark ? 'bg-gray-800 text-gray-300 hover:bg-emerald-500/20 hover:text-emerald-300' : 'bg-white border border-gray-200 text-gray-700 hover:bg-emerald-50 hover:text-emerald-700'} transition-colors`}
+                >
+                  <span className="w-3 h-3 rounded-sm border border-black/10" style={{ backgroundColor: pairing.suggestion }} />
+                  Use {pairing.suggestion}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {valid.length > 0 && (
+        <div className="space-y-2">
+          <p className={`text-sm font-medium ${dark ? 'text-gray-200' : 'text-gray-800'}`}>Tints and shades</p>
+          {valid.map(color => {
+            const ramp = generateShadeRamp(color.value)!;
+            return (
+              <div key={color.key} className="flex items-center gap-3">
+                <span className={`w-24 shrink-0 text-xs ${dark ? 'text-gray-400' : 'text-gray-600'}`}>{color.label}</span>
+                <div className="flex flex-1 rounded-md overflow-hidden border border-black/10">
+                  {shadeSteps.map(step => (
+                    <span
+                      key={step}
+                      title={`${step}: ${ramp[step]}`}
+                      className="flex-1 h-8 flex items-end justify-center pb-0.5 text-[10px]"
+                      style={{ backgroundColor: ramp[step], color: getReadableTextColor(ramp[step]) }}
+                    >
+                      {step}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TemplateSectionProps {
+  section: FormTemplateSection;
+  answers: Record<string, unknown>;
+  // Every section's answers, for suggestions and guesses that depend on other sections
+  formData: FormAnswers;
+  errors: Record<string, string>;
+  touched: Record<string, boolean>;
+  onChange: (fieldKey: string, value: unknown) => void;
+  onBlur: (fieldKey: string) => void;
+  // Shown beside the title, e.g. the share button
+  actions?: ReactNode;
+  // Shown under the title, e.g. the autosave status
+  status?: ReactNode;
+  files?: FileHandlers;
+  fonts?: FormFonts;
+}
+
+export function TemplateSection({ section, answers, formData, errors, touched, onChange, onBlur, actions, status, files, fonts }: TemplateSectionProps) {
+  const { theme } = useTheme();
+  const dark = theme === 'dark';
+
+  // Only the fields the rules show for the answers so far
+  const data = { ...formData, [section.key]: answers };
+  const fields = getActiveFields(section, data);
+  const answerable = fields.length;
+  const answered = countAnsweredFields(section, answers, data);
+
+  // Font fields suggest pairings for the fonts chosen in the others
+  const chosenFonts = fields.filter(field => field.type === 'font' && typeof answers[field.key] === 'string' && answers[field.key] !== '');
+  const pairWith = (fieldKey: string) => chosenFonts.filter(field => field.key !== fieldKey).map(field => String(answers[field.key]));
+
+  // Presets go after the group holding the last field they set
+  const presetKeys = new Set(section.presets?.options.flatMap(option => Object.keys(option.values)) ?? []);
+  const groups = groupFields(fields);
+  const presetGroup = section.presets
+    ? Math.max(0, ...groups.map((group, index) => group.fields.some(field => presetKeys.has(field.key)) ? index : 0))
+    : -1;
+
+  // The colour check goes after the group holding the last colour field, under any presets.
+  // It reads the logo from the section's first image upload.
+  const colorFields = fields.filter(field => field.type === 'color');
+  const colorGroup = colorFields.length > 0
+    ? Math.max(0, ...groups.map((group, index) => group.fields.some(field => field.type === 'color') ? index : 0))
+    : -1;
+  const paletteColors: PaletteColor[] = colorFields.map(field => ({ key: field.key, label: field.label, value: String(answers[field.key] ?? '') }));
+  const logo = fields
+    .filter(field => field.type === 'file')
+    .map(field => fileAnswerSchema.safeParse(answers[field.key]))
+    .flatMap(parsed => parsed.success && parsed.data.contentType.startsWith('image/') ? [parsed.data] : [])[0] ?? null;
+
+  return (
+    <motion.div variants={fadeInUp} initial="hidden" animate="visible" exit="exit" className="w-full space-y-8">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className={`text-2xl font-bold ${dark ? 'text-white' : 'text-gray-800'}`} id={`section-${section.slug}`}>{section.title}</h2>
+          {section.description && <p className={`mt-1 ${dark ? 'text-gray-400' : 'text-gray-600'}`}>{section.description}</p>}
+          {status}
+        </div>
+        {actions}
+      </div>
+
+      {section.tips && section.tips.length > 0 && (
+        <div className={`p-4 rounded-xl border ${dark ? 'border-emerald-500/30 bg-emerald-900/10' : 'border-emerald-300 bg-emerald-50'}`}>
+          <div className="flex items-start gap-3">
+            <div className={`p-2 rounded-lg ${dark ? 'bg-emerald-500/20' : 'bg-emerald-100'}`}>
+              <Info className={`w-4 h-4 ${dark ? 'text-emerald-400' : 'text-emerald-600'}`} />
+            </div>
+            <div className="flex-1">
+              <h3 className={`text-sm font-semibold ${dark ? 'text-emerald-400' : 'text-emerald-700'} mb-1`}>Quick Tips</h3>
+              <ul className={`text-sm space-y-1 ${dark ? 'text-emerald-300/80' : 'text-emerald-600/80'}`}>
+                {section.tips.map(tip => <li key={tip}>• {tip}</li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className={`${dark ? 'bg-gray-900/70 border-gray-800' : 'bg-white border-gray-200'} w-full rounded-lg p-6 shadow-lg border border-l-4 border-l-emerald-500 mt-2 mb-8 relative z-10 space-y-8`}>
+        {groups.map((group, index) => (
+          <div key={`${group.name ?? ''}-${index}`} className="space-y-6">
+            {group.name && <h3 className={`text-lg font-semibold ${dark ? 'text-white' : 'text-gray-800'}`}>{group.name}</h3>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {group.fields.map(field => (
+                <div key={field.key} className={wideFieldTypes.includes(field.type) ? 'md:col-span-2' : undefined}>
+                  <TemplateField
+                    field={field}
+                    value={answers[field.key]}
+                    formData={formData}
+                    error={errors[field.key]}
+                    touched={touched[field.key]}
+                    files={files}
+                    fonts={fonts}
+                    pairWith={field.type === 'font' ? pairWith(field.key) : undefined}
+                    onChange={value => onChange(field.key, value)}
+                    onBlur={() => onBlur(field.key)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {section.presets && index === presetGroup && (
+              <div className="space-y-3">
+                <p className={`text-sm ${dark ? 'text-gray-400' : 'text-gray-600'}`}>{section.presets.label}</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {section.presets.options.map(preset => (
+                    <button
+                      key={preset.name}
+                      type="button"
+                      onClick={() => Object.entries(preset.values).forEach(([key, value]) => onChange(key, value))}
+                      className={`p-3 rounded-lg border text-left transition-colors ${chipClasses(false, dark)}`}
+                    >
+                      <div className="flex gap-1 mb-2">
+                        {Object.values(preset.values).map((color, swatch) => (
+                          <span key={swatch} className="w-5 h-5 rounded-full border border-black/10" style={{ backgroundColor: color }} />
+                        ))}
+                      </div>
+                      <span className="text-sm">{preset.name}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {index === colorGroup && <ColorPaletteCheck colors={paletteColors} logo={logo} files={files} onChange={onChange} />}
+          </div>
+        ))}
+
+        {answerable > 0 && (
+          <div className={`pt-6 border-t ${dark ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className="flex items-center justify-between text-sm">
+              <span className={dark ? 'text-gray-400' : 'text-gray-600'}>Section Progress</span>
+              <span className={`font-medium ${dark ? 'text-white' : 'text-gray-800'}`}>{answered} / {answerable} fields completed</span>
+            </div>
+            <div className={`mt-2 h-2 rounded-full ${dark ? 'bg-gray-800' : 'bg-gray-200'}`}>
+              <div className="h-full bg-emerald-500 rounded-full transition-all duration-300" style={{ width: `${(answered / answerable) * 100}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
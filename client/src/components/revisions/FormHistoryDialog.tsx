@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { History, RotateCcw } from 'lucide-react';
+import { type FieldChange, type FormRevisionComparison, type FormRevisionSource, type FormRevisionSummary } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+
+// "Compare with" choice for the changes the revision itself made
+const PREVIOUS_SAVE = 'previous';
+
+const sourceLabels: Record<FormRevisionSource, string> = {
+  autosave: 'Autosave',
+  step_navigation: 'Step saved',
+  admin_edit: 'Admin edit',
+  api: 'API',
+  restore: 'Restored',
+};
+
+function formatTime(value: string | Date | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function formatAuthor(revision: FormRevisionSummary): string {
+  if (!revision.author) return 'Unknown';
+  return revision.author.kind === 'client' ? 'Client link' : revision.author.name || 'Staff member';
+}
+
+function formatAnswer(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function ChangesTable({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">The answers are the same.</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map(change => (
+          <TableRow key={change.path}>
+            <TableCell className="font-mono text-xs align-top">{change.path.replace('.', ' › ')}</TableCell>
+            <TableCell className="text-sm align-top text-red-700 dark:text-red-400 break-words max-w-[14rem]">{formatAnswer(change.before)}</TableCell>
+            <TableCell className="text-sm align-top text-green-700 dark:text-green-400 break-words max-w-[14rem]">{formatAnswer(change.after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface FormHistoryDialogProps {
+  form: { id: string; client_name: string } | null;
+  onClose: () => void;
+}
+
+// Every save of a form's answers. Picking a revision shows what it changed, or how it differs
+// from any other revision, and restoring it saves its answers as a new revision.
+export function FormHistoryDialog({ form, onClose }: FormHistoryDialogProps) {
+  const { toast } = useToast();
+  const revisionsKey = `/api/forms/${form?.id}/revisions`;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState(PREVIOUS_SAVE);
+
+  const { data: revisions = [], isLoading } = useQuery<FormRevisionSummary[]>({
+    queryKey: [revisionsKey],
+    enabled: !!form,
+    staleTime: 0,
+  });
+  const selected = revisions.find(revision => revision.id === selectedId) ?? revisions[0];
+
+  useEffect(() => {
+    setSelectedId(null);
+    setCompareWith(PREVIOUS_SAVE);
+  }, [form?.id]);
+
+  const { data: comparison, isFetching: comparing } = useQuery<FormRevisionComparison>({
+    queryKey: [`${revisionsKey}/compare?${new URLSearchParams({ from: compareWith, to: selected?.id ?? '' })}`],
+    enabled: !!selected && compareWith !== PREVIOUS_SAVE,
+  });
+  const changes = compareWith === PREVIOUS_SAVE ? selected?.changes : comparison?.changes;
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: FormRevisionSummary) => {
+      await apiRequest('POST', `${revisionsKey}/${revision.id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(revisionsKey) });
+      queryClient.invalidateQueries({ queryKey: ['forms'] });
+      setSelectedId(null);
+      setCompareWith(PREVIOUS_SAVE);
+      toast({ title: "Revision restored", description: "The form has these answers again." });
+    },
+    onError: (error) => {
+      toast({ title: "Restore failed", description: getApiErrorMessage(error, "Failed to restore the revision."), variant: "destructive" });
+    },
+  });
+
+  const selectRevision = (id: string) => {
+    setSelectedId(id);
+    setCompareWith(PREVIOUS_SAVE);
+  };
+
+  return (
+    <Dialog open={!!form} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>Every change to {form?.client_name ?? 'this form'}'s answers, newest first.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Loading history…</p>
+        ) : revisions.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No answers have been saved yet.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+            <ol className="space-y-1 max-h-[60vh] overflow-y-auto border-l pl-3">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    className={`w-full text-left rounded-md p-2 text-sm hover:bg-muted ${revision.id === selected?.id ? 'bg-muted' : ''}`}
+                    onClick={() => selectRevision(revision.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{sourceLabels[revision.source]}</Badge>
+                      <span className="text-xs text-muted-foreground">{revision.changes.length} {revision.changes.length === 1 ? 'change' : 'changes'}</span>
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground">{formatAuthor(revision)} · {formatTime(revision.created_at)}</div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1 flex-1 min-w-[12rem]">
+                    <Label>Compare with</Label>
+                    <Select value={compareWith} onValueChange={setCompareWith}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={PREVIOUS_SAVE}>The save before it</SelectItem>
+                        {revisions.filter(revision => revision.id !== selected.id).map(revision => (
+                          <SelectItem key={revision.id} value={revision.id}>
+                            {sourceLabels[revision.source]} · {formatTime(revision.created_at)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    disabled={selected.id === revisions[0].id || restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate(selected)}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {restoreMutation.isPending ? 'Restoring…' : 'Restore these answers'}
+                  </Button>
+                </div>
+                <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+                  {comparing || !changes ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">Comparing…</p>
+                  ) : (
+                    <ChangesTable changes={changes} />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,221 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { formFieldTypes, optionFieldTypes, type FormField, type FormFieldType, type FormFieldValidation } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FieldRulesEditor, type RuleFieldChoice } from './RuleEditor';
+
+export const fieldTypeLabels: Record<FormFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  email: 'Email',
+  phone: 'Phone',
+  url: 'Web address',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  multiselect: 'Multiple choice',
+  color: 'Color',
+  font: 'Font',
+  file: 'File',
+};
+
+// Which length and range rules make sense for each type
+const lengthRuleTypes: FormFieldType[] = ['text', 'textarea', 'email', 'phone', 'url'];
+const textPatternTypes: FormFieldType[] = ['text', 'textarea', 'phone', 'url'];
+
+interface FieldSettingsProps {
+  field: FormField;
+  // The other fields its rules can look at
+  ruleChoices: RuleFieldChoice[];
+  onChange: (field: FormField) => void;
+  onRemove: () => void;
+}
+
+// "" clears a number rule rather than setting it to 0
+function toRuleNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function FieldSettings({ field, ruleChoices, onChange, onRemove }: FieldSettingsProps) {
+  const validation = field.validation ?? {};
+  const hasOptions = optionFieldTypes.includes(field.type) || field.type === 'font';
+
+  const update = (changes: Partial<FormField>) => onChange({ ...field, ...changes });
+
+  const updateValidation = (changes: Partial<FormFieldValidation>) => {
+    const next = { ...validation, ...changes };
+    for (const key of Object.keys(next) as (keyof FormFieldValidation)[]) {
+      if (next[key] === undefined || next[key] === '' || next[key] === false) delete next[key];
+    }
+    update({ validation: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  // Options carry over between option types and are dropped for the rest. Font fields start
+  // without any, so they offer the font catalogue.
+  const changeType = (type: FormFieldType) => {
+    const keepsOptions = optionFieldTypes.includes(type) || type === 'font';
+    update({
+      type,
+      options: type === 'font' ? field.options : keepsOptions ? field.options ?? [{ value: 'option1', label: 'Option 1' }] : undefined,
+      allowOther: keepsOptions && type !== 'select' ? field.allowOther : undefined,
+      accept: type === 'file' ? field.accept : undefined,
+    });
+  };
+
+  const options = field.options ?? [];
+  const updateOption = (index: number, changes: Partial<{ value: string; label: string }>) => {
+    update({ options: options.map((option, current) => current === index ? { ...option, ...changes } : option) });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="field-label">Label</Label>
+          <Input id="field-label" value={field.label} onChange={e => update({ label: e.target.value })} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="field-key">Key</Label>
+          <Input id="field-key" value={field.key} onChange={e => update({ key: e.target.value })} className="font-mono text-sm" />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="field-type">Type</Label>
+        <Select value={field.type} onValueChange={value => changeType(value as FormFieldType)}>
+          <SelectTrigger id="field-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {formFieldTypes.map(type => (
+              <SelectItem key={type} value={type}>{fieldTypeLabels[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {field.type !== 'file' && field.type !== 'color' && (
+        <div className="space-y-1.5">
+          <Label htmlFor="field-placeholder">Placeholder</Label>
+          <Input id="field-placeholder" value={field.placeholder ?? ''} onChange={e => update({ placeholder: e.target.value || undefined })} />
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label htmlFor="field-help">Help text</Label>
+        <Textarea id="field-help" rows={2} value={field.helpText ?? ''} onChange={e => update({ helpText: e.target.value || undefined })} />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="field-group">Group heading</Label>
+        <Input id="field-group" placeholder="Fields next to each other with the same heading are shown together" value={field.group ?? ''} onChange={e => update({ group: e.target.value || undefined })} />
+      </div>
+
+      {field.type === 'file' && (
+        <div className="space-y-1.5">
+          <Label htmlFor="field-accept">Accepted files</Label>
+          <Input id="field-accept" placeholder="image/*,.pdf" value={field.accept ?? ''} onChange={e => update({ accept: e.target.value || undefined })} />
+        </div>
+      )}
+
+      {hasOptions && (
+        <div className="space-y-2">
+          <Label>Options</Label>
+          {field.type === 'font' && options.length === 0 && (
+            <p className="text-xs text-muted-foreground">Without options, clients pick from the font catalogue and can upload their own font files.</p>
+          )}
+          {options.map((option, index) => (
+            <div key={index} className="flex gap-2">
+              <Input placeholder="Label" value={option.label} onChange={e => updateOption(index, { label: e.target.value })} />
+              <Input placeholder="Value" value={option.value} onChange={e => updateOption(index, { value: e.target.value })} className="font-mono text-sm" />
+              <Button type="button" variant="ghost" size="icon" aria-label="Remove option" onClick={() => update({ options: options.filter((_, current) => current !== index) })}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => update({ options: [...options, { value: `option${options.length + 1}`, label: `Option ${options.length + 1}` }] })}
+          >
+            <Plus className="w-3 h-3" /> Add option
+          </Button>
+          {field.type !== 'select' && (
+            <div className="flex items-center justify-between pt-2">
+              <Label htmlFor="field-allow-other">Allow other answers</Label>
+              <Switch id="field-allow-other" checked={!!field.allowOther} onCheckedChange={checked => update({ allowOther: checked || undefined })} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3 rounded-md border p-3">
+        <p className="text-sm font-medium">Validation</p>
+        {field.type === 'file' ? (
+          <p className="text-xs text-muted-foreground">Files are checked when they're uploaded.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="field-required">Required</Label>
+              <Switch id="field-required" checked={!!validation.required} onCheckedChange={checked => updateValidation({ required: checked })} />
+            </div>
+            {lengthRuleTypes.includes(field.type) && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-min-length">Min length</Label>
+                  <Input id="field-min-length" type="number" min={0} value={validation.minLength ?? ''} onChange={e => updateValidation({ minLength: toRuleNumber(e.target.value) })} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-max-length">Max length</Label>
+                  <Input id="field-max-length" type="number" min={1} value={validation.maxLength ?? ''} onChange={e => updateValidation({ maxLength: toRuleNumber(e.target.value) })} />
+                </div>
+              </div>
+            )}
+            {field.type === 'number' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-min">Minimum</Label>
+                  <Input id="field-min" type="number" value={validation.min ?? ''} onChange={e => updateValidation({ min: toRuleNumber(e.target.value) })} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-max">Maximum</Label>
+                  <Input id="field-max" type="number" value={validation.max ?? ''} onChange={e => updateValidation({ max: toRuleNumber(e.target.value) })} />
+                </div>
+              </div>
+            )}
+            {textPatternTypes.includes(field.type) && (
+              <div className="space-y-1.5">
+                <Label htmlFor="field-pattern">Pattern (regular expression)</Label>
+                <Input id="field-pattern" value={validation.pattern ?? ''} onChange={e => updateValidation({ pattern: e.target.value || undefined })} className="font-mono text-sm" />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label htmlFor="field-message">Error message</Label>
+              <Input id="field-message" placeholder="Shown instead of the standard messages" value={validation.message ?? ''} onChange={e => updateValidation({ message: e.target.value || undefined })} />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-md border p-3">
+        <div>
+          <p className="text-sm font-medium">Rules</p>
+          <p className="text-xs text-muted-foreground">Show, hide or require this field depending on other answers</p>
+        </div>
+        <FieldRulesEditor rules={field.rules ?? []} choices={ruleChoices} onChange={rules => update({ rules })} />
+      </div>
+
+      <Button type="button" variant="outline" className="w-full gap-2 text-destructive" onClick={onRemove}>
+        <Trash2 className="w-4 h-4" /> Remove field
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  fieldRuleActions, ruleOperators, valuelessRuleOperators,
+  type FieldRule, type FieldRuleAction, type FormField, type FormTemplateDefinition, type RuleCondition, type RuleOperator, type RuleTest,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// A field a rule can look at
+export interface RuleFieldChoice {
+  path: string;
+  label: string;
+  field: FormField;
+}
+
+const operatorLabels: Record<RuleOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  includes: 'contains',
+  notIncludes: "doesn't contain",
+  answered: 'is answered',
+  notAnswered: "isn't answered",
+};
+
+const actionLabels: Record<FieldRuleAction, string> = {
+  show: 'Show this field when',
+  hide: 'Hide this field when',
+  require: 'Require this field when',
+};
+
+// Every field of the template as "Section › Field", less the ones left out
+export function getRuleFieldChoices(definition: FormTemplateDefinition, exclude: (path: string) => boolean): RuleFieldChoice[] {
+  return definition.sections.flatMap(section => section.fields
+    .map(field => ({ path: `${section.key}.${field.key}`, label: `${section.title || section.key} › ${field.label || field.key}`, field }))
+    .filter(choice => !exclude(choice.path)));
+}
+
+function newTest(choice: RuleFieldChoice): RuleTest {
+  const option = choice.field.options?.[0];
+  return option ? { field: choice.path, operator: 'equals', value: option.value } : { field: choice.path, operator: 'answered' };
+}
+
+export function newCondition(choices: RuleFieldChoice[]): RuleCondition {
+  return { match: 'all', tests: [newTest(choices[0])] };
+}
+
+interface RuleTestRowProps {
+  test: RuleTest;
+  choices: RuleFieldChoice[];
+  onChange: (test: RuleTest) => void;
+  onRemove?: () => void;
+}
+
+function RuleTestRow({ test, choices, onChange, onRemove }: RuleTestRowProps) {
+  const choice = choices.find(candidate => candidate.path === test.field);
+  const options = choice?.field.options;
+  const needsValue = !valuelessRuleOperators.includes(test.operator);
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="flex gap-2">
+        <Select value={choice ? test.field : undefined} onValueChange={path => onChange(newTest(choices.find(candidate => candidate.path === path) ?? choices[0]))}>
+          <SelectTrigger className="h-8 text-xs" aria-label="Field">
+            <SelectValue placeholder={`${test.field} (missing)`} />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map(candidate => (
+              <SelectItem key={candidate.path} value={candidate.path}>{candidate.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Remove test" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Select
+          value={test.operator}
+          onValueChange={operator => onChange({
+            ...test,
+            operator: operator as RuleOperator,
+            value: valuelessRuleOperators.includes(operator as RuleOperator) ? undefined : test.value ?? options?.[0]?.value,
+          })}
+        >
+          <SelectTrigger className="h-8 text-xs w-36 shrink-0" aria-label="Comparison">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ruleOperators.map(operator => (
+              <SelectItem key={operator} value={operator}>{operatorLabels[operator]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {needsValue && (options && (test.operator === 'equals' || test.operator === 'notEquals') ? (
+          <Select value={test.value} onValueChange={value => onChange({ ...test, value })}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Answer">
+              <SelectValue placeholder="Pick an answer" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input className="h-8 text-xs" aria-label="Answer" placeholder="Answer" value={test.value ?? ''} onChange={e => onChange({ ...test, value: e.target.value })} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface RuleConditionEditorProps {
+  condition: RuleCondition;
+  choices: RuleFieldChoice[];
+  onChange: (condition: RuleCondition) => void;
+}
+
+export function RuleConditionEditor({ condition, choices, onChange }: RuleConditionEditorProps) {
+  const updateTest = (index: number, test: RuleTest) => {
+    onChange({ ...condition, tests: condition.tests.map((current, position) => position === index ? test : current) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {condition.tests.length > 1 && (
+        <Select value={condition.match} onValueChange={match => onChange({ ...condition, match: match as RuleCondition['match'] })}>
+          <SelectTrigger className="h-8 text-xs" aria-label="Match">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All of these are true</SelectItem>
+            <SelectItem value="any">Any of these is true</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {condition.tests.map((test, index) => (
+        <RuleTestRow
+          key={index}
+          test={test}
+          choices={choices}
+          onChange={updated => updateTest(index, updated)}
+          onRemove={condition.tests.length > 1 ? () => onChange({ ...condition, tests: condition.tests.filter((_, position) => position !== index) }) : undefined}
+        />
+      ))}
+      <Button type="button" variant="ghost" size="sm" className="gap-1 h-7 text-xs" onClick={() => onChange({ ...condition, tests: [...condition.tests, newTest(choices[0])] })}>
+        <Plus className="w-3 h-3" /> Add test
+      </Button>
+    </div>
+  );
+}
+
+interface FieldRulesEditorProps {
+  rules: FieldRule[];
+  choices: RuleFieldChoice[];
+  onChange: (rules: FieldRule[] | undefined) => void;
+}
+
+export function FieldRulesEditor({ rules, choices, onChange }: FieldRulesEditorProps) {
+  const setRules = (next: FieldRule[]) => onChange(next.length > 0 ? next : undefined);
+  const updateRule = (index: number, changes: Partial<FieldRule>) => {
+    setRules(rules.map((rule, position) => position === index ? { ...rule, ...changes } : rule));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={rule.action} onValueChange={action => updateRule(index, { action: action as FieldRuleAction })}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fieldRuleActions.map(action => (
+                  <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Remove rule" onClick={() => setRules(rules.filter((_, position) => position !== index))}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <RuleConditionEditor condition={rule.when} choices={choices} onChange={when => updateRule(index, { when })} />
+        </div>
+      ))}
+      {choices.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Add more fields to make rules that depend on them.</p>
+      ) : (
+        <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => setRules([...rules, { action: 'show', when: newCondition(choices) }])}>
+          <Plus className="w-3 h-3" /> Add rule
+        </Button>
+      )}
+    </div>
+  );
+}
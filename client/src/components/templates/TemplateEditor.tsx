@@ -0,0 +1,340 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Reorder } from 'framer-motion';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
+import {
+  formFieldTypes, formSectionIcons, optionFieldTypes,
+  type CatalogueFont, type FormField, type FormFieldType, type FormFonts, type FormSectionIcon, type FormTemplateDefinition, type FormTemplateSection,
+} from '@shared/schema';
+import { isSectionSkipped, validateSectionAnswers, type FormAnswers } from '@shared/formTemplate';
+import { TemplateSection, sectionIcons } from '@/components/onboarding/TemplateSection';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FieldSettings, fieldTypeLabels } from './FieldSettings';
+import { RuleConditionEditor, getRuleFieldChoices, newCondition } from './RuleEditor';
+
+// Sections and fields are dragged by object identity; an edit replaces the object, which is
+// fine because only the dragged lists need stable keys
+const itemKeys = new WeakMap<object, string>();
+let nextItemKey = 0;
+function itemKey(item: object): string {
+  let key = itemKeys.get(item);
+  if (!key) {
+    key = `item-${nextItemKey++}`;
+    itemKeys.set(item, key);
+  }
+  return key;
+}
+
+// The first of prefix1, prefix2, ... not already taken
+function freeKey(prefix: string, taken: string[]): string {
+  let number = taken.length + 1;
+  while (taken.includes(`${prefix}${number}`)) number++;
+  return `${prefix}${number}`;
+}
+
+export function newField(type: FormFieldType, taken: string[]): FormField {
+  return {
+    key: freeKey('field', taken),
+    label: 'New question',
+    type,
+    ...(optionFieldTypes.includes(type) ? { options: [{ value: 'option1', label: 'Option 1' }] } : {}),
+  } as FormField;
+}
+
+function newSection(sections: FormTemplateSection[]): FormTemplateSection {
+  const key = freeKey('section', sections.map(section => section.key));
+  return {
+    key,
+    slug: key.replace(/(\d+)$/, '-$1'),
+    title: 'New section',
+    icon: 'file',
+    fields: [newField('text', [])],
+  };
+}
+
+// Blank tip lines are kept while typing and dropped when saving
+export function toSavedDefinition(definition: FormTemplateDefinition): FormTemplateDefinition {
+  return {
+    ...definition,
+    sections: definition.sections.map(section => {
+      const tips = section.tips?.map(tip => tip.trim()).filter(Boolean);
+      return { ...section, tips: tips && tips.length > 0 ? tips : undefined };
+    }),
+  };
+}
+
+interface TemplateEditorProps {
+  definition: FormTemplateDefinition;
+  onChange: (definition: FormTemplateDefinition) => void;
+}
+
+export function TemplateEditor({ definition, onChange }: TemplateEditorProps) {
+  const sections = definition.sections;
+  const [selectedSection, setSelectedSection] = useState(0);
+  const [selectedField, setSelectedField] = useState<number | null>(null);
+  const [previewAnswers, setPreviewAnswers] = useState<FormAnswers>({});
+  const [previewTouched, setPreviewTouched] = useState<Record<string, boolean>>({});
+
+  // Font fields preview with the catalogue clients will see
+  const { data: catalogue = [] } = useQuery<CatalogueFont[]>({ queryKey: ['/api/fonts'] });
+  const previewFonts = useMemo<FormFonts>(() => ({ catalogue: catalogue.filter(font => font.is_active), uploaded: [] }), [catalogue]);
+
+  const section = sections[Math.min(selectedSection, sections.length - 1)];
+  const field = selectedField !== null ? section?.fields[selectedField] : undefined;
+
+  const setSections = (next: FormTemplateSection[]) => onChange({ ...definition, sections: next });
+
+  const updateSection = (changes: Partial<FormTemplateSection>) => {
+    setSections(sections.map(current => current === section ? { ...current, ...changes } : current));
+  };
+
+  const selectSection = (index: number) => {
+    setSelectedSection(index);
+    setSelectedField(null);
+    setPreviewTouched({});
+  };
+
+  // Keep the same section selected when it moves
+  const reorderSections = (next: FormTemplateSection[]) => {
+    setSelectedSection(next.indexOf(section));
+    setSections(next);
+  };
+
+  const reorderFields = (next: FormField[]) => {
+    if (field) setSelectedField(next.indexOf(field));
+    updateSection({ fields: next });
+  };
+
+  const addSection = () => {
+    setSections([...sections, newSection(sections)]);
+    selectSection(sections.length);
+  };
+
+  const removeSection = () => {
+    setSections(sections.filter(current => current !== section));
+    selectSection(Math.max(0, selectedSection - 1));
+  };
+
+  const addField = (type: FormFieldType) => {
+    updateSection({ fields: [...section.fields, newField(type, section.fields.map(current => current.key))] });
+    setSelectedField(section.fields.length);
+  };
+
+  const updateField = (updated: FormField) => {
+    updateSection({ fields: section.fields.map(current => current === field ? updated : current) });
+  };
+
+  const removeField = () => {
+    updateSection({ fields: section.fields.filter(current => current !== field) });
+    setSelectedField(null);
+  };
+
+  if (!section) return null;
+
+  const previewSectionAnswers = previewAnswers[section.key] ?? {};
+  const previewErrors = validateSectionAnswers(section, previewSectionAnswers, previewAnswers);
+
+  // A field's rules can look at any other field; a section's skip rule only at other sections
+  const fieldPath = field && `${section.key}.${field.key}`;
+  const fieldRuleChoices = getRuleFieldChoices(definition, path => path === fieldPath);
+  const skipRuleChoices = getRuleFieldChoices(definition, path => path.startsWith(`${section.key}.`));
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-12">
+      <div className="space-y-6 lg:col-span-3">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Sections</CardTitle>
+            <CardDescription>Drag to reorder</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Reorder.Group axis="y" values={sections} onReorder={reorderSections} className="space-y-2">
+              {sections.map((current, index) => {
+                const Icon = sectionIcons[current.icon];
+                return (
+                  <Reorder.Item
+                    key={itemKey(current)}
+                    value={current}
+                    onClick={() => selectSection(index)}
+                    className={`flex items-center gap-2 rounded-md border px-2 py-2 text-sm cursor-pointer bg-background ${current === section ? 'border-primary ring-1 ring-primary' : ''}`}
+                  >
+                    <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                    <Icon className="w-4 h-4" />
+                    <span className="flex-1 truncate">{current.title || current.key}</span>
+                    <span className="text-xs text-muted-foreground">{current.fields.length}</span>
+                  </Reorder.Item>
+                );
+              })}
+            </Reorder.Group>
+            <Button type="button" variant="outline" size="sm" className="w-full gap-1" onClick={addSection}>
+              <Plus className="w-3 h-3" /> Add section
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Fields</CardTitle>
+            <CardDescription>In {section.title || section.key}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Reorder.Group axis="y" values={section.fields} onReorder={reorderFields} className="space-y-2">
+              {section.fields.map((current, index) => (
+                <Reorder.Item
+                  key={itemKey(current)}
+                  value={current}
+                  onClick={() => setSelectedField(index)}
+                  className={`flex items-center gap-2 rounded-md border px-2 py-2 text-sm cursor-pointer bg-background ${current === field ? 'border-primary ring-1 ring-primary' : ''}`}
+                >
+                  <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                  <span className="flex-1 truncate">{current.label || current.key}</span>
+                  <span className="text-xs text-muted-foreground">{fieldTypeLabels[current.type]}</span>
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="sm" className="w-full gap-1">
+                  <Plus className="w-3 h-3" /> Add field
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                {formFieldTypes.map(type => (
+                  <DropdownMenuItem key={type} onClick={() => addField(type)}>{fieldTypeLabels[type]}</DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="lg:col-span-4">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">{field ? 'Field settings' : 'Section settings'}</CardTitle>
+          <CardDescription>
+            {field ? (
+              <button type="button" className="underline" onClick={() => setSelectedField(null)}>Back to section settings</button>
+            ) : 'Pick a field to edit it'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {field ? (
+            <FieldSettings field={field} ruleChoices={fieldRuleChoices} onChange={updateField} onRemove={removeField} />
+          ) : (
+            <div className="space-y-5">
+              <div className="space-y-1.5">
+                <Label htmlFor="section-title">Title</Label>
+                <Input id="section-title" value={section.title} onChange={e => updateSection({ title: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="section-key">Key</Label>
+                  <Input id="section-key" value={section.key} onChange={e => updateSection({ key: e.target.value })} className="font-mono text-sm" />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="section-slug">Link slug</Label>
+                  <Input id="section-slug" value={section.slug} onChange={e => updateSection({ slug: e.target.value })} className="font-mono text-sm" />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="section-subtitle">Subtitle</Label>
+                <Input id="section-subtitle" placeholder="Shown under the title in the progress list" value={section.subtitle ?? ''} onChange={e => updateSection({ subtitle: e.target.value || undefined })} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="section-description">Description</Label>
+                <Textarea id="section-description" rows={2} value={section.description ?? ''} onChange={e => updateSection({ description: e.target.value || undefined })} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="section-icon">Icon</Label>
+                <Select value={section.icon} onValueChange={value => updateSection({ icon: value as FormSectionIcon })}>
+                  <SelectTrigger id="section-icon">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formSectionIcons.map(icon => {
+                      const Icon = sectionIcons[icon];
+                      return (
+                        <SelectItem key={icon} value={icon}>
+                          <span className="flex items-center gap-2 capitalize"><Icon className="w-4 h-4" /> {icon}</span>
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="section-tips">Tips, one per line</Label>
+                <Textarea
+                  id="section-tips"
+                  rows={3}
+                  value={(section.tips ?? []).join('\n')}
+                  onChange={e => {
+                    const tips = e.target.value.split('\n');
+                    updateSection({ tips: tips.some(tip => tip.trim()) ? tips : undefined });
+                  }}
+                />
+              </div>
+              <div className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="section-skip">Skip this section when</Label>
+                  <Switch
+                    id="section-skip"
+                    checked={!!section.skipWhen}
+                    disabled={!section.skipWhen && skipRuleChoices.length === 0}
+                    onCheckedChange={checked => updateSection({ skipWhen: checked ? newCondition(skipRuleChoices) : undefined })}
+                  />
+                </div>
+                {section.skipWhen ? (
+                  <RuleConditionEditor condition={section.skipWhen} choices={skipRuleChoices} onChange={skipWhen => updateSection({ skipWhen })} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">Skipped sections are left out of the form and count as done.</p>
+                )}
+              </div>
+              <Button type="button" variant="outline" className="w-full gap-2 text-destructive" disabled={sections.length === 1} onClick={removeSection}>
+                <Trash2 className="w-4 h-4" /> Remove section
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-5">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Preview</CardTitle>
+          <CardDescription>What clients see. Answers here aren't saved.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isSectionSkipped(section, previewAnswers) && (
+            <p className="text-sm text-muted-foreground">Clients skip this section with the answers given so far.</p>
+          )}
+          <TemplateSection
+            key={selectedSection}
+            section={section}
+            answers={previewSectionAnswers}
+            formData={previewAnswers}
+            errors={previewErrors}
+            touched={previewTouched}
+            onChange={(fieldKey, value) => {
+              setPreviewAnswers(prev => ({ ...prev, [section.key]: { ...prev[section.key], [fieldKey]: value } }));
+              setPreviewTouched(prev => ({ ...prev, [fieldKey]: true }));
+            }}
+            onBlur={fieldKey => setPreviewTouched(prev => ({ ...prev, [fieldKey]: true }))}
+            fonts={previewFonts}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { RefreshCw, Send, ChevronLeft, ChevronRight, Eye } from 'lucide-react';
+import { type WebhookDelivery, type WebhookDeliveryStatus, type WebhookEndpoint, type WebhookStats } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useTheme } from '@/lib/theme-context';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const PAGE_SIZE = 25;
+
+const statusStyles: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 border-0',
+  pending: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300 border-0',
+  failed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border-0',
+  dead: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border-0',
+};
+
+const statusLabels: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'Delivered',
+  pending: 'Pending',
+  failed: 'Retrying',
+  dead: 'Failed',
+};
+
+type DeliveriesResponse = { deliveries: WebhookDelivery[]; total: number };
+
+function formatJson(value: unknown): string {
+  if (typeof value === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+export function WebhookDeliveries() {
+  const { theme } = useTheme();
+  const { toast } = useToast();
+  const [endpointFilter, setEndpointFilter] = useState('all');
+  const [eventFilter, setEventFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | WebhookDeliveryStatus>('all');
+  const [page, setPage] = useState(0);
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (endpointFilter !== 'all') params.set('endpointId', endpointFilter);
+  if (eventFilter !== 'all') params.set('event', eventFilter);
+  if (statusFilter !== 'all') params.set('status', statusFilter);
+
+  const { data, isLoading, refetch, isFetching } = useQuery<DeliveriesResponse>({
+    queryKey: [`/api/webhook/deliveries?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  // The stats endpoint already knows which event types have been sent
+  const { data: stats } = useQuery<WebhookStats>({ queryKey: ['/api/webhook/stats'] });
+  const eventTypes = stats?.byEvent.map(e => e.event) ?? [];
+
+  const { data: endpoints = [] } = useQuery<WebhookEndpoint[]>({ queryKey: ['/api/webhook-endpoints'] });
+
+  const deliveries = data?.deliveries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/webhook/deliveries/${id}/redeliver`);
+      return (await res.json()) as { success: boolean; delivery: WebhookDelivery };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/webhook/') });
+      setSelectedDelivery(result.delivery);
+      toast({
+        title: result.success ? "Webhook redelivered" : "Redelivery failed",
+        description: result.success
+          ? "The receiver accepted the payload."
+          : "The receiver rejected the payload. It will be retried automatically.",
+        variant: result.success ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Redelivery failed",
+        description: error instanceof Error ? error.message : "Failed to redeliver webhook.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Delivery History</h2>
+          <p className="text-muted-foreground">
+            Every webhook sent to your endpoints, including retries.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Endpoint</Label>
+            <Select value={endpointFilter} onValueChange={(value) => { setEndpointFilter(value); setPage(0); }}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All endpoints</SelectItem>
+                {endpoints.map(endpoint => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Event</Label>
+            <Select value={eventFilter} onValueChange={(value) => { setEventFilter(value); setPage(0); }}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {eventTypes.map(event => (
+                  <SelectItem key={event} value={event}>{event}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value as typeof statusFilter); setPage(0); }}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(statusLabels) as WebhookDeliveryStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="gap-2">
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className={`${theme === 'dark' ? 'bg-gray-800/50' : 'bg-gray-50'}`}>
+                <tr>
+                  <th className="text-left p-4 font-medium text-sm">Event</th>
+                  <th className="text-left p-4 font-medium text-sm">Status</th>
+                  <th className="text-left p-4 font-medium text-sm">Response</th>
+                  <th className="text-left p-4 font-medium text-sm">Attempts</th>
+                  <th className="text-left p-4 font-medium text-sm">Sent</th>
+                  <th className="text-right p-4 font-medium text-sm">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {isLoading && (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">Loading deliveries...</td>
+                  </tr>
+                )}
+                {!isLoading && deliveries.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">No webhook deliveries match these filters.</td>
+                  </tr>
+                )}
+                {deliveries.map((delivery) => (
+                  <tr
+                    key={delivery.id}
+                    className={`hover:${theme === 'dark' ? 'bg-gray-800/30' : 'bg-gray-50'} transition-colors cursor-pointer`}
+                    onClick={() => setSelectedDelivery(delivery)}
+                  >
+                    <td className="p-4">
+                      <div className="font-mono text-sm">{delivery.event}</div>
+                      <div className="text-xs text-muted-foreground truncate max-w-xs">{delivery.url}</div>
+                    </td>
+                    <td className="p-4">
+                      <Badge className={statusStyles[delivery.status]}>{statusLabels[delivery.status]}</Badge>
+                    </td>
+                    <td className="p-4 text-sm">
+                      {delivery.response_status ?? '—'}
+                      {delivery.latency_ms !== null && (
+                        <span className="text-muted-foreground"> · {delivery.latency_ms}ms</span>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm">{delivery.attempt_count}</td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {delivery.created_at ? new Date(delivery.created_at).toLocaleString() : '—'}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" className="gap-2" onClick={(e) => { e.stopPropagation(); setSelectedDelivery(delivery); }}>
+                          <Eye className="w-4 h-4" />
+                          View
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total.toLocaleString()} deliveries</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Delivery Drill-down Dialog */}
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          {selectedDelivery && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  <span className="font-mono">{selectedDelivery.event}</span>
+                  <Badge className={statusStyles[selectedDelivery.status]}>{statusLabels[selectedDelivery.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription className="break-all">{selectedDelivery.url}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Attempts</p>
+                    <p className="font-medium">{selectedDelivery.attempt_count}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Response status</p>
+                    <p className="font-medium">{selectedDelivery.response_status ?? '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Latency</p>
+                    <p className="font-medium">{selectedDelivery.latency_ms !== null ? `${selectedDelivery.latency_ms}ms` : '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">
+                      {selectedDelivery.status === 'failed' ? 'Next retry' : 'Last attempt'}
+                    </p>
+                    <p className="font-medium">
+                      {selectedDelivery.status === 'failed' && selectedDelivery.next_retry_at
+                        ? new Date(selectedDelivery.next_retry_at).toLocaleString()
+                        : selectedDelivery.last_attempt_at
+                          ? new Date(selectedDelivery.last_attempt_at).toLocaleString()
+                          : '—'}
+                    </p>
+                  </div>
+                </div>
+
+                {selectedDelivery.last_error && (
+                  <div>
+                    <h4 className="font-medium mb-2 text-sm">Error</h4>
+                    <p className="text-sm text-red-600 dark:text-red-400">{selectedDelivery.last_error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="font-medium mb-2 text-sm">Payload</h4>
+                  <pre className={`p-4 rounded-lg text-xs overflow-x-auto ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                    <code>{formatJson(selectedDelivery.payload)}</code>
+                  </pre>
+                </div>
+
+                {selectedDelivery.response_body && (
+                  <div>
+                    <h4 className="font-medium mb-2 text-sm">Response body</h4>
+                    <pre className={`p-4 rounded-lg text-xs overflow-x-auto ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                      <code>{formatJson(selectedDelivery.response_body)}</code>
+                    </pre>
+                  </div>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedDelivery(null)}>
+                  Close
+                </Button>
+                <Button
+                  onClick={() => redeliverMutation.mutate(selectedDelivery.id)}
+                  disabled={redeliverMutation.isPending}
+                  className="gap-2"
+                >
+                  {redeliverMutation.isPending ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4" />
+                  )}
+                  Redeliver
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
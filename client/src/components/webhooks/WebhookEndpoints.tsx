@@ -0,0 +1,496 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Plus, Pencil, Trash2, Send, Copy, Eye, EyeOff, Key, RefreshCw, CheckCircle2, Webhook, X } from 'lucide-react';
+import { webhookEventTypes, type WebhookEndpoint, type WebhookEventType } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useTheme } from '@/lib/theme-context';
+import { apiRequest, getAuthHeaders, queryClient } from '@/lib/queryClient';
+
+const ENDPOINTS_KEY = '/api/webhook-endpoints';
+
+const eventLabels: Record<WebhookEventType, string> = {
+  'form.completed': 'Form completed',
+  'section.completed': 'Section completed',
+  'form.submitted': 'Form submitted',
+  'form.updated': 'Form updated',
+};
+
+type HeaderRow = { key: string; value: string };
+
+type EndpointDraft = {
+  name: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+  events: WebhookEventType[];
+  headers: HeaderRow[];
+};
+
+const emptyDraft: EndpointDraft = {
+  name: '',
+  url: '',
+  secret: '',
+  enabled: true,
+  events: ['form.completed'],
+  headers: [],
+};
+
+function toDraft(endpoint: WebhookEndpoint): EndpointDraft {
+  return {
+    name: endpoint.name,
+    url: endpoint.url,
+    secret: endpoint.secret || '',
+    enabled: endpoint.enabled,
+    events: endpoint.events as WebhookEventType[],
+    headers: Object.entries(endpoint.headers || {}).map(([key, value]) => ({ key, value })),
+  };
+}
+
+// The previous secret still signs deliveries until its grace period ends
+function isRotating(endpoint: WebhookEndpoint): boolean {
+  return !!endpoint.previous_secret_expires_at && new Date(endpoint.previous_secret_expires_at) > new Date();
+}
+
+function generateSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function WebhookEndpoints() {
+  const { theme } = useTheme();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<EndpointDraft>(emptyDraft);
+  const [showSecret, setShowSecret] = useState(false);
+  const [endpointToDelete, setEndpointToDelete] = useState<WebhookEndpoint | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: [ENDPOINTS_KEY],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [ENDPOINTS_KEY] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (draft: EndpointDraft) => {
+      const body = {
+        name: draft.name,
+        url: draft.url,
+        secret: draft.secret,
+        enabled: draft.enabled,
+        events: draft.events,
+        headers: Object.fromEntries(
+          draft.headers.filter(h => h.key.trim()).map(h => [h.key.trim(), h.value])
+        ),
+      };
+      const res = editing
+        ? await apiRequest('PATCH', `${ENDPOINTS_KEY}/${editing.id}`, body)
+        : await apiRequest('POST', ENDPOINTS_KEY, body);
+      return (await res.json()) as WebhookEndpoint;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({
+        title: editing ? "Endpoint updated" : "Endpoint added",
+        description: "Your webhook configuration has been saved successfully.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving endpoint",
+        description: error instanceof Error ? error.message : "Failed to save webhook endpoint.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest('PATCH', `${ENDPOINTS_KEY}/${id}`, { enabled });
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error updating endpoint",
+        description: "Failed to update webhook endpoint. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `${ENDPOINTS_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEndpointToDelete(null);
+      toast({
+        title: "Endpoint deleted",
+        description: "The webhook endpoint will no longer receive events.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error deleting endpoint",
+        description: "Failed to delete webhook endpoint. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`${ENDPOINTS_KEY}/${id}/test`, { method: 'POST', headers: await getAuthHeaders(), credentials: 'include' });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.details || result.error || 'Test failed');
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/webhook/') });
+      toast({
+        title: "Webhook test successful",
+        description: result.message || "Test webhook was sent successfully.",
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/webhook/') });
+      toast({
+        title: "Webhook test failed",
+        description: error instanceof Error ? error.message : "Failed to send test webhook.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setDraft({ ...emptyDraft, secret: generateSecret() });
+    setShowSecret(false);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (endpoint: WebhookEndpoint) => {
+    setEditing(endpoint);
+    setDraft(toDraft(endpoint));
+    setShowSecret(false);
+    setDialogOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event),
+    }));
+  };
+
+  const updateHeader = (index: number, field: keyof HeaderRow, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      headers: prev.headers.map((h, i) => (i === index ? { ...h, [field]: value } : h)),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name || !draft.url) {
+      toast({
+        title: "Name and URL required",
+        description: "Please give the endpoint a name and a valid URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (draft.events.length === 0) {
+      toast({
+        title: "No events selected",
+        description: "Subscribe the endpoint to at least one event.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const copySecret = () => {
+    navigator.clipboard.writeText(draft.secret);
+    toast({
+      title: "Secret copied",
+      description: "Webhook secret has been copied to clipboard.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            Endpoints
+          </CardTitle>
+          <CardDescription>
+            Each endpoint receives only the events it subscribes to, signed with its own secret.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate} className="gap-2">
+          <Plus className="w-4 h-4" />
+          Add Endpoint
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading endpoints...</p>
+        )}
+        {!isLoading && endpoints.length === 0 && (
+          <div className="p-6 rounded-lg border border-dashed text-center text-sm text-muted-foreground">
+            No webhook endpoints yet. Add one to start receiving events.
+          </div>
+        )}
+        {endpoints.map(endpoint => (
+          <div
+            key={endpoint.id}
+            className={`p-4 rounded-lg border ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{endpoint.name}</span>
+                  {!endpoint.enabled && <Badge variant="outline">Disabled</Badge>}
+                  {isRotating(endpoint) && (
+                    <Badge variant="outline" className="gap-1">
+                      <Key className="w-3 h-3" />
+                      Old secret valid until {new Date(endpoint.previous_secret_expires_at!).toLocaleString()}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm font-mono text-muted-foreground truncate">{endpoint.url}</p>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {(endpoint.events as WebhookEventType[]).map(event => (
+                    <Badge key={event} variant="secondary" className="font-mono text-xs">{event}</Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={endpoint.enabled}
+                  onCheckedChange={(enabled) => toggleMutation.mutate({ id: endpoint.id, enabled })}
+                  aria-label={`Enable ${endpoint.name}`}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => testMutation.mutate(endpoint.id)}
+                  disabled={testMutation.isPending}
+                  className="gap-2"
+                >
+                  <Send className="w-4 h-4" />
+                  Test
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => openEdit(endpoint)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEndpointToDelete(endpoint)}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {/* Create / Edit Endpoint Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Endpoint' : 'Add Endpoint'}</DialogTitle>
+            <DialogDescription>
+              Choose where events are sent and which events this endpoint should receive.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="endpoint-name">Name</Label>
+              <Input
+                id="endpoint-name"
+                placeholder="CRM sync"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endpoint-url">Webhook URL</Label>
+              <Input
+                id="endpoint-url"
+                placeholder="https://your-app.com/webhooks/onboarding"
+                value={draft.url}
+                onChange={(e) => setDraft(prev => ({ ...prev, url: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endpoint-secret">Signing Secret</Label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Input
+                    id="endpoint-secret"
+                    type={showSecret ? "text" : "password"}
+                    placeholder="Enter or generate a secret"
+                    value={draft.secret}
+                    onChange={(e) => setDraft(prev => ({ ...prev, secret: e.target.value }))}
+                    className="pr-10"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3"
+                    onClick={() => setShowSecret(!showSecret)}
+                  >
+                    {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                </div>
+                <Button variant="outline" size="sm" onClick={copySecret} disabled={!draft.secret}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft(prev => ({ ...prev, secret: generateSecret() }))}
+                  className="gap-2"
+                >
+                  <Key className="w-4 h-4" />
+                  Generate
+                </Button>
+              </div>
+              {editing && draft.secret !== (editing.secret || '') && (
+                <p className="text-xs text-muted-foreground">
+                  Deliveries will be signed with both the old and new secret for 24 hours so your receiver can switch over.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {webhookEventTypes.map(event => (
+                  <label key={event} className="flex items-center gap-2 p-2 rounded border cursor-pointer">
+                    <Checkbox
+                      checked={draft.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    <span className="text-sm">{eventLabels[event]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Custom Headers</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft(prev => ({ ...prev, headers: [...prev.headers, { key: '', value: '' }] }))}
+                  className="gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Header
+                </Button>
+              </div>
+              {draft.headers.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Sent with every delivery, e.g. an Authorization header for your receiver.
+                </p>
+              )}
+              {draft.headers.map((header, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Header name"
+                    value={header.key}
+                    onChange={(e) => updateHeader(index, 'key', e.target.value)}
+                  />
+                  <Input
+                    placeholder="Value"
+                    value={header.value}
+                    onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(prev => ({ ...prev, headers: prev.headers.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="endpoint-enabled">Enabled</Label>
+              <Switch
+                id="endpoint-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending} className="gap-2">
+              {saveMutation.isPending ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4" />
+              )}
+              Save Endpoint
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Endpoint Dialog */}
+      <Dialog open={!!endpointToDelete} onOpenChange={(open) => !open && setEndpointToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Endpoint</DialogTitle>
+            <DialogDescription>
+              {endpointToDelete?.name} will stop receiving events. Its delivery history is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEndpointToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => endpointToDelete && deleteMutation.mutate(endpointToDelete.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
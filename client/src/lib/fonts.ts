@@ -0,0 +1,44 @@
+import { type CatalogueFont, type UploadedFont } from '@shared/schema';
+import { getGoogleFontsUrl } from '@shared/fonts';
+import { getBrandAssetUrl } from './formOperations';
+
+// Puts fonts into the page so pickers and previews can show them. Catalogue fonts come from
+// Google Fonts; uploaded fonts need the form's credentials, so they're fetched and added
+// with the FontFace API. Each is only loaded once.
+
+const loadedUploads = new Map<string, Promise<void>>();
+
+export function loadCatalogueFonts(fonts: Pick<CatalogueFont, 'family' | 'weights'>[]) {
+  for (const font of fonts) {
+    const href = getGoogleFontsUrl(font);
+    if (document.head.querySelector(`link[href="${CSS.escape(href)}"]`)) continue;
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = href;
+    document.head.appendChild(link);
+  }
+}
+
+export function loadUploadedFonts(formId: string, fonts: UploadedFont[]): Promise<void[]> {
+  return Promise.all(fonts.map(font => {
+    let loading = loadedUploads.get(font.assetId);
+    if (!loading) {
+      loading = (async () => {
+        const url = await getBrandAssetUrl(formId, font.assetId, 'original');
+        if (!url) return;
+        try {
+          const face = new FontFace(font.family, `url(${url})`, { weight: String(font.weight), style: font.style });
+          document.fonts.add(await face.load());
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      })().catch(error => {
+        // Let a later render try again
+        loadedUploads.delete(font.assetId);
+        console.error(`Error loading ${font.fileName}:`, error);
+      });
+      loadedUploads.set(font.assetId, loading);
+    }
+    return loading;
+  }));
+}
@@ -0,0 +1,31 @@
+// Clients open their form through a link carrying ?token=…; the token is kept for the
+// browser session so API calls made while filling in the form can present it.
+
+const FORM_TOKEN_STORAGE_KEY = 'formAccessToken';
+
+export const FORM_TOKEN_HEADER = 'X-Form-Token';
+
+export function rememberFormTokenFromUrl() {
+  const token = new URLSearchParams(window.location.search).get('token');
+  if (token) {
+    sessionStorage.setItem(FORM_TOKEN_STORAGE_KEY, token);
+  }
+}
+
+export function getFormToken(): string | null {
+  return sessionStorage.getItem(FORM_TOKEN_STORAGE_KEY);
+}
+
+// Password protected forms also need the unlock token from POST /api/forms/:id/unlock.
+// It is short-lived, so it is kept for the tab only.
+const FORM_UNLOCK_STORAGE_KEY = 'formUnlockToken';
+
+export const FORM_UNLOCK_HEADER = 'X-Form-Unlock';
+
+export function rememberUnlockToken(token: string) {
+  sessionStorage.setItem(FORM_UNLOCK_STORAGE_KEY, token);
+}
+
+export function getUnlockToken(): string | null {
+  return sessionStorage.getItem(FORM_UNLOCK_STORAGE_KEY);
+}
@@ -1,42 +1,133 @@
-import { supabase } from './supabase';
-import { type BusinessDetails } from '@shared/schema';
+import { apiRequest, getAuthHeaders } from './queryClient';
+import { rememberUnlockToken } from './formAccess';
+import { type BrandAsset, type BrandAssetVariantName, type ClientFormUpdate, type CreateForm, type FormAccessStatus, type FormFonts, type ResolvedFormTemplate } from '@shared/schema';
+import { type Form } from './supabase';
 
-export async function getFormData(formId: string) {
-  const { data, error } = await supabase
-    .from('forms')
-    .select('*')
-    .eq('id', formId)
-    .single();
+// The onboarding form reads and writes through the API, which checks the client's
+// form token (or the staff session) before touching the database.
 
-  if (error) throw error;
-  return data;
+export async function getFormData(idOrSlug: string) {
+  const res = await apiRequest('GET', `/api/onboarding/${encodeURIComponent(idOrSlug)}`);
+  return await res.json();
 }
 
-export async function updateFormData(formId: string, data: any) {
-  const { error } = await supabase
-    .from('forms')
-    .update({ data })
-    .eq('id', formId);
+export async function getFormStatus(idOrSlug: string): Promise<FormAccessStatus> {
+  const res = await apiRequest('GET', `/api/onboarding/${encodeURIComponent(idOrSlug)}/status`);
+  return await res.json();
+}
+
+// The sections and fields to show: the form's template, or the built-in default
+export async function getFormTemplate(idOrSlug: string): Promise<ResolvedFormTemplate> {
+  const res = await apiRequest('GET', `/api/onboarding/${encodeURIComponent(idOrSlug)}/template`);
+  return await res.json();
+}
+
+// The font catalogue and the fonts the client has uploaded, for font fields
+export async function getFormFonts(idOrSlug: string): Promise<FormFonts> {
+  const res = await apiRequest('GET', `/api/onboarding/${encodeURIComponent(idOrSlug)}/fonts`);
+  return await res.json();
+}
+
+// Throws with the server's message (wrong password, too many attempts) so it can be shown as is
+export async function unlockForm(formId: string, password: string) {
+  const res = await fetch(`/api/forms/${formId}/unlock`, {
+    method: 'POST',
+    headers: { ...(await getAuthHeaders()), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  });
+  const result = await res.json();
+  if (!res.ok) {
+    throw new Error(result.error || 'Failed to unlock form');
+  }
+  rememberUnlockToken(result.unlockToken);
+}
+
+// Staff only. The server picks the slug and hashes the password, if there is one.
+export async function createForm(form: CreateForm): Promise<Form> {
+  const res = await apiRequest('POST', '/api/forms', form);
+  return await res.json();
+}
+
+// Staff only; pass null to remove the password
+export async function setFormPassword(formId: string, password: string | null) {
+  await apiRequest('PUT', `/api/forms/${formId}/password`, { password });
+}
+
+export async function updateForm(formId: string, update: ClientFormUpdate) {
+  await apiRequest('PATCH', `/api/onboarding/${formId}`, update);
+}
 
-  if (error) throw error;
+// source says which part of the form saved, for the form's revision history
+export async function updateFormData(formId: string, data: Record<string, any>, source: ClientFormUpdate['source']) {
+  await updateForm(formId, { data, source });
 }
 
-export async function getSectionData(sectionId: string) {
-  const { data, error } = await supabase
-    .from('form_sections')
-    .select('*')
-    .eq('share_id', sectionId)
-    .single();
+export async function getSectionData(shareId: string) {
+  const res = await apiRequest('GET', `/api/onboarding/sections/${encodeURIComponent(shareId)}`);
+  return await res.json();
+}
+
+// The template a shared section link is filled in with
+export async function getSectionTemplate(shareId: string): Promise<ResolvedFormTemplate> {
+  const res = await apiRequest('GET', `/api/onboarding/sections/${encodeURIComponent(shareId)}/template`);
+  return await res.json();
+}
 
-  if (error) throw error;
-  return data;
+export async function updateSectionData(shareId: string, data: Record<string, any>) {
+  await apiRequest('PATCH', `/api/onboarding/sections/${encodeURIComponent(shareId)}`, { data });
 }
 
-export async function updateSectionData(sectionId: string, data: BusinessDetails) {
-  const { error } = await supabase
-    .from('form_sections')
-    .update({ data })
-    .eq('share_id', sectionId);
+// Sends the file itself as the body. field is "section.field"; the server checks the file
+// against that field before keeping it.
+export async function uploadBrandAsset(formId: string, field: string, file: File): Promise<BrandAsset> {
+  const res = await fetch(`/api/forms/${formId}/assets?${new URLSearchParams({ field, name: file.name })}`, {
+    method: 'POST',
+    headers: { ...(await getAuthHeaders()), 'Content-Type': file.type || 'application/octet-stream' },
+    body: file,
+  });
+  const result = await res.json();
+  if (!res.ok) {
+    throw new Error(result.error || 'Failed to upload the file');
+  }
+  return result;
+}
 
-  if (error) throw error;
-} 
\ No newline at end of file
+// Asset files need the form's credentials, so they're fetched here and shown from an object
+// URL; revoke it when done. Null when the asset has no such variant (PDFs have no thumbnail).
+export async function getBrandAssetUrl(formId: string, assetId: string, variant: BrandAssetVariantName | 'original'): Promise<string | null> {
+  const res = await fetch(`/api/forms/${formId}/assets/${assetId}/${variant}`, { headers: await getAuthHeaders() });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error('Failed to load the file');
+  return URL.createObjectURL(await res.blob());
+}
+
+// The main colours of an uploaded image, most used first
+export async function getBrandAssetPalette(formId: string, assetId: string): Promise<string[]> {
+  const res = await apiRequest('GET', `/api/forms/${formId}/assets/${assetId}/palette`);
+  const result = await res.json();
+  return result.colors;
+}
+
+// Saves a file the server sends as an attachment, under the name it gives
+async function downloadFile(path: string, fallbackName: string, errorMessage: string) {
+  const res = await fetch(path, { headers: await getAuthHeaders() });
+  if (!res.ok) {
+    const result = await res.json().catch(() => ({}));
+    throw new Error(result.error || errorMessage);
+  }
+  const fileName = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadBrandKit(formId: string) {
+  await downloadFile(`/api/forms/${formId}/brand-kit`, 'brand-kit.zip', 'Failed to download the brand kit');
+}
+
+export async function downloadFormSummary(formId: string) {
+  await downloadFile(`/api/forms/${formId}/summary.pdf`, 'onboarding-summary.pdf', 'Failed to download the summary');
+}
@@ -1,4 +1,25 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { supabase } from "./supabase";
+import { FORM_TOKEN_HEADER, FORM_UNLOCK_HEADER, getFormToken, getUnlockToken } from "./formAccess";
+import { type AnswerErrors } from "@shared/formTemplate";
+
+// Staff requests carry the Supabase session; clients carry the token for their form
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) {
+    headers.Authorization = `Bearer ${session.access_token}`;
+  }
+  const formToken = getFormToken();
+  if (formToken) {
+    headers[FORM_TOKEN_HEADER] = formToken;
+  }
+  const unlockToken = getUnlockToken();
+  if (unlockToken) {
+    headers[FORM_UNLOCK_HEADER] = unlockToken;
+  }
+  return headers;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +28,28 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "409: {"error":"..."}"; this is just the server's message
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// The per-field problems the server sends back when answers don't pass the form's template
+export function getApiFieldErrors(error: unknown): AnswerErrors | null {
+  if (!(error instanceof Error)) return null;
+  try {
+    const fieldErrors = JSON.parse(error.message.replace(/^\d+:\s*/, '')).fieldErrors;
+    return fieldErrors && typeof fieldErrors === 'object' ? fieldErrors : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +57,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(await getAuthHeaders()),
+      ...(data ? { "Content-Type": "application/json" } : {}),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +76,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
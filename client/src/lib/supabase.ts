@@ -1,6 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@/types/supabase';
-import { generateUniqueSlug } from './utils';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -29,7 +28,9 @@ export type Form = {
   slug: string;
   created_by?: string;
   is_disabled?: boolean;
-  password?: string | null;
+  password_hash?: string | null;
+  reminders_opted_out?: boolean;
+  template_id?: string | null;
 }
 
 export type InsertForm = Omit<Form, 'id' | 'created_at' | 'updated_at'>;
@@ -50,27 +51,6 @@ export const createTestUser = async (email: string, password: string) => {
   }
 };
 
-// Helper functions for file storage
-export const uploadFile = async (bucket: string, path: string, file: File) => {
-  const { data, error } = await supabase.storage
-    .from(bucket)
-    .upload(path, file, {
-      cacheControl: '3600',
-      upsert: true
-    });
-
-  if (error) throw error;
-  return data;
-};
-
-export const getFileUrl = (bucket: string, path: string) => {
-  const { data } = supabase.storage
-    .from(bucket)
-    .getPublicUrl(path);
-
-  return data.publicUrl;
-};
-
 // Helper function to get the current user
 export const getCurrentUser = async () => {
   const { data: { user }, error } = await supabase.auth.getUser();
@@ -78,37 +58,6 @@ export const getCurrentUser = async () => {
   return user;
 };
 
-// Helper function to create a form
-export const createForm = async (formData: Partial<InsertForm>) => {
-  console.log('Creating form with data:', formData); // Debug log
-
-  // Generate a unique slug from the client name
-  const slug = formData.client_name 
-    ? generateUniqueSlug(formData.client_name)
-    : generateUniqueSlug('client');
-
-  const { data, error } = await supabase
-    .from('forms')
-    .insert({
-      client_name: formData.client_name,
-      client_email: formData.client_email,
-      progress: 0,
-      status: 'pending',
-      data: {},
-      last_reminder: null,
-      slug
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Supabase error:', error); // Debug log
-    throw error;
-  }
-
-  return data;
-};
-
 // Helper function to get all forms
 export const getForms = async () => {
   const { data, error } = await supabase
@@ -144,65 +93,6 @@ export const deleteForm = async (id: string) => {
   return id;
 };
 
-// Helper function to update form data
-export const updateFormData = async (formId: string, data: any) => {
-  const { error } = await supabase
-    .from('forms')
-    .update({ data })
-    .eq('id', formId);
-
-  if (error) throw error;
-};
-
-// Helper function to get form data
-export const getFormData = async (formId: string) => {
-  try {
-    console.log("getFormData called with ID:", formId);
-    
-    // Check if the ID looks like a slug (contains hyphens but not in UUID format)
-    const isSlugLike = formId.includes('-') && !isValidUUID(formId);
-    
-    if (isSlugLike) {
-      // If it looks like a slug, try to get by slug first
-      try {
-        return await getFormBySlug(formId);
-      } catch (slugError) {
-        console.log("Couldn't find by slug, trying as ID anyway");
-        // Fall through to try as regular ID
-      }
-    }
-    
-    // Try to get the form as a regular ID
-    const { data, error } = await supabase
-      .from('forms')
-      .select('*')
-      .eq('id', formId);
-
-    if (error) {
-      console.error("Error fetching form data:", error);
-      throw error;
-    }
-
-    if (!data || data.length === 0) {
-      console.error("No form found with ID:", formId);
-      throw new Error("Form not found");
-    }
-
-    // If multiple rows are returned, use the first one
-    console.log("Form data found:", data[0]);
-    return data[0];
-  } catch (error) {
-    console.error("Error in getFormData:", error);
-    throw error;
-  }
-};
-
-// Helper function to check if a string is a valid UUID
-function isValidUUID(str: string) {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(str);
-}
-
 // Helper function to create a form section
 export const createFormSection = async (sectionData: any) => {
   const { data, error } = await supabase
@@ -214,72 +104,3 @@ export const createFormSection = async (sectionData: any) => {
   if (error) throw error;
   return data;
 };
-
-// Helper function to update section data
-export const updateSectionData = async (sectionId: string, data: any) => {
-  const { error } = await supabase
-    .from('form_sections')
-    .update({ data })
-    .eq('id', sectionId);
-
-  if (error) throw error;
-};
-
-// Helper function to get section data
-export const getSectionData = async (sectionId: string) => {
-  try {
-    console.log("Fetching section data for ID:", sectionId);
-    
-    // First, try to get the section without using .single()
-    const { data, error } = await supabase
-      .from('form_sections')
-      .select('*')
-      .eq('id', sectionId);
-
-    if (error) {
-      console.error("Error fetching section data:", error);
-      throw error;
-    }
-
-    if (!data || data.length === 0) {
-      console.error("No section found with ID:", sectionId);
-      throw new Error("Section not found");
-    }
-
-    // If multiple rows are returned, use the first one
-    console.log("Section data found:", data[0]);
-    return data[0];
-  } catch (error) {
-    console.error("Error in getSectionData:", error);
-    throw error;
-  }
-};
-
-// Helper function to get form by slug
-export const getFormBySlug = async (slug: string) => {
-  try {
-    console.log("getFormBySlug called with slug:", slug);
-    
-    const { data, error } = await supabase
-      .from('forms')
-      .select('*')
-      .eq('slug', slug);
-
-    if (error) {
-      console.error("Error fetching form data by slug:", error);
-      throw error;
-    }
-
-    if (!data || data.length === 0) {
-      console.error("No form found with slug:", slug);
-      throw new Error("Form not found");
-    }
-
-    // If multiple rows are returned, use the first one
-    console.log("Form data found by slug:", data[0]);
-    return data[0];
-  } catch (error) {
-    console.error("Error in getFormBySlug:", error);
-    throw error;
-  }
-};
\ No newline at end of file
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { type InvitationPreview } from "@shared/schema";
+import { supabase } from "@/lib/supabase";
+import { getAuthHeaders } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, AlertCircle, ArrowRight, Lock, User } from "lucide-react";
+
+// Calls the invitation API and throws the server's message, e.g. for expired links
+async function invitationRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const res = await fetch(`/api/invitations/${path}`, {
+    method,
+    headers: {
+      ...(await getAuthHeaders()),
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result = await res.json();
+  if (!res.ok) {
+    throw new Error(result.error || "Something went wrong");
+  }
+  return result;
+}
+
+export default function AcceptInvitation() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: invitation, isLoading, error: loadError } = useQuery({
+    queryKey: ["invitation", token],
+    queryFn: () => invitationRequest<InvitationPreview>("GET", encodeURIComponent(token)),
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Someone who already has an account accepts while signed in and skips the password
+  const { data: signedInEmail, refetch: refetchSession } = useQuery({
+    queryKey: ["session-email"],
+    queryFn: async () => {
+      const { data } = await supabase.auth.getSession();
+      return data.session?.user.email ?? null;
+    },
+  });
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    await refetchSession();
+    setError(null);
+  };
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Please enter your name");
+      return;
+    }
+    if (!signedInEmail) {
+      if (password.length < 8) {
+        setError("Password must be at least 8 characters");
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError("Passwords do not match");
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      await invitationRequest("POST", `${encodeURIComponent(token)}/accept`, {
+        name: name.trim(),
+        ...(signedInEmail ? {} : { password }),
+      });
+
+      if (!signedInEmail) {
+        const { error: signInError } = await supabase.auth.signInWithPassword({ email: invitation.email, password });
+        if (signInError) {
+          // The account exists now; they can sign in from the login page
+          setLocation("/admin");
+          return;
+        }
+      }
+      setLocation("/admin/dashboard");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept the invitation");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const problem = !token
+    ? "This invitation link is incomplete. Open the full link from your invitation."
+    : loadError instanceof Error ? loadError.message : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white mb-2">Client Onboarding</h1>
+          <p className="text-gray-400">Team Invitation</p>
+        </div>
+
+        <Card className="bg-gray-900/50 backdrop-blur-xl border-gray-800/50 shadow-2xl">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-2xl font-bold text-white">Join the team</CardTitle>
+            <CardDescription className="text-gray-400">
+              {invitation
+                ? <>You've been invited as <span className="text-emerald-400 capitalize">{invitation.role}</span> with {invitation.email}.</>
+                : "Checking your invitation..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-8 w-8 animate-spin text-emerald-500" />
+              </div>
+            )}
+
+            {problem && (
+              <Alert variant="destructive" className="bg-red-900/20 border-red-800/50 text-red-300">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Invitation unavailable</AlertTitle>
+                <AlertDescription>{problem}</AlertDescription>
+              </Alert>
+            )}
+
+            {invitation && (
+              <form onSubmit={handleAccept} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive" className="bg-red-900/20 border-red-800/50 text-red-300">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Error</AlertTitle>
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                {signedInEmail && (
+                  <p className="text-sm text-gray-400">
+                    Signed in as {signedInEmail}.{" "}
+                    <button type="button" onClick={handleSignOut} className="text-emerald-400 hover:underline">
+                      Use a different account
+                    </button>
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="name" className="text-gray-300">Your name</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-3 h-4 w-4 text-gray-500" />
+                    <Input
+                      id="name"
+                      placeholder="Jane Doe"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className="pl-10 bg-gray-800/50 border-gray-700 text-white placeholder:text-gray-500"
+                      required
+                    />
+                  </div>
+                </div>
+
+                {!signedInEmail && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="password" className="text-gray-300">Choose a password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-500" />
+                        <Input
+                          id="password"
+                          type="password"
+                          autoComplete="new-password"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="pl-10 bg-gray-800/50 border-gray-700 text-white"
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-password" className="text-gray-300">Confirm password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-500" />
+                        <Input
+                          id="confirm-password"
+                          type="password"
+                          autoComplete="new-password"
+                          value={confirmPassword}
+                          onChange={(e) => setConfirmPassword(e.target.value)}
+                          className="pl-10 bg-gray-800/50 border-gray-700 text-white"
+                          required
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-emerald-600 hover:bg-emerald-500 text-white"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ArrowRight className="mr-2 h-4 w-4" />
+                  )}
+                  Accept Invitation
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
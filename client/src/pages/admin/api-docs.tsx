@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useTheme } from '@/lib/theme-context';
+import { useQuery } from '@tanstack/react-query';
+import { type WebhookEventCatalogue } from '@shared/schema';
 import { 
   Code, 
   Copy, 
@@ -83,36 +85,11 @@ export default function ApiDocs() {
     }
   ];
 
-  const webhookEvents = [
-    {
-      event: 'form.completed',
-      description: 'Triggered when a client completes their onboarding form',
-      payload: {
-        event: 'form.completed',
-        timestamp: '2024-01-15T10:30:00Z',
-        data: {
-          formId: 'uuid',
-          clientName: 'Acme Corp',
-          clientEmail: 'john@acme.com',
-          progress: 100,
-          submissionData: '{ ... }'
-        }
-      }
-    },
-    {
-      event: 'form.updated',
-      description: 'Triggered when form data is updated (coming soon)',
-      payload: {
-        event: 'form.updated',
-        timestamp: '2024-01-15T10:30:00Z',
-        data: {
-          formId: 'uuid',
-          progress: 75,
-          updatedFields: ['businessDetails', 'campaign']
-        }
-      }
-    }
-  ];
+  // Event catalogue is served by the API so docs always match what's sent
+  const { data: eventCatalogue, isLoading: eventsLoading } = useQuery<WebhookEventCatalogue>({
+    queryKey: ['/api/webhook/events'],
+  });
+  const [expandedSchema, setExpandedSchema] = useState<string | null>(null);
 
   return (
     <AdminLayout>
@@ -189,19 +166,19 @@ export default function ApiDocs() {
               </CardHeader>
               <CardContent className="space-y-6">
                 <div>
-                  <h4 className="font-medium mb-3">API Key Authentication</h4>
+                  <h4 className="font-medium mb-3">Session Authentication</h4>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Include your API key in the Authorization header of all requests:
+                    Include your Supabase access token in the Authorization header of all requests:
                   </p>
                   <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'} relative`}>
                     <pre className="text-sm overflow-x-auto">
-                      <code>{`Authorization: Bearer YOUR_API_KEY`}</code>
+                      <code>{`Authorization: Bearer YOUR_ACCESS_TOKEN`}</code>
                     </pre>
                     <Button
                       variant="ghost"
                       size="sm"
                       className="absolute top-2 right-2"
-                      onClick={() => copyCode('Authorization: Bearer YOUR_API_KEY', 'auth-header')}
+                      onClick={() => copyCode('Authorization: Bearer YOUR_ACCESS_TOKEN', 'auth-header')}
                     >
                       {copiedCode === 'auth-header' ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                     </Button>
@@ -212,9 +189,9 @@ export default function ApiDocs() {
                   <div className="flex items-start gap-2">
                     <Info className="w-4 h-4 text-blue-500 mt-0.5" />
                     <div className="text-sm">
-                      <p className="font-medium text-blue-700 dark:text-blue-300">Getting your API Key</p>
+                      <p className="font-medium text-blue-700 dark:text-blue-300">Roles and client access</p>
                       <p className="text-blue-600 dark:text-blue-400 mt-1">
-                        API keys can be generated from the Settings page. Keep your keys secure and never expose them in client-side code.
+                        What a token can do depends on your role: viewers can read forms and submissions, editors can also create and edit forms, and only admins can manage webhooks and the team. Clients use the token from their form link in an <code>X-Form-Token</code> header, which only opens that form.
                       </p>
                     </div>
                   </div>
@@ -290,31 +267,50 @@ export default function ApiDocs() {
                   Webhook Events
                 </CardTitle>
                 <CardDescription>
-                  Real-time notifications for form events
+                  Real-time notifications for form events. Every event shares the same envelope
+                  {eventCatalogue && <> (API version <code>{eventCatalogue.api_version}</code>)</>}.
+                  The full catalogue with JSON Schemas is available at <code>GET /api/webhook/events</code>.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                {webhookEvents.map((webhook, index) => (
-                  <div key={index} className="space-y-3">
-                    <div className="flex items-center gap-3">
-                      <Badge variant="secondary">{webhook.event}</Badge>
-                      <span className="text-sm text-muted-foreground">{webhook.description}</span>
-                    </div>
-                    <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'} relative`}>
-                      <pre className="text-sm overflow-x-auto">
-                        <code>{JSON.stringify(webhook.payload, null, 2)}</code>
-                      </pre>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="absolute top-2 right-2"
-                        onClick={() => copyCode(JSON.stringify(webhook.payload, null, 2), `webhook-${index}`)}
-                      >
-                        {copiedCode === `webhook-${index}` ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                      </Button>
+                {eventsLoading && (
+                  <p className="text-sm text-muted-foreground">Loading events...</p>
+                )}
+                {eventCatalogue?.events.map((event, index) => {
+                  const example = JSON.stringify(event.example, null, 2);
+                  const schema = JSON.stringify(event.schema, null, 2);
+                  const showSchema = expandedSchema === event.type;
+                  return (
+                    <div key={event.type} className="space-y-3">
+                      <div className="flex items-center gap-3">
+                        <Badge variant="secondary" className="font-mono">{event.type}</Badge>
+                        <span className="text-sm text-muted-foreground">{event.description}</span>
+                        {!event.subscribable && <Badge variant="outline">On demand</Badge>}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto"
+                          onClick={() => setExpandedSchema(showSchema ? null : event.type)}
+                        >
+                          {showSchema ? 'Show example' : 'Show JSON Schema'}
+                        </Button>
+                      </div>
+                      <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'} relative`}>
+                        <pre className="text-sm overflow-x-auto max-h-96">
+                          <code>{showSchema ? schema : example}</code>
+                        </pre>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="absolute top-2 right-2"
+                          onClick={() => copyCode(showSchema ? schema : example, `webhook-${index}`)}
+                        >
+                          {copiedCode === `webhook-${index}` ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </CardContent>
             </Card>
           </TabsContent>
@@ -333,7 +329,7 @@ export default function ApiDocs() {
                       <code>{`const response = await fetch('/api/forms', {
   method: 'POST',
   headers: {
-    'Authorization': 'Bearer YOUR_API_KEY',
+    'Authorization': 'Bearer YOUR_ACCESS_TOKEN',
     'Content-Type': 'application/json'
   },
   body: JSON.stringify({
@@ -352,7 +348,7 @@ console.log('Form created:', form);`}</code>
                       onClick={() => copyCode(`const response = await fetch('/api/forms', {
   method: 'POST',
   headers: {
-    'Authorization': 'Bearer YOUR_API_KEY',
+    'Authorization': 'Bearer YOUR_ACCESS_TOKEN',
     'Content-Type': 'application/json'
   },
   body: JSON.stringify({
@@ -379,10 +375,10 @@ console.log('Form created:', form);`, 'create-form')}
                   <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'} relative`}>
                     <pre className="text-sm overflow-x-auto">
                       <code>{`app.post('/webhook', (req, res) => {
-  const { event, data } = req.body;
+  const { id, type, data } = req.body;
   
-  if (event === 'form.completed') {
-    console.log('Form completed:', data.formId);
+  if (type === 'form.completed') {
+    console.log('Form completed:', data.form.id, id);
     
     // Process the submission
     processFormSubmission(data);
@@ -396,10 +392,10 @@ console.log('Form created:', form);`, 'create-form')}
                       size="sm"
                       className="absolute top-2 right-2"
                       onClick={() => copyCode(`app.post('/webhook', (req, res) => {
-  const { event, data } = req.body;
+  const { id, type, data } = req.body;
   
-  if (event === 'form.completed') {
-    console.log('Form completed:', data.formId);
+  if (type === 'form.completed') {
+    console.log('Form completed:', data.form.id, id);
     
     // Process the submission
     processFormSubmission(data);
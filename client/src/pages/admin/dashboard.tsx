@@ -4,8 +4,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { queryClient } from '@/lib/queryClient';
-import { getForms, createForm, updateForm, deleteForm, type Form } from '@/lib/supabase';
+import { apiRequest, getApiErrorMessage, getAuthHeaders, queryClient } from '@/lib/queryClient';
+import { getForms, updateForm, deleteForm, type Form } from '@/lib/supabase';
+import { createForm, downloadBrandKit, downloadFormSummary, setFormPassword } from '@/lib/formOperations';
 import { useToast } from '@/hooks/use-toast';
 import { useTheme } from '@/lib/theme-context';
 import { 
@@ -39,7 +40,11 @@ import {
   User,
   Building2,
   Target,
-  Zap
+  Zap,
+  Bell,
+  BellOff,
+  History,
+  Package
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -58,13 +63,26 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { type FormTemplate } from '@shared/schema';
+import { DEFAULT_FORM_TEMPLATE_NAME } from '@shared/defaultFormTemplate';
+import { FormHistoryDialog } from '@/components/revisions/FormHistoryDialog';
+
+// Select value for "no template picked": the server uses the admins' default, or the built-in questions
+const DEFAULT_TEMPLATE_VALUE = 'default';
 
 export default function AdminDashboard() {
   const { theme } = useTheme();
   const { toast } = useToast();
   
-  // State management
-  const [searchTerm, setSearchTerm] = useState('');
+  // State management. Notification links open the dashboard filtered with ?search=
+  const [searchTerm, setSearchTerm] = useState(() => new URLSearchParams(window.location.search).get('search') ?? '');
   const [filterStatus, setFilterStatus] = useState<'all' | 'pending' | 'in_progress' | 'completed'>('all');
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'progress' | 'status'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -72,10 +90,12 @@ export default function AdminDashboard() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [selectedForm, setSelectedForm] = useState<Form | null>(null);
+  const [historyForm, setHistoryForm] = useState<Form | null>(null);
   const [newFormData, setNewFormData] = useState({
     client_name: '',
     client_email: '',
-    password: ''
+    password: '',
+    template_id: DEFAULT_TEMPLATE_VALUE
   });
 
   // Data fetching
@@ -85,13 +105,21 @@ export default function AdminDashboard() {
     refetchInterval: 30000, // Auto-refresh every 30 seconds
   });
 
+  const { data: allTemplates = [] } = useQuery<FormTemplate[]>({
+    queryKey: ['/api/form-templates'],
+    enabled: showCreateDialog,
+  });
+  // Drafts can't be sent until they're published
+  const templates = allTemplates.filter(template => template.published_version !== null);
+  const defaultTemplate = templates.find(template => template.is_default);
+
   // Mutations
   const createFormMutation = useMutation({
     mutationFn: createForm,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['forms'] });
       setShowCreateDialog(false);
-      setNewFormData({ client_name: '', client_email: '', password: '' });
+      setNewFormData({ client_name: '', client_email: '', password: '', template_id: DEFAULT_TEMPLATE_VALUE });
       toast({
         title: "Form created successfully",
         description: "The onboarding form has been created and is ready to send.",
@@ -100,7 +128,7 @@ export default function AdminDashboard() {
     onError: (error) => {
       toast({
         title: "Error creating form",
-        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        description: getApiErrorMessage(error, "An unexpected error occurred"),
         variant: "destructive",
       });
     },
@@ -221,47 +249,81 @@ export default function AdminDashboard() {
     createFormMutation.mutate({
       client_name: newFormData.client_name,
       client_email: newFormData.client_email,
-      status: 'pending',
-      progress: 0,
-      data: {},
-      password: newFormData.password || null,
+      password: newFormData.password || undefined,
+      template_id: newFormData.template_id === DEFAULT_TEMPLATE_VALUE ? undefined : newFormData.template_id,
     });
   };
 
+  const handleDownloadBrandKit = async (e: React.MouseEvent, form: Form) => {
+    e.stopPropagation();
+    try {
+      await downloadBrandKit(form.id);
+    } catch (error) {
+      toast({
+        title: "Error downloading brand kit",
+        description: error instanceof Error ? error.message : "Failed to download the brand kit.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadSummary = async (e: React.MouseEvent, form: Form) => {
+    e.stopPropagation();
+    try {
+      await downloadFormSummary(form.id);
+    } catch (error) {
+      toast({
+        title: "Error downloading summary",
+        description: error instanceof Error ? error.message : "Failed to download the summary.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const sendReminder = async (formId: string) => {
     try {
-      const response = await fetch(`/api/forms/${formId}/remind`, {
+      const response = await fetch(`/api/forms/${formId}/reminder`, {
         method: 'POST',
+        headers: await getAuthHeaders(),
       });
       
       if (response.ok) {
-        await updateFormMutation.mutateAsync({
-          id: formId,
-          data: { last_reminder: new Date().toISOString() }
-        });
+        // The server records last_reminder once the email is sent
+        queryClient.invalidateQueries({ queryKey: ['forms'] });
         toast({
           title: "Reminder sent",
           description: "Email reminder has been sent to the client.",
         });
       } else {
-        throw new Error('Failed to send reminder');
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.details || result.error || 'Failed to send reminder');
       }
     } catch (error) {
       toast({
         title: "Error sending reminder",
-        description: "Failed to send the reminder email.",
+        description: error instanceof Error ? error.message : "Failed to send the reminder email.",
         variant: "destructive",
       });
     }
   };
 
-  const copyFormUrl = (form: Form) => {
-    const url = getFormUrl(form);
-    navigator.clipboard.writeText(url);
-    toast({
-      title: "URL copied",
-      description: "Form URL has been copied to clipboard.",
-    });
+  // Client links carry a token that only opens this one form
+  const copyFormUrl = async (form: Form) => {
+    try {
+      const response = await apiRequest('POST', `/api/forms/${form.id}/access-tokens`);
+      const { token } = await response.json();
+      navigator.clipboard.writeText(`${getFormUrl(form)}?token=${encodeURIComponent(token)}`);
+      toast({
+        title: "URL copied",
+        description: "Form URL has been copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error copying URL",
+        description: "Failed to create a link for this form.",
+        variant: "destructive",
+      });
+    }
   };
 
   const openForm = (form: Form) => {
@@ -284,6 +346,14 @@ export default function AdminDashboard() {
     });
   };
 
+  const handleToggleReminders = (e: React.MouseEvent, form: Form) => {
+    e.stopPropagation();
+    updateFormMutation.mutate({
+      id: form.id,
+      data: { reminders_opted_out: !form.reminders_opted_out }
+    });
+  };
+
   const handleSetFormPassword = (e: React.MouseEvent, form: Form) => {
     e.stopPropagation();
     setSelectedForm(form);
@@ -296,11 +366,31 @@ export default function AdminDashboard() {
     }
   };
 
+  const setPasswordMutation = useMutation({
+    mutationFn: ({ id, password }: { id: string; password: string | null }) => setFormPassword(id, password),
+    onSuccess: (_, { password }) => {
+      queryClient.invalidateQueries({ queryKey: ['forms'] });
+      toast({
+        title: password ? "Password set" : "Password removed",
+        description: password
+          ? "The client will need this password to open the form."
+          : "The form no longer asks for a password.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error setting password",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   const confirmSetPassword = () => {
     if (selectedForm) {
-      updateFormMutation.mutate({
+      setPasswordMutation.mutate({
         id: selectedForm.id,
-        data: { password: newFormData.password || null }
+        password: newFormData.password || null
       });
       setShowPasswordDialog(false);
       setNewFormData(prev => ({ ...prev, password: '' }));
@@ -588,7 +678,7 @@ export default function AdminDashboard() {
                             {form.is_disabled && (
                               <Lock className="w-4 h-4 text-red-500" />
                             )}
-                            {form.password && (
+                            {form.password_hash && (
                               <div className={`px-2 py-1 rounded text-xs ${theme === 'dark' ? 'bg-yellow-900/30 text-yellow-400' : 'bg-yellow-100 text-yellow-800'}`}>
                                 Protected
                               </div>
@@ -647,10 +737,35 @@ export default function AdminDashboard() {
                                   <Copy className="w-4 h-4 mr-2" />
                                   Copy URL
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setHistoryForm(form); }}>
+                                  <History className="w-4 h-4 mr-2" />
+                                  History
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={(e) => handleDownloadBrandKit(e, form)}>
+                                  <Package className="w-4 h-4 mr-2" />
+                                  Download Brand Kit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={(e) => handleDownloadSummary(e, form)}>
+                                  <FileText className="w-4 h-4 mr-2" />
+                                  Download Summary (PDF)
+                                </DropdownMenuItem>
                                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); sendReminder(form.id); }}>
                                   <Mail className="w-4 h-4 mr-2" />
                                   Send Reminder
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={(e) => handleToggleReminders(e, form)}>
+                                  {form.reminders_opted_out ? (
+                                    <>
+                                      <Bell className="w-4 h-4 mr-2" />
+                                      Resume Auto Reminders
+                                    </>
+                                  ) : (
+                                    <>
+                                      <BellOff className="w-4 h-4 mr-2" />
+                                      Stop Auto Reminders
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem onClick={(e) => handleToggleFormStatus(e, form)}>
                                   {form.is_disabled ? (
@@ -732,6 +847,25 @@ export default function AdminDashboard() {
                 onChange={(e) => setNewFormData(prev => ({ ...prev, password: e.target.value }))}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_id">Template</Label>
+              <Select
+                value={newFormData.template_id}
+                onValueChange={(value) => setNewFormData(prev => ({ ...prev, template_id: value }))}
+              >
+                <SelectTrigger id="template_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE_VALUE}>
+                    {defaultTemplate?.name ?? DEFAULT_FORM_TEMPLATE_NAME} (default)
+                  </SelectItem>
+                  {templates.filter(template => !template.is_default).map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
                 Cancel
@@ -801,6 +935,8 @@ export default function AdminDashboard() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <FormHistoryDialog form={historyForm} onClose={() => setHistoryForm(null)} />
     </AdminLayout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { MoreHorizontal, Plus, Search, Trash2, Type } from 'lucide-react';
+import { fontCategories, type CatalogueFont, type CreateCatalogueFont, type FontCategory } from '@shared/schema';
+import { getFontPairings, getFontStack, normalizeFontName } from '@shared/fonts';
+import { AdminLayout } from '@/components/layouts/AdminLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+import { loadCatalogueFonts } from '@/lib/fonts';
+
+const FONTS_KEY = '/api/fonts';
+
+const categoryLabels: Record<FontCategory, string> = {
+  'sans-serif': 'Sans serif',
+  serif: 'Serif',
+  display: 'Display',
+  handwriting: 'Handwriting',
+  monospace: 'Monospace',
+};
+
+const fontWeights = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const emptyFont: CreateCatalogueFont = { family: '', category: 'sans-serif', weights: [400, 700], pairings: [], is_active: true };
+
+interface FontDialogProps {
+  // null to add a font
+  font: CatalogueFont | null;
+  open: boolean;
+  catalogue: CatalogueFont[];
+  onClose: () => void;
+}
+
+function FontDialog({ font, open, catalogue, onClose }: FontDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CreateCatalogueFont>(emptyFont);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(font ? { family: font.family, category: font.category, weights: font.weights, pairings: font.pairings, is_active: font.is_active } : emptyFont);
+  }, [open, font]);
+
+  const update = (changes: Partial<CreateCatalogueFont>) => setDraft(prev => ({ ...prev, ...changes }));
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(current => current !== item) : [...list, item];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...draft, family: draft.family.trim(), weights: [...draft.weights].sort((a, b) => a - b) };
+      await apiRequest(font ? 'PATCH' : 'POST', font ? `${FONTS_KEY}/${font.id}` : FONTS_KEY, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [FONTS_KEY] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save the font."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const others = catalogue.filter(other => other.id !== font?.id);
+  const pairs = new Set(draft.pairings.map(normalizeFontName));
+
+  return (
+    <Dialog open={open} onOpenChange={next => !next && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{font ? `Edit ${font.family}` : 'Add a Font'}</DialogTitle>
+          <DialogDescription>
+            Use the family name exactly as Google Fonts has it, so it loads for clients.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={e => {
+            e.preventDefault();
+            if (draft.family.trim() && draft.weights.length > 0) saveMutation.mutate();
+          }}
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="font-family">Family</Label>
+              <Input id="font-family" value={draft.family} onChange={e => update({ family: e.target.value })} placeholder="e.g. Work Sans" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="font-category">Category</Label>
+              <Select value={draft.category} onValueChange={category => update({ category: category as FontCategory })}>
+                <SelectTrigger id="font-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontCategories.map(category => (
+                    <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Weights</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {fontWeights.map(weight => (
+                <Button
+                  key={weight}
+                  type="button"
+                  size="sm"
+                  variant={draft.weights.includes(weight) ? 'default' : 'outline'}
+                  onClick={() => update({ weights: toggle(draft.weights, weight) })}
+                >
+                  {weight}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pairs well with</Label>
+            {others.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add more fonts to suggest pairings.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+                {others.map(other => (
+                  <Button
+                    key={other.id}
+                    type="button"
+                    size="sm"
+                    variant={pairs.has(normalizeFontName(other.family)) ? 'default' : 'outline'}
+                    onClick={() => update({
+                      pairings: pairs.has(normalizeFontName(other.family))
+                        ? draft.pairings.filter(pairing => normalizeFontName(pairing) !== normalizeFontName(other.family))
+                        : [...draft.pairings, other.family],
+                    })}
+                  >
+                    {other.family}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="font-active">Offer to clients</Label>
+            <Switch id="font-active" checked={draft.is_active} onCheckedChange={is_active => update({ is_active })} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={saveMutation.isPending || !draft.family.trim() || draft.weights.length === 0}>
+              {saveMutation.isPending ? 'Saving...' : 'Save Font'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FontCatalogue() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<CatalogueFont | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<CatalogueFont | null>(null);
+
+  const { data: catalogue = [], isLoading } = useQuery<CatalogueFont[]>({
+    queryKey: [FONTS_KEY],
+  });
+
+  useEffect(() => {
+    loadCatalogueFonts(catalogue);
+  }, [catalogue]);
+
+  const query = normalizeFontName(search);
+  const shown = catalogue.filter(font => !query || normalizeFontName(font.family).includes(query) || font.category.includes(search.trim().toLowerCase()));
+
+  const toggleMutation = useMutation({
+    mutationFn: async (font: CatalogueFont) => {
+      await apiRequest('PATCH', `${FONTS_KEY}/${font.id}`, { is_active: !font.is_active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [FONTS_KEY] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update the font."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (font: CatalogueFont) => {
+      await apiRequest('DELETE', `${FONTS_KEY}/${font.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [FONTS_KEY] });
+      setDeleting(null);
+    },
+    onError: (error) => {
+      setDeleting(null);
+      toast({
+        title: "Couldn't delete the font",
+        description: getApiErrorMessage(error, "Failed to delete the font."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (font: CatalogueFont | null) => {
+    setEditing(font);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Fonts</h1>
+          <p className="text-muted-foreground mt-1">
+            The fonts clients can pick for their brand
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="gap-2">
+          <Plus className="w-4 h-4" />
+          Add Font
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Type className="w-5 h-5" />
+            Font Catalogue
+          </CardTitle>
+          <CardDescription>
+            Offered by font fields that don't list their own options. Pairings are suggested once a client has picked one of the pair.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+            <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search by name or category" className="pl-8" />
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading fonts...</p>
+          ) : catalogue.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No fonts yet. Clients can still enter or upload their own.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Font</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Weights</TableHead>
+                  <TableHead>Pairs with</TableHead>
+                  <TableHead>Offered</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map(font => (
+                  <TableRow key={font.id}>
+                    <TableCell>
+                      <div className="text-lg" style={{ fontFamily: getFontStack(font.family, font.category) }}>{font.family}</div>
+                    </TableCell>
+                    <TableCell><Badge variant="outline">{categoryLabels[font.category]}</Badge></TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{font.weights.join(', ')}</TableCell>
+                    <TableCell className="text-sm">
+                      {getFontPairings(catalogue, font.family).map(pair => pair.family).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={font.is_active} onCheckedChange={() => toggleMutation.mutate(font)} aria-label={`Offer ${font.family} to clients`} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Font actions">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openDialog(font)}>Edit</DropdownMenuItem>
+                          <DropdownMenuItem className="text-destructive" onClick={() => setDeleting(font)}>Delete</DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <FontDialog font={editing} open={dialogOpen} catalogue={catalogue} onClose={() => setDialogOpen(false)} />
+
+      <Dialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Font</DialogTitle>
+            <DialogDescription>
+              Remove {deleting?.family} from the catalogue? Forms that chose it keep their answers. Turn it off instead to keep its pairings.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="destructive" className="gap-2" disabled={deleteMutation.isPending} onClick={() => deleting && deleteMutation.mutate(deleting)}>
+              <Trash2 className="w-4 h-4" /> Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function FontsPage() {
+  return (
+    <AdminLayout>
+      <FontCatalogue />
+    </AdminLayout>
+  );
+}
@@ -1,5 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  defaultReminderSettings,
+  type Notification,
+  type NotificationCounts,
+  type NotificationType,
+  type ReminderSettings,
+} from '@shared/schema';
 import { AdminLayout } from '@/components/layouts/AdminLayout';
+import { NotificationPreferencesCard } from '@/components/notifications/NotificationPreferencesCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,14 +18,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useTheme } from '@/lib/theme-context';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
 import { 
   Bell, 
   Mail, 
   MessageSquare, 
   Clock, 
   Users, 
-  Settings, 
   CheckCircle2, 
+  CheckCheck,
   AlertCircle, 
   Info,
   Send,
@@ -29,9 +41,9 @@ import {
   RefreshCw,
   Volume2,
   VolumeX,
-  Star,
-  Archive,
   ExternalLink,
+  FilePlus,
+  ListChecks,
   Zap,
   Target,
   TrendingUp,
@@ -53,101 +65,170 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+const REMINDER_SETTINGS_KEY = '/api/reminder-settings';
+const NOTIFICATIONS_KEY = '/api/notifications';
+const HISTORY_LIMIT = 100;
+
+type NotificationsResponse = { notifications: Notification[]; total: number; counts: NotificationCounts };
+
+const typeLabels: Record<NotificationType, string> = {
+  form_created: 'New Forms',
+  form_completed: 'Form Completions',
+  section_completed: 'Section Completions',
+  reminder_sent: 'Reminders',
+  webhook_failed: 'Webhook Failures',
+};
+
+// Covers the list (whatever its filters) and the sidebar badge
+function invalidateNotifications() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(NOTIFICATIONS_KEY),
+  });
+}
+
 export default function NotificationsPage() {
   const { theme } = useTheme();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState('');
-  const [filterType, setFilterType] = useState('all');
+  const [filterType, setFilterType] = useState<'all' | NotificationType>('all');
   
-  // Notification settings
-  const [emailSettings, setEmailSettings] = useState({
-    formCompletions: true,
-    clientReminders: true,
-    systemAlerts: false,
-    weeklyReports: true,
-    webhookFailures: true,
-    newFormCreated: false
+  // Reminder hours count from when the form was created; the server sends them
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(defaultReminderSettings);
+
+  const { data: savedReminderSettings } = useQuery<ReminderSettings>({
+    queryKey: [REMINDER_SETTINGS_KEY],
+  });
+
+  useEffect(() => {
+    if (savedReminderSettings) setReminderSettings(savedReminderSettings);
+  }, [savedReminderSettings]);
+
+  const saveReminderSettingsMutation = useMutation({
+    mutationFn: async (settings: ReminderSettings) => {
+      const res = await apiRequest('PUT', REMINDER_SETTINGS_KEY, settings);
+      return (await res.json()) as ReminderSettings;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData([REMINDER_SETTINGS_KEY], settings);
+      toast({
+        title: "Reminder settings saved",
+        description: settings.enabled
+          ? "Clients with incomplete forms will be reminded automatically."
+          : "Automatic reminders are off.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving reminder settings",
+        description: getApiErrorMessage(error, "Failed to save the reminder settings."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const params = new URLSearchParams({ limit: String(HISTORY_LIMIT) });
+  if (filterType !== 'all') params.set('type', filterType);
+
+  const { data: history, isLoading: historyLoading, refetch: refetchHistory, isFetching: historyFetching } = useQuery<NotificationsResponse>({
+    queryKey: [`${NOTIFICATIONS_KEY}?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  const notifications = history?.notifications ?? [];
+  const notificationStats: NotificationCounts = history?.counts ?? { total: 0, unread: 0, highPriority: 0, today: 0 };
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `${NOTIFICATIONS_KEY}/${id}/read`),
+    onSuccess: () => invalidateNotifications(),
   });
 
-  const [reminderSettings, setReminderSettings] = useState({
-    enabled: true,
-    firstReminder: 24, // hours
-    secondReminder: 72, // hours
-    finalReminder: 168, // hours (1 week)
-    customMessage: ''
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `${NOTIFICATIONS_KEY}/read-all`);
+      return (await res.json()) as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      invalidateNotifications();
+      toast({
+        title: "All caught up",
+        description: updated === 1 ? "1 notification marked as read." : `${updated} notifications marked as read.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to mark notifications as read."),
+        variant: "destructive",
+      });
+    },
   });
 
-  // Mock notification history
-  const notifications = [
-    {
-      id: '1',
-      type: 'form_completion',
-      title: 'Form Completed - Acme Corp',
-      message: 'John Doe from Acme Corp has completed their onboarding form.',
-      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-      read: false,
-      priority: 'high',
-      actions: ['View Form', 'Send Thank You']
+  const dismissMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `${NOTIFICATIONS_KEY}/${id}`),
+    onSuccess: () => invalidateNotifications(),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to dismiss the notification."),
+        variant: "destructive",
+      });
     },
-    {
-      id: '2',
-      type: 'reminder_sent',
-      title: 'Reminder Sent - TechStart Inc',
-      message: 'Automatic reminder sent to Sarah Johnson for incomplete form.',
-      timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-      read: true,
-      priority: 'medium',
-      actions: ['View Form']
+  });
+
+  const retryWebhookMutation = useMutation({
+    mutationFn: (deliveryId: string) => apiRequest('POST', `/api/webhook/deliveries/${deliveryId}/redeliver`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhook/deliveries'] });
+      toast({
+        title: "Webhook queued",
+        description: "The delivery will be retried shortly. Check the deliveries tab for the result.",
+      });
     },
-    {
-      id: '3',
-      type: 'system_alert',
-      title: 'Webhook Delivery Failed',
-      message: 'Failed to deliver webhook for form submission to https://api.example.com/webhook',
-      timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      read: false,
-      priority: 'high',
-      actions: ['Retry Webhook', 'Check Settings']
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to retry the webhook."),
+        variant: "destructive",
+      });
     },
-    {
-      id: '4',
-      type: 'weekly_report',
-      title: 'Weekly Report Available',
-      message: 'Your weekly onboarding report is ready with 12 new completions.',
-      timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-      read: true,
-      priority: 'low',
-      actions: ['View Report']
+  });
+
+  type NotificationAction = { label: string; run: () => void };
+
+  const getNotificationActions = (notification: Notification): NotificationAction[] => {
+    const data = notification.data ?? {};
+    if (notification.type === 'webhook_failed') {
+      const actions: NotificationAction[] = [];
+      if (data.deliveryId) {
+        const deliveryId = data.deliveryId;
+        actions.push({ label: 'Retry Webhook', run: () => retryWebhookMutation.mutate(deliveryId) });
+      }
+      actions.push({ label: 'View Deliveries', run: () => setLocation('/admin/webhook-settings?tab=deliveries') });
+      return actions;
     }
-  ];
-
-  const notificationStats = {
-    total: notifications.length,
-    unread: notifications.filter(n => !n.read).length,
-    high: notifications.filter(n => n.priority === 'high').length,
-    today: notifications.filter(n => {
-      const today = new Date();
-      const notifDate = new Date(n.timestamp);
-      return notifDate.toDateString() === today.toDateString();
-    }).length
+    const formPath = data.formSlug || notification.form_id;
+    if (!formPath) return [];
+    return [{ label: 'View Form', run: () => window.open(`/onboarding/${formPath}`, '_blank') }];
   };
 
-  const handleEmailToggle = (setting: keyof typeof emailSettings) => {
-    setEmailSettings(prev => ({
-      ...prev,
-      [setting]: !prev[setting]
-    }));
+  const runAction = (notification: Notification, action: NotificationAction) => {
+    if (!notification.read_at) markReadMutation.mutate(notification.id);
+    action.run();
   };
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
-      case 'form_completion':
+      case 'form_completed':
         return <CheckCircle2 className="w-5 h-5 text-green-500" />;
+      case 'section_completed':
+        return <ListChecks className="w-5 h-5 text-emerald-500" />;
+      case 'form_created':
+        return <FilePlus className="w-5 h-5 text-purple-500" />;
       case 'reminder_sent':
         return <Clock className="w-5 h-5 text-blue-500" />;
-      case 'system_alert':
+      case 'webhook_failed':
         return <AlertCircle className="w-5 h-5 text-red-500" />;
-      case 'weekly_report':
-        return <TrendingUp className="w-5 h-5 text-purple-500" />;
       default:
         return <Bell className="w-5 h-5 text-gray-500" />;
     }
@@ -182,17 +263,22 @@ export default function NotificationsPage() {
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
             <p className="text-muted-foreground mt-1">
-              Manage notification settings and view recent alerts
+              View recent alerts and choose how you're notified
             </p>
           </div>
           <div className="flex items-center gap-3">
-            <Button variant="outline" size="sm" className="gap-2">
-              <RefreshCw className="w-4 h-4" />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => refetchHistory()} disabled={historyFetching}>
+              <RefreshCw className={`w-4 h-4 ${historyFetching ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
-            <Button size="sm" className="gap-2">
-              <Settings className="w-4 h-4" />
-              Settings
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending || notificationStats.unread === 0}
+            >
+              <CheckCheck className="w-4 h-4" />
+              Mark all as read
             </Button>
           </div>
         </div>
@@ -231,8 +317,8 @@ export default function NotificationsPage() {
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">High Priority</p>
-                  <p className="text-3xl font-bold mt-2">{notificationStats.high}</p>
+                  <p className="text-sm font-medium text-muted-foreground">Unread High Priority</p>
+                  <p className="text-3xl font-bold mt-2">{notificationStats.highPriority}</p>
                 </div>
                 <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-red-500/20' : 'bg-red-100'}`}>
                   <AlertCircle className="w-6 h-6 text-red-600" />
@@ -262,9 +348,9 @@ export default function NotificationsPage() {
               <Bell className="w-4 h-4" />
               Notification History
             </TabsTrigger>
-            <TabsTrigger value="email" className="gap-2">
+            <TabsTrigger value="preferences" className="gap-2">
               <Mail className="w-4 h-4" />
-              Email Settings
+              Preferences
             </TabsTrigger>
             <TabsTrigger value="reminders" className="gap-2">
               <Clock className="w-4 h-4" />
@@ -285,16 +371,15 @@ export default function NotificationsPage() {
                   className="pl-10"
                 />
               </div>
-              <Select value={filterType} onValueChange={setFilterType}>
+              <Select value={filterType} onValueChange={(value) => setFilterType(value as typeof filterType)}>
                 <SelectTrigger className="w-48">
                   <SelectValue placeholder="Filter by type" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="form_completion">Form Completions</SelectItem>
-                  <SelectItem value="reminder_sent">Reminders</SelectItem>
-                  <SelectItem value="system_alert">System Alerts</SelectItem>
-                  <SelectItem value="weekly_report">Reports</SelectItem>
+                  {Object.entries(typeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -303,7 +388,9 @@ export default function NotificationsPage() {
             <Card>
               <CardContent className="p-0">
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {filteredNotifications.length === 0 ? (
+                  {historyLoading ? (
+                    <div className="p-8 text-center text-muted-foreground">Loading notifications...</div>
+                  ) : filteredNotifications.length === 0 ? (
                     <div className="p-8 text-center">
                       <Bell className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                       <p className="text-muted-foreground">No notifications found.</p>
@@ -313,7 +400,7 @@ export default function NotificationsPage() {
                       <div
                         key={notification.id}
                         className={`p-6 hover:${theme === 'dark' ? 'bg-gray-800/30' : 'bg-gray-50'} transition-colors ${
-                          !notification.read ? 'border-l-4 border-l-blue-500' : ''
+                          !notification.read_at ? 'border-l-4 border-l-blue-500' : ''
                         }`}
                       >
                         <div className="flex items-start gap-4">
@@ -325,7 +412,7 @@ export default function NotificationsPage() {
                               <div className="flex-1">
                                 <div className="flex items-center gap-2 mb-1">
                                   <h3 className="font-medium">{notification.title}</h3>
-                                  {!notification.read && (
+                                  {!notification.read_at && (
                                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                                   )}
                                   <Badge className={`text-xs ${getPriorityColor(notification.priority)} border-0`}>
@@ -336,11 +423,17 @@ export default function NotificationsPage() {
                                   {notification.message}
                                 </p>
                                 <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                                  <span>{new Date(notification.timestamp).toLocaleString()}</span>
+                                  <span>{notification.created_at ? new Date(notification.created_at).toLocaleString() : '—'}</span>
                                   <div className="flex items-center gap-2">
-                                    {notification.actions.map((action, index) => (
-                                      <Button key={index} variant="ghost" size="sm" className="h-6 px-2 text-xs">
-                                        {action}
+                                    {getNotificationActions(notification).map((action) => (
+                                      <Button
+                                        key={action.label}
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() => runAction(notification, action)}
+                                      >
+                                        {action.label}
                                       </Button>
                                     ))}
                                   </div>
@@ -353,22 +446,21 @@ export default function NotificationsPage() {
                                   </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end">
-                                  <DropdownMenuItem className="gap-2">
+                                  <DropdownMenuItem
+                                    className="gap-2"
+                                    disabled={!!notification.read_at}
+                                    onClick={() => markReadMutation.mutate(notification.id)}
+                                  >
                                     <Eye className="w-4 h-4" />
                                     Mark as Read
                                   </DropdownMenuItem>
-                                  <DropdownMenuItem className="gap-2">
-                                    <Star className="w-4 h-4" />
-                                    Star
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem className="gap-2">
-                                    <Archive className="w-4 h-4" />
-                                    Archive
-                                  </DropdownMenuItem>
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem className="gap-2 text-red-600">
+                                  <DropdownMenuItem
+                                    className="gap-2 text-red-600"
+                                    onClick={() => dismissMutation.mutate(notification.id)}
+                                  >
                                     <Trash2 className="w-4 h-4" />
-                                    Delete
+                                    Dismiss
                                   </DropdownMenuItem>
                                 </DropdownMenuContent>
                               </DropdownMenu>
@@ -383,68 +475,9 @@ export default function NotificationsPage() {
             </Card>
           </TabsContent>
 
-          {/* Email Settings */}
-          <TabsContent value="email" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Mail className="w-5 h-5" />
-                  Email Notification Settings
-                </CardTitle>
-                <CardDescription>
-                  Configure which events trigger email notifications
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {Object.entries({
-                  formCompletions: {
-                    label: "Form Completions",
-                    description: "Get notified when clients complete their onboarding forms"
-                  },
-                  clientReminders: {
-                    label: "Client Reminders",
-                    description: "Receive notifications when automatic reminders are sent"
-                  },
-                  systemAlerts: {
-                    label: "System Alerts",
-                    description: "Important system notifications and maintenance updates"
-                  },
-                  weeklyReports: {
-                    label: "Weekly Reports",
-                    description: "Receive weekly summary reports of form activity"
-                  },
-                  webhookFailures: {
-                    label: "Webhook Failures",
-                    description: "Get alerted when webhook deliveries fail"
-                  },
-                  newFormCreated: {
-                    label: "New Form Created",
-                    description: "Notification when new forms are created by team members"
-                  }
-                }).map(([key, config]) => (
-                  <div key={key} className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label htmlFor={key}>{config.label}</Label>
-                      <p className="text-sm text-muted-foreground">
-                        {config.description}
-                      </p>
-                    </div>
-                    <Switch
-                      id={key}
-                      checked={emailSettings[key as keyof typeof emailSettings]}
-                      onCheckedChange={() => handleEmailToggle(key as keyof typeof emailSettings)}
-                    />
-                  </div>
-                ))}
-
-                <div className="pt-4">
-                  <Button className="gap-2">
-                    <CheckCircle2 className="w-4 h-4" />
-                    Save Email Settings
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+          {/* Notification Preferences */}
+          <TabsContent value="preferences" className="space-y-6">
+            <NotificationPreferencesCard />
           </TabsContent>
 
           {/* Reminders */}
@@ -464,7 +497,7 @@ export default function NotificationsPage() {
                   <div className="space-y-0.5">
                     <Label htmlFor="reminders-enabled">Enable Automatic Reminders</Label>
                     <p className="text-sm text-muted-foreground">
-                      Send automatic reminder emails to clients with incomplete forms
+                      Send automatic reminder emails to clients with incomplete forms. Completed, disabled and opted-out forms are skipped.
                     </p>
                   </div>
                   <Switch
@@ -537,6 +570,7 @@ export default function NotificationsPage() {
                       <Input
                         id="custom-message"
                         placeholder="Add a personal touch to your reminder emails..."
+                        maxLength={500}
                         value={reminderSettings.customMessage}
                         onChange={(e) => setReminderSettings(prev => ({ ...prev, customMessage: e.target.value }))}
                       />
@@ -548,9 +582,13 @@ export default function NotificationsPage() {
                 )}
 
                 <div className="pt-4">
-                  <Button className="gap-2">
+                  <Button
+                    className="gap-2"
+                    onClick={() => saveReminderSettingsMutation.mutate(reminderSettings)}
+                    disabled={saveReminderSettingsMutation.isPending}
+                  >
                     <CheckCircle2 className="w-4 h-4" />
-                    Save Reminder Settings
+                    {saveReminderSettingsMutation.isPending ? 'Saving...' : 'Save Reminder Settings'}
                   </Button>
                 </div>
               </CardContent>
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, BarChart3, CheckCircle2, Clock, Copy, FilePlus, PlayCircle, Webhook } from 'lucide-react';
+import { digestPeriods, type DigestPeriod, type DigestReport, type DigestReportRecord } from '@shared/schema';
+import { digestPeriodLabels, formatDigestRange, formatDuration } from '@shared/digest';
+import { AdminLayout } from '@/components/layouts/AdminLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+const REPORTS_KEY = '/api/reports';
+
+type ReportList = { reports: DigestReportRecord[]; total: number };
+
+function StatCard({ title, value, icon: Icon }: { title: string; value: string | number; icon: typeof Clock }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReportView({ report }: { report: DigestReport }) {
+  const [, setLocation] = useLocation();
+  const { failed, dead } = report.webhookFailures;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard title="Forms Created" value={report.formsCreated} icon={FilePlus} />
+        <StatCard title="Forms Started" value={report.formsStarted} icon={PlayCircle} />
+        <StatCard title="Forms Completed" value={report.formsCompleted} icon={CheckCircle2} />
+        <StatCard
+          title="Median Completion Time"
+          value={report.medianCompletionHours === null ? '—' : formatDuration(report.medianCompletionHours)}
+          icon={Clock}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Stalled Forms
+            {report.stalledTotal > 0 && <Badge variant="secondary">{report.stalledTotal}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Incomplete forms with no activity for {report.stalledAfterDays} days or more at the end of the period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.stalledTotal === 0 ? (
+            <p className="text-sm text-muted-foreground">No stalled forms.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Last Activity</TableHead>
+                    <TableHead>Inactive</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.stalledForms.map(form => (
+                    <TableRow
+                      key={form.id}
+                      className="cursor-pointer"
+                      onClick={() => setLocation(`/admin/dashboard?search=${encodeURIComponent(form.client_email)}`)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{form.client_name}</div>
+                        <div className="text-sm text-muted-foreground">{form.client_email}</div>
+                      </TableCell>
+                      <TableCell>{form.progress}%</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{new Date(form.lastActivityAt).toLocaleDateString()}</TableCell>
+                      <TableCell>{form.daysInactive} days</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.stalledTotal > report.stalledForms.length && (
+                <p className="text-sm text-muted-foreground mt-4">
+                  And {report.stalledTotal - report.stalledForms.length} more.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            Webhook Failures
+          </CardTitle>
+          <CardDescription>Deliveries whose last attempt in the period failed</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <div className="flex gap-8">
+            <div>
+              <div className="text-2xl font-bold">{failed}</div>
+              <p className="text-sm text-muted-foreground">Being retried</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{dead}</div>
+              <p className="text-sm text-muted-foreground">Gave up</p>
+            </div>
+          </div>
+          {failed + dead > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setLocation('/admin/webhook-settings?tab=deliveries')}>
+              View Deliveries
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// /admin/reports/:id is a report's permalink; without an id the period in progress is shown
+export default function ReportsPage() {
+  const { id } = useParams<{ id?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<DigestPeriod>('weekly');
+
+  const { data: list, isLoading: listLoading } = useQuery<ReportList>({
+    queryKey: [`${REPORTS_KEY}?period=${period}`],
+  });
+
+  const { data: saved, isLoading: savedLoading, error: savedError } = useQuery<DigestReportRecord>({
+    queryKey: [`${REPORTS_KEY}/${id}`],
+    enabled: !!id,
+  });
+
+  const { data: preview, isLoading: previewLoading } = useQuery<DigestReport>({
+    queryKey: [`${REPORTS_KEY}/preview?period=${period}`],
+    enabled: !id,
+  });
+
+  const report = id ? saved?.report : preview;
+  const loading = id ? savedLoading : previewLoading;
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    toast({
+      title: "Link copied",
+      description: "Anyone on the team can open this report.",
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+            <p className="text-muted-foreground mt-1">
+              {report
+                ? `${digestPeriodLabels[report.period]} report for ${formatDigestRange(report)}${id ? '' : ' (so far)'}`
+                : 'Daily and weekly summaries of onboarding activity'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {id ? (
+              <>
+                <Button variant="outline" onClick={() => setLocation('/admin/reports')}>
+                  Current Period
+                </Button>
+                <Button onClick={copyLink} className="gap-2" disabled={!saved}>
+                  <Copy className="w-4 h-4" />
+                  Copy Link
+                </Button>
+              </>
+            ) : (
+              <Select value={period} onValueChange={(value) => setPeriod(value as DigestPeriod)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {digestPeriods.map(value => (
+                    <SelectItem key={value} value={value}>{digestPeriodLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : report ? (
+          <ReportView report={report} />
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              {savedError ? 'This report could not be found.' : 'No report to show.'}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Saved reports */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="w-5 h-5" />
+              Past {digestPeriodLabels[period]} Reports
+            </CardTitle>
+            <CardDescription>
+              Saved when each period ends and emailed to everyone who chose this summary in their notification preferences
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {listLoading ? (
+              <p className="text-sm text-muted-foreground">Loading reports...</p>
+            ) : !list?.reports.length ? (
+              <p className="text-sm text-muted-foreground">No {period} reports yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Completed</TableHead>
+                    <TableHead>Stalled</TableHead>
+                    <TableHead>Webhook Failures</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {list.reports.map(row => (
+                    <TableRow
+                      key={row.id}
+                      className={`cursor-pointer ${row.id === id ? 'bg-muted' : ''}`}
+                      onClick={() => setLocation(`/admin/reports/${row.id}`)}
+                    >
+                      <TableCell className="font-medium">{formatDigestRange(row.report)}</TableCell>
+                      <TableCell>{row.report.formsCreated}</TableCell>
+                      <TableCell>{row.report.formsCompleted}</TableCell>
+                      <TableCell>{row.report.stalledTotal}</TableCell>
+                      <TableCell>{row.report.webhookFailures.failed + row.report.webhookFailures.dead}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
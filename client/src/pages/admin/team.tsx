@@ -0,0 +1,422 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Copy, Mail, RefreshCw, Send, UserPlus, Users, XCircle } from 'lucide-react';
+import { userRoles, type InvitationSummary, type TeamMember } from '@shared/schema';
+import { AdminLayout } from '@/components/layouts/AdminLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/lib/supabase';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+
+const MEMBERS_KEY = '/api/team/members';
+const INVITATIONS_KEY = '/api/team/invitations';
+
+type Role = typeof userRoles[number];
+
+type InvitationResponse = { invitation: InvitationSummary; inviteUrl: string; emailSent: boolean };
+
+const roleDescriptions: Record<Role, string> = {
+  admin: 'Everything, including webhooks and the team',
+  editor: 'Create and edit forms, read submissions',
+  viewer: 'Read forms and submissions',
+};
+
+const invitationBadges: Record<InvitationSummary['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'default',
+  accepted: 'secondary',
+  expired: 'outline',
+  revoked: 'destructive',
+};
+
+function formatDate(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+export default function TeamPage() {
+  const { toast } = useToast();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>('editor');
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string; emailSent: boolean } | null>(null);
+
+  const { data: currentUserId } = useQuery({
+    queryKey: ['current-user-id'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id ?? null;
+    },
+  });
+
+  const { data: members = [], isLoading: membersLoading } = useQuery<TeamMember[]>({
+    queryKey: [MEMBERS_KEY],
+  });
+
+  const { data: invitations = [], isLoading: invitationsLoading } = useQuery<InvitationSummary[]>({
+    queryKey: [INVITATIONS_KEY],
+  });
+
+  const showInviteLink = ({ invitation, inviteUrl, emailSent }: InvitationResponse) => {
+    setInviteLink({ email: invitation.email, url: inviteUrl, emailSent });
+  };
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ userId, update }: { userId: string; update: { role?: Role; active?: boolean } }) => {
+      await apiRequest('PATCH', `${MEMBERS_KEY}/${userId}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MEMBERS_KEY] });
+      toast({ title: "Team member updated" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating team member",
+        description: getApiErrorMessage(error, "Failed to update the team member."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: Role }) => {
+      const res = await apiRequest('POST', INVITATIONS_KEY, { email, role });
+      return (await res.json()) as InvitationResponse;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [INVITATIONS_KEY] });
+      setInviteOpen(false);
+      setInviteEmail('');
+      showInviteLink(result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error sending invitation",
+        description: getApiErrorMessage(error, "Failed to create the invitation."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `${INVITATIONS_KEY}/${id}/resend`);
+      return (await res.json()) as InvitationResponse;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [INVITATIONS_KEY] });
+      showInviteLink(result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error resending invitation",
+        description: getApiErrorMessage(error, "Failed to resend the invitation."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `${INVITATIONS_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [INVITATIONS_KEY] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link no longer works.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error revoking invitation",
+        description: getApiErrorMessage(error, "Failed to revoke the invitation."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleInvite = () => {
+    if (!inviteEmail.trim()) {
+      toast({
+        title: "Email required",
+        description: "Enter the email address to send the invitation to.",
+        variant: "destructive",
+      });
+      return;
+    }
+    inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole });
+  };
+
+  const copyInviteLink = () => {
+    if (!inviteLink) return;
+    navigator.clipboard.writeText(inviteLink.url);
+    toast({
+      title: "Link copied",
+      description: "Send it to the person you invited.",
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+            <p className="text-muted-foreground mt-1">
+              Manage who can use the admin and what they can do
+            </p>
+          </div>
+          <Button onClick={() => setInviteOpen(true)} className="gap-2">
+            <UserPlus className="w-4 h-4" />
+            Invite Member
+          </Button>
+        </div>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Members
+            </CardTitle>
+            <CardDescription>
+              Deactivated members can still sign in but can't see or change anything.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {membersLoading ? (
+              <p className="text-sm text-muted-foreground">Loading team...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map(member => {
+                    const isSelf = member.user_id === currentUserId;
+                    return (
+                      <TableRow key={member.user_id}>
+                        <TableCell>
+                          <div className="font-medium">{member.name || member.email}</div>
+                          {member.name && <div className="text-sm text-muted-foreground">{member.email}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateMemberMutation.mutate({ userId: member.user_id, update: { role: role as Role } })}
+                            disabled={isSelf || updateMemberMutation.isPending}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {userRoles.map(role => (
+                                <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {member.deactivated_at
+                            ? <Badge variant="outline">Deactivated</Badge>
+                            : <Badge variant="secondary">Active</Badge>}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(member.created_at)}</TableCell>
+                        <TableCell className="text-right">
+                          {!isSelf && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={updateMemberMutation.isPending}
+                              onClick={() => updateMemberMutation.mutate({
+                                userId: member.user_id,
+                                update: { active: !!member.deactivated_at },
+                              })}
+                            >
+                              {member.deactivated_at ? 'Reactivate' : 'Deactivate'}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Invitations */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="w-5 h-5" />
+              Invitations
+            </CardTitle>
+            <CardDescription>
+              Invitation links expire after 7 days. Resending issues a new link and the old one stops working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invitationsLoading && (
+              <p className="text-sm text-muted-foreground">Loading invitations...</p>
+            )}
+            {!invitationsLoading && invitations.length === 0 && (
+              <div className="p-6 rounded-lg border border-dashed text-center text-sm text-muted-foreground">
+                No invitations yet.
+              </div>
+            )}
+            {invitations.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map(invitation => {
+                    const canResend = invitation.status === 'pending' || invitation.status === 'expired';
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.email}</TableCell>
+                        <TableCell className="capitalize">{invitation.role}</TableCell>
+                        <TableCell>
+                          <Badge variant={invitationBadges[invitation.status]} className="capitalize">{invitation.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {invitation.status === 'accepted' ? formatDate(invitation.accepted_at) : formatDate(invitation.expires_at)}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          {canResend && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-1"
+                                disabled={resendMutation.isPending}
+                                onClick={() => resendMutation.mutate(invitation.id)}
+                              >
+                                <Send className="w-3 h-3" />
+                                Resend
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-1 text-red-500"
+                                disabled={revokeMutation.isPending}
+                                onClick={() => revokeMutation.mutate(invitation.id)}
+                              >
+                                <XCircle className="w-3 h-3" />
+                                Revoke
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Invite Dialog */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Team Member</DialogTitle>
+            <DialogDescription>
+              They'll get a link to create their account with the role you choose.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as Role)}>
+                <SelectTrigger id="invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{roleDescriptions[inviteRole]}</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={inviteMutation.isPending} className="gap-2">
+              {inviteMutation.isPending ? <RefreshCw className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              Create Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invitation Link Dialog */}
+      <Dialog open={!!inviteLink} onOpenChange={(open) => !open && setInviteLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invitation Link</DialogTitle>
+            <DialogDescription>
+              {inviteLink?.emailSent
+                ? `We've emailed this link to ${inviteLink.email}. You can also share it yourself.`
+                : `The invitation email to ${inviteLink?.email} couldn't be sent, so share this link yourself.`}
+              {' '}It is only shown once; resend the invitation to get a new one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={inviteLink?.url ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyInviteLink}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setInviteLink(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,507 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ArrowLeft, FileText, History, MoreHorizontal, Plus, Save, Send, Star, Trash2 } from 'lucide-react';
+import { type ZodIssue } from 'zod';
+import {
+  formTemplateDefinitionSchema,
+  type FormTemplate, type FormTemplateDefinition, type FormTemplateVersion,
+} from '@shared/schema';
+import { defaultFormTemplate, DEFAULT_FORM_TEMPLATE_NAME } from '@shared/defaultFormTemplate';
+import { AdminLayout } from '@/components/layouts/AdminLayout';
+import { TemplateEditor, toSavedDefinition } from '@/components/templates/TemplateEditor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage, queryClient } from '@/lib/queryClient';
+
+const TEMPLATES_KEY = '/api/form-templates';
+
+// "Start from" choices besides existing templates
+const START_BLANK = 'blank';
+const START_BUILT_IN = 'built-in';
+
+const blankTemplate: FormTemplateDefinition = {
+  sections: [{
+    key: 'section1',
+    slug: 'section-1',
+    title: 'New section',
+    icon: 'file',
+    fields: [{ key: 'field1', label: 'New question', type: 'text' }],
+  }],
+};
+
+function formatDate(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function TemplateStatus({ template }: { template: FormTemplate }) {
+  if (template.published_version === null) {
+    return <Badge variant="outline">Draft</Badge>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      <Badge variant="secondary">Published v{template.published_version}</Badge>
+      {template.has_draft_changes && <Badge variant="outline">Unpublished changes</Badge>}
+    </div>
+  );
+}
+
+// "Business Details › Website: Keys start with a letter..." for a problem in the definition
+function describeIssue(issue: ZodIssue, definition: FormTemplateDefinition): string {
+  const [, sectionIndex, , fieldIndex] = issue.path;
+  const section = typeof sectionIndex === 'number' ? definition.sections[sectionIndex] : undefined;
+  const field = section && typeof fieldIndex === 'number' ? section.fields[fieldIndex] : undefined;
+  const where = [section && (section.title || section.key), field && (field.label || field.key)].filter(Boolean).join(' › ');
+  return where ? `${where}: ${issue.message}` : issue.message;
+}
+
+function TemplateList() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [startFrom, setStartFrom] = useState(START_BUILT_IN);
+  const [deleting, setDeleting] = useState<FormTemplate | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<FormTemplate[]>({
+    queryKey: [TEMPLATES_KEY],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const source = templates.find(template => template.id === startFrom);
+      const definition = startFrom === START_BLANK ? blankTemplate : source?.definition ?? defaultFormTemplate;
+      const res = await apiRequest('POST', TEMPLATES_KEY, { name: newName.trim(), definition });
+      return await res.json() as FormTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      setCreateOpen(false);
+      setNewName('');
+      setLocation(`/admin/templates/${template.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create the template."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (template: FormTemplate) => {
+      await apiRequest('PATCH', `${TEMPLATES_KEY}/${template.id}`, { is_default: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      toast({
+        title: "Default template changed",
+        description: "New forms will use it unless you pick another.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to change the default template."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (template: FormTemplate) => {
+      await apiRequest('DELETE', `${TEMPLATES_KEY}/${template.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      setDeleting(null);
+    },
+    onError: (error) => {
+      setDeleting(null);
+      toast({
+        title: "Couldn't delete the template",
+        description: getApiErrorMessage(error, "Failed to delete the template."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Form Templates</h1>
+          <p className="text-muted-foreground mt-1">
+            The sections and questions clients are asked
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)} className="gap-2">
+          <Plus className="w-4 h-4" />
+          New Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Templates
+          </CardTitle>
+          <CardDescription>
+            Forms keep the version of the template they were created with. Without a default, new forms use the built-in {DEFAULT_FORM_TEMPLATE_NAME} questions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No templates yet. Forms use the built-in questions.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map(template => (
+                  <TableRow key={template.id} className="cursor-pointer" onClick={() => setLocation(`/admin/templates/${template.id}`)}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {template.name}
+                        {template.is_default && <Badge className="gap-1"><Star className="w-3 h-3" /> Default</Badge>}
+                      </div>
+                      {template.description && <div className="text-sm text-muted-foreground">{template.description}</div>}
+                    </TableCell>
+                    <TableCell><TemplateStatus template={template} /></TableCell>
+                    <TableCell>{formatDate(template.updated_at)}</TableCell>
+                    <TableCell className="text-right" onClick={e => e.stopPropagation()}>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Template actions">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setLocation(`/admin/templates/${template.id}`)}>Edit</DropdownMenuItem>
+                          {!template.is_default && template.published_version !== null && (
+                            <DropdownMenuItem onClick={() => makeDefaultMutation.mutate(template)}>Make default</DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem className="text-destructive" onClick={() => setDeleting(template)}>Delete</DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Template</DialogTitle>
+            <DialogDescription>
+              It starts as a draft. Publish it when it's ready to be sent to clients.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={e => {
+              e.preventDefault();
+              if (newName.trim()) createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input id="template-name" value={newName} onChange={e => setNewName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-start">Start from</Label>
+              <Select value={startFrom} onValueChange={setStartFrom}>
+                <SelectTrigger id="template-start">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={START_BUILT_IN}>{DEFAULT_FORM_TEMPLATE_NAME} (built-in)</SelectItem>
+                  <SelectItem value={START_BLANK}>A blank template</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>A copy of {template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? 'Creating...' : 'Create Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              Delete "{deleting?.name}" and all its versions? Templates that forms use can't be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="destructive" className="gap-2" disabled={deleteMutation.isPending} onClick={() => deleting && deleteMutation.mutate(deleting)}>
+              <Trash2 className="w-4 h-4" /> Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function TemplateBuilder({ id }: { id: string }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const templateKey = `${TEMPLATES_KEY}/${id}`;
+  const versionsKey = `${TEMPLATES_KEY}/${id}/versions`;
+
+  const { data: template, isLoading, error } = useQuery<FormTemplate>({
+    queryKey: [templateKey],
+  });
+
+  const { data: versions = [] } = useQuery<FormTemplateVersion[]>({
+    queryKey: [versionsKey],
+  });
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [definition, setDefinition] = useState<FormTemplateDefinition | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  // Start editing from the saved draft once it has loaded
+  useEffect(() => {
+    if (!template || definition) return;
+    setName(template.name);
+    setDescription(template.description ?? '');
+    setDefinition(template.definition);
+  }, [template]);
+
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setDirty(true);
+  };
+
+  const issues = useMemo(() => {
+    if (!definition) return [];
+    const parsed = formTemplateDefinitionSchema.safeParse(toSavedDefinition(definition));
+    const messages = parsed.success ? [] : parsed.error.issues.map(issue => describeIssue(issue, definition));
+    if (!name.trim()) messages.unshift('Give the template a name');
+    return messages;
+  }, [definition, name]);
+
+  const saveDraft = async () => {
+    if (!definition) return;
+    await apiRequest('PATCH', templateKey, {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      definition: toSavedDefinition(definition),
+    });
+    setDirty(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [templateKey] });
+      toast({
+        title: "Draft saved",
+        description: "Publish it to use it for new forms.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save the template."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Saves first, so what's published is what's on screen
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      if (dirty) await saveDraft();
+      const res = await apiRequest('POST', `${templateKey}/publish`);
+      return await res.json() as FormTemplateVersion;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [templateKey] });
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      toast({
+        title: `Version ${version.version} published`,
+        description: "New forms get this version. Forms already sent keep theirs.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to publish the template."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loadVersion = (version: FormTemplateVersion) => {
+    setDefinition(version.definition);
+    setDirty(true);
+    toast({
+      title: `Version ${version.version} loaded`,
+      description: "Save the draft to keep it, or publish it again.",
+    });
+  };
+
+  if (isLoading || (template && !definition)) {
+    return <p className="text-sm text-muted-foreground">Loading template...</p>;
+  }
+
+  if (error || !template || !definition) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">This template doesn't exist.</p>
+        <Button variant="outline" onClick={() => setLocation('/admin/templates')}>Back to templates</Button>
+      </div>
+    );
+  }
+
+  const busy = saveMutation.isPending || publishMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div className="flex-1 space-y-3">
+          <Button variant="ghost" size="sm" className="gap-1 -ml-2" onClick={() => setLocation('/admin/templates')}>
+            <ArrowLeft className="w-4 h-4" /> Templates
+          </Button>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Input aria-label="Template name" value={name} onChange={e => edit(setName)(e.target.value)} className="text-lg font-semibold sm:max-w-xs" />
+            <Input aria-label="Description" placeholder="Description (optional)" value={description} onChange={e => edit(setDescription)(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <TemplateStatus template={template} />
+            {dirty && <span>Changes not saved</span>}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" disabled={!dirty || issues.length > 0 || busy} onClick={() => saveMutation.mutate()}>
+            <Save className="w-4 h-4" /> Save Draft
+          </Button>
+          <Button
+            className="gap-2"
+            disabled={issues.length > 0 || busy || (!dirty && !template.has_draft_changes)}
+            onClick={() => publishMutation.mutate()}
+          >
+            <Send className="w-4 h-4" /> Publish
+          </Button>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-destructive mb-2">Fix these before saving:</p>
+            <ul className="text-sm space-y-1 list-disc pl-5">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <TemplateEditor definition={definition} onChange={edit(setDefinition)} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Versions
+          </CardTitle>
+          <CardDescription>
+            Each publish is kept. A form always shows the version it was created with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not published yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Sections</TableHead>
+                  <TableHead>Published</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell>{version.name}</TableCell>
+                    <TableCell>{version.definition.sections.length}</TableCell>
+                    <TableCell>{formatDate(version.published_at)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => loadVersion(version)}>Load into draft</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// /admin/templates lists the templates; /admin/templates/:id is the builder
+export default function TemplatesPage() {
+  const { id } = useParams<{ id?: string }>();
+
+  return (
+    <AdminLayout>
+      {id ? <TemplateBuilder key={id} id={id} /> : <TemplateList />}
+    </AdminLayout>
+  );
+}
@@ -9,7 +9,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useTheme } from '@/lib/theme-context';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
+import { WEBHOOK_API_VERSION, webhookEventTypes, type WebhookStats } from '@shared/schema';
+import { type Form } from '@/lib/supabase';
+import { getAuthHeaders } from '@/lib/queryClient';
+import { WebhookDeliveries } from '@/components/webhooks/WebhookDeliveries';
+import { WebhookEndpoints } from '@/components/webhooks/WebhookEndpoints';
+import { EmailLog } from '@/components/email/EmailLog';
+import { NotificationPreferencesCard } from '@/components/notifications/NotificationPreferencesCard';
+import { SlackSettingsCard } from '@/components/notifications/SlackSettingsCard';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
 import { 
   Webhook, 
   Copy, 
@@ -45,16 +55,9 @@ import {
   Plus,
   Info,
   AlertTriangle,
-  TrendingUp
+  TrendingUp,
+  History
 } from 'lucide-react';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -64,154 +67,37 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+const settingsTabs = ['webhooks', 'notifications', 'deliveries', 'emails', 'analytics', 'submissions'];
+
 export default function WebhookSettings() {
   const { theme } = useTheme();
   const { toast } = useToast();
-  
-  // State management
-  const [webhookUrl, setWebhookUrl] = useState('');
-  const [webhookSecret, setWebhookSecret] = useState('');
-  const [showSecret, setShowSecret] = useState(false);
-  const [isTestingWebhook, setIsTestingWebhook] = useState(false);
-  const [showTestDialog, setShowTestDialog] = useState(false);
-  
-  // Notification settings
-  const [emailSettings, setEmailSettings] = useState({
-    formCompletionAlerts: true,
-    dailySummary: false,
-    clientReminders: true,
-    adminNotifications: true,
-    webhookFailures: true,
-    systemAlerts: true
+
+  // Links such as the "View Deliveries" notification action open a specific tab
+  const [initialTab] = useState(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    return tab && settingsTabs.includes(tab) ? tab : 'webhooks';
   });
   
-  const [slackSettings, setSlackSettings] = useState({
-    enabled: false,
-    webhookUrl: '',
-    channel: '#general',
-    formCompletions: true,
-    systemAlerts: false
+  // Delivery analytics and recent form activity
+  const { data: webhookStats, refetch: refetchStats } = useQuery<WebhookStats>({
+    queryKey: ['/api/webhook/stats'],
   });
 
-  // Mock data for analytics and submissions
-  const webhookStats = {
-    totalDeliveries: 1247,
-    successfulDeliveries: 1198,
-    failedDeliveries: 49,
-    averageResponseTime: 245,
-    lastDelivery: new Date().toISOString()
-  };
-
-  const recentSubmissions = [
-    {
-      id: '1',
-      clientName: 'Acme Corp',
-      clientEmail: 'john@acme.com',
-      status: 'completed',
-      submittedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-      progress: 100
-    },
-    {
-      id: '2',
-      clientName: 'TechStart Inc',
-      clientEmail: 'sarah@techstart.com',
-      status: 'in_progress',
-      submittedAt: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-      progress: 75
-    },
-    {
-      id: '3',
-      clientName: 'Global Solutions',
-      clientEmail: 'mike@global.com',
-      status: 'completed',
-      submittedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-      progress: 100
-    }
-  ];
-
-  // Mutations
-  const updateWebhookMutation = useMutation({
-    mutationFn: async (data: { url: string; secret: string }) => {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return data;
-    },
-    onSuccess: () => {
-      toast({
-        title: "Webhook settings updated",
-        description: "Your webhook configuration has been saved successfully.",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error updating webhook",
-        description: "Failed to save webhook settings. Please try again.",
-        variant: "destructive",
-      });
-    },
+  const { data: recentSubmissions = [], refetch: refetchSubmissions } = useQuery<Form[]>({
+    queryKey: ['/api/forms'],
   });
 
-  // Event handlers
-  const handleSave = () => {
-    if (!webhookUrl) {
-      toast({
-        title: "Webhook URL required",
-        description: "Please enter a valid webhook URL.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    updateWebhookMutation.mutate({ url: webhookUrl, secret: webhookSecret });
-  };
-
-  const generateSecret = () => {
-    const secret = Array.from(crypto.getRandomValues(new Uint8Array(32)))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    setWebhookSecret(secret);
-    toast({
-      title: "Secret generated",
-      description: "A new webhook secret has been generated.",
-    });
-  };
-
-  const testWebhook = async () => {
-    setIsTestingWebhook(true);
-    try {
-      const response = await fetch('/api/webhook/test', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const result = await response.json();
-
-      if (response.ok) {
-        toast({
-          title: "Webhook test successful",
-          description: result.message || "Test webhook was sent successfully.",
-        });
-      } else {
-        throw new Error(result.error || 'Test failed');
-      }
-    } catch (error) {
-      toast({
-        title: "Webhook test failed",
-        description: error instanceof Error ? error.message : "Failed to send test webhook.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsTestingWebhook(false);
-      setShowTestDialog(false);
-    }
-  };
+  const deliveryChartConfig = {
+    succeeded: { label: "Delivered", color: "hsl(142, 71%, 45%)" },
+    failed: { label: "Failed", color: "hsl(0, 84%, 60%)" },
+  } satisfies ChartConfig;
 
+  // Event handlers
   const testFormUpdatedWebhook = async () => {
     try {
       // Get the first form for testing
-      const formsResponse = await fetch('/api/forms');
+      const formsResponse = await fetch('/api/forms', { headers: await getAuthHeaders() });
       const forms = await formsResponse.json();
       
       if (!forms || forms.length === 0) {
@@ -227,6 +113,7 @@ export default function WebhookSettings() {
       const response = await fetch(`/api/webhook/test-form-updated/${testFormId}`, {
         method: 'POST',
         headers: {
+          ...(await getAuthHeaders()),
           'Content-Type': 'application/json',
         },
       });
@@ -250,46 +137,16 @@ export default function WebhookSettings() {
     }
   };
 
-  const copySecret = () => {
-    navigator.clipboard.writeText(webhookSecret);
-    toast({
-      title: "Secret copied",
-      description: "Webhook secret has been copied to clipboard.",
-    });
-  };
-
-  const copyWebhookUrl = () => {
-    navigator.clipboard.writeText(webhookUrl);
-    toast({
-      title: "URL copied",
-      description: "Webhook URL has been copied to clipboard.",
-    });
-  };
-
-  const handleEmailToggle = (setting: keyof typeof emailSettings) => {
-    setEmailSettings(prev => ({
-      ...prev,
-      [setting]: !prev[setting]
-    }));
-  };
-
-  const handleSlackToggle = (setting: keyof typeof slackSettings) => {
-    setSlackSettings(prev => ({
-      ...prev,
-      [setting]: !prev[setting]
-    }));
-  };
-
   const exportSubmissions = () => {
     // Simulate CSV export
     const csvContent = [
       ['Client Name', 'Email', 'Status', 'Progress', 'Submitted At'],
       ...recentSubmissions.map(sub => [
-        sub.clientName,
-        sub.clientEmail,
+        sub.client_name,
+        sub.client_email,
         sub.status,
         `${sub.progress}%`,
-        new Date(sub.submittedAt).toLocaleDateString()
+        new Date(sub.updated_at || sub.created_at).toLocaleDateString()
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -314,7 +171,15 @@ export default function WebhookSettings() {
             </p>
           </div>
           <div className="flex items-center gap-3">
-            <Button variant="outline" size="sm" className="gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                refetchStats();
+                refetchSubmissions();
+              }}
+            >
               <RefreshCw className="w-4 h-4" />
               Refresh
             </Button>
@@ -322,8 +187,8 @@ export default function WebhookSettings() {
         </div>
 
         {/* Settings Tabs */}
-        <Tabs defaultValue="webhooks" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs defaultValue={initialTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="webhooks" className="gap-2">
               <Webhook className="w-4 h-4" />
               Webhooks
@@ -332,6 +197,14 @@ export default function WebhookSettings() {
               <Bell className="w-4 h-4" />
               Notifications
             </TabsTrigger>
+            <TabsTrigger value="deliveries" className="gap-2">
+              <History className="w-4 h-4" />
+              Deliveries
+            </TabsTrigger>
+            <TabsTrigger value="emails" className="gap-2">
+              <Mail className="w-4 h-4" />
+              Emails
+            </TabsTrigger>
             <TabsTrigger value="analytics" className="gap-2">
               <BarChart3 className="w-4 h-4" />
               Analytics
@@ -346,106 +219,7 @@ export default function WebhookSettings() {
           <TabsContent value="webhooks" className="space-y-6">
             {/* Webhook Configuration */}
             <div className="grid gap-6 lg:grid-cols-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Settings className="w-5 h-5" />
-                    Webhook Configuration
-                  </CardTitle>
-                  <CardDescription>
-                    Configure your webhook endpoint to receive real-time notifications when forms are completed.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  <div className="space-y-2">
-                    <Label htmlFor="webhook-url">Webhook URL</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        id="webhook-url"
-                        placeholder="https://your-app.com/webhooks/onboarding"
-                        value={webhookUrl}
-                        onChange={(e) => setWebhookUrl(e.target.value)}
-                        className="flex-1"
-                      />
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={copyWebhookUrl}
-                        disabled={!webhookUrl}
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="webhook-secret">Webhook Secret</Label>
-                    <div className="flex gap-2">
-                      <div className="relative flex-1">
-                        <Input
-                          id="webhook-secret"
-                          type={showSecret ? "text" : "password"}
-                          placeholder="Enter or generate a secret"
-                          value={webhookSecret}
-                          onChange={(e) => setWebhookSecret(e.target.value)}
-                          className="pr-10"
-                        />
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="absolute right-0 top-0 h-full px-3"
-                          onClick={() => setShowSecret(!showSecret)}
-                        >
-                          {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                        </Button>
-                      </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={copySecret}
-                        disabled={!webhookSecret}
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={generateSecret}
-                        className="gap-2"
-                      >
-                        <Key className="w-4 h-4" />
-                        Generate Secret
-                      </Button>
-                    </div>
-                  </div>
-
-                  <div className="flex gap-3 pt-4">
-                    <Button
-                      onClick={handleSave}
-                      disabled={updateWebhookMutation.isPending}
-                      className="gap-2"
-                    >
-                      {updateWebhookMutation.isPending ? (
-                        <RefreshCw className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <CheckCircle2 className="w-4 h-4" />
-                      )}
-                      Save Configuration
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => setShowTestDialog(true)}
-                      disabled={!webhookUrl}
-                      className="gap-2"
-                    >
-                      <Send className="w-4 h-4" />
-                      Test Webhook
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
+              <WebhookEndpoints />
 
               {/* Webhook Documentation */}
               <Card>
@@ -464,31 +238,25 @@ export default function WebhookSettings() {
                     <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'} overflow-x-auto`}>
                       <pre className="text-sm">
                         <code>{`{
-  "event": "form.completed",
-  "timestamp": "2024-01-15T10:30:00Z",
+  "id": "evt_5f0c6a8e2b7d4c1a9e3f6b8d0a2c4e6f",
+  "type": "form.completed",
+  "api_version": "${WEBHOOK_API_VERSION}",
+  "created_at": "2025-01-15T10:30:00.000Z",
   "data": {
-    "formId": "uuid",
-    "clientName": "Acme Corp",
-    "clientEmail": "john@acme.com",
-    "progress": 100,
-    "submissionData": {
-      "businessDetails": {...},
-      "campaign": {...},
-      "audience": {...}
-    }
+    "form": {
+      "id": 123,
+      "client_name": "Acme Corp",
+      "client_email": "john@acme.com"
+    },
+    "form_data": {...},
+    "sections": [...]
   }
-}
-
-// form.updated event
-{
-  "event": "form.updated",
-  "form_id": 123,
-  "new_data": {...},
-  "old_data": {...},
-  "timestamp": "2024-01-15T10:30:00Z"
 }`}</code>
                       </pre>
                     </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Every event uses this envelope. See the API docs for each event's <code>data</code> schema.
+                    </p>
                   </div>
 
                   <div>
@@ -499,7 +267,7 @@ export default function WebhookSettings() {
                         <div className="text-sm">
                           <p className="font-medium text-blue-700 dark:text-blue-300">Verify webhook signatures</p>
                           <p className="text-blue-600 dark:text-blue-400 mt-1">
-                            Use the webhook secret to verify that requests are coming from our servers.
+                            Each endpoint has its own secret. Check the <code>t=…,v1=…</code> signature in <code>X-Webhook-Signature</code> against it, reject old timestamps, and use <code>X-Webhook-Id</code> to ignore duplicates.
                           </p>
                         </div>
                       </div>
@@ -509,38 +277,22 @@ export default function WebhookSettings() {
                   <div>
                     <h4 className="font-medium mb-2">Events</h4>
                     <div className="space-y-2">
-                      <div className="flex items-center justify-between p-2 rounded border">
-                        <span className="text-sm font-mono">form.completed</span>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="secondary">Active</Badge>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={testWebhook}
-                            disabled={!webhookUrl || isTestingWebhook}
-                          >
-                            Test
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="flex items-center justify-between p-2 rounded border">
-                        <span className="text-sm font-mono">form.updated</span>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="secondary">Active</Badge>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={testFormUpdatedWebhook}
-                            disabled={!webhookUrl}
-                          >
-                            Test
-                          </Button>
+                      {webhookEventTypes.map(event => (
+                        <div key={event} className="flex items-center justify-between p-2 rounded border">
+                          <span className="text-sm font-mono">{event}</span>
+                          {event === 'form.updated' ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={testFormUpdatedWebhook}
+                            >
+                              Test
+                            </Button>
+                          ) : (
+                            <Badge variant="outline">Available</Badge>
+                          )}
                         </div>
-                      </div>
-                      <div className="flex items-center justify-between p-2 rounded border">
-                        <span className="text-sm font-mono">section.completed</span>
-                        <Badge variant="outline">Available</Badge>
-                      </div>
+                      ))}
                     </div>
                   </div>
                 </CardContent>
@@ -555,7 +307,7 @@ export default function WebhookSettings() {
                   Webhook Statistics
                 </CardTitle>
                 <CardDescription>
-                  Monitor your webhook delivery performance and reliability.
+                  Monitor your webhook delivery performance and reliability over the last {webhookStats?.periodDays ?? 30} days.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -565,7 +317,7 @@ export default function WebhookSettings() {
                       <Send className="w-4 h-4 text-blue-500" />
                       <span className="text-sm font-medium">Total Deliveries</span>
                     </div>
-                    <p className="text-2xl font-bold">{webhookStats.totalDeliveries.toLocaleString()}</p>
+                    <p className="text-2xl font-bold">{(webhookStats?.totalDeliveries ?? 0).toLocaleString()}</p>
                   </div>
                   
                   <div className="space-y-2">
@@ -574,7 +326,7 @@ export default function WebhookSettings() {
                       <span className="text-sm font-medium">Success Rate</span>
                     </div>
                     <p className="text-2xl font-bold">
-                      {Math.round((webhookStats.successfulDeliveries / webhookStats.totalDeliveries) * 100)}%
+                      {webhookStats?.totalDeliveries ? `${webhookStats.successRate}%` : '—'}
                     </p>
                   </div>
                   
@@ -583,7 +335,9 @@ export default function WebhookSettings() {
                       <Clock className="w-4 h-4 text-orange-500" />
                       <span className="text-sm font-medium">Avg Response Time</span>
                     </div>
-                    <p className="text-2xl font-bold">{webhookStats.averageResponseTime}ms</p>
+                    <p className="text-2xl font-bold">
+                      {webhookStats?.averageResponseTime != null ? `${webhookStats.averageResponseTime}ms` : '—'}
+                    </p>
                   </div>
                   
                   <div className="space-y-2">
@@ -591,7 +345,9 @@ export default function WebhookSettings() {
                       <AlertCircle className="w-4 h-4 text-red-500" />
                       <span className="text-sm font-medium">Failed Deliveries</span>
                     </div>
-                    <p className="text-2xl font-bold">{webhookStats.failedDeliveries}</p>
+                    <p className="text-2xl font-bold">
+                      {(webhookStats?.failedDeliveries ?? 0) + (webhookStats?.deadDeliveries ?? 0)}
+                    </p>
                   </div>
                 </div>
               </CardContent>
@@ -601,157 +357,22 @@ export default function WebhookSettings() {
           {/* Notifications Tab */}
           <TabsContent value="notifications" className="space-y-6">
             <div className="grid gap-6 lg:grid-cols-2">
-              {/* Email Notifications */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Mail className="w-5 h-5" />
-                    Email Notifications
-                  </CardTitle>
-                  <CardDescription>
-                    Configure which events trigger email notifications to your team.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {Object.entries({
-                    formCompletionAlerts: {
-                      label: "Form Completion Alerts",
-                      description: "Receive an email when a client completes an onboarding form"
-                    },
-                    dailySummary: {
-                      label: "Daily Summary",
-                      description: "Receive a daily summary of all form activity"
-                    },
-                    clientReminders: {
-                      label: "Client Reminder Notifications",
-                      description: "Be notified when automatic reminders are sent to clients"
-                    },
-                    adminNotifications: {
-                      label: "Admin Activity Notifications",
-                      description: "Receive notifications about other admin activities"
-                    },
-                    webhookFailures: {
-                      label: "Webhook Failure Alerts",
-                      description: "Get notified when webhook deliveries fail"
-                    },
-                    systemAlerts: {
-                      label: "System Alerts",
-                      description: "Receive notifications about system maintenance and updates"
-                    }
-                  }).map(([key, config]) => (
-                    <div key={key} className="flex items-center justify-between">
-                      <div className="space-y-0.5">
-                        <Label htmlFor={key}>{config.label}</Label>
-                        <p className="text-sm text-muted-foreground">
-                          {config.description}
-                        </p>
-                      </div>
-                      <Switch
-                        id={key}
-                        checked={emailSettings[key as keyof typeof emailSettings]}
-                        onCheckedChange={() => handleEmailToggle(key as keyof typeof emailSettings)}
-                      />
-                    </div>
-                  ))}
-
-                  <div className="pt-4">
-                    <Button className="gap-2">
-                      <CheckCircle2 className="w-4 h-4" />
-                      Save Email Settings
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
+              {/* Notification Preferences */}
+              <NotificationPreferencesCard />
 
               {/* Slack Integration */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Slack className="w-5 h-5" />
-                    Slack Integration
-                  </CardTitle>
-                  <CardDescription>
-                    Send notifications directly to your Slack workspace.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="slack-enabled">Enable Slack Notifications</Label>
-                      <p className="text-sm text-muted-foreground">
-                        Turn on Slack integration for your workspace
-                      </p>
-                    </div>
-                    <Switch
-                      id="slack-enabled"
-                      checked={slackSettings.enabled}
-                      onCheckedChange={() => handleSlackToggle('enabled')}
-                    />
-                  </div>
-
-                  {slackSettings.enabled && (
-                    <>
-                      <div className="space-y-2">
-                        <Label htmlFor="slack-webhook">Slack Webhook URL</Label>
-                        <Input
-                          id="slack-webhook"
-                          placeholder="https://hooks.slack.com/services/..."
-                          value={slackSettings.webhookUrl}
-                          onChange={(e) => setSlackSettings(prev => ({ ...prev, webhookUrl: e.target.value }))}
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="slack-channel">Default Channel</Label>
-                        <Input
-                          id="slack-channel"
-                          placeholder="#general"
-                          value={slackSettings.channel}
-                          onChange={(e) => setSlackSettings(prev => ({ ...prev, channel: e.target.value }))}
-                        />
-                      </div>
-
-                      <div className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <div className="space-y-0.5">
-                            <Label htmlFor="slack-completions">Form Completions</Label>
-                            <p className="text-sm text-muted-foreground">
-                              Notify when forms are completed
-                            </p>
-                          </div>
-                          <Switch
-                            id="slack-completions"
-                            checked={slackSettings.formCompletions}
-                            onCheckedChange={() => handleSlackToggle('formCompletions')}
-                          />
-                        </div>
+              <SlackSettingsCard />
+            </div>
+          </TabsContent>
 
-                        <div className="flex items-center justify-between">
-                          <div className="space-y-0.5">
-                            <Label htmlFor="slack-alerts">System Alerts</Label>
-                            <p className="text-sm text-muted-foreground">
-                              Notify about system issues and maintenance
-                            </p>
-                          </div>
-                          <Switch
-                            id="slack-alerts"
-                            checked={slackSettings.systemAlerts}
-                            onCheckedChange={() => handleSlackToggle('systemAlerts')}
-                          />
-                        </div>
-                      </div>
-                    </>
-                  )}
+          {/* Deliveries Tab */}
+          <TabsContent value="deliveries" className="space-y-6">
+            <WebhookDeliveries />
+          </TabsContent>
 
-                  <div className="pt-4">
-                    <Button className="gap-2" disabled={!slackSettings.enabled}>
-                      <CheckCircle2 className="w-4 h-4" />
-                      Save Slack Settings
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
+          {/* Emails Tab */}
+          <TabsContent value="emails" className="space-y-6">
+            <EmailLog />
           </TabsContent>
 
           {/* Analytics Tab */}
@@ -762,14 +383,14 @@ export default function WebhookSettings() {
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Total Forms</p>
-                      <p className="text-3xl font-bold mt-2">247</p>
+                      <p className="text-sm font-medium text-muted-foreground">Deliveries</p>
+                      <p className="text-3xl font-bold mt-2">{(webhookStats?.totalDeliveries ?? 0).toLocaleString()}</p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        +12% from last month
+                        Last {webhookStats?.periodDays ?? 30} days
                       </p>
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-blue-500/20' : 'bg-blue-100'}`}>
-                      <FileText className="w-6 h-6 text-blue-600" />
+                      <Send className="w-6 h-6 text-blue-600" />
                     </div>
                   </div>
                 </CardContent>
@@ -779,10 +400,12 @@ export default function WebhookSettings() {
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Completion Rate</p>
-                      <p className="text-3xl font-bold mt-2">87%</p>
+                      <p className="text-sm font-medium text-muted-foreground">Success Rate</p>
+                      <p className="text-3xl font-bold mt-2">
+                        {webhookStats?.totalDeliveries ? `${webhookStats.successRate}%` : '—'}
+                      </p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        +5% from last month
+                        {(webhookStats?.successfulDeliveries ?? 0).toLocaleString()} delivered
                       </p>
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-green-500/20' : 'bg-green-100'}`}>
@@ -796,10 +419,14 @@ export default function WebhookSettings() {
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Avg. Time to Complete</p>
-                      <p className="text-3xl font-bold mt-2">12m</p>
+                      <p className="text-sm font-medium text-muted-foreground">Avg. Response Time</p>
+                      <p className="text-3xl font-bold mt-2">
+                        {webhookStats?.averageResponseTime != null ? `${webhookStats.averageResponseTime}ms` : '—'}
+                      </p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        -2m from last month
+                        {webhookStats?.lastDelivery
+                          ? `Last sent ${new Date(webhookStats.lastDelivery).toLocaleString()}`
+                          : 'Nothing sent yet'}
                       </p>
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-orange-500/20' : 'bg-orange-100'}`}>
@@ -813,40 +440,89 @@ export default function WebhookSettings() {
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Active Users</p>
-                      <p className="text-3xl font-bold mt-2">34</p>
+                      <p className="text-sm font-medium text-muted-foreground">Retrying / Dead</p>
+                      <p className="text-3xl font-bold mt-2">
+                        {webhookStats?.failedDeliveries ?? 0} / {webhookStats?.deadDeliveries ?? 0}
+                      </p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        +8% from last month
+                        Dead deliveries are no longer retried
                       </p>
                     </div>
-                    <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-purple-500/20' : 'bg-purple-100'}`}>
-                      <Users className="w-6 h-6 text-purple-600" />
+                    <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-red-500/20' : 'bg-red-100'}`}>
+                      <AlertTriangle className="w-6 h-6 text-red-600" />
                     </div>
                   </div>
                 </CardContent>
               </Card>
             </div>
 
-            {/* Analytics Charts Placeholder */}
+            {/* Delivery Trends */}
             <Card>
               <CardHeader>
-                <CardTitle>Form Completion Trends</CardTitle>
+                <CardTitle>Delivery Trends</CardTitle>
                 <CardDescription>
-                  Track form completion rates and user engagement over time.
+                  Delivered and failed webhooks per day.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className={`h-64 rounded-lg border-2 border-dashed ${theme === 'dark' ? 'border-gray-700 bg-gray-800/30' : 'border-gray-300 bg-gray-50'} flex items-center justify-center`}>
-                  <div className="text-center">
-                    <BarChart3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                    <p className="text-muted-foreground">Analytics charts coming soon</p>
-                    <p className="text-sm text-muted-foreground mt-1">
-                      Detailed analytics and reporting features will be available in the next update.
-                    </p>
+                {webhookStats && webhookStats.totalDeliveries > 0 ? (
+                  <ChartContainer config={deliveryChartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={webhookStats.daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(value: string) => new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="succeeded" stackId="deliveries" fill="var(--color-succeeded)" />
+                      <Bar dataKey="failed" stackId="deliveries" fill="var(--color-failed)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <div className={`h-64 rounded-lg border-2 border-dashed ${theme === 'dark' ? 'border-gray-700 bg-gray-800/30' : 'border-gray-300 bg-gray-50'} flex items-center justify-center`}>
+                    <div className="text-center">
+                      <BarChart3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground">No webhook deliveries yet</p>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Charts will appear once webhooks are sent to your endpoint.
+                      </p>
+                    </div>
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
+
+            {/* Events Breakdown */}
+            {webhookStats && webhookStats.byEvent.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Event</CardTitle>
+                  <CardDescription>
+                    Delivery results for each event type.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {webhookStats.byEvent.map((eventStats) => (
+                    <div key={eventStats.event} className="flex items-center justify-between p-2 rounded border">
+                      <span className="text-sm font-mono">{eventStats.event}</span>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Badge variant="secondary">{eventStats.total} sent</Badge>
+                        <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 border-0">
+                          {eventStats.succeeded} delivered
+                        </Badge>
+                        {eventStats.failed > 0 && (
+                          <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border-0">
+                            {eventStats.failed} failed
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Submissions Tab */}
@@ -890,8 +566,8 @@ export default function WebhookSettings() {
                         <tr key={submission.id} className={`hover:${theme === 'dark' ? 'bg-gray-800/30' : 'bg-gray-50'} transition-colors`}>
                           <td className="p-4">
                             <div>
-                              <div className="font-medium">{submission.clientName}</div>
-                              <div className="text-sm text-muted-foreground">{submission.clientEmail}</div>
+                              <div className="font-medium">{submission.client_name}</div>
+                              <div className="text-sm text-muted-foreground">{submission.client_email}</div>
                             </div>
                           </td>
                           <td className="p-4">
@@ -902,7 +578,7 @@ export default function WebhookSettings() {
                                   : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400 border-0'
                               }
                             >
-                              {submission.status === 'completed' ? 'Completed' : 'In Progress'}
+                              {submission.status === 'completed' ? 'Completed' : submission.status === 'pending' ? 'Pending' : 'In Progress'}
                             </Badge>
                           </td>
                           <td className="p-4">
@@ -917,11 +593,16 @@ export default function WebhookSettings() {
                             </div>
                           </td>
                           <td className="p-4 text-sm text-muted-foreground">
-                            {new Date(submission.submittedAt).toLocaleDateString()}
+                            {new Date(submission.updated_at || submission.created_at).toLocaleDateString()}
                           </td>
                           <td className="p-4">
                             <div className="flex items-center justify-end gap-2">
-                              <Button variant="ghost" size="sm" className="gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => window.open(`/onboarding/${submission.slug || submission.id}`, '_blank')}
+                              >
                                 <ExternalLink className="w-4 h-4" />
                                 View
                               </Button>
@@ -938,44 +619,6 @@ export default function WebhookSettings() {
         </Tabs>
       </div>
 
-      {/* Test Webhook Dialog */}
-      <Dialog open={showTestDialog} onOpenChange={setShowTestDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Test Webhook</DialogTitle>
-            <DialogDescription>
-              Send a test payload to your webhook endpoint to verify it's working correctly.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'}`}>
-              <h4 className="font-medium mb-2">Test Payload</h4>
-              <pre className="text-sm overflow-x-auto">
-                <code>{`{
-  "event": "webhook.test",
-  "timestamp": "${new Date().toISOString()}",
-  "data": {
-    "message": "This is a test webhook"
-  }
-}`}</code>
-              </pre>
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowTestDialog(false)}>
-              Cancel
-            </Button>
-            <Button onClick={testWebhook} disabled={isTestingWebhook} className="gap-2">
-              {isTestingWebhook ? (
-                <RefreshCw className="w-4 h-4 animate-spin" />
-              ) : (
-                <Send className="w-4 h-4" />
-              )}
-              {isTestingWebhook ? 'Testing...' : 'Send Test'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
     </AdminLayout>
   );
 } 
\ No newline at end of file
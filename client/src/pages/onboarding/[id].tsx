@@ -2,18 +2,22 @@ import { useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { OnboardingForm } from "@/components/onboarding/OnboardingForm";
 import { Card, CardContent } from "@/components/ui/card";
-import { getFormData, getFormBySlug } from "@/lib/supabase";
+import { getFormData, getFormStatus, unlockForm } from "@/lib/formOperations";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/lib/supabase";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { generateUniqueSlug } from "@/lib/utils";
 import { OnboardingThemeToggle } from "@/components/onboarding/ThemeToggle";
+import { FormLockScreen } from "@/components/onboarding/FormLockScreen";
+import { FormClosedScreen } from "@/components/onboarding/FormClosedScreen";
+import { rememberFormTokenFromUrl } from "@/lib/formAccess";
 
 export default function OnboardingPage() {
   const { id } = useParams();
   const { toast } = useToast();
   console.log("Form ID or slug from params:", id);
+  rememberFormTokenFromUrl();
   
   // Add a mutation to create the form if it doesn't exist
   const createFormMutation = useMutation({
@@ -70,41 +74,39 @@ export default function OnboardingPage() {
     },
   });
   
-  const { data: form, isLoading, error } = useQuery({
+  // Closed and password protected forms are decided by the server before anything else loads
+  const { data: status, isLoading: isStatusLoading } = useQuery({
+    queryKey: ["form-status", id],
+    queryFn: () => getFormStatus(id!),
+    retry: false,
+  });
+
+  const { data: form, isLoading: isFormLoading, error } = useQuery({
     queryKey: ["form", id],
     queryFn: async () => {
       try {
         console.log("Fetching form data for ID/slug:", id);
-        
-        // For slugs or IDs that look like slugs, try getFormBySlug first
-        if (id.includes('-') && id.length < 36) {
-          try {
-            const data = await getFormBySlug(id);
-            console.log("Form data found by slug:", data);
-            return data;
-          } catch (slugError) {
-            console.log("Not found by slug, trying as regular ID...");
-          }
-        }
-        
-        // Then try as a regular ID
-        try {
-          const data = await getFormData(id);
-          console.log("Form data found by ID:", data);
-          return data;
-        } catch (idError) {
-          console.error("Form not found by ID either:", idError);
-          throw new Error("Form not found by ID or slug");
-        }
+        // The server resolves either a form id or its slug
+        return await getFormData(id);
       } catch (err) {
         console.error("Error fetching form:", err);
         throw err;
       }
     },
+    enabled: !status || status.state === 'open',
     retry: 1, // Only retry once to avoid too many failed requests
     retryDelay: 1000, // Wait 1 second before retrying
   });
 
+  const handleUnlock = async (password: string) => {
+    if (!status) return;
+    await unlockForm(status.id, password);
+    await queryClient.invalidateQueries({ queryKey: ["form-status", id] });
+    queryClient.invalidateQueries({ queryKey: ["form", id] });
+  };
+
+  const isLoading = isStatusLoading || (status?.state === 'open' && isFormLoading);
+
   if (isLoading || createFormMutation.isPending) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -116,6 +118,24 @@ export default function OnboardingPage() {
     );
   }
 
+  if (status?.state === 'closed') {
+    return (
+      <div className="min-h-screen bg-gray-900">
+        <OnboardingThemeToggle />
+        <FormClosedScreen clientName={status.client_name ?? ''} />
+      </div>
+    );
+  }
+
+  if (status?.state === 'locked') {
+    return (
+      <div className="min-h-screen bg-gray-900">
+        <OnboardingThemeToggle />
+        <FormLockScreen clientName={status.client_name ?? ''} onUnlock={handleUnlock} />
+      </div>
+    );
+  }
+
   if (error || !form) {
     console.error("Error or no form:", error);
     return (
@@ -2,13 +2,15 @@ import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { OnboardingForm } from "@/components/onboarding/OnboardingForm";
 import { Card, CardContent } from "@/components/ui/card";
-import { getSectionData } from "@/lib/supabase";
+import { getSectionData } from "@/lib/formOperations";
 import { Button } from "@/components/ui/button";
 import { OnboardingThemeToggle } from "@/components/onboarding/ThemeToggle";
+import { rememberFormTokenFromUrl } from "@/lib/formAccess";
 
 export default function SharedSectionPage() {
   const { id } = useParams();
   console.log("Shared section ID:", id);
+  rememberFormTokenFromUrl();
   
   const { data: section, isLoading, error } = useQuery({
     queryKey: ["section", id],
@@ -0,0 +1,33 @@
+-- Files clients upload for a form's file fields, such as the logo. The files themselves live
+-- in the asset store (the private brand-assets bucket in production); these rows say which
+-- form and field each belongs to, what it is, and where its thumbnail and web copies are.
+
+CREATE TABLE IF NOT EXISTS brand_assets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  storage_key TEXT NOT NULL,
+  variants JSONB NOT NULL DEFAULT '{}'::jsonb,
+  uploaded_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  uploaded_by_token UUID REFERENCES form_access_tokens(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS brand_assets_form_id_idx ON brand_assets(form_id, created_at);
+
+-- Uploads go through the server, which checks them first; nothing reads the bucket directly
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('brand-assets', 'brand-assets', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+-- Written by the server (service role); any staff member can read them
+ALTER TABLE brand_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read brand assets" ON brand_assets;
+CREATE POLICY "Staff read brand assets" ON brand_assets
+  FOR SELECT USING (current_user_role() IS NOT NULL);
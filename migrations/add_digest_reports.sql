@@ -0,0 +1,56 @@
+-- Daily and weekly digest reports, plus the form timestamps they're built from.
+
+-- When a form was first saved and when it was completed. A trigger keeps these in step with
+-- status and progress, whichever route changed them.
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION set_form_activity_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.started_at IS NULL AND (NEW.status <> 'pending' OR COALESCE(NEW.progress, 0) > 0) THEN
+    NEW.started_at := CURRENT_TIMESTAMP;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, CURRENT_TIMESTAMP);
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS forms_activity_timestamps ON forms;
+CREATE TRIGGER forms_activity_timestamps
+  BEFORE INSERT OR UPDATE ON forms
+  FOR EACH ROW EXECUTE FUNCTION set_form_activity_timestamps();
+
+-- Best guess for existing forms
+UPDATE forms SET started_at = created_at
+  WHERE started_at IS NULL AND (status <> 'pending' OR COALESCE(progress, 0) > 0);
+UPDATE forms SET completed_at = updated_at
+  WHERE completed_at IS NULL AND status = 'completed';
+
+CREATE INDEX IF NOT EXISTS forms_created_at_idx ON forms(created_at);
+
+-- One saved report per period; the scheduler relies on the unique key to send each one once
+CREATE TABLE IF NOT EXISTS digest_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  period TEXT NOT NULL CHECK (period IN ('daily', 'weekly')),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  report JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (period, period_start)
+);
+
+-- Written by the server (service role); any staff member can read them
+ALTER TABLE digest_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read digest reports" ON digest_reports;
+CREATE POLICY "Staff read digest reports" ON digest_reports
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS digest_reports_period_start_idx ON digest_reports(period_start DESC);
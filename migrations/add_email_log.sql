@@ -0,0 +1,28 @@
+-- Every email the server tries to send: reminders, invitations, completion receipts and
+-- team alerts. Failed sends are kept with the transport's error.
+
+DO $$ BEGIN
+  CREATE TYPE email_status AS ENUM ('sent', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  to_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  template TEXT NOT NULL,
+  status email_status NOT NULL,
+  transport TEXT NOT NULL,
+  message_id TEXT,
+  error TEXT,
+  form_id UUID REFERENCES forms(id) ON DELETE SET NULL,
+  sent_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only the server (service role) reads and writes the log
+ALTER TABLE email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS email_log_created_at_idx ON email_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS email_log_form_id_idx ON email_log(form_id);
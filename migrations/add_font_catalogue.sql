@@ -0,0 +1,48 @@
+-- The font catalogue offered by font fields without options of their own, and what uploaded
+-- font files say about themselves. Families load from Google Fonts, so the seed only lists
+-- families it has; admins manage the rest under Fonts.
+
+DO $$ BEGIN
+  CREATE TYPE font_category AS ENUM ('sans-serif', 'serif', 'display', 'handwriting', 'monospace');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS font_catalogue (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family TEXT NOT NULL UNIQUE,
+  category font_category NOT NULL,
+  weights INTEGER[] NOT NULL DEFAULT '{400,700}',
+  pairings TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The five fonts the form used to list, and a few to pair them with
+INSERT INTO font_catalogue (family, category, weights, pairings) VALUES
+  ('Inter', 'sans-serif', '{400,500,600,700}', '{Merriweather,"Playfair Display"}'),
+  ('Roboto', 'sans-serif', '{300,400,500,700}', '{"Roboto Slab",Lora}'),
+  ('Open Sans', 'sans-serif', '{400,600,700}', '{Montserrat,"Playfair Display"}'),
+  ('Montserrat', 'sans-serif', '{400,600,700,800}', '{Merriweather,"Open Sans"}'),
+  ('Poppins', 'sans-serif', '{400,500,600,700}', '{Lora,Inter}'),
+  ('Lato', 'sans-serif', '{300,400,700}', '{"Playfair Display",Merriweather}'),
+  ('Playfair Display', 'serif', '{400,600,700}', '{Lato,"Source Sans 3"}'),
+  ('Merriweather', 'serif', '{300,400,700}', '{"Open Sans",Lato}'),
+  ('Lora', 'serif', '{400,500,700}', '{Roboto,"Source Sans 3"}'),
+  ('Roboto Slab', 'serif', '{400,500,700}', '{Roboto}'),
+  ('Source Sans 3', 'sans-serif', '{400,600,700}', '{"Playfair Display",Lora}'),
+  ('Oswald', 'display', '{400,500,700}', '{Lato,"Open Sans"}'),
+  ('Bebas Neue', 'display', '{400}', '{Montserrat,Lato}'),
+  ('Caveat', 'handwriting', '{400,700}', '{Poppins}'),
+  ('JetBrains Mono', 'monospace', '{400,700}', '{Inter}')
+ON CONFLICT (family) DO NOTHING;
+
+ALTER TABLE brand_assets ADD COLUMN IF NOT EXISTS font JSONB;
+
+-- Written by the server (service role); any staff member can read it
+ALTER TABLE font_catalogue ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read font catalogue" ON font_catalogue;
+CREATE POLICY "Staff read font catalogue" ON font_catalogue
+  FOR SELECT USING (current_user_role() IS NOT NULL);
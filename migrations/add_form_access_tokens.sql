@@ -0,0 +1,68 @@
+-- Replace the public RLS policies from update_rls_policies.sql. Anyone with the anon key
+-- could list and edit every form; clients now go through the API with a form access token
+-- and only staff (a row in users) can reach the tables directly.
+
+-- Client access links. Only a SHA-256 hash of each token's secret is stored.
+CREATE TABLE IF NOT EXISTS form_access_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  section_id TEXT,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only the server (service role) reads and writes tokens
+ALTER TABLE form_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS form_access_tokens_form_id_idx ON form_access_tokens(form_id);
+
+-- The caller's role, or NULL for anonymous visitors and users without a users row.
+-- SECURITY DEFINER so policies can read users without their own policy on it.
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE user_id = auth.uid()
+$$;
+
+DROP POLICY IF EXISTS "Forms are publicly viewable" ON forms;
+DROP POLICY IF EXISTS "Forms are publicly updatable" ON forms;
+DROP POLICY IF EXISTS "Forms are insertable by authenticated users" ON forms;
+DROP POLICY IF EXISTS "Sections are publicly viewable" ON form_sections;
+DROP POLICY IF EXISTS "Sections are publicly insertable" ON form_sections;
+DROP POLICY IF EXISTS "Sections are publicly updatable" ON form_sections;
+
+ALTER TABLE forms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE form_sections ENABLE ROW LEVEL SECURITY;
+
+-- Forms: every staff role can read, admins and editors can change, only admins delete
+CREATE POLICY "Staff can view forms" ON forms
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Admins and editors can create forms" ON forms
+  FOR INSERT WITH CHECK (current_user_role() IN ('admin', 'editor'));
+
+CREATE POLICY "Admins and editors can update forms" ON forms
+  FOR UPDATE USING (current_user_role() IN ('admin', 'editor'));
+
+CREATE POLICY "Admins can delete forms" ON forms
+  FOR DELETE USING (current_user_role() = 'admin');
+
+-- Sections follow the same rules
+CREATE POLICY "Staff can view sections" ON form_sections
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Admins and editors can create sections" ON form_sections
+  FOR INSERT WITH CHECK (current_user_role() IN ('admin', 'editor'));
+
+CREATE POLICY "Admins and editors can update sections" ON form_sections
+  FOR UPDATE USING (current_user_role() IN ('admin', 'editor'));
+
+CREATE POLICY "Admins can delete sections" ON form_sections
+  FOR DELETE USING (current_user_role() = 'admin');
@@ -0,0 +1,6 @@
+-- Password protection and closing forms. Passwords are stored as scrypt hashes, set
+-- through PUT /api/forms/:id/password; the server hashes any remaining plaintext
+-- passwords from the old password column when it starts and then clears them.
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS is_disabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS password TEXT;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS password_hash TEXT;
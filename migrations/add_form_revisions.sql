@@ -0,0 +1,50 @@
+-- Revision history for forms.data. Every save that changes a form's answers adds a row with
+-- the whole of the data after the save, what it changed field by field, where the save came
+-- from and who made it: a staff member or a client link.
+
+DO $$ BEGIN
+  CREATE TYPE form_revision_source AS ENUM ('autosave', 'step_navigation', 'admin_edit', 'api', 'restore');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS form_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  source form_revision_source NOT NULL,
+  author_user_id UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  author_token_id UUID REFERENCES form_access_tokens(id) ON DELETE SET NULL,
+  data JSONB NOT NULL,
+  changes JSONB NOT NULL,
+  restored_from UUID REFERENCES form_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS form_revisions_form_id_created_at_idx ON form_revisions(form_id, created_at DESC);
+
+-- The history is append-only: a revision's answers never change once recorded. Rows still go
+-- when their form is deleted, and the author columns are cleared when a user or link is.
+CREATE OR REPLACE FUNCTION prevent_form_revision_edits() RETURNS trigger AS $$
+BEGIN
+  IF NEW.form_id IS DISTINCT FROM OLD.form_id
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.data IS DISTINCT FROM OLD.data
+    OR NEW.changes IS DISTINCT FROM OLD.changes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Form revisions cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS form_revisions_append_only ON form_revisions;
+CREATE TRIGGER form_revisions_append_only
+  BEFORE UPDATE ON form_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_form_revision_edits();
+
+-- Written by the server (service role); any staff member can read them
+ALTER TABLE form_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read form revisions" ON form_revisions;
+CREATE POLICY "Staff read form revisions" ON form_revisions
+  FOR SELECT USING (current_user_role() IS NOT NULL);
@@ -0,0 +1,48 @@
+-- Template drafts and published versions. form_templates.definition becomes the draft admins
+-- edit; publishing copies it into form_template_versions, and each form keeps the version it
+-- was created with.
+
+ALTER TABLE form_templates ADD COLUMN IF NOT EXISTS published_version INTEGER;
+ALTER TABLE form_templates ADD COLUMN IF NOT EXISTS has_draft_changes BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS form_template_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES form_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  definition JSONB NOT NULL,
+  published_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS form_template_versions_template_version_idx ON form_template_versions(template_id, version);
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES form_template_versions(id);
+CREATE INDEX IF NOT EXISTS forms_template_version_id_idx ON forms(template_version_id);
+
+-- Templates made before versioning were already live: publish them as version 1 and pin
+-- their forms to it
+INSERT INTO form_template_versions (template_id, version, name, definition, published_by, published_at)
+SELECT id, 1, name, definition, created_by, updated_at
+FROM form_templates
+WHERE published_version IS NULL
+  AND NOT EXISTS (SELECT 1 FROM form_template_versions v WHERE v.template_id = form_templates.id);
+
+UPDATE form_templates
+SET published_version = 1, has_draft_changes = FALSE
+WHERE published_version IS NULL
+  AND EXISTS (SELECT 1 FROM form_template_versions v WHERE v.template_id = form_templates.id AND v.version = 1);
+
+UPDATE forms
+SET template_version_id = v.id
+FROM form_template_versions v
+WHERE forms.template_version_id IS NULL
+  AND v.template_id = forms.template_id
+  AND v.version = 1;
+
+-- Written by the server (service role); any staff member can read them
+ALTER TABLE form_template_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read form template versions" ON form_template_versions;
+CREATE POLICY "Staff read form template versions" ON form_template_versions
+  FOR SELECT USING (current_user_role() IS NOT NULL);
@@ -0,0 +1,28 @@
+-- Form templates: the sections and fields a form asks for, as JSON validated by
+-- formTemplateDefinitionSchema in shared/schema.ts. Forms without a template use the
+-- built-in default in shared/defaultFormTemplate.ts.
+
+CREATE TABLE IF NOT EXISTS form_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+  definition JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one template is used for new forms when staff don't pick one
+CREATE UNIQUE INDEX IF NOT EXISTS form_templates_one_default_idx ON form_templates(is_default) WHERE is_default;
+
+-- Existing forms keep the built-in questions. A template can't be deleted while forms use it.
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES form_templates(id);
+CREATE INDEX IF NOT EXISTS forms_template_id_idx ON forms(template_id);
+
+-- Written by the server (service role); any staff member can read them
+ALTER TABLE form_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read form templates" ON form_templates;
+CREATE POLICY "Staff read form templates" ON form_templates
+  FOR SELECT USING (current_user_role() IS NOT NULL);
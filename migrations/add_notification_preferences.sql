@@ -0,0 +1,15 @@
+-- Which alerts each staff member gets, in-app and by email. The JSON is validated by
+-- notificationPreferencesSchema in shared/schema.ts; users without a row get the defaults.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Written by the server (service role); staff can only see their own
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read their own notification preferences" ON notification_preferences;
+CREATE POLICY "Staff read their own notification preferences" ON notification_preferences
+  FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,37 @@
+-- In-app notifications: one row per staff member, so reading and dismissing are personal.
+-- Dismissing deletes the row.
+
+DO $$ BEGIN
+  CREATE TYPE notification_type AS ENUM ('form_created', 'form_completed', 'section_completed', 'reminder_sent', 'webhook_failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE notification_priority AS ENUM ('high', 'medium', 'low');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  priority notification_priority NOT NULL DEFAULT 'medium',
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  form_id UUID REFERENCES forms(id) ON DELETE CASCADE,
+  data JSONB,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Written by the server (service role); staff can only see their own
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read their own notifications" ON notifications;
+CREATE POLICY "Staff read their own notifications" ON notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_user_unread_idx ON notifications(user_id) WHERE read_at IS NULL;
@@ -1,3 +1,4 @@
+-- Superseded by add_form_access_tokens.sql, which removes these public policies. Do not run.
 -- Add public access policies without touching existing ones
 
 -- Allow anyone to view forms (public access)
@@ -18,4 +19,4 @@ CREATE POLICY IF NOT EXISTS "Sections are publicly insertable" ON form_sections
 
 -- Allow anyone to update form sections (for client submissions)
 CREATE POLICY IF NOT EXISTS "Sections are publicly updatable" ON form_sections
-  FOR UPDATE USING (true); 
\ No newline at end of file
+  FOR UPDATE USING (true); 
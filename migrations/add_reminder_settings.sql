@@ -0,0 +1,14 @@
+-- Automatic reminders for incomplete forms. The schedule lives on the single
+-- system_settings row; forms can be opted out one by one.
+
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS reminders_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS first_reminder_hours INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS second_reminder_hours INTEGER NOT NULL DEFAULT 72;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS final_reminder_hours INTEGER NOT NULL DEFAULT 168;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS reminder_message TEXT;
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS reminders_opted_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The scheduler looks for incomplete forms that can still be reminded
+CREATE INDEX IF NOT EXISTS forms_remindable_idx ON forms(created_at)
+  WHERE status <> 'completed' AND is_disabled = FALSE AND reminders_opted_out = FALSE;
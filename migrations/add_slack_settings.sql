@@ -0,0 +1,7 @@
+-- Slack alerts for the whole team: an incoming webhook on the single system_settings row,
+-- and which alerts (form_completed, section_completed, webhook_failed) are posted to it.
+
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS slack_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS slack_webhook_url TEXT;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS slack_channel TEXT;
+ALTER TABLE system_settings ADD COLUMN IF NOT EXISTS slack_alerts JSONB;
@@ -0,0 +1,28 @@
+-- Team management: deactivating users, revoking invitations and accepting them once.
+
+ALTER TYPE invitation_status ADD VALUE IF NOT EXISTS 'revoked';
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP WITH TIME ZONE;
+
+-- invitations.token now holds a SHA-256 hash of the token in the link. Hash the tokens
+-- of invitations sent before this change so their links keep working.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+UPDATE invitations
+SET token = encode(digest(token, 'sha256'), 'hex')
+WHERE token !~ '^[0-9a-f]{64}$';
+
+-- Invitations are only read and written by the server (service role)
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+-- Deactivated users lose their role everywhere, including the RLS policies on forms
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE user_id = auth.uid() AND deactivated_at IS NULL
+$$;
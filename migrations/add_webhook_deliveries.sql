@@ -0,0 +1,35 @@
+-- Persistent log of every outbound webhook delivery, used for retries and auditing
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'webhook_delivery_status') THEN
+        CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed', 'dead');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event TEXT NOT NULL,
+  form_id UUID REFERENCES forms(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT,
+  latency_ms INTEGER,
+  last_error TEXT,
+  next_retry_at TIMESTAMP WITH TIME ZONE,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only the server (service role) reads and writes deliveries
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- The retry worker polls for failed deliveries that are due
+CREATE INDEX IF NOT EXISTS webhook_deliveries_retry_idx ON webhook_deliveries(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_form_id_idx ON webhook_deliveries(form_id);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at_idx ON webhook_deliveries(created_at);
@@ -0,0 +1,45 @@
+-- Replace the single system-wide webhook with any number of endpoints,
+-- each subscribed to its own set of events
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  events TEXT[] NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only the server (service role) reads and writes endpoints
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_events_idx ON webhook_endpoints USING GIN (events);
+
+-- Keep delivery history when an endpoint is removed
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_id_idx ON webhook_deliveries(endpoint_id);
+
+-- Carry over the existing system-wide configuration. Submissions and form updates were
+-- always sent when the webhook was enabled; completions depended on the notify flags.
+INSERT INTO webhook_endpoints (name, url, secret, enabled, events)
+SELECT
+  'Default endpoint',
+  webhook_url,
+  NULLIF(webhook_secret, ''),
+  COALESCE(webhook_enabled, FALSE),
+  ARRAY['form_submission', 'form_updated']
+    || CASE WHEN COALESCE(notify_on_form_completion, TRUE) THEN ARRAY['form_completion'] ELSE ARRAY[]::TEXT[] END
+    || CASE WHEN COALESCE(notify_on_section_completion, FALSE) THEN ARRAY['section_completion'] ELSE ARRAY[]::TEXT[] END
+FROM system_settings
+WHERE webhook_url IS NOT NULL AND webhook_url <> ''
+  AND NOT EXISTS (SELECT 1 FROM webhook_endpoints)
+ORDER BY id
+LIMIT 1;
+
+ALTER TABLE system_settings DROP COLUMN IF EXISTS webhook_url;
+ALTER TABLE system_settings DROP COLUMN IF EXISTS webhook_enabled;
+ALTER TABLE system_settings DROP COLUMN IF EXISTS webhook_secret;
+ALTER TABLE system_settings DROP COLUMN IF EXISTS notify_on_section_completion;
+ALTER TABLE system_settings DROP COLUMN IF EXISTS notify_on_form_completion;
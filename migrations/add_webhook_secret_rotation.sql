@@ -0,0 +1,4 @@
+-- Keep the previous secret signing deliveries for a grace period after a rotation,
+-- so receivers can switch over without dropping events
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS previous_secret TEXT;
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,26 @@
+-- Webhook events now use dotted names and a shared envelope
+-- (form_completion -> form.completed, section_completion -> section.completed,
+--  form_submission -> form.submitted, form_updated -> form.updated)
+UPDATE webhook_endpoints
+SET events = ARRAY(
+  SELECT CASE e
+    WHEN 'form_completion' THEN 'form.completed'
+    WHEN 'section_completion' THEN 'section.completed'
+    WHEN 'form_submission' THEN 'form.submitted'
+    WHEN 'form_updated' THEN 'form.updated'
+    ELSE e
+  END
+  FROM unnest(events) AS e
+);
+
+-- Keep delivery history filterable under the new names. Stored payloads keep
+-- their original shape, so redeliveries of old events send the old format.
+UPDATE webhook_deliveries
+SET event = CASE event
+  WHEN 'form_completion' THEN 'form.completed'
+  WHEN 'section_completion' THEN 'section.completed'
+  WHEN 'form_submission' THEN 'form.submitted'
+  WHEN 'form_updated' THEN 'form.updated'
+  ELSE event
+END
+WHERE event IN ('form_completion', 'section_completion', 'form_submission', 'form_updated');
@@ -1,3 +1,4 @@
+-- Superseded by add_form_access_tokens.sql, which removes these public policies. Do not run.
 -- Drop existing restrictive policies
 DROP POLICY IF EXISTS "Forms are viewable by created user" ON forms;
 DROP POLICY IF EXISTS "Forms are updatable by created user" ON forms;
@@ -30,4 +31,4 @@ CREATE POLICY "Sections are publicly insertable" ON form_sections
 
 -- Allow anyone to update form sections (for client submissions)
 CREATE POLICY "Sections are publicly updatable" ON form_sections
-  FOR UPDATE USING (true); 
\ No newline at end of file
+  FOR UPDATE USING (true); 
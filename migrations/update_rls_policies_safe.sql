@@ -1,3 +1,4 @@
+-- Superseded by add_form_access_tokens.sql, which removes these public policies. Do not run.
 -- First, check which policies exist and drop only the ones we want to replace
 DO $$
 BEGIN
@@ -51,4 +52,4 @@ BEGIN
           FOR UPDATE USING (true);
     END IF;
 END
-$$; 
\ No newline at end of file
+$$; 
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+
+// Uploaded files are kept in a store chosen with ASSET_STORE:
+//
+//   supabase - a private Supabase Storage bucket (ASSET_BUCKET, default brand-assets)
+//   local    - files under ASSET_DIR (default .assets), for local development
+//
+// Without ASSET_STORE, production uses supabase and development uses local; tests get a
+// temporary directory. Files are only ever served through the API, which checks access.
+
+export interface AssetStore {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Null when there's no such file
+  get(key: string): Promise<Buffer | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export function createLocalAssetStore(directory: string): AssetStore {
+  const root = path.resolve(directory);
+  // Keys are made by the server, but never let one reach outside the directory
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid asset key: ${key}`);
+    return file;
+  };
+
+  return {
+    name: 'local',
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(keys) {
+      await Promise.all(keys.map(key => fs.rm(resolve(key), { force: true })));
+    },
+  };
+}
+
+export interface SupabaseAssetStoreOptions {
+  url: string;
+  serviceKey: string;
+  bucket: string;
+}
+
+export const DEFAULT_ASSET_BUCKET = 'brand-assets';
+
+export function createSupabaseAssetStore(options: SupabaseAssetStoreOptions): AssetStore {
+  const client = createClient(options.url, options.serviceKey);
+  const bucket = () => client.storage.from(options.bucket);
+
+  return {
+    name: 'supabase',
+    async put(key, body, contentType) {
+      const { error } = await bucket().upload(key, body, { contentType, upsert: false });
+      if (error) throw error;
+    },
+    async get(key) {
+      const { data, error } = await bucket().download(key);
+      if (error) {
+        if ('statusCode' in error && String(error.statusCode) === '404') return null;
+        throw error;
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+    async delete(keys) {
+      if (keys.length === 0) return;
+      const { error } = await bucket().remove(keys);
+      if (error) throw error;
+    },
+  };
+}
+
+export function createAssetStoreFromEnv(env: NodeJS.ProcessEnv = process.env): AssetStore {
+  const kind = env.ASSET_STORE || (env.NODE_ENV === 'production' ? 'supabase' : 'local');
+
+  switch (kind) {
+    case 'supabase':
+      if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are needed for the supabase asset store');
+      return createSupabaseAssetStore({
+        url: env.SUPABASE_URL,
+        serviceKey: env.SUPABASE_SERVICE_ROLE_KEY,
+        bucket: env.ASSET_BUCKET || DEFAULT_ASSET_BUCKET,
+      });
+    case 'local':
+      return createLocalAssetStore(env.ASSET_DIR
+        || (env.NODE_ENV === 'test' ? path.join(os.tmpdir(), `brand-assets-${process.pid}`) : '.assets'));
+    default:
+      throw new Error(`Unknown ASSET_STORE: ${kind}`);
+  }
+}
+
+export const assetStore = createAssetStoreFromEnv();
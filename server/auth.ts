@@ -0,0 +1,131 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { FORM_TOKEN_HEADER, FORM_UNLOCK_HEADER, parseFormAccessToken, verifyFormUnlockToken } from "./formAccess";
+import { type FormLock } from "./types";
+import { clientFormPermissions, hasPermission, type Permission, type UserRole } from "@shared/permissions";
+import { type FormAccessState } from "@shared/schema";
+
+// Callers are either staff signed in through Supabase, identified by the JWT in the
+// Authorization header, or clients holding a form access token. A client token opens
+// one form, or just one of its sections when sectionId is set, and only while the form
+// is open: not closed, and unlocked with its password if it has one. tokenId is the link's
+// form_access_tokens row, so changes can be traced back to it.
+export type AuthContext =
+  | { kind: 'user'; userId: string; email: string | null; role: UserRole | null }
+  | { kind: 'form'; formId: string; sectionId: string | null; state: FormAccessState; tokenId: string };
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+// Identify the caller. Requests without credentials carry on anonymously so each route
+// can decide; credentials that are present but invalid are rejected straight away.
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      const user = await storage.verifyAccessToken(header.slice('Bearer '.length).trim());
+      if (!user) {
+        res.status(401).json({ error: "Invalid or expired session" });
+        return;
+      }
+      const role = await storage.getUserRole(user.id);
+      req.auth = { kind: 'user', userId: user.id, email: user.email ?? null, role };
+      next();
+      return;
+    }
+
+    const formToken = req.get(FORM_TOKEN_HEADER);
+    if (formToken) {
+      const claims = parseFormAccessToken(formToken);
+      const record = claims ? await storage.getFormAccessTokenByHash(claims.tokenHash) : undefined;
+      if (
+        !claims || !record || record.revoked_at ||
+        record.form_id !== claims.formId ||
+        (record.section_id ?? null) !== claims.sectionId ||
+        new Date(record.expires_at) <= new Date()
+      ) {
+        res.status(401).json({ error: "Invalid or expired form token" });
+        return;
+      }
+      const lock = await storage.getFormLock(claims.formId);
+      req.auth = {
+        kind: 'form',
+        tokenId: record.id,
+        formId: claims.formId,
+        sectionId: claims.sectionId,
+        state: getFormAccessState(lock, req.get(FORM_UNLOCK_HEADER)),
+      };
+    }
+
+    next();
+  } catch (error) {
+    console.error("Error authenticating request:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export function getFormAccessState(lock: FormLock | undefined, unlockToken?: string): FormAccessState {
+  // A missing form is reported as not found by the route itself
+  if (!lock) return 'open';
+  if (lock.is_disabled) return 'closed';
+  if (lock.password_hash && !verifyFormUnlockToken(unlockToken, lock.id, lock.password_hash)) return 'locked';
+  return 'open';
+}
+
+// Whether the caller may use a permission on one particular form, or on one of its
+// sections when sectionId is given
+export function canAccessForm(auth: AuthContext | undefined, formId: string | number, permission: Permission, sectionId?: string): boolean {
+  if (!auth) return false;
+  if (auth.kind === 'user') return hasPermission(auth.role, permission);
+  if (auth.formId !== String(formId) || auth.state !== 'open' || !clientFormPermissions.includes(permission)) return false;
+  return auth.sectionId === null || auth.sectionId === sectionId;
+}
+
+// 401 for anonymous callers, 403 (with the reason for closed and locked forms) otherwise
+export function denyAccess(req: Request, res: Response) {
+  if (!req.auth) {
+    res.status(401).json({ error: "Authentication required" });
+  } else if (req.auth.kind === 'form' && req.auth.state === 'closed') {
+    res.status(403).json({ error: "This form is closed", code: "form_closed" });
+  } else if (req.auth.kind === 'form' && req.auth.state === 'locked') {
+    res.status(403).json({ error: "This form is password protected", code: "form_locked" });
+  } else {
+    res.status(403).json({ error: "You do not have permission to perform this action" });
+  }
+}
+
+// Staff-only routes
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (req.auth?.kind === 'user' && hasPermission(req.auth.role, permission)) {
+      next();
+      return;
+    }
+    denyAccess(req, res);
+  };
+}
+
+// Routes scoped to the form in req.params.id, open to staff and to that form's client
+export function requireFormAccess(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (canAccessForm(req.auth, req.params.id, permission)) {
+      next();
+      return;
+    }
+    denyAccess(req, res);
+  };
+}
+
+// For handlers that only learn the form id after loading a record
+export function ensureFormAccess(req: Request, res: Response, formId: string | number | null | undefined, permission: Permission, sectionId?: string): boolean {
+  if (formId !== null && formId !== undefined && canAccessForm(req.auth, formId, permission, sectionId)) {
+    return true;
+  }
+  denyAccess(req, res);
+  return false;
+}
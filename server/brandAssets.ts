@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { SaxesParser } from 'saxes';
+import { type BrandAsset, type BrandAssetVariantName, type BrandAssetVariants, type FontMetadata } from "@shared/schema";
+import { extractPalette } from "@shared/colors";
+import { type AuthContext } from "./auth";
+import { type AssetStore } from "./assetStore";
+import { parseFontMetadata } from "./fontMetadata";
+import { type IStorage } from "./types";
+
+// Files clients upload for file fields. The server works out what a file is from its bytes,
+// checks it against the field's accept list, strips anything active out of SVGs, makes
+// a thumbnail and a web-sized copy of images and reads the names of fonts before anything is stored.
+
+export const MAX_BRAND_ASSET_BYTES = 20 * 1024 * 1024;
+
+// Longest side of each variant, in pixels
+const variantSizes: Record<BrandAssetVariantName, number> = {
+  thumbnail: 256,
+  web: 1600,
+};
+
+interface FileType {
+  contentType: string;
+  extensions: string[];
+  image: boolean;
+  font?: boolean;
+  matches: (body: Buffer) => boolean;
+}
+
+const startsWith = (body: Buffer, bytes: number[], offset = 0) => bytes.every((byte, index) => body[offset + index] === byte);
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const fileTypes: FileType[] = [
+  { contentType: 'image/png', extensions: ['.png'], image: true, matches: body => startsWith(body, [0x89, ...ascii('PNG\r\n'), 0x1a, 0x0a]) },
+  { contentType: 'image/jpeg', extensions: ['.jpg', '.jpeg'], image: true, matches: body => startsWith(body, [0xff, 0xd8, 0xff]) },
+  { contentType: 'image/gif', extensions: ['.gif'], image: true, matches: body => startsWith(body, ascii('GIF87a')) || startsWith(body, ascii('GIF89a')) },
+  { contentType: 'image/webp', extensions: ['.webp'], image: true, matches: body => startsWith(body, ascii('RIFF')) && startsWith(body, ascii('WEBP'), 8) },
+  { contentType: 'image/svg+xml', extensions: ['.svg'], image: true, matches: body => !body.includes(0) && /<svg[\s>]/i.test(body.subarray(0, 4096).toString('utf8')) },
+  { contentType: 'application/pdf', extensions: ['.pdf'], image: false, matches: body => startsWith(body, ascii('%PDF-')) },
+  { contentType: 'application/msword', extensions: ['.doc'], image: false, matches: body => startsWith(body, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['.docx'],
+    image: false,
+    matches: body => startsWith(body, [0x50, 0x4b, 0x03, 0x04]) && body.includes('word/'),
+  },
+  { contentType: 'font/woff2', extensions: ['.woff2'], image: false, font: true, matches: body => startsWith(body, ascii('wOF2')) },
+  { contentType: 'font/woff', extensions: ['.woff'], image: false, font: true, matches: body => startsWith(body, ascii('wOFF')) },
+  { contentType: 'font/otf', extensions: ['.otf'], image: false, font: true, matches: body => startsWith(body, ascii('OTTO')) },
+  { contentType: 'font/ttf', extensions: ['.ttf'], image: false, font: true, matches: body => startsWith(body, [0x00, 0x01, 0x00, 0x00]) || startsWith(body, ascii('true')) },
+];
+
+export function detectFileType(body: Buffer): FileType | undefined {
+  return fileTypes.find(type => type.matches(body));
+}
+
+// Whether a type of file passes an <input accept> list: extensions, exact types or "type/*".
+// It goes by what the file is, whatever its name says.
+export function isAcceptedFile(accept: string | undefined, fileType: FileType): boolean {
+  if (!accept?.trim()) return true;
+  return accept.split(',').map(item => item.trim().toLowerCase()).filter(Boolean).some(item => {
+    if (item.startsWith('.')) return fileType.extensions.includes(item);
+    if (item.endsWith('/*')) return fileType.contentType.startsWith(item.slice(0, -1));
+    return item === fileType.contentType;
+  });
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+// What an SVG may keep. Any other element is left out with everything inside it: scripts,
+// foreignObject, editor metadata and anything with a namespace prefix (x:script is still a script).
+const SVG_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'a', 'switch', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'image',
+  'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+  'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feDisplacementMap', 'feDropShadow',
+  'feFlood', 'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode',
+  'feMorphology', 'feOffset', 'feTile', 'feTurbulence',
+  'animate', 'animateTransform', 'set',
+]);
+
+// Geometry, presentation and animation attributes. Event handlers and anything prefixed,
+// other than xlink:href, are left out.
+const SVG_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'version', 'viewBox', 'preserveAspectRatio', 'transform',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'width', 'height', 'd', 'points', 'pathLength',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+  'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity', 'opacity', 'color', 'display', 'visibility', 'overflow',
+  'clip-path', 'clip-rule', 'mask', 'filter', 'marker-start', 'marker-mid', 'marker-end', 'paint-order', 'vector-effect',
+  'shape-rendering', 'mix-blend-mode', 'isolation',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'letter-spacing',
+  'word-spacing', 'text-decoration', 'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'startOffset',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+  'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation', 'mode', 'operator', 'k1', 'k2', 'k3', 'k4',
+  'type', 'values', 'tableValues', 'slope', 'intercept', 'amplitude', 'exponent', 'radius', 'scale',
+  'xChannelSelector', 'yChannelSelector', 'baseFrequency', 'numOctaves', 'seed', 'stitchTiles', 'flood-color', 'flood-opacity',
+  'attributeName', 'attributeType', 'begin', 'dur', 'end', 'repeatCount', 'repeatDur', 'restart',
+  'from', 'to', 'by', 'keyTimes', 'keySplines', 'calcMode', 'additive', 'accumulate',
+  'href', 'xlink:href',
+]);
+
+const LINK_ATTRIBUTES = new Set(['href', 'xlink:href']);
+// Values an animation sets another attribute to, which may be a link
+const ANIMATION_VALUE_ATTRIBUTES = new Set(['values', 'from', 'to', 'by']);
+
+// Links may point inside the file or to embedded images, nowhere else. Animations may not set
+// anything to a URL with a scheme, so they can't turn an href into javascript:. Values arrive
+// with entities decoded; browsers also ignore whitespace and control characters in a scheme.
+function isSafeSvgValue(name: string, value: string): boolean {
+  const target = value.replace(/[\s\u0000-\u001f]/g, '');
+  if (LINK_ATTRIBUTES.has(name)) return target.startsWith('#') || /^data:image\/(png|jpe?g|gif|webp);/i.test(target);
+  if (ANIMATION_VALUE_ATTRIBUTES.has(name)) return target.split(';').every(item => !/^[a-z][a-z\d+.-]*:/i.test(item));
+  return true;
+}
+
+// Stylesheets may not load anything. CSS escapes could spell out url( or @import, so styles
+// with any are dropped.
+function sanitizeSvgCss(css: string): string {
+  if (css.includes('\\')) return '';
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, 'none');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Rebuilds the SVG from the elements and attributes it may keep, so nothing the parser and a
+// browser might read differently makes it through. SVGs with a DOCTYPE are refused outright,
+// since entities can expand without limit. Null when it isn't well-formed or isn't an SVG.
+export function sanitizeSvg(svg: string): string | null {
+  if (/<!DOCTYPE|<!ENTITY/i.test(svg)) return null;
+
+  const parser = new SaxesParser({ xmlns: true });
+  const open: string[] = [];
+  let output = '';
+  let skipped = 0; // Depth inside an element being left out
+  let isRoot = true;
+
+  parser.on('opentag', tag => {
+    const known = !tag.prefix && (tag.uri === SVG_NAMESPACE || tag.uri === '') && SVG_ELEMENTS.has(tag.local);
+    if (isRoot && (!known || tag.local !== 'svg')) throw new Error('Not an SVG');
+    if (skipped || !known) {
+      skipped++;
+      return;
+    }
+
+    let attributes = isRoot ? ` xmlns="${SVG_NAMESPACE}" xmlns:xlink="${XLINK_NAMESPACE}"` : '';
+    for (const attribute of Object.values(tag.attributes)) {
+      const name = !attribute.prefix ? attribute.local
+        : attribute.uri === XLINK_NAMESPACE && attribute.local === 'href' ? 'xlink:href'
+        : null;
+      if (!name || !SVG_ATTRIBUTES.has(name) || !isSafeSvgValue(name, attribute.value)) continue;
+      const value = LINK_ATTRIBUTES.has(name) ? attribute.value : sanitizeSvgCss(attribute.value);
+      attributes += ` ${name}="${escapeXml(value)}"`;
+    }
+    isRoot = false;
+
+    if (tag.isSelfClosing) {
+      output += `<${tag.local}${attributes}/>`;
+    } else {
+      output += `<${tag.local}${attributes}>`;
+      open.push(tag.local);
+    }
+  });
+
+  parser.on('closetag', tag => {
+    if (skipped) {
+      skipped--;
+    } else if (!tag.isSelfClosing) {
+      output += `</${open.pop()}>`;
+    }
+  });
+
+  const addText = (text: string) => {
+    if (skipped || !open.length) return;
+    output += escapeXml(open[open.length - 1] === 'style' ? sanitizeSvgCss(text) : text);
+  };
+  parser.on('text', addText);
+  parser.on('cdata', addText);
+
+  try {
+    parser.write(svg).close();
+  } catch {
+    return null;
+  }
+  return isRoot ? null : output;
+}
+
+export interface ProcessedVariant {
+  name: BrandAssetVariantName;
+  body: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedBrandAsset {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+  width: number | null;
+  height: number | null;
+  variants: ProcessedVariant[];
+  font: FontMetadata | null;
+}
+
+// Checks an upload and makes its variants. error is the reason a file was refused, for the client.
+export async function processBrandAsset(upload: { fileName: string; body: Buffer; accept?: string }): Promise<{ error: string } | { asset: ProcessedBrandAsset }> {
+  if (upload.body.length === 0) return { error: "The file is empty" };
+  if (upload.body.length > MAX_BRAND_ASSET_BYTES) return { error: `Files can be up to ${MAX_BRAND_ASSET_BYTES / 1024 / 1024} MB` };
+
+  const fileType = detectFileType(upload.body);
+  if (!fileType) return { error: "Upload an image (PNG, JPG, GIF, WebP or SVG), a PDF, a Word document or a font" };
+  if (!isAcceptedFile(upload.accept, fileType)) return { error: "This field doesn't take that type of file" };
+
+  let body = upload.body;
+  if (fileType.contentType === 'image/svg+xml') {
+    const clean = sanitizeSvg(body.toString('utf8'));
+    if (!clean) return { error: "This SVG can't be used. Try exporting it again, or upload a PNG." };
+    body = Buffer.from(clean, 'utf8');
+  }
+
+  const asset: ProcessedBrandAsset = {
+    body,
+    contentType: fileType.contentType,
+    extension: fileType.extensions[0],
+    width: null,
+    height: null,
+    variants: [],
+    font: null,
+  };
+  if (fileType.font) {
+    asset.font = parseFontMetadata(body);
+    return asset.font ? { asset } : { error: "This font couldn't be read. It may be damaged." };
+  }
+  if (!fileType.image) return { asset };
+
+  try {
+    // Sizes as the image is shown: photos turned on their side by EXIF orientation swap them
+    const metadata = await sharp(body).metadata();
+    const turned = (metadata.orientation ?? 1) >= 5;
+    asset.width = (turned ? metadata.height : metadata.width) ?? null;
+    asset.height = (turned ? metadata.width : metadata.height) ?? null;
+
+    // SVGs are drawn at whatever density makes them big enough for the web copy
+    const longestSide = Math.max(asset.width ?? 1, asset.height ?? 1);
+    const density = fileType.contentType === 'image/svg+xml' ? Math.min(2400, Math.max(72, 72 * variantSizes.web / longestSide)) : undefined;
+
+    for (const [name, size] of Object.entries(variantSizes) as [BrandAssetVariantName, number][]) {
+      const variant = await sharp(body, { density })
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: name === 'thumbnail' ? 75 : 85 })
+        .toBuffer({ resolveWithObject: true });
+      asset.variants.push({ name, body: variant.data, contentType: 'image/webp', width: variant.info.width, height: variant.info.height });
+    }
+  } catch {
+    return { error: "This image couldn't be read. It may be damaged." };
+  }
+  return { asset };
+}
+
+// Puts a checked upload and its variants in the store and records it against the form.
+// Files already stored are removed again if recording fails.
+export async function saveBrandAsset(
+  storage: IStorage,
+  store: AssetStore,
+  upload: { formId: string; field: string; fileName: string; asset: ProcessedBrandAsset; auth: AuthContext | undefined },
+): Promise<BrandAsset> {
+  const { formId, field, fileName, asset, auth } = upload;
+  const folder = `forms/${formId}/${crypto.randomUUID()}`;
+  const originalKey = `${folder}/original${asset.extension}`;
+  const keys: string[] = [];
+
+  try {
+    await store.put(originalKey, asset.body, asset.contentType);
+    keys.push(originalKey);
+
+    const variants: BrandAssetVariants = {};
+    for (const variant of asset.variants) {
+      const key = `${folder}/${variant.name}.webp`;
+      await store.put(key, variant.body, variant.contentType);
+      keys.push(key);
+      variants[variant.name] = { key, content_type: variant.contentType, width: variant.width, height: variant.height, size_bytes: variant.body.length };
+    }
+
+    return await storage.createBrandAsset({
+      form_id: formId,
+      field,
+      file_name: fileName,
+      content_type: asset.contentType,
+      size_bytes: asset.body.length,
+      width: asset.width,
+      height: asset.height,
+      storage_key: originalKey,
+      variants,
+      font: asset.font,
+      uploaded_by: auth?.kind === 'user' ? auth.userId : null,
+      uploaded_by_token: auth?.kind === 'form' ? auth.tokenId : null,
+    });
+  } catch (error) {
+    await store.delete(keys).catch(cleanupError => console.error('Error removing brand asset files:', cleanupError));
+    throw error;
+  }
+}
+
+// Every file stored for an asset
+export function getBrandAssetKeys(asset: BrandAsset): string[] {
+  return [asset.storage_key, ...Object.values(asset.variants).flatMap(variant => variant ? [variant.key] : [])];
+}
+
+// The main colours of an image, for suggesting a palette from a logo. A small copy is plenty.
+export async function getImagePalette(body: Buffer, count = 3): Promise<string[]> {
+  const pixels = await sharp(body).ensureAlpha().resize(64, 64, { fit: 'inside', withoutEnlargement: true }).raw().toBuffer();
+  return extractPalette(pixels, count);
+}
@@ -0,0 +1,300 @@
+import path from 'path';
+import { fileAnswerSchema, type BrandAsset, type CatalogueFont, type FontMetadata } from "@shared/schema";
+import { findCatalogueFont, getFontStack, getGoogleFontsUrl, normalizeFontName } from "@shared/fonts";
+import { generateShadeRamp, getReadableTextColor, shadeSteps, type ShadeRamp } from "@shared/colors";
+import { type AssetStore } from "./assetStore";
+import { createZip, type ZipEntry } from "./zip";
+
+// Everything a designer needs from a completed form in one download: the logo, uploaded
+// fonts, design tokens for code and design tools, and a one-page brand sheet. Colours and
+// fonts come from the Brand Assets and Typography questions of the default template.
+
+export const brandColorFields = {
+  primary: 'mainColor',
+  secondary: 'secondaryColor',
+  accent: 'highlightColor',
+} as const;
+
+export const brandFontFields = {
+  title: 'titleFont',
+  subtitle: 'subtitleFont',
+  body: 'bodyFont',
+} as const;
+
+export type BrandColorRole = keyof typeof brandColorFields;
+export type BrandFontRole = keyof typeof brandFontFields;
+
+export const LOGO_FIELD = 'brandAssets.logo';
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export interface BrandFontToken {
+  family: string;
+  stack: string; // CSS font-family value, with a fallback
+  weights: number[];
+  source: 'catalogue' | 'uploaded' | 'other'; // 'other' was typed in and has no files
+}
+
+export interface BrandTokens {
+  name: string;
+  colors: Partial<Record<BrandColorRole, string>>;
+  shades: Partial<Record<BrandColorRole, ShadeRamp>>; // 50-900 tints and shades of each colour
+  fonts: Partial<Record<BrandFontRole, BrandFontToken>>;
+}
+
+type FormData = Record<string, Record<string, unknown> | undefined>;
+
+function answer(data: FormData, section: string, field: string): unknown {
+  return data[section]?.[field];
+}
+
+// Font answers are family names. Catalogue names are tidied ("opensans" becomes "Open Sans");
+// uploaded fonts are matched by the family read from their files.
+function fontToken(value: unknown, catalogue: CatalogueFont[], uploaded: FontMetadata[]): BrandFontToken | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const files = uploaded.filter(font => normalizeFontName(font.family) === normalizeFontName(value));
+  if (files.length > 0) {
+    const family = files[0].family;
+    return { family, stack: getFontStack(family), weights: Array.from(new Set(files.map(font => font.weight))).sort((a, b) => a - b), source: 'uploaded' };
+  }
+  const font = findCatalogueFont(catalogue, value);
+  if (font) {
+    return { family: font.family, stack: getFontStack(font.family, font.category), weights: [...font.weights].sort((a, b) => a - b), source: 'catalogue' };
+  }
+  const family = value.trim();
+  return { family, stack: getFontStack(family), weights: [400, 700], source: 'other' };
+}
+
+export function buildBrandTokens(
+  form: { client_name?: string | null; data: unknown },
+  catalogue: CatalogueFont[],
+  uploaded: FontMetadata[],
+): BrandTokens {
+  const data = (form.data ?? {}) as FormData;
+  const brandName = answer(data, 'brandAssets', 'brandName');
+  const businessName = answer(data, 'businessDetails', 'name');
+  // On one line, since it goes into comments in the token files
+  const name = [brandName, businessName, form.client_name]
+    .find((value): value is string => typeof value === 'string' && !!value.trim())
+    ?.replace(/\s+/g, ' ').trim() ?? 'Brand';
+
+  const tokens: BrandTokens = { name, colors: {}, shades: {}, fonts: {} };
+  for (const [role, field] of Object.entries(brandColorFields) as [BrandColorRole, string][]) {
+    const value = answer(data, 'brandAssets', field);
+    if (typeof value === 'string' && COLOR_PATTERN.test(value)) {
+      tokens.colors[role] = value.toUpperCase();
+      tokens.shades[role] = generateShadeRamp(value)!;
+    }
+  }
+  for (const [role, field] of Object.entries(brandFontFields) as [BrandFontRole, string][]) {
+    const token = fontToken(answer(data, 'typography', field), catalogue, uploaded);
+    if (token) tokens.fonts[role] = token;
+  }
+  return tokens;
+}
+
+// The font-family value as a list, the way JSON tokens and Tailwind take it
+function fontList(token: BrandFontToken): string[] {
+  return token.stack.split(', ').map(part => part.replace(/^"|"$/g, ''));
+}
+
+// W3C design tokens, which Figma plugins and Style Dictionary read
+export function renderDesignTokens(tokens: BrandTokens): string {
+  const color = Object.fromEntries(Object.entries(tokens.colors).map(([role, value]) => [role, { $type: 'color', $value: value }]));
+  const shade = Object.fromEntries(Object.entries(tokens.shades).map(([role, ramp]) => [
+    role,
+    Object.fromEntries(shadeSteps.map(step => [step, { $type: 'color', $value: ramp![step] }])),
+  ]));
+  const font = Object.fromEntries(Object.entries(tokens.fonts).map(([role, token]) => [role, {
+    family: { $type: 'fontFamily', $value: fontList(token) },
+    weights: { $type: 'fontWeight', $value: token.weights },
+  }]));
+  return `${JSON.stringify({ $description: `${tokens.name} brand tokens`, color, shade, font }, null, 2)}\n`;
+}
+
+interface FontFile {
+  path: string; // Inside the kit
+  font: FontMetadata;
+}
+
+const fontFormats: Record<string, string> = { '.woff2': 'woff2', '.woff': 'woff', '.otf': 'opentype', '.ttf': 'truetype' };
+
+function fontFaces(files: FontFile[], relativeTo: string): string[] {
+  return files.map(file => [
+    '@font-face {',
+    `  font-family: ${JSON.stringify(file.font.family.replace(/[<>]/g, ''))};`,
+    `  src: url(${JSON.stringify(relativeTo + file.path)}) format("${fontFormats[path.extname(file.path).toLowerCase()] ?? 'truetype'}");`,
+    `  font-weight: ${file.font.weight};`,
+    `  font-style: ${file.font.style};`,
+    '}',
+  ].join('\n'));
+}
+
+function catalogueImports(tokens: BrandTokens): string[] {
+  const urls = Object.values(tokens.fonts).flatMap(token => token && token.source === 'catalogue' ? [getGoogleFontsUrl(token)] : []);
+  return Array.from(new Set(urls));
+}
+
+export function renderCssVariables(tokens: BrandTokens, fontFiles: FontFile[] = []): string {
+  const lines = [
+    `/* ${tokens.name.replace(/\*\//g, '')} brand tokens */`,
+    ...catalogueImports(tokens).map(url => `@import url("${url}");`),
+    ...fontFaces(fontFiles, '../'),
+    ':root {',
+    ...Object.entries(tokens.colors).map(([role, value]) => `  --color-${role}: ${value};`),
+    ...Object.entries(tokens.shades).flatMap(([role, ramp]) => shadeSteps.map(step => `  --color-${role}-${step}: ${ramp![step]};`)),
+    ...Object.entries(tokens.fonts).map(([role, token]) => `  --font-${role}: ${token!.stack};`),
+    '}',
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+// Goes under theme.extend, so Tailwind's own colours and fonts stay available. bg-brand-primary
+// is the colour itself and bg-brand-primary-50 to -900 its tints and shades.
+export function renderTailwindTheme(tokens: BrandTokens): string {
+  const theme = {
+    colors: {
+      brand: Object.fromEntries(Object.entries(tokens.colors).map(([role, value]) => [role, { DEFAULT: value, ...tokens.shades[role as BrandColorRole] }])),
+    },
+    fontFamily: Object.fromEntries(Object.entries(tokens.fonts).map(([role, token]) => [role, fontList(token!)])),
+  };
+  return [
+    `// ${tokens.name} brand theme. In tailwind.config.js:`,
+    `//   theme: { extend: require('./tailwind.theme.js') }`,
+    `module.exports = ${JSON.stringify(theme, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const colorLabels: Record<BrandColorRole, string> = { primary: 'Primary', secondary: 'Secondary', accent: 'Accent' };
+const fontLabels: Record<BrandFontRole, string> = { title: 'Titles', subtitle: 'Subtitles', body: 'Body text' };
+
+// One page that opens from the unzipped kit: fonts load from fonts/ and Google Fonts
+export function renderBrandSheet(tokens: BrandTokens, options: { logo?: { dataUri: string; fileName: string }; fontFiles?: FontFile[] } = {}): string {
+  const colors = Object.entries(tokens.colors).map(([role, value]) => `
+    <div class="color">
+      <div class="swatch" style="background:${value};color:${getReadableTextColor(value!)}">
+        <strong>${colorLabels[role as BrandColorRole]}</strong>
+        <span>${value}</span>
+      </div>
+      <div class="ramp">${shadeSteps.map(step => {
+        const shade = tokens.shades[role as BrandColorRole]![step];
+        return `<span style="background:${shade};color:${getReadableTextColor(shade)}" title="${shade}">${step}</span>`;
+      }).join('')}</div>
+    </div>`).join('');
+  const fonts = Object.entries(tokens.fonts).map(([role, token]) => `
+    <div class="font">
+      <p class="label">${fontLabels[role as BrandFontRole]} &middot; ${escapeHtml(token!.family)}${token!.source === 'other' ? ' (not included)' : ''}</p>
+      <p class="sample" style="font-family:${escapeHtml(token!.stack)}">The quick brown fox jumps over the lazy dog</p>
+      <p class="weights">Weights: ${token!.weights.join(', ')}</p>
+    </div>`).join('');
+  // Inside <style> nothing is escaped, so nothing that could close the element may get in
+  const heading = (tokens.fonts.title?.stack ?? 'system-ui, sans-serif').replace(/[<>]/g, '');
+  const body = (tokens.fonts.body?.stack ?? 'system-ui, sans-serif').replace(/[<>]/g, '');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(tokens.name)} brand sheet</title>
+${catalogueImports(tokens).map(url => `<link rel="stylesheet" href="${escapeHtml(url)}">`).join('\n')}
+<style>
+${fontFaces(options.fontFiles ?? [], '').join('\n')}
+body { margin: 0; padding: 48px; font-family: ${body}; color: #111827; background: #ffffff; }
+main { max-width: 880px; margin: 0 auto; }
+h1, h2 { font-family: ${heading}; }
+h1 { font-size: 40px; margin: 0 0 32px; }
+h2 { font-size: 20px; margin: 40px 0 16px; color: ${tokens.colors.primary ?? '#111827'}; }
+.logo { max-width: 320px; max-height: 160px; }
+.swatches { display: flex; gap: 16px; flex-wrap: wrap; }
+.color { width: 260px; }
+.swatch { height: 120px; border-radius: 12px 12px 0 0; padding: 16px; box-sizing: border-box; display: flex; flex-direction: column; justify-content: flex-end; border: 1px solid #e5e7eb; }
+.ramp { display: flex; border-radius: 0 0 12px 12px; overflow: hidden; }
+.ramp span { flex: 1; padding: 8px 0; text-align: center; font-size: 10px; font-family: system-ui, sans-serif; }
+.font { border-bottom: 1px solid #e5e7eb; padding: 16px 0; }
+.label, .weights { margin: 0; font-size: 13px; color: #6b7280; font-family: system-ui, sans-serif; }
+.sample { margin: 8px 0; font-size: 28px; }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(tokens.name)}</h1>
+${options.logo ? `<h2>Logo</h2>\n<img class="logo" src="${options.logo.dataUri}" alt="${escapeHtml(tokens.name)} logo">\n<p class="label">${escapeHtml(options.logo.fileName)}</p>` : ''}
+${colors ? `<h2>Colours</h2>\n<div class="swatches">${colors}\n</div>` : ''}
+${fonts ? `<h2>Typography</h2>${fonts}` : ''}
+</main>
+</body>
+</html>
+`;
+}
+
+// Names inside the kit are the client's file names, made safe and unique
+function uniqueName(folder: string, fileName: string, used: Set<string>): string {
+  const safe = path.basename(fileName).replace(/[^\w.\- ]+/g, '_').replace(/^\.+/, '') || 'file';
+  const extension = path.extname(safe);
+  const stem = safe.slice(0, safe.length - extension.length);
+  let name = `${folder}/${safe}`;
+  for (let copy = 2; used.has(name.toLowerCase()); copy++) name = `${folder}/${stem}-${copy}${extension}`;
+  used.add(name.toLowerCase());
+  return name;
+}
+
+// Builds the ZIP. Files missing from the store are left out rather than failing the download.
+export async function buildBrandKit(
+  store: AssetStore,
+  form: { client_name?: string | null; data: unknown },
+  assets: BrandAsset[],
+  catalogue: CatalogueFont[],
+): Promise<{ tokens: BrandTokens; zip: Buffer }> {
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const data = (form.data ?? {}) as FormData;
+
+  // Only the files of fonts the client picked, not everything they tried out
+  const picked = new Set(Object.values(brandFontFields).flatMap(field => {
+    const value = answer(data, 'typography', field);
+    return typeof value === 'string' ? [normalizeFontName(value)] : [];
+  }));
+  const fontFiles: FontFile[] = [];
+  for (const asset of assets) {
+    if (!asset.font || !picked.has(normalizeFontName(asset.font.family))) continue;
+    const body = await store.get(asset.storage_key);
+    if (!body) continue;
+    const file = { path: uniqueName('fonts', asset.file_name, used), font: asset.font };
+    entries.push({ name: file.path, body });
+    fontFiles.push(file);
+  }
+  const tokens = buildBrandTokens(form, catalogue, fontFiles.map(file => file.font));
+
+  const [section, field] = LOGO_FIELD.split('.');
+  const logoAnswer = fileAnswerSchema.safeParse(answer(data, section, field));
+  const logoAsset = logoAnswer.success ? assets.find(asset => asset.id === logoAnswer.data.assetId) : undefined;
+  let logo: { dataUri: string; fileName: string } | undefined;
+  if (logoAsset) {
+    const original = await store.get(logoAsset.storage_key);
+    if (original) entries.push({ name: uniqueName('logos', logoAsset.file_name, used), body: original });
+    const web = logoAsset.variants.web;
+    const webBody = web ? await store.get(web.key) : null;
+    if (web && webBody) {
+      const stem = path.basename(logoAsset.file_name, path.extname(logoAsset.file_name));
+      entries.push({ name: uniqueName('logos', `${stem}-web.webp`, used), body: webBody });
+      logo = { dataUri: `data:${web.content_type};base64,${webBody.toString('base64')}`, fileName: logoAsset.file_name };
+    }
+  }
+
+  entries.push(
+    { name: 'tokens/tokens.json', body: Buffer.from(renderDesignTokens(tokens)) },
+    { name: 'tokens/tokens.css', body: Buffer.from(renderCssVariables(tokens, fontFiles)) },
+    { name: 'tokens/tailwind.theme.js', body: Buffer.from(renderTailwindTheme(tokens)) },
+    { name: 'brand-sheet.html', body: Buffer.from(renderBrandSheet(tokens, { logo, fontFiles })) },
+  );
+  return { tokens, zip: createZip(entries) };
+}
@@ -0,0 +1,113 @@
+import { type DigestPeriod, type DigestReport, type StalledForm } from "@shared/schema";
+import { type DigestForm, type IStorage, type WebhookFailureCounts } from "./types";
+
+export interface DigestRange {
+  start: Date;
+  end: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The report lists this many stalled forms; the total is reported separately
+const MAX_STALLED_FORMS = 20;
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Monday 00:00 UTC of the week containing the date
+function startOfUtcWeek(date: Date): Date {
+  const day = startOfUtcDay(date);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+}
+
+// The most recent period that has fully ended: yesterday, or last Monday to Sunday (UTC)
+export function getLatestDigestRange(period: DigestPeriod, now: Date = new Date()): DigestRange {
+  const end = period === 'daily' ? startOfUtcDay(now) : startOfUtcWeek(now);
+  return { start: new Date(end.getTime() - (period === 'daily' ? DAY_MS : 7 * DAY_MS)), end };
+}
+
+// The period still in progress, up to now. Used for previews.
+export function getCurrentDigestRange(period: DigestPeriod, now: Date = new Date()): DigestRange {
+  return { start: period === 'daily' ? startOfUtcDay(now) : startOfUtcWeek(now), end: now };
+}
+
+function inRange(value: string | null, range: DigestRange): boolean {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return time >= range.start.getTime() && time < range.end.getTime();
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Forms are stalled when they're incomplete, still open and nothing has changed on them
+// for stalledAfterDays by the end of the period
+export function summarizeDigest(
+  period: DigestPeriod,
+  range: DigestRange,
+  forms: DigestForm[],
+  webhookFailures: WebhookFailureCounts,
+  stalledAfterDays: number
+): DigestReport {
+  const stalledBefore = range.end.getTime() - stalledAfterDays * DAY_MS;
+  const completionHours: number[] = [];
+  const stalled: StalledForm[] = [];
+  let formsCreated = 0;
+  let formsStarted = 0;
+  let formsCompleted = 0;
+
+  for (const form of forms) {
+    if (inRange(form.created_at, range)) formsCreated++;
+    if (inRange(form.started_at, range)) formsStarted++;
+    if (inRange(form.completed_at, range)) {
+      formsCompleted++;
+      completionHours.push((new Date(form.completed_at!).getTime() - new Date(form.created_at).getTime()) / HOUR_MS);
+    }
+
+    const lastActivityAt = form.updated_at || form.created_at;
+    const lastActivity = new Date(lastActivityAt).getTime();
+    if (form.status !== 'completed' && !form.is_disabled && lastActivity <= stalledBefore) {
+      stalled.push({
+        id: form.id,
+        client_name: form.client_name,
+        client_email: form.client_email,
+        slug: form.slug,
+        progress: form.progress ?? 0,
+        lastActivityAt: new Date(lastActivity).toISOString(),
+        daysInactive: Math.floor((range.end.getTime() - lastActivity) / DAY_MS),
+      });
+    }
+  }
+
+  stalled.sort((a, b) => b.daysInactive - a.daysInactive);
+  const medianHours = median(completionHours);
+
+  return {
+    period,
+    periodStart: range.start.toISOString(),
+    periodEnd: range.end.toISOString(),
+    formsCreated,
+    formsStarted,
+    formsCompleted,
+    medianCompletionHours: medianHours === null ? null : Math.round(medianHours * 10) / 10,
+    stalledAfterDays,
+    stalledForms: stalled.slice(0, MAX_STALLED_FORMS),
+    stalledTotal: stalled.length,
+    webhookFailures,
+  };
+}
+
+export async function buildDigestReport(storage: IStorage, period: DigestPeriod, range: DigestRange, stalledAfterDays: number): Promise<DigestReport> {
+  const [forms, webhookFailures] = await Promise.all([
+    storage.getDigestForms(range.start, range.end),
+    storage.countWebhookFailures(range.start, range.end),
+  ]);
+  return summarizeDigest(period, range, forms, webhookFailures, stalledAfterDays);
+}
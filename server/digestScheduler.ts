@@ -0,0 +1,106 @@
+import { hasPermission } from "@shared/permissions";
+import { digestPeriods, type DigestPeriod } from "@shared/schema";
+import { type IStorage } from "./types";
+import { buildDigestReport, getLatestDigestRange } from "./digest";
+import { mailer } from "./mailer";
+
+export interface DigestSchedulerConfig {
+  pollIntervalMs: number;
+  // Incomplete forms with no activity for this many days are listed as stalled
+  stalledAfterDays: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getDigestSchedulerConfig(): DigestSchedulerConfig {
+  return {
+    pollIntervalMs: readNumberEnv('DIGEST_POLL_INTERVAL_MS', 60 * 60 * 1000),
+    stalledAfterDays: readNumberEnv('DIGEST_STALLED_AFTER_DAYS', 7),
+  };
+}
+
+export interface DigestRunOptions {
+  baseUrl: string;
+  now?: Date;
+  config?: DigestSchedulerConfig;
+}
+
+export interface DigestRunResult {
+  period: DigestPeriod;
+  reportId: string;
+  emailed: number;
+}
+
+// Staff who can see reports and chose this period in their notification preferences
+async function getDigestRecipients(storage: IStorage, period: DigestPeriod) {
+  const members = (await storage.getTeamMembers()).filter(member =>
+    !member.deactivated_at && member.email && hasPermission(member.role, 'notifications:read') && hasPermission(member.role, 'forms:read')
+  );
+  if (members.length === 0) return [];
+
+  const preferences = await storage.getNotificationPreferencesFor(members.map(member => member.user_id));
+  return members.filter(member => preferences.get(member.user_id)?.digest === period);
+}
+
+// Saves the report for each period that has ended since the last run and emails it to subscribers.
+// A period is only reported once: whoever saves the report first sends the emails, so restarts
+// and several server instances don't send duplicates.
+export async function processDueDigests(storage: IStorage, options: DigestRunOptions): Promise<DigestRunResult[]> {
+  const { baseUrl, now = new Date(), config = getDigestSchedulerConfig() } = options;
+  const results: DigestRunResult[] = [];
+
+  for (const period of digestPeriods) {
+    const range = getLatestDigestRange(period, now);
+    if (await storage.getDigestReportFor(period, range.start)) continue;
+
+    const report = await buildDigestReport(storage, period, range, config.stalledAfterDays);
+    const saved = await storage.createDigestReport({ period, period_start: range.start, period_end: range.end, report });
+    if (!saved) continue;
+
+    const reportUrl = `${baseUrl.replace(/\/$/, '')}/admin/reports/${saved.id}`;
+    const recipients = await getDigestRecipients(storage, period);
+    const emails = await Promise.all(recipients.map(member => mailer.send({
+      to: member.email!,
+      template: 'digest',
+      data: { report, reportUrl },
+    })));
+
+    results.push({ period, reportId: saved.id, emailed: emails.filter(email => email.status === 'sent').length });
+  }
+
+  return results;
+}
+
+// Report links point at SITE_URL; without it the emails would have nowhere to send people
+export function startDigestScheduler(storage: IStorage, config: DigestSchedulerConfig = getDigestSchedulerConfig()): () => void {
+  const baseUrl = process.env.SITE_URL;
+  if (!baseUrl) {
+    console.warn('SITE_URL is not set; digest reports are off');
+    return () => {};
+  }
+
+  let running = false;
+
+  const run = async () => {
+    // Skip this tick if the previous run is still sending
+    if (running) return;
+    running = true;
+    try {
+      await processDueDigests(storage, { baseUrl, config });
+    } catch (error) {
+      console.error('Digest scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, config.pollIntervalMs);
+
+  // Don't keep the process alive just for digests
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
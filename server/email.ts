@@ -0,0 +1,150 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import nodemailer from 'nodemailer';
+
+// Outbound email goes through a transport chosen with EMAIL_TRANSPORT:
+//
+//   smtp    - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+//   api     - a provider's HTTP API (EMAIL_API_KEY, EMAIL_API_URL; Resend's format by default)
+//   file    - writes each message to EMAIL_CAPTURE_DIR (default .emails) for local development
+//   memory  - keeps messages in memory, for tests
+//
+// Without EMAIL_TRANSPORT, development uses file, tests use memory, and production uses
+// smtp or api if they are configured and memory (nothing leaves the server) otherwise.
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: string;
+  // Resolves with the provider's message id once the message is accepted, throws otherwise
+  send(message: EmailMessage): Promise<{ messageId: string | null }>;
+}
+
+export interface CaptureTransport extends EmailTransport {
+  sent: EmailMessage[];
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+export interface ApiTransportOptions {
+  apiKey: string;
+  url: string;
+}
+
+export const DEFAULT_EMAIL_API_URL = 'https://api.resend.com/emails';
+
+export function createApiTransport(options: ApiTransportOptions): EmailTransport {
+  return {
+    name: 'api',
+    async send(message) {
+      // Resend takes attachments as base64
+      const { attachments, ...body } = message;
+      const payload = attachments?.length
+        ? { ...body, attachments: attachments.map(file => ({ filename: file.filename, content: file.content.toString('base64'), content_type: file.contentType })) }
+        : body;
+      const response = await axios.post(options.url, payload, {
+        headers: { Authorization: `Bearer ${options.apiKey}`, 'Content-Type': 'application/json' },
+        timeout: 10000,
+      });
+      return { messageId: response.data?.id ?? null };
+    },
+  };
+}
+
+// Keeps every message in `sent`; with a directory, also writes it there as JSON and HTML, with
+// any attachments beside them
+export function createCaptureTransport(options: { directory?: string } = {}): CaptureTransport {
+  const sent: EmailMessage[] = [];
+  let count = 0;
+
+  return {
+    name: options.directory ? 'file' : 'memory',
+    sent,
+    async send(message) {
+      sent.push(message);
+      const messageId = `${Date.now()}-${++count}`;
+      if (options.directory) {
+        await fs.mkdir(options.directory, { recursive: true });
+        const base = path.join(options.directory, messageId);
+        const { attachments = [], ...rest } = message;
+        const files = attachments.map(file => ({ filename: file.filename, contentType: file.contentType, size: file.content.length }));
+        await fs.writeFile(`${base}.json`, JSON.stringify(files.length ? { ...rest, attachments: files } : rest, null, 2));
+        await fs.writeFile(`${base}.html`, message.html);
+        for (const file of attachments) {
+          await fs.writeFile(`${base}-${path.basename(file.filename)}`, file.content);
+        }
+      }
+      return { messageId };
+    },
+  };
+}
+
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = env.EMAIL_TRANSPORT
+    || (env.NODE_ENV === 'test' ? 'memory'
+      : env.NODE_ENV === 'development' ? 'file'
+      : env.SMTP_HOST ? 'smtp'
+      : env.EMAIL_API_KEY ? 'api'
+      : 'memory');
+
+  switch (kind) {
+    case 'smtp':
+      if (!env.SMTP_HOST) throw new Error('SMTP_HOST is not configured');
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'api':
+      if (!env.EMAIL_API_KEY) throw new Error('EMAIL_API_KEY is not configured');
+      return createApiTransport({ apiKey: env.EMAIL_API_KEY, url: env.EMAIL_API_URL || DEFAULT_EMAIL_API_URL });
+    case 'file':
+      return createCaptureTransport({ directory: env.EMAIL_CAPTURE_DIR || '.emails' });
+    case 'memory':
+      if (env.NODE_ENV === 'production') {
+        console.warn('No email transport configured; emails are logged but not sent');
+      }
+      return createCaptureTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}", expected smtp, api, file or memory`);
+  }
+}
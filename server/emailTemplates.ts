@@ -0,0 +1,184 @@
+import type { DigestReport, EmailTemplateName } from '@shared/schema';
+import { digestPeriodLabels, formatDigestRange, formatDuration } from '@shared/digest';
+
+// Every email has a plain text and an HTML version. The HTML uses inline styles and a
+// single table layout so it renders the same in most mail clients.
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface ClientReminderData {
+  clientName: string;
+  formUrl: string;
+  progress: number;
+  message?: string | null; // Custom text from the reminder settings, added to the usual text
+}
+
+export interface InvitationData {
+  role: string;
+  inviteUrl: string;
+  invitedBy: string | null;
+  expiresAt: Date;
+}
+
+export interface CompletionReceiptData {
+  clientName: string;
+  summaryAttached?: boolean; // A PDF of their answers comes with the email
+}
+
+export interface TeamAlertData {
+  title: string;
+  message: string;
+  actionUrl?: string;
+  actionLabel?: string;
+}
+
+export interface DigestData {
+  report: DigestReport;
+  reportUrl: string;
+}
+
+export interface EmailTemplateData {
+  clientReminder: ClientReminderData;
+  invitation: InvitationData;
+  completionReceipt: CompletionReceiptData;
+  teamAlert: TeamAlertData;
+  digest: DigestData;
+}
+
+const BRAND_NAME = 'Sixty Seconds';
+
+// How many stalled forms the digest email names before pointing at the full report
+const DIGEST_STALLED_FORMS_SHOWN = 5;
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function digestParagraphs(report: DigestReport): string[] {
+  const paragraphs = [
+    `${plural(report.formsCreated, 'form')} created, ${report.formsStarted} started and ${report.formsCompleted} completed.`,
+    report.medianCompletionHours === null
+      ? 'No forms were completed in this period.'
+      : `Median time to complete: ${formatDuration(report.medianCompletionHours)}.`,
+  ];
+
+  if (report.stalledTotal > 0) {
+    const named = report.stalledForms
+      .slice(0, DIGEST_STALLED_FORMS_SHOWN)
+      .map(form => `${form.client_name} (${form.progress}%, ${plural(form.daysInactive, 'day')})`);
+    const more = report.stalledTotal - named.length;
+    paragraphs.push(
+      `${plural(report.stalledTotal, 'form has', 'forms have')} had no activity for ${report.stalledAfterDays}+ days: ${named.join(', ')}${more > 0 ? ` and ${more} more` : ''}.`
+    );
+  } else {
+    paragraphs.push('No stalled forms.');
+  }
+
+  const { failed, dead } = report.webhookFailures;
+  paragraphs.push(failed + dead > 0
+    ? `Webhook deliveries: ${failed} failing and being retried, ${dead} gave up.`
+    : 'No webhook delivery failures.');
+  return paragraphs;
+}
+const BRAND_COLOR = '#10b981';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Paragraphs are plain text and escaped here; the button is optional
+function layout(heading: string, paragraphs: string[], action?: { url: string; label: string }): string {
+  const body = paragraphs
+    .map(p => `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:#374151;">${escapeHtml(p)}</p>`)
+    .join('');
+  const button = action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 24px;background:${BRAND_COLOR};color:#ffffff;text-decoration:none;border-radius:8px;font-weight:600;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:32px 16px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;padding:32px;">
+<tr><td>
+<p style="margin:0 0 24px;font-size:14px;font-weight:700;color:${BRAND_COLOR};">${BRAND_NAME}</p>
+<h1 style="margin:0 0 16px;font-size:22px;color:#111827;">${escapeHtml(heading)}</h1>
+${body}${button}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function textVersion(heading: string, paragraphs: string[], action?: { url: string; label: string }): string {
+  return [heading, ...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : []), `- ${BRAND_NAME}`].join('\n\n');
+}
+
+function render(subject: string, heading: string, paragraphs: string[], action?: { url: string; label: string }): RenderedEmail {
+  return { subject, text: textVersion(heading, paragraphs, action), html: layout(heading, paragraphs, action) };
+}
+
+export const emailTemplates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  clientReminder: ({ clientName, formUrl, progress, message }) => render(
+    `Reminder: finish your ${BRAND_NAME} onboarding`,
+    `Hi ${clientName},`,
+    [
+      progress > 0
+        ? `You're ${progress}% of the way through your onboarding form. Pick up where you left off whenever you're ready.`
+        : `Your onboarding form is ready and takes about 5 minutes to complete.`,
+      ...(message ? [message] : []),
+      'The sooner we have your details, the sooner we can get your campaign running.',
+    ],
+    { url: formUrl, label: progress > 0 ? 'Continue onboarding' : 'Start onboarding' }
+  ),
+
+  invitation: ({ role, inviteUrl, invitedBy, expiresAt }) => render(
+    `You're invited to join ${BRAND_NAME} onboarding`,
+    'Join the team',
+    [
+      `${invitedBy || 'An admin'} has invited you to the ${BRAND_NAME} onboarding admin as ${role === 'admin' ? 'an' : 'a'} ${role}.`,
+      `This invitation expires on ${expiresAt.toUTCString()}.`,
+    ],
+    { url: inviteUrl, label: 'Accept invitation' }
+  ),
+
+  completionReceipt: ({ clientName, summaryAttached }) => render(
+    `We've received your onboarding details`,
+    `Thanks, ${clientName}!`,
+    [
+      'Your onboarding form is complete and our team has everything it needs to get started.',
+      ...(summaryAttached ? ['A PDF summary of your answers is attached for your records.'] : []),
+      "We'll be in touch shortly with next steps. Just reply to this email if you'd like to change anything.",
+    ]
+  ),
+
+  teamAlert: ({ title, message, actionUrl, actionLabel }) => render(
+    `[${BRAND_NAME}] ${title}`,
+    title,
+    [message],
+    actionUrl ? { url: actionUrl, label: actionLabel || 'Open' } : undefined
+  ),
+
+  digest: ({ report, reportUrl }) => render(
+    `[${BRAND_NAME}] ${digestPeriodLabels[report.period]} report: ${plural(report.formsCompleted, 'form')} completed`,
+    `${digestPeriodLabels[report.period]} report for ${formatDigestRange(report)}`,
+    digestParagraphs(report),
+    { url: reportUrl, label: 'View full report' }
+  ),
+};
+
+export function renderEmail<T extends EmailTemplateName>(template: T, data: EmailTemplateData[T]): RenderedEmail {
+  return emailTemplates[template](data);
+}
@@ -0,0 +1,168 @@
+import zlib from 'zlib';
+import { type FontMetadata } from "@shared/schema";
+
+// Reads the family, weight and style out of an uploaded font, so it can be offered and
+// previewed under its real name. Handles TrueType and OpenType files and both WOFF wrappers;
+// only the name and OS/2 tables are read.
+
+type Tables = Map<string, Buffer>;
+
+function tag(body: Buffer, offset: number): string {
+  return body.toString('latin1', offset, offset + 4);
+}
+
+// Plain TrueType/OpenType: a directory of 16-byte records after a 12-byte header
+function readSfntTables(body: Buffer): Tables {
+  const tables: Tables = new Map();
+  const count = body.readUInt16BE(4);
+  for (let index = 0; index < count; index++) {
+    const record = 12 + index * 16;
+    const offset = body.readUInt32BE(record + 8);
+    const length = body.readUInt32BE(record + 12);
+    tables.set(tag(body, record), body.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+// WOFF: each table is zlib-compressed on its own, unless compressing didn't help
+function readWoffTables(body: Buffer): Tables {
+  const tables: Tables = new Map();
+  const count = body.readUInt16BE(12);
+  for (let index = 0; index < count; index++) {
+    const record = 44 + index * 20;
+    const offset = body.readUInt32BE(record + 4);
+    const compressedLength = body.readUInt32BE(record + 8);
+    const length = body.readUInt32BE(record + 12);
+    const data = body.subarray(offset, offset + compressedLength);
+    tables.set(tag(body, record), compressedLength < length ? zlib.inflateSync(data) : data);
+  }
+  return tables;
+}
+
+// The first tags of the WOFF2 known-table list; only their positions matter here
+const WOFF2_KNOWN_TAGS = ['cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca'];
+
+function readBase128(body: Buffer, cursor: { offset: number }): number {
+  let value = 0;
+  for (let index = 0; index < 5; index++) {
+    const byte = body[cursor.offset++];
+    if (byte === undefined || (index === 0 && byte === 0x80)) throw new Error('Bad WOFF2 number');
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return value;
+  }
+  throw new Error('Bad WOFF2 number');
+}
+
+// WOFF2: one Brotli stream holding every table back to back. glyf and loca are stored in a
+// transformed shape, but name and OS/2 never are, so their bytes can be used as they are.
+function readWoff2Tables(body: Buffer): Tables {
+  if (tag(body, 4) === 'ttcf') throw new Error('Font collections are not supported');
+  const count = body.readUInt16BE(12);
+  const compressedLength = body.readUInt32BE(20);
+
+  const cursor = { offset: 48 };
+  const entries: { tag: string; length: number }[] = [];
+  for (let index = 0; index < count; index++) {
+    const flags = body[cursor.offset++];
+    const known = flags & 0x3f;
+    let name: string;
+    if (known === 0x3f) {
+      name = tag(body, cursor.offset);
+      cursor.offset += 4;
+    } else {
+      name = WOFF2_KNOWN_TAGS[known] ?? `#${known}`;
+    }
+    const transform = flags >> 6;
+    const originalLength = readBase128(body, cursor);
+    const transformed = name === 'glyf' || name === 'loca' ? transform === 0 : transform !== 0;
+    entries.push({ tag: name, length: transformed ? readBase128(body, cursor) : originalLength });
+  }
+
+  const data = zlib.brotliDecompressSync(body.subarray(cursor.offset, cursor.offset + compressedLength));
+  const tables: Tables = new Map();
+  let offset = 0;
+  for (const entry of entries) {
+    tables.set(entry.tag, data.subarray(offset, offset + entry.length));
+    offset += entry.length;
+  }
+  return tables;
+}
+
+function decodeName(data: Buffer, platform: number): string {
+  if (platform === 1) return data.toString('latin1');
+  // Windows and Unicode names are UTF-16 big-endian
+  const swapped = Buffer.from(data);
+  swapped.swap16();
+  return swapped.toString('utf16le');
+}
+
+// Name ids: 1/2 family and subfamily, 16/17 their typographic versions (e.g. "Inter" and
+// "Semi Bold Italic" where 1/2 would say "Inter SemiBold" and "Italic").
+function readNames(name: Buffer | undefined): Map<number, string> {
+  const names = new Map<number, string>();
+  if (!name || name.length < 6) return names;
+  const count = name.readUInt16BE(2);
+  const strings = name.readUInt16BE(4);
+
+  // English Windows names first, then any Unicode or Mac name for ids not found yet
+  const ranked: { rank: number; id: number; text: string }[] = [];
+  for (let index = 0; index < count; index++) {
+    const record = 6 + index * 12;
+    if (record + 12 > name.length) break;
+    const platform = name.readUInt16BE(record);
+    const language = name.readUInt16BE(record + 4);
+    const id = name.readUInt16BE(record + 6);
+    const length = name.readUInt16BE(record + 8);
+    const offset = strings + name.readUInt16BE(record + 10);
+    if (![1, 2, 16, 17].includes(id) || offset + length > name.length) continue;
+    if (platform !== 0 && platform !== 1 && platform !== 3) continue;
+    const rank = platform === 3 ? (language === 0x409 ? 0 : 1) : platform === 0 ? 2 : 3;
+    const text = decodeName(name.subarray(offset, offset + length), platform).replace(/\0/g, '').trim();
+    if (text) ranked.push({ rank, id, text });
+  }
+  for (const entry of ranked.sort((a, b) => a.rank - b.rank)) {
+    if (!names.has(entry.id)) names.set(entry.id, entry.text);
+  }
+  return names;
+}
+
+const weightNames: [RegExp, number][] = [
+  [/thin|hairline/i, 100],
+  [/extra\s*light|ultra\s*light/i, 200],
+  [/semi\s*bold|demi\s*bold/i, 600],
+  [/extra\s*bold|ultra\s*bold/i, 800],
+  [/black|heavy/i, 900],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/bold/i, 700],
+];
+
+// Null when the file isn't a font we can read
+export function parseFontMetadata(body: Buffer): FontMetadata | null {
+  try {
+    const signature = tag(body, 0);
+    const tables = signature === 'wOFF' ? readWoffTables(body)
+      : signature === 'wOF2' ? readWoff2Tables(body)
+      : signature === 'OTTO' || signature === 'true' || body.readUInt32BE(0) === 0x00010000 ? readSfntTables(body)
+      : null;
+    if (!tables) return null;
+
+    const names = readNames(tables.get('name'));
+    const family = names.get(16) ?? names.get(1);
+    if (!family) return null;
+    const subfamily = names.get(17) ?? names.get(2) ?? 'Regular';
+
+    // OS/2 has the weight class and the italic (bit 0) and oblique (bit 9) flags
+    const os2 = tables.get('OS/2');
+    const weightClass = os2 && os2.length >= 64 ? os2.readUInt16BE(4) : 0;
+    const selection = os2 && os2.length >= 64 ? os2.readUInt16BE(62) : 0;
+    const weight = weightClass >= 1 && weightClass <= 1000
+      ? weightClass
+      : weightNames.find(([pattern]) => pattern.test(subfamily))?.[1] ?? 400;
+    const italic = (selection & 0x201) !== 0 || /italic|oblique/i.test(subfamily);
+
+    return { family, subfamily, weight, style: italic ? 'italic' : 'normal' };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+// Client access links carry a signed token:
+//
+//   /onboarding/<slug>?token=<payload>.<secret>.<signature>
+//
+// payload is base64url JSON naming the form (and optionally one section) and when the
+// link expires, secret is random, and signature is an HMAC-SHA256 over `${payload}.${secret}`.
+// The signature lets forged or expired links be rejected without a database lookup; the
+// database only stores a hash of the secret, so a leaked table can't be turned back into
+// working links and revoking a row kills the link.
+
+export const FORM_TOKEN_HEADER = 'X-Form-Token';
+
+export interface FormAccessTokenClaims {
+  formId: string;
+  sectionId: string | null;
+  expiresAt: Date;
+  tokenHash: string;
+}
+
+function getFormTokenSecret(): string {
+  const secret = process.env.FORM_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('FORM_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function signFormToken(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', getFormTokenSecret()).update(`${payload}.${secret}`).digest('base64url');
+}
+
+export function hashFormTokenSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function createFormAccessToken(
+  formId: string | number,
+  options: { sectionId?: string | null; ttlHours: number },
+  now: Date = new Date()
+): { token: string; tokenHash: string; expiresAt: Date } {
+  const expiresAt = new Date(now.getTime() + options.ttlHours * 60 * 60 * 1000);
+  const payload = Buffer.from(JSON.stringify({
+    form: String(formId),
+    section: options.sectionId ?? null,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  })).toString('base64url');
+  const secret = crypto.randomBytes(32).toString('base64url');
+
+  return {
+    token: `${payload}.${secret}.${signFormToken(payload, secret)}`,
+    tokenHash: hashFormTokenSecret(secret),
+    expiresAt,
+  };
+}
+
+// Check the signature and expiry. The caller still has to find an unrevoked row with
+// the returned hash before trusting the claims.
+export function parseFormAccessToken(token: string, now: Date = new Date()): FormAccessTokenClaims | null {
+  const [payload, secret, signature, ...rest] = token.split('.');
+  if (!payload || !secret || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signFormToken(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { form, section, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof form !== 'string' || typeof exp !== 'number' || exp * 1000 <= now.getTime()) {
+      return null;
+    }
+    return {
+      formId: form,
+      sectionId: typeof section === 'string' ? section : null,
+      expiresAt: new Date(exp * 1000),
+      tokenHash: hashFormTokenSecret(secret),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Form passwords are stored as scrypt hashes: `scrypt$<salt>$<hash>`
+const PASSWORD_KEY_LENGTH = 32;
+
+export function hashFormPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export function verifyFormPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Entering the password of a protected form opens it for a short while. The unlock token
+// is signed together with the current password hash, so changing the password ends every
+// open session.
+export const FORM_UNLOCK_HEADER = 'X-Form-Unlock';
+export const FORM_UNLOCK_TTL_MINUTES = 120;
+
+function signUnlockToken(payload: string, passwordHash: string): string {
+  return crypto.createHmac('sha256', getFormTokenSecret()).update(`${payload}.${passwordHash}`).digest('base64url');
+}
+
+export function createFormUnlockToken(formId: string, passwordHash: string, now: Date = new Date()): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(now.getTime() + FORM_UNLOCK_TTL_MINUTES * 60 * 1000);
+  const payload = Buffer.from(JSON.stringify({ form: formId, exp: Math.floor(expiresAt.getTime() / 1000) })).toString('base64url');
+  return { token: `${payload}.${signUnlockToken(payload, passwordHash)}`, expiresAt };
+}
+
+export function verifyFormUnlockToken(token: string | undefined, formId: string, passwordHash: string, now: Date = new Date()): boolean {
+  if (!token) return false;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return false;
+
+  const expected = Buffer.from(signUnlockToken(payload, passwordHash));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  try {
+    const { form, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return form === formId && typeof exp === 'number' && exp * 1000 > now.getTime();
+  } catch {
+    return false;
+  }
+}
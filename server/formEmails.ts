@@ -0,0 +1,69 @@
+import { storage } from './storage';
+import { mailer } from './mailer';
+import { createFormAccessToken } from './formAccess';
+import { dispatchNotification } from './notifications';
+import { assetStore } from './assetStore';
+import { buildFormSummaryPdf, getFormSummaryFileName, type SummaryForm } from './formSummary';
+import type { EmailAttachment } from './email';
+import type { FormContact, InsertEmailLog } from './types';
+
+// Reminder links get a fresh client token, so they work even if earlier links were revoked
+const REMINDER_LINK_TTL_HOURS = 24 * 30;
+
+export async function sendFormReminder(
+  form: FormContact,
+  options: { baseUrl: string; sentBy?: string | null; message?: string | null }
+): Promise<InsertEmailLog> {
+  const { token, tokenHash, expiresAt } = createFormAccessToken(form.id, { ttlHours: REMINDER_LINK_TTL_HOURS });
+  await storage.createFormAccessToken({
+    form_id: form.id,
+    section_id: null,
+    token_hash: tokenHash,
+    expires_at: expiresAt,
+    created_by: options.sentBy ?? null,
+  });
+
+  const formUrl = `${options.baseUrl.replace(/\/$/, '')}/onboarding/${encodeURIComponent(form.slug || form.id)}?token=${token}`;
+  const email = await mailer.send({
+    to: form.client_email,
+    template: 'clientReminder',
+    data: { clientName: form.client_name, formUrl, progress: form.progress ?? 0, message: options.message },
+    formId: form.id,
+    sentBy: options.sentBy,
+  });
+
+  if (email.status === 'sent') {
+    await storage.updateLastReminder(form.id);
+    await dispatchNotification(storage, { type: 'reminder_sent', form, actorId: options.sentBy }, { baseUrl: options.baseUrl });
+  }
+  return email;
+}
+
+// The team hears about completions through their notification preferences. With
+// COMPLETION_RECEIPT_PDF=true the client also gets a PDF of their answers, if it can be made.
+export async function sendCompletionReceipt(
+  form: FormContact,
+  options: { attachSummary?: boolean } = {}
+): Promise<void> {
+  const { attachSummary = process.env.COMPLETION_RECEIPT_PDF === 'true' } = options;
+  let attachments: EmailAttachment[] = [];
+  if (attachSummary) {
+    try {
+      const saved = await storage.getFormByIdOrSlug(form.id);
+      if (saved) {
+        const content = await buildFormSummaryPdf(storage, assetStore, saved as typeof saved & SummaryForm);
+        attachments = [{ filename: getFormSummaryFileName(form), content, contentType: 'application/pdf' }];
+      }
+    } catch (error) {
+      console.error('Error rendering the summary PDF for a completion receipt:', error);
+    }
+  }
+
+  await mailer.send({
+    to: form.client_email,
+    template: 'completionReceipt',
+    data: { clientName: form.client_name, summaryAttached: attachments.length > 0 },
+    formId: form.id,
+    attachments,
+  });
+}
@@ -0,0 +1,30 @@
+import { type FormRevision, type FormRevisionSource } from "@shared/schema";
+import { diffFormData } from "@shared/formRevisions";
+import { type AuthContext } from "./auth";
+import { type IStorage } from "./types";
+
+interface FormSave {
+  formId: string;
+  previous: Record<string, unknown> | null | undefined;
+  data: Record<string, unknown>;
+  source: FormRevisionSource;
+  auth: AuthContext | undefined;
+  restoredFrom?: string;
+}
+
+// Adds a save to the form's revision history, with who made it and what it changed. Saves that
+// change nothing, such as an autosave with no new typing, are left out. Null when skipped.
+export async function recordFormRevision(storage: IStorage, save: FormSave): Promise<FormRevision | null> {
+  const changes = diffFormData(save.previous, save.data);
+  if (changes.length === 0) return null;
+
+  return await storage.createFormRevision({
+    form_id: save.formId,
+    source: save.source,
+    author_user_id: save.auth?.kind === 'user' ? save.auth.userId : null,
+    author_token_id: save.auth?.kind === 'form' ? save.auth.tokenId : null,
+    data: save.data,
+    changes,
+    restored_from: save.restoredFrom ?? null,
+  });
+}
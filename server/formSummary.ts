@@ -0,0 +1,306 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import sharp from 'sharp';
+import { fileAnswerSchema, type BrandAsset, type CatalogueFont, type FormField, type FormTemplateDefinition } from "@shared/schema";
+import { getActiveFields, getOptionLabel, isBlankAnswer, isSectionSkipped, toAnswerList, type FormAnswers } from "@shared/formTemplate";
+import { findCatalogueFont, getGoogleFontsUrl, normalizeFontName } from "@shared/fonts";
+import { getReadableTextColor, suggestAccessibleColor } from "@shared/colors";
+import { type AssetStore } from "./assetStore";
+import { buildBrandTokens, LOGO_FIELD } from "./brandKit";
+import { resolveFormTemplate } from "./formTemplates";
+import { createPdfDocument, measureText, PAGE_HEIGHT, PAGE_WIDTH, wrapText, type PdfImage } from "./pdf";
+import { type IStorage } from "./types";
+
+// A PDF record of a form's answers in the client's colours, with their logo, colour swatches
+// and samples of their fonts. Sections and fields are the ones the template's rules show for
+// the answers, in the template's order.
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LABEL_WIDTH = 150;
+const VALUE_X = MARGIN + LABEL_WIDTH + 12;
+const VALUE_WIDTH = PAGE_WIDTH - MARGIN - VALUE_X;
+const HEADER_HEIGHT = 110;
+const FOOTER_Y = PAGE_HEIGHT - 28;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 12;
+const LINE_HEIGHT = 14;
+
+// Our own colour, for forms without a primary colour
+const DEFAULT_BRAND_COLOR = '#10B981';
+const MUTED = '#6B7280';
+const TEXT = '#111827';
+const FONT_SAMPLE = 'The quick brown fox jumps over the lazy dog';
+
+// The saved form's row, as it comes back from storage
+export interface SummaryForm {
+  id: string;
+  slug?: string | null;
+  client_name?: string | null;
+  data: unknown;
+  progress?: number | null;
+  completed_at?: string | Date | null;
+  template_version_id?: string | null;
+}
+
+export interface FormSummaryInput {
+  form: Omit<SummaryForm, 'id'>;
+  definition: FormTemplateDefinition;
+  assets: BrandAsset[];
+  catalogue: CatalogueFont[];
+  store: AssetStore;
+}
+
+interface JpegImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Images go into the PDF as JPEGs on white, which every viewer can show
+async function toJpeg(body: Buffer, maxSize: number): Promise<JpegImage | null> {
+  try {
+    const { data, info } = await sharp(body)
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch {
+    return null;
+  }
+}
+
+// Catalogue fonts are fetched from Google Fonts once per family. Without a user agent it
+// serves TrueType, which the text renderer can use.
+const catalogueFontFiles = new Map<string, Promise<Buffer | null>>();
+
+function fetchCatalogueFont(font: CatalogueFont): Promise<Buffer | null> {
+  let file = catalogueFontFiles.get(font.family);
+  if (!file) {
+    file = (async () => {
+      const css = await axios.get<string>(getGoogleFontsUrl({ family: font.family, weights: [400] }), { timeout: 5000, responseType: 'text' });
+      const url = /url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/.exec(css.data)?.[1];
+      if (!url) return null;
+      const response = await axios.get<ArrayBuffer>(url, { timeout: 5000, responseType: 'arraybuffer' });
+      return Buffer.from(response.data);
+    })().catch(error => {
+      console.error(`Error fetching ${font.family} for a form summary:`, error instanceof Error ? error.message : error);
+      catalogueFontFiles.delete(font.family);
+      return null;
+    });
+    catalogueFontFiles.set(font.family, file);
+  }
+  return file;
+}
+
+// The sample sentence drawn in the font. The renderer needs the font as a file on disk.
+async function renderFontSample(family: string, font: { body: Buffer; extension: string }): Promise<JpegImage | null> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'font-sample-'));
+  try {
+    const fontfile = path.join(directory, `font${font.extension}`);
+    await fs.writeFile(fontfile, font.body);
+    // The comma ends the family, so names ending in a number aren't read as a size
+    const text = await sharp({ text: { text: FONT_SAMPLE, font: `${family.replace(/[<>&]/g, '')}, 28`, fontfile, dpi: 144, rgba: true } }).png().toBuffer();
+    return await toJpeg(text, 2000);
+  } catch {
+    return null;
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+// What a field's answer reads as in the summary
+function formatAnswer(field: FormField, value: unknown): string {
+  if (field.type === 'multiselect') return toAnswerList(value).map(item => getOptionLabel(field, item)).join(', ');
+  if (field.type === 'select') return getOptionLabel(field, String(value));
+  if (field.type === 'file') {
+    const file = fileAnswerSchema.safeParse(value);
+    return file.success ? file.data.name : '';
+  }
+  if (field.type === 'date' && typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+export async function renderFormSummaryPdf(input: FormSummaryInput): Promise<Buffer> {
+  const { form, definition, assets, catalogue, store } = input;
+  const data = (form.data ?? {}) as FormAnswers;
+  const tokens = buildBrandTokens(form, catalogue, assets.flatMap(asset => asset.font ? [asset.font] : []));
+  const brandColor = tokens.colors.primary ?? DEFAULT_BRAND_COLOR;
+  // Headings in the brand colour, made darker if it's too light to read on white
+  const headingColor = suggestAccessibleColor(brandColor, '#FFFFFF') ?? TEXT;
+
+  const doc = createPdfDocument({ title: `${tokens.name} onboarding summary` });
+  const images = new Map<string, PdfImage | null>();
+
+  // Each asset's image is added to the PDF once, however often it's shown
+  const assetImage = async (asset: BrandAsset): Promise<PdfImage | null> => {
+    if (!images.has(asset.id)) {
+      const variant = asset.variants.web ?? asset.variants.thumbnail;
+      const body = variant ? await store.get(variant.key) : null;
+      const jpeg = body ? await toJpeg(body, 600) : null;
+      images.set(asset.id, jpeg ? doc.addImage(jpeg.data, jpeg.width, jpeg.height) : null);
+    }
+    return images.get(asset.id) ?? null;
+  };
+
+  const fontSample = async (family: string): Promise<PdfImage | null> => {
+    const key = `font:${normalizeFontName(family)}`;
+    if (!images.has(key)) {
+      let file: { body: Buffer; extension: string } | null = null;
+      const uploaded = assets.find(asset => asset.font && normalizeFontName(asset.font.family) === normalizeFontName(family));
+      const catalogueFont = findCatalogueFont(catalogue, family);
+      if (uploaded) {
+        const body = await store.get(uploaded.storage_key);
+        if (body) file = { body, extension: path.extname(uploaded.file_name) };
+      } else if (catalogueFont) {
+        const body = await fetchCatalogueFont(catalogueFont);
+        if (body) file = { body, extension: '.ttf' };
+      }
+      const sample = file ? await renderFontSample(uploaded?.font?.family ?? catalogueFont?.family ?? family, file) : null;
+      images.set(key, sample ? doc.addImage(sample.data, sample.width, sample.height) : null);
+    }
+    return images.get(key) ?? null;
+  };
+
+  // The header: the brand's name on its colour, with the logo on white beside it
+  doc.addPage();
+  const headerText = getReadableTextColor(brandColor);
+  doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, brandColor);
+  doc.text(tokens.name, MARGIN, 52, { size: 22, bold: true, color: headerText });
+  const completedAt = form.completed_at ? new Date(form.completed_at) : null;
+  const status = completedAt && !Number.isNaN(completedAt.getTime())
+    ? `Completed ${completedAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })}`
+    : `${form.progress ?? 0}% complete`;
+  doc.text(`Onboarding summary · ${status}`, MARGIN, 74, { size: 11, color: headerText });
+  if (form.client_name && form.client_name !== tokens.name) {
+    doc.text(`Prepared for ${form.client_name}`, MARGIN, 90, { size: 9, color: headerText });
+  }
+
+  const [logoSection, logoField] = LOGO_FIELD.split('.');
+  const logoAnswer = fileAnswerSchema.safeParse(data[logoSection]?.[logoField]);
+  const logoAsset = logoAnswer.success ? assets.find(asset => asset.id === logoAnswer.data.assetId) : undefined;
+  const logo = logoAsset ? await assetImage(logoAsset) : null;
+  if (logo) {
+    const scale = Math.min(120 / logo.width, 60 / logo.height);
+    const [width, height] = [logo.width * scale, logo.height * scale];
+    doc.rect(PAGE_WIDTH - MARGIN - width - 16, (HEADER_HEIGHT - height) / 2 - 8, width + 16, height + 16, '#FFFFFF');
+    doc.image(logo, PAGE_WIDTH - MARGIN - width - 8, (HEADER_HEIGHT - height) / 2, width, height);
+  }
+
+  let y = HEADER_HEIGHT + 36;
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  for (const section of definition.sections) {
+    if (isSectionSkipped(section, data)) continue;
+    const answers = data[section.key] ?? {};
+
+    // Keep a heading with at least its first row
+    ensureSpace(60);
+    doc.text(section.title, MARGIN, y, { size: 14, bold: true, color: headingColor });
+    y += 8;
+    doc.rect(MARGIN, y, CONTENT_WIDTH, 1, brandColor);
+    y += 20;
+
+    for (const field of getActiveFields(section, data)) {
+      const value = answers[field.key];
+      const labelLines = wrapText(field.label, 9, LABEL_WIDTH, true);
+      const drawLabel = () => labelLines.forEach((line, index) => doc.text(line, MARGIN, y + index * 12, { size: 9, bold: true, color: MUTED }));
+
+      if (isBlankAnswer(value)) {
+        ensureSpace(labelLines.length * 12);
+        drawLabel();
+        doc.text('Not answered', VALUE_X, y, { size: 10, color: MUTED });
+        y += Math.max(labelLines.length * 12, LINE_HEIGHT) + 8;
+        continue;
+      }
+
+      if (field.type === 'color' && typeof value === 'string') {
+        ensureSpace(24);
+        drawLabel();
+        doc.rect(VALUE_X, y - 11, 36, 18, value, { stroke: '#D1D5DB' });
+        doc.text(value.toUpperCase(), VALUE_X + 46, y, { size: 10, color: TEXT });
+        y += Math.max(labelLines.length * 12, 18) + 10;
+        continue;
+      }
+
+      if (field.type === 'font' && typeof value === 'string') {
+        const sample = await fontSample(value);
+        const scale = sample ? Math.min(22 / sample.height, VALUE_WIDTH / sample.width) : 0;
+        ensureSpace(LINE_HEIGHT + (sample ? sample.height * scale + 8 : 0));
+        drawLabel();
+        doc.text(findCatalogueFont(catalogue, value)?.family ?? value, VALUE_X, y, { size: 10, color: TEXT });
+        let height = LINE_HEIGHT;
+        if (sample) {
+          doc.image(sample, VALUE_X, y + 6, sample.width * scale, sample.height * scale);
+          height += sample.height * scale + 4;
+        }
+        y += Math.max(labelLines.length * 12, height) + 8;
+        continue;
+      }
+
+      if (field.type === 'file') {
+        const file = fileAnswerSchema.safeParse(value);
+        const asset = file.success ? assets.find(candidate => candidate.id === file.data.assetId) : undefined;
+        const image = asset && asset.content_type.startsWith('image/') ? await assetImage(asset) : null;
+        if (image) {
+          const scale = Math.min(140 / image.width, 70 / image.height, 1);
+          const height = image.height * scale;
+          ensureSpace(height + LINE_HEIGHT + 8);
+          drawLabel();
+          doc.image(image, VALUE_X, y - 10, image.width * scale, height);
+          doc.text(formatAnswer(field, value), VALUE_X, y + height + 2, { size: 8, color: MUTED });
+          y += Math.max(labelLines.length * 12, height + LINE_HEIGHT) + 8;
+          continue;
+        }
+      }
+
+      // Text, line by line so long answers carry on over the page
+      const lines = wrapText(formatAnswer(field, value), 10, VALUE_WIDTH);
+      ensureSpace(Math.max(labelLines.length * 12, Math.min(lines.length, 3) * LINE_HEIGHT));
+      drawLabel();
+      const top = y;
+      lines.forEach((line, index) => {
+        if (index > 0) {
+          y += LINE_HEIGHT;
+          ensureSpace(LINE_HEIGHT);
+        }
+        doc.text(line, VALUE_X, y, { size: 10, color: TEXT });
+      });
+      y = Math.max(y + LINE_HEIGHT, top + labelLines.length * 12) + 8;
+    }
+    y += 16;
+  }
+
+  // Footers go on last, once the number of pages is known
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`${tokens.name} · Onboarding summary`, MARGIN, FOOTER_Y, { size: 8, color: MUTED });
+    const number = `Page ${page + 1} of ${doc.pageCount}`;
+    doc.text(number, PAGE_WIDTH - MARGIN - measureText(number, 8), FOOTER_Y, { size: 8, color: MUTED });
+  }
+  return doc.toBuffer();
+}
+
+export function getFormSummaryFileName(form: { id: string; slug?: string | null }): string {
+  return `${form.slug || form.id}-onboarding-summary.pdf`;
+}
+
+// The summary of a saved form, with the template version it was created with
+export async function buildFormSummaryPdf(storage: IStorage, store: AssetStore, form: SummaryForm): Promise<Buffer> {
+  const [{ definition }, assets, catalogue] = await Promise.all([
+    resolveFormTemplate(storage, form.template_version_id ?? null),
+    storage.getBrandAssets(form.id),
+    storage.getFontCatalogue(),
+  ]);
+  return renderFormSummaryPdf({ form, definition, assets, catalogue, store });
+}
@@ -0,0 +1,54 @@
+import { type FormTemplateVersion, type ResolvedFormTemplate } from "@shared/schema";
+import { getFinishingSections, getTemplateSection, validateFormData, type AnswerErrors } from "@shared/formTemplate";
+import { defaultFormTemplate, DEFAULT_FORM_TEMPLATE_NAME } from "@shared/defaultFormTemplate";
+import { type IStorage } from "./types";
+
+export const builtInFormTemplate: ResolvedFormTemplate = {
+  id: null,
+  version: null,
+  name: DEFAULT_FORM_TEMPLATE_NAME,
+  definition: defaultFormTemplate,
+};
+
+// The questions a form is filled in with: the template version it was created with. Forms
+// from before templates, and forms whose template has gone, get the built-in default.
+export async function resolveFormTemplate(storage: IStorage, templateVersionId: string | null): Promise<ResolvedFormTemplate> {
+  if (!templateVersionId) return builtInFormTemplate;
+  const version = await storage.getFormTemplateVersion(templateVersionId);
+  if (!version) return builtInFormTemplate;
+  return { id: version.template_id, version: version.version, name: version.name, definition: version.definition };
+}
+
+// The version new forms get when staff don't pick a template: the latest of the admins'
+// chosen default, if there is one and it has been published
+export async function getDefaultTemplateVersion(storage: IStorage): Promise<FormTemplateVersion | null> {
+  const fallback = await storage.getDefaultFormTemplate();
+  if (!fallback) return null;
+  return await storage.getLatestFormTemplateVersion(fallback.id) ?? null;
+}
+
+// Problems with form data about to be saved, against the template version the form was created
+// with. previous is what's saved now, so only the sections this save finishes are checked in full.
+export async function checkFormAnswers(
+  storage: IStorage,
+  templateVersionId: string | null,
+  previous: Record<string, unknown> | null | undefined,
+  next: Record<string, unknown>,
+): Promise<AnswerErrors> {
+  const { definition } = await resolveFormTemplate(storage, templateVersionId);
+  return validateFormData(definition, next, getFinishingSections(definition, previous, next));
+}
+
+// Problems with one section's answers saved on their own, which finishes it. Rules that look at
+// other sections see them unanswered. Null when the template has no such section.
+export async function checkSectionAnswers(
+  storage: IStorage,
+  templateVersionId: string | null,
+  sectionName: string,
+  answers: Record<string, unknown>,
+): Promise<AnswerErrors | null> {
+  const { definition } = await resolveFormTemplate(storage, templateVersionId);
+  const section = getTemplateSection(definition, sectionName) ?? definition.sections.find(candidate => candidate.slug === sectionName);
+  if (!section) return null;
+  return validateFormData(definition, { [section.key]: answers }, [section.key]);
+}
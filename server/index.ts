@@ -3,6 +3,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { startWebhookRetryWorker } from "./webhookWorker";
+import { startReminderScheduler } from "./reminderScheduler";
+import { startDigestScheduler } from "./digestScheduler";
 
 // Log environment variables (without sensitive values)
 console.log('Environment variables loaded:', {
@@ -48,6 +52,14 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Forms used to store their password in plain text
+  try {
+    const hashed = await storage.hashLegacyFormPasswords();
+    if (hashed > 0) log(`hashed ${hashed} legacy form password(s)`);
+  } catch (error) {
+    console.error('Error hashing legacy form passwords:', error);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -77,4 +89,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Retry failed webhook deliveries in the background
+  startWebhookRetryWorker(storage);
+
+  // Email clients whose forms are still incomplete, per the reminder settings
+  startReminderScheduler(storage);
+
+  // Save daily and weekly digest reports and email them to subscribers
+  startDigestScheduler(storage);
 })();
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import type { Invitation, InvitationSummary } from '@shared/schema';
+
+// Invitation links look like /accept-invitation?token=<token>. Only a SHA-256 hash of the
+// token is stored, so the link can't be recovered from the database; resending an
+// invitation issues a new token and the old link stops working.
+
+export const INVITATION_TTL_DAYS = 7;
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function createInvitationToken(now: Date = new Date()): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+// Pending invitations are only marked expired when someone looks at them
+export function getInvitationStatus(invitation: Pick<Invitation, 'status' | 'expires_at'>, now: Date = new Date()): Invitation['status'] {
+  if (invitation.status === 'pending' && new Date(invitation.expires_at) <= now) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+export function toInvitationSummary(invitation: Invitation, now: Date = new Date()): InvitationSummary {
+  const { token, ...summary } = invitation;
+  return { ...summary, status: getInvitationStatus(invitation, now) };
+}
+
+export function getInvitationUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/accept-invitation?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,71 @@
+import { storage } from './storage';
+import { createTransportFromEnv, type EmailAttachment, type EmailTransport } from './email';
+import { renderEmail, type EmailTemplateData } from './emailTemplates';
+import type { EmailTemplateName } from '@shared/schema';
+import type { InsertEmailLog } from './types';
+
+export const DEFAULT_EMAIL_FROM = 'Sixty Seconds <onboarding@localhost>';
+
+export interface SendEmailOptions<T extends EmailTemplateName> {
+  to: string;
+  template: T;
+  data: EmailTemplateData[T];
+  formId?: string | null;
+  sentBy?: string | null; // The staff member who asked for the email, null for automatic ones
+  attachments?: EmailAttachment[];
+}
+
+export interface Mailer {
+  transport: EmailTransport;
+  // Never throws for delivery problems: the returned log entry says whether it was sent
+  send<T extends EmailTemplateName>(options: SendEmailOptions<T>): Promise<InsertEmailLog>;
+}
+
+export function createMailer(options: {
+  transport: EmailTransport;
+  from: string;
+  log: (entry: InsertEmailLog) => Promise<unknown>;
+}): Mailer {
+  const { transport, from, log } = options;
+
+  return {
+    transport,
+    async send({ to, template, data, formId = null, sentBy = null, attachments }) {
+      const { subject, text, html } = renderEmail(template, data);
+      const entry: InsertEmailLog = {
+        to_email: to,
+        subject,
+        template,
+        status: 'sent',
+        transport: transport.name,
+        message_id: null,
+        error: null,
+        form_id: formId,
+        sent_by: sentBy,
+      };
+
+      try {
+        const { messageId } = await transport.send({ from, to, subject, text, html, ...(attachments?.length ? { attachments } : {}) });
+        entry.message_id = messageId;
+      } catch (error) {
+        console.error(`Error sending ${template} email:`, error);
+        entry.status = 'failed';
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+
+      // A missing log row shouldn't turn a sent email into an error for the caller
+      try {
+        await log(entry);
+      } catch (error) {
+        console.error('Error writing email log:', error);
+      }
+      return entry;
+    },
+  };
+}
+
+export const mailer = createMailer({
+  transport: createTransportFromEnv(),
+  from: process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+  log: entry => storage.createEmailLog(entry),
+});
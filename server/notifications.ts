@@ -0,0 +1,196 @@
+import { hasPermission, type Permission } from "@shared/permissions";
+import { slackNotificationTypes, type NotificationChannel, type NotificationData, type NotificationPriority, type NotificationType, type SlackNotificationType } from "@shared/schema";
+import type { FormContact, IStorage, InsertNotification, TeamMember, WebhookDelivery } from "./types";
+import { mailer } from "./mailer";
+import { buildSlackMessage, sendSlackMessage } from "./slack";
+
+// Things that happened which staff should hear about. Each event reaches every active staff
+// member allowed to act on it, on the channels their notification preferences turn on.
+export type NotificationEvent =
+  | { type: 'form_created'; form: FormContact; actorId?: string | null }
+  | { type: 'form_completed'; form: FormContact }
+  | { type: 'section_completed'; form: FormContact; sectionName: string }
+  | { type: 'reminder_sent'; form: FormContact; actorId?: string | null }
+  | { type: 'webhook_failed'; delivery: Pick<WebhookDelivery, 'id' | 'event' | 'url' | 'attempt_count' | 'last_error' | 'form_id'> };
+
+export interface NotificationContent {
+  priority: NotificationPriority;
+  title: string;
+  message: string;
+  formId: string | null;
+  data: NotificationData;
+  // Where the email's button goes, relative to the app
+  link: { path: string; label: string };
+}
+
+export interface DispatchOptions {
+  // Base of the links in emails; SITE_URL when not given
+  baseUrl?: string;
+}
+
+// Slack is one team-wide channel, so it counts messages rather than people
+export type DispatchResult = Record<NotificationChannel | 'slack', number>;
+
+// Webhook failures are only useful to people who can fix or retry them
+const requiredPermissions: Record<NotificationType, Permission> = {
+  form_created: 'forms:read',
+  form_completed: 'forms:read',
+  section_completed: 'forms:read',
+  reminder_sent: 'forms:read',
+  webhook_failed: 'webhooks:manage',
+};
+
+function formData(form: FormContact): NotificationData {
+  return { formSlug: form.slug };
+}
+
+// The dashboard filtered down to the form's client
+function dashboardLink(form: FormContact) {
+  return { path: `/admin/dashboard?search=${encodeURIComponent(form.client_email)}`, label: 'View in dashboard' };
+}
+
+export function describeNotification(event: NotificationEvent): NotificationContent {
+  switch (event.type) {
+    case 'form_created':
+      return {
+        priority: 'low',
+        title: `New form - ${event.form.client_name}`,
+        message: `An onboarding form was created for ${event.form.client_name} (${event.form.client_email}).`,
+        formId: event.form.id,
+        data: formData(event.form),
+        link: dashboardLink(event.form),
+      };
+    case 'form_completed':
+      return {
+        priority: 'high',
+        title: `Form completed - ${event.form.client_name}`,
+        message: `${event.form.client_name} has completed their onboarding form.`,
+        formId: event.form.id,
+        data: formData(event.form),
+        link: dashboardLink(event.form),
+      };
+    case 'section_completed':
+      return {
+        priority: 'medium',
+        title: `Section completed - ${event.form.client_name}`,
+        message: `${event.form.client_name} completed the ${event.sectionName} section.`,
+        formId: event.form.id,
+        data: { ...formData(event.form), sectionName: event.sectionName },
+        link: dashboardLink(event.form),
+      };
+    case 'reminder_sent':
+      return {
+        priority: 'low',
+        title: `Reminder sent - ${event.form.client_name}`,
+        message: event.actorId
+          ? `A reminder was emailed to ${event.form.client_email} for their incomplete form.`
+          : `Automatic reminder emailed to ${event.form.client_email} for their incomplete form.`,
+        formId: event.form.id,
+        data: formData(event.form),
+        link: dashboardLink(event.form),
+      };
+    case 'webhook_failed':
+      return {
+        priority: 'high',
+        title: 'Webhook delivery failed',
+        message: `Gave up delivering ${event.delivery.event} to ${event.delivery.url} after ${event.delivery.attempt_count ?? 0} attempt(s)${event.delivery.last_error ? `: ${event.delivery.last_error}` : '.'}`,
+        formId: event.delivery.form_id ?? null,
+        data: { deliveryId: event.delivery.id, webhookUrl: event.delivery.url },
+        link: { path: '/admin/webhook-settings?tab=deliveries', label: 'View deliveries' },
+      };
+  }
+}
+
+async function sendEmailAlerts(members: TeamMember[], content: NotificationContent, baseUrl: string | undefined): Promise<number> {
+  const results = await Promise.all(members.filter(member => member.email).map(member => mailer.send({
+    to: member.email!,
+    template: 'teamAlert',
+    data: {
+      title: content.title,
+      message: content.message,
+      actionUrl: baseUrl ? `${baseUrl.replace(/\/$/, '')}${content.link.path}` : undefined,
+      actionLabel: content.link.label,
+    },
+    formId: content.formId,
+  })));
+  return results.filter(result => result.status === 'sent').length;
+}
+
+function isSlackNotificationType(type: NotificationType): type is SlackNotificationType {
+  return (slackNotificationTypes as readonly NotificationType[]).includes(type);
+}
+
+// Posts to the team's Slack channel when it's on for this kind of event. Returns how many messages were sent.
+async function sendSlackAlert(storage: IStorage, event: NotificationEvent, content: NotificationContent, baseUrl: string | undefined): Promise<number> {
+  if (!isSlackNotificationType(event.type)) return 0;
+  const settings = await storage.getSlackSettings();
+  if (!settings.enabled || !settings.webhookUrl || !settings.alerts[event.type]) return 0;
+
+  await sendSlackMessage(settings.webhookUrl, {
+    ...buildSlackMessage(event, content, baseUrl),
+    ...(settings.channel ? { channel: settings.channel } : {}),
+  });
+  return 1;
+}
+
+// Notifications are a side effect of something that already happened, so this never
+// throws; failures are logged. Resolves with how many were sent on each channel.
+export async function dispatchNotification(
+  storage: IStorage,
+  event: NotificationEvent,
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const result: DispatchResult = { inApp: 0, email: 0, slack: 0 };
+  const content = describeNotification(event);
+  const baseUrl = options.baseUrl ?? process.env.SITE_URL;
+
+  // Each channel fails on its own
+  try {
+    const actorId = 'actorId' in event ? event.actorId : null;
+    const recipients = (await storage.getTeamMembers()).filter(member =>
+      !member.deactivated_at
+      && member.user_id !== actorId // Nobody needs to hear about what they just did
+      && hasPermission(member.role, 'notifications:read')
+      && hasPermission(member.role, requiredPermissions[event.type])
+    );
+
+    if (recipients.length > 0) {
+      const preferences = await storage.getNotificationPreferencesFor(recipients.map(member => member.user_id));
+      const wants = (member: TeamMember, channel: NotificationChannel) =>
+        preferences.get(member.user_id)?.alerts[event.type][channel] ?? false;
+
+      const inAppRecipients = recipients.filter(member => wants(member, 'inApp'));
+      if (inAppRecipients.length > 0) {
+        try {
+          const rows: InsertNotification[] = inAppRecipients.map(member => ({
+            user_id: member.user_id,
+            type: event.type,
+            priority: content.priority,
+            title: content.title,
+            message: content.message,
+            form_id: content.formId,
+            data: content.data,
+          }));
+          await storage.createNotifications(rows);
+          result.inApp = rows.length;
+        } catch (error) {
+          console.error(`Error creating ${event.type} notifications:`, error);
+        }
+      }
+
+      const emailRecipients = recipients.filter(member => wants(member, 'email'));
+      if (emailRecipients.length > 0) {
+        result.email = await sendEmailAlerts(emailRecipients, content, baseUrl);
+      }
+    }
+  } catch (error) {
+    console.error(`Error dispatching ${event.type} notification:`, error);
+  }
+
+  try {
+    result.slack = await sendSlackAlert(storage, event, content, baseUrl);
+  } catch (error) {
+    console.error(`Error posting ${event.type} notification to Slack:`, error);
+  }
+  return result;
+}
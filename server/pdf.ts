@@ -0,0 +1,223 @@
+import zlib from 'zlib';
+
+// Writes simple PDFs: text in the built-in Helvetica faces, filled rectangles and JPEG images,
+// on A4 pages. Positions are in points from the top left of the page, as a page is laid out;
+// the writer turns them round for PDF, which measures from the bottom left.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface PdfImage {
+  id: number;
+  width: number; // Pixels
+  height: number;
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // Hex
+}
+
+export interface PdfDocument {
+  addPage(): number; // The new page's index; drawing goes on it
+  setPage(index: number): void;
+  readonly pageCount: number;
+  // y is the text's baseline
+  text(text: string, x: number, y: number, options?: PdfTextOptions): void;
+  rect(x: number, y: number, width: number, height: number, color: string, options?: { stroke?: string }): void;
+  // Each image is stored once however many times it's drawn
+  addImage(jpeg: Buffer, width: number, height: number): PdfImage;
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void;
+  toBuffer(): Buffer;
+}
+
+// Advance widths of the printable ASCII characters, in thousandths of the font size, from
+// the Adobe metrics for the two faces. Other characters are counted as wide as a digit.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsiEncoding has outside Latin-1
+const winAnsiExtras: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// The text as WinAnsi bytes (one char per byte); anything the font can't show becomes "?"
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\t/g, '    '), char => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+    const extra = winAnsiExtras[char];
+    return extra ? String.fromCharCode(extra) : '?';
+  }).join('');
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 0x20 && code < 0x7f ? widths[code - 0x20] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Breaks text into lines that fit the width, at spaces where it can. Line breaks in the text
+// are kept, and a word too long for a line is split.
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.trim().split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (measureText(rest, size, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function escapeString(text: string): string {
+  return text.replace(/[\\()]/g, char => `\\${char}`);
+}
+
+function rgb(hex: string): string {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] ?? '000000';
+  return [0, 2, 4].map(index => (parseInt(value.slice(index, index + 2), 16) / 255).toFixed(3)).join(' ');
+}
+
+const number = (value: number) => Number(value.toFixed(2)).toString();
+
+export function createPdfDocument(options: { title?: string } = {}): PdfDocument {
+  const pages: string[][] = [];
+  const images: { width: number; height: number; data: Buffer }[] = [];
+  let current = -1;
+
+  const draw = (operation: string) => {
+    if (current < 0) throw new Error('Add a page before drawing');
+    pages[current].push(operation);
+  };
+
+  return {
+    addPage() {
+      pages.push([]);
+      current = pages.length - 1;
+      return current;
+    },
+
+    setPage(index) {
+      if (!pages[index]) throw new Error(`There is no page ${index}`);
+      current = index;
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    text(text, x, y, { size = 10, bold = false, color = '#111827' } = {}) {
+      draw(`BT /${bold ? 'F2' : 'F1'} ${number(size)} Tf ${rgb(color)} rg ${number(x)} ${number(PAGE_HEIGHT - y)} Td (${escapeString(toWinAnsi(text))}) Tj ET`);
+    },
+
+    rect(x, y, width, height, color, { stroke } = {}) {
+      const path = `${number(x)} ${number(PAGE_HEIGHT - y - height)} ${number(width)} ${number(height)} re`;
+      draw(stroke ? `q ${rgb(color)} rg ${rgb(stroke)} RG 0.5 w ${path} B Q` : `q ${rgb(color)} rg ${path} f Q`);
+    },
+
+    addImage(jpeg, width, height) {
+      images.push({ width, height, data: jpeg });
+      return { id: images.length, width, height };
+    },
+
+    image(image, x, y, width, height) {
+      draw(`q ${number(width)} 0 0 ${number(height)} ${number(x)} ${number(PAGE_HEIGHT - y - height)} cm /Im${image.id} Do Q`);
+    },
+
+    toBuffer() {
+      // Objects: 1 catalog, 2 page tree, 3 and 4 fonts, 5 info, then images, then each page and its content
+      const objects: Buffer[] = [];
+      const firstImage = 6;
+      const firstPage = firstImage + images.length;
+      const pageIds = pages.map((_, index) => firstPage + index * 2);
+
+      objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'));
+      objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`));
+      objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'));
+      objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'));
+      objects.push(Buffer.from(`<< /Title (${escapeString(toWinAnsi(options.title ?? ''))}) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`, 'latin1'));
+
+      for (const image of images) {
+        objects.push(Buffer.concat([
+          Buffer.from(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`),
+          image.data,
+          Buffer.from('\nendstream'),
+        ]));
+      }
+
+      const xObjects = images.map((_, index) => `/Im${index + 1} ${firstImage + index} 0 R`).join(' ');
+      pages.forEach((operations, index) => {
+        const content = zlib.deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+        objects.push(Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${pageIds[index] + 1} 0 R ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> >>`,
+        ));
+        objects.push(Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+          content,
+          Buffer.from('\nendstream'),
+        ]));
+      });
+
+      const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      let offset = parts[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, index) => {
+        const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+        offsets.push(offset);
+        parts.push(object);
+        offset += object.length;
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF',
+        '',
+      ].join('\n');
+      parts.push(Buffer.from(xref));
+      return Buffer.concat(parts);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Counts failures per key within a fixed window, e.g. wrong passwords per form and IP.
+// State is kept in memory, so limits reset when the server restarts and are per process.
+
+export interface FailureLimiterOptions {
+  maxFailures: number;
+  windowMs: number;
+}
+
+export interface FailureLimiter {
+  // Seconds until the key may try again, or 0 if it isn't blocked
+  retryAfter(key: string, now?: number): number;
+  recordFailure(key: string, now?: number): void;
+  reset(key: string): void;
+}
+
+export function createFailureLimiter({ maxFailures, windowMs }: FailureLimiterOptions): FailureLimiter {
+  const failures = new Map<string, { count: number; resetAt: number }>();
+
+  function current(key: string, now: number) {
+    const entry = failures.get(key);
+    if (entry && entry.resetAt <= now) {
+      failures.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  return {
+    retryAfter(key, now = Date.now()) {
+      const entry = current(key, now);
+      if (!entry || entry.count < maxFailures) return 0;
+      return Math.ceil((entry.resetAt - now) / 1000);
+    },
+
+    recordFailure(key, now = Date.now()) {
+      const entry = current(key, now);
+      if (entry) {
+        entry.count++;
+      } else {
+        failures.set(key, { count: 1, resetAt: now + windowMs });
+      }
+    },
+
+    reset(key) {
+      failures.delete(key);
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { reminderStages, type ReminderSettings, type ReminderStage } from "@shared/schema";
+import { type IStorage, type RemindableForm } from "./types";
+import { sendFormReminder } from "./formEmails";
+
+export interface ReminderSchedulerConfig {
+  pollIntervalMs: number;
+  // A reminder is never sent within this long of the previous one, e.g. after a manual reminder
+  minGapMs: number;
+  // How long to wait before trying a form again after its email failed
+  retryDelayMs: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getReminderSchedulerConfig(): ReminderSchedulerConfig {
+  return {
+    pollIntervalMs: readNumberEnv('REMINDER_POLL_INTERVAL_MS', 15 * 60 * 1000),
+    minGapMs: readNumberEnv('REMINDER_MIN_GAP_MS', 12 * 60 * 60 * 1000),
+    retryDelayMs: readNumberEnv('REMINDER_RETRY_DELAY_MS', 60 * 60 * 1000),
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function getStageHours(settings: ReminderSettings): Record<ReminderStage, number> {
+  return { first: settings.firstReminder, second: settings.secondReminder, final: settings.finalReminder };
+}
+
+// The latest stage whose time has passed without a reminder since, or null when nothing is due.
+// A reminder sent after a stage's time (automatic or manual) counts for that stage, so a form
+// that was missed for a while gets one reminder, not one per stage.
+export function getDueReminderStage(
+  form: Pick<RemindableForm, 'created_at' | 'last_reminder'>,
+  settings: ReminderSettings,
+  now: Date = new Date(),
+  config: ReminderSchedulerConfig = getReminderSchedulerConfig()
+): ReminderStage | null {
+  const createdAt = new Date(form.created_at).getTime();
+  const lastReminder = form.last_reminder ? new Date(form.last_reminder).getTime() : null;
+  const hours = getStageHours(settings);
+
+  const passed = reminderStages.filter(stage => createdAt + hours[stage] * HOUR_MS <= now.getTime());
+  const stage = passed[passed.length - 1];
+  if (!stage) return null;
+
+  if (lastReminder !== null) {
+    if (lastReminder >= createdAt + hours[stage] * HOUR_MS) return null;
+    if (now.getTime() - lastReminder < config.minGapMs) return null;
+  }
+  return stage;
+}
+
+export interface ReminderRunOptions {
+  baseUrl: string;
+  now?: Date;
+  config?: ReminderSchedulerConfig;
+  // Form id -> time before which a failed form isn't tried again. Kept by the scheduler.
+  retryAfter?: Map<string, number>;
+}
+
+// Sends every reminder that is due. Returns how many were sent.
+export async function processDueReminders(storage: IStorage, options: ReminderRunOptions): Promise<number> {
+  const { baseUrl, now = new Date(), config = getReminderSchedulerConfig(), retryAfter = new Map() } = options;
+
+  const settings = await storage.getReminderSettings();
+  if (!settings.enabled) return 0;
+
+  const forms = await storage.getRemindableForms(new Date(now.getTime() - settings.firstReminder * HOUR_MS));
+  let sent = 0;
+
+  for (const form of forms) {
+    if (!getDueReminderStage(form, settings, now, config)) continue;
+    if ((retryAfter.get(form.id) ?? 0) > now.getTime()) continue;
+
+    try {
+      const email = await sendFormReminder(form, { baseUrl, message: settings.customMessage });
+      if (email.status === 'sent') {
+        retryAfter.delete(form.id);
+        sent++;
+      } else {
+        retryAfter.set(form.id, now.getTime() + config.retryDelayMs);
+      }
+    } catch (error) {
+      console.error(`Error sending automatic reminder for form ${form.id}:`, error);
+      retryAfter.set(form.id, now.getTime() + config.retryDelayMs);
+    }
+  }
+
+  return sent;
+}
+
+// Reminder links point at SITE_URL; without it there's no address to send clients to
+export function startReminderScheduler(storage: IStorage, config: ReminderSchedulerConfig = getReminderSchedulerConfig()): () => void {
+  const baseUrl = process.env.SITE_URL;
+  if (!baseUrl) {
+    console.warn('SITE_URL is not set; automatic reminders are off');
+    return () => {};
+  }
+
+  const retryAfter = new Map<string, number>();
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip this tick if the previous scan is still sending
+    if (running) return;
+    running = true;
+    try {
+      await processDueReminders(storage, { baseUrl, config, retryAfter });
+    } catch (error) {
+      console.error('Reminder scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  }, config.pollIntervalMs);
+
+  // Don't keep the process alive just for reminders
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
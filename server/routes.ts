@@ -1,179 +1,1625 @@
-import type { Express, Request } from "express";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertFormSchema, insertSectionSchema, businessDetailsSchema, webhookSettingsSchema, insertFormSubmissionSchema, type SystemSettings } from "@shared/schema";
+import { getWebhookEventCatalogue } from "./webhookEvents";
+import { authenticate, canAccessForm, denyAccess, ensureFormAccess, requireFormAccess, requirePermission } from "./auth";
+import { createFormAccessToken, createFormUnlockToken, hashFormPassword, verifyFormPassword } from "./formAccess";
+import { createFailureLimiter } from "./rateLimit";
+import { mailer } from "./mailer";
+import { sendCompletionReceipt, sendFormReminder } from "./formEmails";
+import { buildSlackTestMessage, sendSlackMessage } from "./slack";
+import { dispatchNotification } from "./notifications";
+import { buildDigestReport, getCurrentDigestRange } from "./digest";
+import { getDigestSchedulerConfig } from "./digestScheduler";
+import { recordFormRevision } from "./formRevisions";
+import { assetStore } from "./assetStore";
+import { getBrandAssetKeys, getImagePalette, MAX_BRAND_ASSET_BYTES, processBrandAsset, saveBrandAsset } from "./brandAssets";
+import { buildBrandKit } from "./brandKit";
+import { buildFormSummaryPdf, getFormSummaryFileName, type SummaryForm } from "./formSummary";
+import { builtInFormTemplate, checkFormAnswers, checkSectionAnswers, getDefaultTemplateVersion, resolveFormTemplate } from "./formTemplates";
+import { generateSlug, generateUniqueSlug } from "@shared/slug";
+import { getTemplateSection, type AnswerErrors } from "@shared/formTemplate";
+import { findCatalogueFont } from "@shared/fonts";
+import { diffFormData } from "@shared/formRevisions";
+import { createInvitationToken, getInvitationStatus, getInvitationUrl, hashInvitationToken, toInvitationSummary } from "./invitations";
+import { createFormSchema, insertSectionSchema, createFormAccessTokenSchema, clientFormUpdateSchema, unlockFormSchema, setFormPasswordSchema, updateTeamMemberSchema, createInvitationSchema, acceptInvitationSchema, type InvitationPreview, emailLogFiltersSchema, reminderSettingsSchema, notificationFiltersSchema, notificationPreferencesSchema, slackSettingsSchema, slackTestMessageSchema, digestReportFiltersSchema, digestPreviewSchema, createFormTemplateSchema, updateFormTemplateSchema, type Invitation, webhookEndpointSchema, type FormAccessStatus, updateWebhookEndpointSchema, rotateWebhookSecretSchema, insertFormSubmissionSchema, webhookDeliveryFiltersSchema, compareFormRevisionsSchema, type FormRevisionComparison, type FormRevisionSource, uploadBrandAssetSchema, brandAssetVariantNames, FONT_FILE_ACCEPT, catalogueFontSchema, updateCatalogueFontSchema, type FormFonts } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// Where links sent to people outside the app should point
+function getAppBaseUrl(req: Request): string {
+  return process.env.SITE_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// For routes behind requirePermission, which only lets signed-in staff through
+function getStaffUserId(req: Request): string {
+  if (req.auth?.kind !== 'user') {
+    throw new Error('Expected a signed-in staff member');
+  }
+  return req.auth.userId;
+}
+
+// Answers that don't pass the form's template, by section and field, so the form can show
+// each message next to its input
+function hasAnswerErrors(res: Response, fieldErrors: AnswerErrors): boolean {
+  if (Object.keys(fieldErrors).length === 0) return false;
+  res.status(400).json({ error: "Some answers need fixing", fieldErrors });
+  return true;
+}
+
+// Adds a save of req.params.id to its revision history. The answers are already saved, so a
+// failure here is logged rather than failing the request.
+async function saveFormRevision(req: Request, previous: Record<string, unknown> | null | undefined, data: Record<string, unknown>, source: FormRevisionSource) {
+  try {
+    await recordFormRevision(storage, { formId: req.params.id, previous, data, source, auth: req.auth });
+  } catch (error) {
+    console.error("Error recording form revision:", error);
+  }
+}
+
+// Brand asset uploads send the file itself as the body
+const readUpload = express.raw({ type: () => true, limit: MAX_BRAND_ASSET_BYTES });
+
+function receiveUpload(req: Request, res: Response, next: NextFunction) {
+  readUpload(req, res, (error?: unknown) => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      res.status(413).json({ error: `Files can be up to ${MAX_BRAND_ASSET_BYTES / 1024 / 1024} MB` });
+      return;
+    }
+    next(error);
+  });
+}
+
+function sendInvitationEmail(req: Request, invitation: Invitation, inviteUrl: string) {
+  const sentBy = req.auth?.kind === 'user' ? req.auth : null;
+  return mailer.send({
+    to: invitation.email,
+    template: 'invitation',
+    data: { role: invitation.role, inviteUrl, invitedBy: sentBy?.email ?? null, expiresAt: new Date(invitation.expires_at) },
+    sentBy: sentBy?.userId ?? null,
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Every API request is identified first; each route then checks the permission it needs
+  app.use("/api", authenticate);
+
+  // Webhook configuration and delivery history are admin only
+  app.use(["/api/webhook-endpoints", "/api/webhook"], requirePermission("webhooks:manage"));
+
+  // So are users and invitations; accepting an invitation is open to the invitee
+  app.use("/api/team", requirePermission("team:manage"));
+  app.use("/api/email-log", requirePermission("emails:read"));
+  app.use("/api/notifications", requirePermission("notifications:read"));
+  app.use("/api/reports", requirePermission("forms:read"));
+  app.use("/api/form-templates", requirePermission("forms:read"));
+  app.use("/api/fonts", requirePermission("forms:read"));
+
+  // Wrong form passwords per form and IP address
+  const unlockLimiter = createFailureLimiter({ maxFailures: 5, windowMs: 15 * 60 * 1000 });
+
   // Form routes
-  app.post("/api/forms", async (req, res) => {
+  app.post("/api/forms", requirePermission("forms:create"), async (req, res) => {
+    try {
+      const { password, slug, template_id, ...formData } = createFormSchema.parse(req.body);
+
+      // Forms are pinned to the template version they start with
+      const templateVersion = template_id
+        ? await storage.getLatestFormTemplateVersion(template_id)
+        : await getDefaultTemplateVersion(storage);
+      if (template_id && !templateVersion) {
+        res.status(400).json({ error: "Pick a published template" });
+        return;
+      }
+
+      const actorId = req.auth?.kind === 'user' ? req.auth.userId : null;
+      const formSlug = slug || generateUniqueSlug(formData.client_name);
+      const form = await storage.createForm({
+        ...formData,
+        slug: formSlug,
+        password_hash: password ? hashFormPassword(password) : null,
+        created_by: actorId,
+        template_id: templateVersion?.template_id ?? null,
+        template_version_id: templateVersion?.id ?? null,
+      });
+
+      await dispatchNotification(storage, {
+        type: 'form_created',
+        form: { id: form.id, ...formData, slug: formSlug, progress: 0, status: 'pending' },
+        actorId,
+      });
+      res.json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/forms", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const forms = await storage.getForms();
+      res.json(forms);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/forms/:id", requireFormAccess("forms:read"), async (req, res) => {
     try {
-      const formData = insertFormSchema.parse(req.body);
-      const form = await storage.createForm(formData);
+      const form = await storage.getForm(parseInt(req.params.id));
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
       res.json(form);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/forms/:id/progress", requireFormAccess("forms:write"), async (req, res) => {
+    try {
+      const progress = z.number().min(0).max(100).parse(req.body.progress);
+      await storage.updateFormProgress(parseInt(req.params.id), progress);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Client access links. Each link carries its own token; revoking one leaves the others working.
+  app.post("/api/forms/:id/access-tokens", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const { sectionId, ttlHours } = createFormAccessTokenSchema.parse(req.body ?? {});
+
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const formId = String(form.id);
+
+      if (sectionId) {
+        const section = await storage.getSection(sectionId);
+        if (!section || String(await storage.getSectionFormId(section.id)) !== formId) {
+          res.status(404).json({ error: "Section not found" });
+          return;
+        }
+      }
+
+      const { token, tokenHash, expiresAt } = createFormAccessToken(formId, { sectionId, ttlHours });
+      const record = await storage.createFormAccessToken({
+        form_id: formId,
+        section_id: sectionId ?? null,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        created_by: req.auth?.kind === 'user' ? req.auth.userId : null,
+      });
+
+      // The token is only ever returned here; only its hash is stored
+      res.status(201).json({ id: record.id, token, sectionId: record.section_id, expiresAt: expiresAt.toISOString() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms/:id/access-tokens POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/forms/:id/access-tokens", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const tokens = await storage.getFormAccessTokens(req.params.id);
+      res.json(tokens.map(({ token_hash, ...token }) => token));
+    } catch (error) {
+      console.error("Error in /api/forms/:id/access-tokens GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/forms/:id/access-tokens/:tokenId", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const revoked = await storage.revokeFormAccessToken(req.params.id, req.params.tokenId);
+      if (!revoked) {
+        res.status(404).json({ error: "Access token not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/forms/:id/access-tokens DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Revision history of the form's answers, newest first
+  app.get("/api/forms/:id/revisions", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      res.json(await storage.getFormRevisions(String(form.id)));
+    } catch (error) {
+      console.error("Error in /api/forms/:id/revisions GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // What changed, field by field, from one revision to another. Either can be the older one.
+  app.get("/api/forms/:id/revisions/compare", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const { from, to } = compareFormRevisionsSchema.parse(req.query);
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const formId = String(form.id);
+
+      const [revisions, fromRevision, toRevision] = await Promise.all([
+        storage.getFormRevisions(formId),
+        storage.getFormRevision(formId, from),
+        storage.getFormRevision(formId, to),
+      ]);
+      const fromSummary = revisions.find(revision => revision.id === from);
+      const toSummary = revisions.find(revision => revision.id === to);
+      if (!fromRevision || !toRevision || !fromSummary || !toSummary) {
+        res.status(404).json({ error: "Revision not found" });
+        return;
+      }
+
+      const comparison: FormRevisionComparison = {
+        from: fromSummary,
+        to: toSummary,
+        changes: diffFormData(fromRevision.data, toRevision.data),
+      };
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms/:id/revisions/compare route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Puts a revision's answers back. The restore is itself a new revision, so nothing is lost,
+  // and the form.updated webhook goes out as for any other edit.
+  app.post("/api/forms/:id/revisions/:revisionId/restore", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const formId = String(form.id);
+      const revision = await storage.getFormRevision(formId, req.params.revisionId);
+      if (!revision) {
+        res.status(404).json({ error: "Revision not found" });
+        return;
+      }
+
+      const previous = (form as typeof form & { data?: Record<string, unknown> | null }).data;
+      if (diffFormData(previous, revision.data).length === 0) {
+        res.status(409).json({ error: "The form already has these answers" });
+        return;
+      }
+
+      await storage.updateClientForm(formId, { data: revision.data });
+      const restored = await recordFormRevision(storage, {
+        formId,
+        previous,
+        data: revision.data,
+        source: 'restore',
+        auth: req.auth,
+        restoredFrom: revision.id,
+      });
+      await storage.sendFormUpdatedWebhookNotification(formId, revision.data, previous ?? {});
+
+      res.json({ success: true, revision: restored });
+    } catch (error) {
+      console.error("Error in /api/forms/:id/revisions restore route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Brand assets: files uploaded for the form's file and font fields, checked and resized by the server
+  app.post("/api/forms/:id/assets", requireFormAccess("forms:write"), receiveUpload, async (req, res) => {
+    try {
+      const { field, name } = uploadBrandAssetSchema.parse(req.query);
+
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const saved = form as typeof form & { template_version_id?: string | null };
+      const { definition } = await resolveFormTemplate(storage, saved.template_version_id ?? null);
+      const [sectionKey, fieldKey] = field.split('.');
+      const fileField = getTemplateSection(definition, sectionKey)?.fields.find(candidate => candidate.key === fieldKey);
+      if (fileField?.type !== 'file' && fileField?.type !== 'font') {
+        res.status(400).json({ error: `The form has no file or font field called "${field}"` });
+        return;
+      }
+
+      const result = await processBrandAsset({
+        fileName: name,
+        body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        accept: fileField.type === 'font' ? FONT_FILE_ACCEPT : fileField.accept,
+      });
+      if ('error' in result) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      const asset = await saveBrandAsset(storage, assetStore, { formId: String(form.id), field, fileName: name, asset: result.asset, auth: req.auth });
+      res.status(201).json(asset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms/:id/assets POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/forms/:id/assets", requireFormAccess("forms:read"), async (req, res) => {
+    try {
+      res.json(await storage.getBrandAssets(req.params.id));
+    } catch (error) {
+      console.error("Error in /api/forms/:id/assets GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The main colours of an image, to suggest a palette from the logo. Read from the thumbnail,
+  // so files that aren't images have none.
+  app.get("/api/forms/:id/assets/:assetId/palette", requireFormAccess("forms:read"), async (req, res) => {
+    try {
+      const asset = await storage.getBrandAsset(req.params.id, req.params.assetId);
+      const thumbnail = asset?.variants.thumbnail;
+      const body = thumbnail ? await assetStore.get(thumbnail.key) : null;
+      if (!body) {
+        res.status(404).json({ error: "Image not found" });
+        return;
+      }
+      res.json({ colors: await getImagePalette(body) });
+    } catch (error) {
+      console.error("Error in /api/forms/:id/assets palette route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The file as uploaded, or one of its variants. Originals download; variants show inline.
+  app.get("/api/forms/:id/assets/:assetId/:variant", requireFormAccess("forms:read"), async (req, res) => {
+    try {
+      const variant = z.enum(['original', ...brandAssetVariantNames]).parse(req.params.variant);
+      const asset = await storage.getBrandAsset(req.params.id, req.params.assetId);
+      const file = variant === 'original'
+        ? asset && { key: asset.storage_key, content_type: asset.content_type }
+        : asset?.variants[variant];
+      const body = file ? await assetStore.get(file.key) : null;
+      if (!asset || !file || !body) {
+        res.status(404).json({ error: "File not found" });
+        return;
+      }
+
+      // Even a sanitised SVG should never run anything if it's opened on its own
+      res.set({
+        "Content-Type": file.content_type,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; img-src data:; style-src 'unsafe-inline'",
+      });
+      if (variant === 'original') {
+        res.attachment(asset.file_name);
+      }
+      res.send(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(404).json({ error: "File not found" });
+      } else {
+        console.error("Error in /api/forms/:id/assets file route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.delete("/api/forms/:id/assets/:assetId", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const asset = await storage.getBrandAsset(req.params.id, req.params.assetId);
+      if (!asset) {
+        res.status(404).json({ error: "File not found" });
+        return;
+      }
+
+      await storage.deleteBrandAsset(req.params.id, asset.id);
+      // The row is what makes a file reachable; a file left behind is only wasted space
+      await assetStore.delete(getBrandAssetKeys(asset)).catch(error => console.error("Error removing brand asset files:", error));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/forms/:id/assets DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The logo, fonts, design tokens and a brand sheet as one ZIP, for the design team
+  app.get("/api/forms/:id/brand-kit", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+
+      const saved = form as typeof form & { client_name?: string | null };
+      const [assets, catalogue] = await Promise.all([storage.getBrandAssets(String(form.id)), storage.getFontCatalogue()]);
+      const { tokens, zip } = await buildBrandKit(assetStore, saved, assets, catalogue);
+
+      res.set({ "Content-Type": "application/zip", "Cache-Control": "private, no-store" });
+      res.attachment(`${generateSlug(tokens.name) || 'brand'}-brand-kit.zip`);
+      res.send(zip);
+    } catch (error) {
+      console.error("Error in /api/forms/:id/brand-kit route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The client can download their own summary from the completion screen
+  app.get("/api/forms/:id/summary.pdf", requireFormAccess("forms:read"), async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+
+      const saved = form as typeof form & SummaryForm;
+      const pdf = await buildFormSummaryPdf(storage, assetStore, saved);
+
+      res.set({ "Content-Type": "application/pdf", "Cache-Control": "private, no-store" });
+      res.attachment(getFormSummaryFileName(saved));
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error in /api/forms/:id/summary.pdf route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Password protection. Setting a password ends every open unlock session for the form.
+  app.put("/api/forms/:id/password", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const { password } = setFormPasswordSchema.parse(req.body);
+
+      const lock = await storage.getFormLock(req.params.id);
+      if (!lock) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+
+      await storage.setFormPassword(lock.id, password ? hashFormPassword(password) : null);
+      res.json({ success: true, passwordProtected: !!password });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms/:id/password route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Exchange the password for a short-lived unlock token, sent back as X-Form-Unlock
+  app.post("/api/forms/:id/unlock", async (req, res) => {
+    try {
+      const { password } = unlockFormSchema.parse(req.body);
+
+      const form = await storage.getFormByIdOrSlug(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const formId = String(form.id);
+
+      // Only the holder of the form's link can try its password
+      if (req.auth?.kind !== 'form' || req.auth.formId !== formId || req.auth.state === 'closed') {
+        denyAccess(req, res);
+        return;
+      }
+
+      const lock = await storage.getFormLock(formId);
+      if (!lock?.password_hash) {
+        res.status(400).json({ error: "This form is not password protected" });
+        return;
+      }
+
+      const limiterKey = `${formId}:${req.ip}`;
+      const retryAfter = unlockLimiter.retryAfter(limiterKey);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        res.status(429).json({ error: "Too many incorrect attempts. Try again later.", retryAfter });
+        return;
+      }
+
+      if (!verifyFormPassword(password, lock.password_hash)) {
+        unlockLimiter.recordFailure(limiterKey);
+        res.status(401).json({ error: "Incorrect password" });
+        return;
+      }
+
+      unlockLimiter.reset(limiterKey);
+      const { token, expiresAt } = createFormUnlockToken(formId, lock.password_hash);
+      res.json({ unlockToken: token, expiresAt: expiresAt.toISOString() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/forms/:id/unlock route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Onboarding routes used by the client-facing form. Clients can't reach the forms and
+  // form_sections tables directly, so reads and writes go through here with their token.
+  app.get("/api/onboarding/sections/:shareId", async (req, res) => {
+    try {
+      const section = await storage.getSection(req.params.shareId);
+      if (!section) {
+        res.status(404).json({ error: "Section not found" });
+        return;
+      }
+      const formId = await storage.getSectionFormId(section.id);
+      if (!ensureFormAccess(req, res, formId, "forms:read", req.params.shareId)) {
+        return;
+      }
+      res.json(section);
+    } catch (error) {
+      console.error("Error in /api/onboarding/sections GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The form's template, for shared section links: their token can't read the form itself
+  app.get("/api/onboarding/sections/:shareId/template", async (req, res) => {
+    try {
+      const section = await storage.getSection(req.params.shareId);
+      if (!section) {
+        res.status(404).json({ error: "Section not found" });
+        return;
+      }
+      const formId = await storage.getSectionFormId(section.id);
+      if (!ensureFormAccess(req, res, formId, "forms:read", req.params.shareId)) {
+        return;
+      }
+
+      const templateVersionId = await storage.getFormTemplateVersionId(String(formId));
+      res.json(await resolveFormTemplate(storage, templateVersionId));
+    } catch (error) {
+      console.error("Error in /api/onboarding/sections template route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/onboarding/sections/:shareId", async (req, res) => {
+    try {
+      const data = z.record(z.any()).parse(req.body?.data);
+
+      const section = await storage.getSection(req.params.shareId);
+      if (!section) {
+        res.status(404).json({ error: "Section not found" });
+        return;
+      }
+      const formId = await storage.getSectionFormId(section.id);
+      if (!ensureFormAccess(req, res, formId, "forms:write", req.params.shareId)) {
+        return;
+      }
+
+      const templateVersionId = formId === null ? null : await storage.getFormTemplateVersionId(String(formId));
+      if (hasAnswerErrors(res, await checkFormAnswers(storage, templateVersionId, section.data as Record<string, unknown> | null, data))) {
+        return;
+      }
+
+      await storage.updateSectionDataByShareId(req.params.shareId, data);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/onboarding/sections PATCH route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Whether the form can be shown yet, so the page can put up the lock or closed screen
+  app.get("/api/onboarding/:idOrSlug/status", async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.idOrSlug);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const formId = String(form.id);
+
+      let state: FormAccessStatus['state'];
+      if (req.auth?.kind === 'form' && req.auth.formId === formId) {
+        state = req.auth.state;
+      } else if (canAccessForm(req.auth, formId, "forms:read")) {
+        // Staff preview forms whether or not they are protected or closed
+        state = 'open';
+      } else {
+        denyAccess(req, res);
+        return;
+      }
+
+      const status: FormAccessStatus = {
+        id: formId,
+        client_name: (form as typeof form & { client_name?: string | null }).client_name ?? null,
+        state,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Error in /api/onboarding status route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The questions to ask: the form's template, or the built-in default
+  app.get("/api/onboarding/:idOrSlug/template", async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.idOrSlug);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      if (!ensureFormAccess(req, res, form.id, "forms:read")) {
+        return;
+      }
+
+      const templateVersionId = (form as typeof form & { template_version_id?: string | null }).template_version_id ?? null;
+      res.json(await resolveFormTemplate(storage, templateVersionId));
+    } catch (error) {
+      console.error("Error in /api/onboarding template route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // What the form's font fields offer: the active catalogue and the fonts the client uploaded
+  app.get("/api/onboarding/:idOrSlug/fonts", async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.idOrSlug);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      if (!ensureFormAccess(req, res, form.id, "forms:read")) {
+        return;
+      }
+
+      const [catalogue, assets] = await Promise.all([storage.getFontCatalogue(), storage.getBrandAssets(String(form.id))]);
+      const fonts: FormFonts = {
+        catalogue: catalogue.filter(font => font.is_active),
+        uploaded: assets.flatMap(asset => asset.font ? [{ ...asset.font, assetId: asset.id, field: asset.field, fileName: asset.file_name }] : []),
+      };
+      res.json(fonts);
+    } catch (error) {
+      console.error("Error in /api/onboarding fonts route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/onboarding/:idOrSlug", async (req, res) => {
+    try {
+      const form = await storage.getFormByIdOrSlug(req.params.idOrSlug);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      if (!ensureFormAccess(req, res, form.id, "forms:read")) {
+        return;
+      }
+
+      // Never hand the form password to the browser
+      const { password, password_hash, ...publicForm } = form as typeof form & { password?: string | null; password_hash?: string | null };
+      res.json(publicForm);
+    } catch (error) {
+      console.error("Error in /api/onboarding GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/onboarding/:id", requireFormAccess("forms:write"), async (req, res) => {
+    try {
+      const { source, ...update } = clientFormUpdateSchema.parse(req.body);
+
+      let previous: Record<string, unknown> | null | undefined;
+      if (update.data) {
+        const form = await storage.getFormByIdOrSlug(req.params.id);
+        if (!form) {
+          res.status(404).json({ error: "Form not found" });
+          return;
+        }
+        const saved = form as typeof form & { data?: Record<string, unknown> | null; template_version_id?: string | null };
+        if (hasAnswerErrors(res, await checkFormAnswers(storage, saved.template_version_id ?? null, saved.data, update.data))) {
+          return;
+        }
+        previous = saved.data;
+      }
+
+      await storage.updateClientForm(req.params.id, update);
+      if (update.data) {
+        await saveFormRevision(req, previous, update.data, source ?? (req.auth?.kind === 'user' ? 'admin_edit' : 'api'));
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/onboarding PATCH route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Section routes
+  app.post("/api/sections", async (req, res) => {
+    try {
+      const sectionData = insertSectionSchema.parse(req.body);
+      if (!ensureFormAccess(req, res, sectionData.formId, "forms:write")) {
+        return;
+      }
+      const section = await storage.createSection(sectionData);
+      res.json(section);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/sections/:shareId", async (req, res) => {
+    try {
+      const section = await storage.getSection(req.params.shareId);
+      if (!section) {
+        res.status(404).json({ error: "Section not found" });
+        return;
+      }
+      const formId = await storage.getSectionFormId(section.id);
+      if (!ensureFormAccess(req, res, formId, "forms:read", req.params.shareId)) {
+        return;
+      }
+      res.json(section);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/sections/:id/data", async (req, res) => {
+    try {
+      const sectionId = parseInt(req.params.id);
+      const formId = await storage.getSectionFormId(sectionId);
+      if (formId === null) {
+        res.status(404).json({ error: "Section not found" });
+        return;
+      }
+      if (!ensureFormAccess(req, res, formId, "forms:write")) {
+        return;
+      }
+
+      const data = z.record(z.any()).parse(req.body);
+      const sectionName = await storage.getSectionName(sectionId);
+      const templateVersionId = await storage.getFormTemplateVersionId(String(formId));
+      const fieldErrors = sectionName ? await checkSectionAnswers(storage, templateVersionId, sectionName, data) : null;
+      if (!fieldErrors) {
+        res.status(400).json({ error: `The form has no section called "${sectionName}"` });
+        return;
+      }
+      if (hasAnswerErrors(res, fieldErrors)) {
+        return;
+      }
+
+      await storage.updateSectionData(sectionId, data);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.post("/api/forms/:id/reminder", requirePermission("forms:write"), async (req, res) => {
+    try {
+      const form = await storage.getFormContact(req.params.id);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+
+      const settings = await storage.getReminderSettings();
+      const email = await sendFormReminder(form, {
+        baseUrl: getAppBaseUrl(req),
+        sentBy: req.auth?.kind === 'user' ? req.auth.userId : null,
+        message: settings.customMessage,
+      });
+      if (email.status === 'failed') {
+        res.status(502).json({ error: "Failed to send the reminder email", details: email.error });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/forms/:id/reminder route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Automatic reminders; everyone can see the schedule, admins change it
+  app.get("/api/reminder-settings", requirePermission("forms:read"), async (req, res) => {
+    try {
+      const settings = await storage.getReminderSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error in /api/reminder-settings GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/reminder-settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const settings = reminderSettingsSchema.parse(req.body);
+      const saved = await storage.updateReminderSettings(settings);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/reminder-settings PUT route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Slack alerts for the whole team. The webhook URL is a credential, so only webhook admins see it.
+  app.get("/api/slack-settings", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const settings = await storage.getSlackSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error in /api/slack-settings GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/slack-settings", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const settings = slackSettingsSchema.parse(req.body);
+      const saved = await storage.updateSlackSettings(settings);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/slack-settings PUT route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.post("/api/slack-settings/test", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const options = slackTestMessageSchema.parse(req.body ?? {});
+      const saved = await storage.getSlackSettings();
+      const webhookUrl = options.webhookUrl || saved.webhookUrl;
+      const channel = options.channel ?? saved.channel;
+      if (!webhookUrl) {
+        res.status(400).json({ error: "Add a Slack webhook URL first" });
+        return;
+      }
+
+      try {
+        await sendSlackMessage(webhookUrl, {
+          ...buildSlackTestMessage(getAppBaseUrl(req)),
+          ...(channel ? { channel } : {}),
+        });
+      } catch (error) {
+        res.status(502).json({
+          error: "Failed to send the Slack test message",
+          details: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/slack-settings/test route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Notifications for the signed-in staff member
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      const filters = notificationFiltersSchema.parse(req.query);
+      const userId = getStaffUserId(req);
+      const [result, counts] = await Promise.all([
+        storage.getNotifications(userId, filters),
+        storage.getNotificationCounts(userId),
+      ]);
+      res.json({ ...result, counts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/notifications route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/notifications/counts", async (req, res) => {
+    try {
+      const userId = getStaffUserId(req);
+      res.json(await storage.getNotificationCounts(userId));
+    } catch (error) {
+      console.error("Error in /api/notifications/counts route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/notifications/preferences", async (req, res) => {
+    try {
+      const userId = getStaffUserId(req);
+      res.json(await storage.getNotificationPreferences(userId));
+    } catch (error) {
+      console.error("Error in /api/notifications/preferences route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", async (req, res) => {
+    try {
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      const userId = getStaffUserId(req);
+      res.json(await storage.updateNotificationPreferences(userId, preferences));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/notifications/preferences PUT route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.post("/api/notifications/read-all", async (req, res) => {
+    try {
+      const userId = getStaffUserId(req);
+      const updated = await storage.markAllNotificationsRead(userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error in /api/notifications/read-all route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", async (req, res) => {
+    try {
+      const userId = getStaffUserId(req);
+      const notification = await storage.markNotificationRead(userId, req.params.id);
+      if (!notification) {
+        res.status(404).json({ error: "Notification not found" });
+        return;
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error in /api/notifications/:id/read route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/notifications/:id", async (req, res) => {
+    try {
+      const userId = getStaffUserId(req);
+      const dismissed = await storage.dismissNotification(userId, req.params.id);
+      if (!dismissed) {
+        res.status(404).json({ error: "Notification not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/notifications DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // What was emailed to whom
+  app.get("/api/email-log", async (req, res) => {
+    try {
+      const filters = emailLogFiltersSchema.parse(req.query);
+      const result = await storage.getEmailLog(filters);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/email-log route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Saved digest reports; each one has a permalink at /admin/reports/:id
+  app.get("/api/reports", async (req, res) => {
+    try {
+      const filters = digestReportFiltersSchema.parse(req.query);
+      res.json(await storage.getDigestReports(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/reports route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // The period in progress so far, built on request and not saved
+  app.get("/api/reports/preview", async (req, res) => {
+    try {
+      const { period } = digestPreviewSchema.parse(req.query);
+      const { stalledAfterDays } = getDigestSchedulerConfig();
+      res.json(await buildDigestReport(storage, period, getCurrentDigestRange(period), stalledAfterDays));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/reports/preview route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/reports/:id", async (req, res) => {
+    try {
+      const report = await storage.getDigestReport(req.params.id);
+      if (!report) {
+        res.status(404).json({ error: "Report not found" });
+        return;
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error in /api/reports/:id route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Form templates. Staff can see them all; only admins change them.
+  app.get("/api/form-templates", async (req, res) => {
+    try {
+      res.json(await storage.getFormTemplates());
+    } catch (error) {
+      console.error("Error in /api/form-templates GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The built-in template, used by forms without one of their own
+  app.get("/api/form-templates/built-in", (req, res) => {
+    res.json(builtInFormTemplate);
+  });
+
+  app.get("/api/form-templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getFormTemplate(req.params.id);
+      if (!template) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error in /api/form-templates/:id GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/form-templates", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const template = createFormTemplateSchema.parse(req.body);
+      const created = await storage.createFormTemplate({ ...template, created_by: getStaffUserId(req) });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/form-templates POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Edits the draft; forms don't see it until it's published
+  app.patch("/api/form-templates/:id", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const update = updateFormTemplateSchema.parse(req.body);
+      const existing = await storage.getFormTemplate(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+      if (update.is_default && existing.published_version === null) {
+        res.status(400).json({ error: "Publish the template before making it the default" });
+        return;
+      }
+
+      const template = await storage.updateFormTemplate(existing.id, update);
+      if (!template) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+      res.json(template);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
+        console.error("Error in /api/form-templates PATCH route:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
-  app.get("/api/forms", async (req, res) => {
+  app.post("/api/form-templates/:id/publish", requirePermission("templates:manage"), async (req, res) => {
     try {
-      const forms = await storage.getForms();
-      res.json(forms);
+      const version = await storage.publishFormTemplate(req.params.id, getStaffUserId(req));
+      if (!version) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+      res.status(201).json(version);
     } catch (error) {
+      console.error("Error in /api/form-templates/:id/publish route:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/forms/:id", async (req, res) => {
+  app.get("/api/form-templates/:id/versions", async (req, res) => {
     try {
-      const form = await storage.getForm(parseInt(req.params.id));
-      if (!form) {
-        res.status(404).json({ error: "Form not found" });
+      const template = await storage.getFormTemplate(req.params.id);
+      if (!template) {
+        res.status(404).json({ error: "Template not found" });
         return;
       }
-      res.json(form);
+      res.json(await storage.getFormTemplateVersions(template.id));
     } catch (error) {
+      console.error("Error in /api/form-templates/:id/versions route:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.patch("/api/forms/:id/progress", async (req, res) => {
+  // Forms keep asking their template's questions, so a template in use can't be deleted
+  app.delete("/api/form-templates/:id", requirePermission("templates:manage"), async (req, res) => {
     try {
-      const progress = z.number().min(0).max(100).parse(req.body.progress);
-      await storage.updateFormProgress(parseInt(req.params.id), progress);
-      res.json({ success: true });
+      const template = await storage.getFormTemplate(req.params.id);
+      if (!template) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+
+      const formCount = await storage.countFormsUsingTemplate(template.id);
+      if (formCount > 0) {
+        res.status(409).json({ error: `This template is used by ${formCount} form${formCount === 1 ? '' : 's'}` });
+        return;
+      }
+
+      await storage.deleteFormTemplate(template.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error in /api/form-templates DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The font catalogue. Staff can see it all; only admins change it.
+  app.get("/api/fonts", async (req, res) => {
+    try {
+      res.json(await storage.getFontCatalogue());
+    } catch (error) {
+      console.error("Error in /api/fonts GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Families are unique, whatever their capitals or spacing
+  const findFontFamilyClash = async (family: string, exceptId?: string) => {
+    const existing = findCatalogueFont(await storage.getFontCatalogue(), family);
+    return existing && existing.id !== exceptId ? existing : undefined;
+  };
+
+  app.post("/api/fonts", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const font = catalogueFontSchema.parse(req.body);
+      const clash = await findFontFamilyClash(font.family);
+      if (clash) {
+        res.status(409).json({ error: `${clash.family} is already in the catalogue` });
+        return;
+      }
+      res.status(201).json(await storage.createCatalogueFont(font));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
+        console.error("Error in /api/fonts POST route:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
-  // Section routes
-  app.post("/api/sections", async (req, res) => {
+  app.patch("/api/fonts/:id", requirePermission("templates:manage"), async (req, res) => {
     try {
-      const sectionData = insertSectionSchema.parse(req.body);
-      const section = await storage.createSection(sectionData);
-      res.json(section);
+      const update = updateCatalogueFontSchema.parse(req.body);
+      const clash = update.family ? await findFontFamilyClash(update.family, req.params.id) : undefined;
+      if (clash) {
+        res.status(409).json({ error: `${clash.family} is already in the catalogue` });
+        return;
+      }
+
+      const font = await storage.updateCatalogueFont(req.params.id, update);
+      if (!font) {
+        res.status(404).json({ error: "Font not found" });
+        return;
+      }
+      res.json(font);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
+        console.error("Error in /api/fonts PATCH route:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
-  app.get("/api/sections/:shareId", async (req, res) => {
+  // Answers keep the family name, so removing a font never changes a saved form
+  app.delete("/api/fonts/:id", requirePermission("templates:manage"), async (req, res) => {
     try {
-      const section = await storage.getSection(req.params.shareId);
-      if (!section) {
-        res.status(404).json({ error: "Section not found" });
+      const font = await storage.getCatalogueFont(req.params.id);
+      if (!font) {
+        res.status(404).json({ error: "Font not found" });
         return;
       }
-      res.json(section);
+      await storage.deleteCatalogueFont(font.id);
+      res.status(204).end();
     } catch (error) {
+      console.error("Error in /api/fonts DELETE route:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.patch("/api/sections/:id/data", async (req, res) => {
+  // Team routes
+  app.get("/api/team/members", async (req, res) => {
     try {
-      const data = businessDetailsSchema.parse(req.body);
-      await storage.updateSectionData(parseInt(req.params.id), data);
-      res.json({ success: true });
+      const members = await storage.getTeamMembers();
+      res.json(members);
+    } catch (error) {
+      console.error("Error in /api/team/members GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/team/members/:userId", async (req, res) => {
+    try {
+      const { role, active } = updateTeamMemberSchema.parse(req.body);
+
+      // Admins can't lock themselves out, which also keeps at least one active admin
+      if (req.auth?.kind === 'user' && req.auth.userId === req.params.userId) {
+        res.status(400).json({ error: "You can't change your own role or deactivate yourself" });
+        return;
+      }
+
+      const member = await storage.updateTeamMember(req.params.userId, {
+        role,
+        deactivated_at: active === undefined ? undefined : active ? null : new Date(),
+      });
+      if (!member) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      res.json(member);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
+        console.error("Error in /api/team/members PATCH route:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
-  app.post("/api/forms/:id/reminder", async (req, res) => {
+  app.get("/api/team/invitations", async (req, res) => {
     try {
-      await storage.updateLastReminder(parseInt(req.params.id));
-      // Here we would integrate with an email service
-      res.json({ success: true });
+      const invitations = await storage.getInvitations();
+      res.json(invitations.map(invitation => toInvitationSummary(invitation)));
     } catch (error) {
+      console.error("Error in /api/team/invitations GET route:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Webhook settings routes - updated for system-wide settings
-  app.get("/api/webhook-settings", async (req, res) => {
+  // The invitation link is only returned here and when resending
+  app.post("/api/team/invitations", async (req, res) => {
     try {
-      const settings = await storage.getWebhookSettings(); // This now returns a full SystemSettings object or defaults
-      
-      // Return the webhook settings, ensuring url and secret are strings for the client
-      res.json({
-        webhookUrl: settings.webhookUrl || "",
-        webhookEnabled: settings.webhookEnabled === null ? false : settings.webhookEnabled, // handle null from DB if not set by new defaults yet
-        webhookSecret: settings.webhookSecret || "",
-        notifyOnSectionCompletion: settings.notifyOnSectionCompletion === null ? false : settings.notifyOnSectionCompletion,
-        notifyOnFormCompletion: settings.notifyOnFormCompletion === null ? true : settings.notifyOnFormCompletion,
+      const { email, role } = createInvitationSchema.parse(req.body);
+
+      const member = await storage.getTeamMemberByEmail(email);
+      if (member && !member.deactivated_at) {
+        res.status(409).json({ error: "This person is already on the team" });
+        return;
+      }
+      if (await storage.getPendingInvitationByEmail(email)) {
+        res.status(409).json({ error: "This person already has a pending invitation. Resend it instead." });
+        return;
+      }
+
+      const { token, tokenHash, expiresAt } = createInvitationToken();
+      const invitation = await storage.createInvitation({
+        email,
+        role,
+        token: tokenHash,
+        expires_at: expiresAt,
+        invited_by: req.auth?.kind === 'user' ? req.auth.userId : null,
       });
+
+      const inviteUrl = getInvitationUrl(getAppBaseUrl(req), token);
+      const sent = await sendInvitationEmail(req, invitation, inviteUrl);
+
+      res.status(201).json({ invitation: toInvitationSummary(invitation), inviteUrl, emailSent: sent.status === 'sent' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/team/invitations POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Issue a new link with a fresh expiry; the previous link stops working
+  app.post("/api/team/invitations/:id/resend", async (req, res) => {
+    try {
+      const existing = await storage.getInvitation(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Invitation not found" });
+        return;
+      }
+      if (existing.status === 'accepted' || existing.status === 'revoked') {
+        res.status(409).json({ error: `This invitation has been ${existing.status}` });
+        return;
+      }
+
+      const { token, tokenHash, expiresAt } = createInvitationToken();
+      const invitation = await storage.updateInvitation(existing.id, { token: tokenHash, expires_at: expiresAt, status: 'pending' });
+
+      const inviteUrl = getInvitationUrl(getAppBaseUrl(req), token);
+      const sent = await sendInvitationEmail(req, invitation, inviteUrl);
+
+      res.json({ invitation: toInvitationSummary(invitation), inviteUrl, emailSent: sent.status === 'sent' });
+    } catch (error) {
+      console.error("Error in /api/team/invitations/:id/resend route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/team/invitations/:id", async (req, res) => {
+    try {
+      const existing = await storage.getInvitation(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Invitation not found" });
+        return;
+      }
+      if (existing.status === 'accepted') {
+        res.status(409).json({ error: "This invitation has already been accepted. Deactivate the user instead." });
+        return;
+      }
+
+      const invitation = await storage.updateInvitation(existing.id, { status: 'revoked' });
+      res.json(toInvitationSummary(invitation));
     } catch (error) {
-      // The storage.getWebhookSettings should ideally not throw anymore if it returns defaults on error.
-      // However, if it does due to an unexpected issue, this catch block will handle it.
-      console.error("Error in /api/webhook-settings GET route:", error);
-      res.status(500).json({ error: "Internal server error retrieving webhook settings" });
+      console.error("Error in /api/team/invitations DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/webhook-settings", async (req, res) => {
+  // Invitation acceptance. The token in the link is the only credential needed.
+  app.get("/api/invitations/:token", async (req, res) => {
     try {
-      // Validate incoming data. Schema allows optional webhookSecret.
-      const validatedSettings = webhookSettingsSchema.parse(req.body);
-      let finalSettings: Partial<Omit<SystemSettings, 'id' | 'createdAt' | 'updatedAt'>> = {
-        webhookUrl: validatedSettings.webhookUrl,
-        webhookEnabled: validatedSettings.webhookEnabled,
-        // webhookSecret is optional, pass it if present, otherwise storage will handle default (null)
-        notifyOnSectionCompletion: validatedSettings.notifyOnSectionCompletion,
-        notifyOnFormCompletion: validatedSettings.notifyOnFormCompletion,
+      const invitation = await storage.getInvitationByTokenHash(hashInvitationToken(req.params.token));
+      if (!invitation || invitation.status === 'revoked') {
+        res.status(404).json({ error: "Invitation not found" });
+        return;
+      }
+
+      const status = getInvitationStatus(invitation);
+      if (status === 'accepted') {
+        res.status(409).json({ error: "This invitation has already been used" });
+        return;
+      }
+      if (status === 'expired') {
+        res.status(410).json({ error: "This invitation has expired. Ask an admin to resend it." });
+        return;
+      }
+
+      const preview: InvitationPreview = {
+        email: invitation.email,
+        role: invitation.role,
+        expires_at: new Date(invitation.expires_at).toISOString(),
       };
+      res.json(preview);
+    } catch (error) {
+      console.error("Error in /api/invitations GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Signed-in users accept for their own account; anyone else creates one with a password
+  app.post("/api/invitations/:token/accept", async (req, res) => {
+    try {
+      const { name, password } = acceptInvitationSchema.parse(req.body);
+
+      const invitation = await storage.getInvitationByTokenHash(hashInvitationToken(req.params.token));
+      if (!invitation || invitation.status === 'revoked') {
+        res.status(404).json({ error: "Invitation not found" });
+        return;
+      }
 
-      if (validatedSettings.webhookSecret !== undefined) {
-        finalSettings.webhookSecret = validatedSettings.webhookSecret;
+      const status = getInvitationStatus(invitation);
+      if (status === 'accepted') {
+        res.status(409).json({ error: "This invitation has already been used" });
+        return;
       }
-      
-      // Generate a new secret if requested, overriding any secret from body
+      if (status === 'expired') {
+        res.status(410).json({ error: "This invitation has expired. Ask an admin to resend it." });
+        return;
+      }
+
+      let userId: string;
+      if (req.auth?.kind === 'user') {
+        if (req.auth.email?.toLowerCase() !== invitation.email.toLowerCase()) {
+          res.status(403).json({ error: `This invitation is for ${invitation.email}. Sign out and try again.` });
+          return;
+        }
+        userId = req.auth.userId;
+      } else {
+        if (!password) {
+          res.status(400).json({ error: "Password is required" });
+          return;
+        }
+        const user = await storage.createAuthUser(invitation.email, password);
+        if (!user) {
+          res.status(409).json({ error: "An account with this email already exists. Sign in, then open the invitation link again." });
+          return;
+        }
+        userId = user.id;
+      }
+
+      const member = await storage.addTeamMember({ user_id: userId, email: invitation.email, name, role: invitation.role });
+      await storage.updateInvitation(invitation.id, { status: 'accepted', accepted_at: new Date() });
+
+      res.json({ email: member.email, role: member.role });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/invitations/:token/accept route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Webhook endpoint routes
+  app.get("/api/webhook-endpoints", async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpoints();
+      res.json(endpoints);
+    } catch (error) {
+      console.error("Error in /api/webhook-endpoints GET route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/webhook-endpoints", async (req, res) => {
+    try {
+      const endpoint = webhookEndpointSchema.parse(req.body);
+      const created = await storage.createWebhookEndpoint(endpoint);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/webhook-endpoints POST route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.patch("/api/webhook-endpoints/:id", async (req, res) => {
+    try {
+      const updates = updateWebhookEndpointSchema.parse(req.body);
+
+      const existing = await storage.getWebhookEndpoint(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
+        return;
+      }
+
+      // Generate a new secret if requested, overriding any secret from body.
+      // Either way a changed secret is rotated, so the old one keeps working for a while.
       if (req.query.generateSecret === "true") {
-        finalSettings.webhookSecret = await storage.generateWebhookSecret();
+        updates.secret = await storage.generateWebhookSecret();
       }
-      
-      await storage.updateWebhookSettings(finalSettings);
-      
-      // Return the state as it should be in the DB (secret might be null)
-      // The client expects strings, so convert nulls to empty strings for url/secret here.
-      const currentSettings = await storage.getWebhookSettings();
-      res.json({
-        success: true,
-        webhookUrl: currentSettings.webhookUrl || "",
-        webhookEnabled: currentSettings.webhookEnabled || false,
-        webhookSecret: currentSettings.webhookSecret || "",
-        notifyOnSectionCompletion: currentSettings.notifyOnSectionCompletion || false,
-        notifyOnFormCompletion: currentSettings.notifyOnFormCompletion === null ? true : currentSettings.notifyOnFormCompletion,
-      });
+
+      const endpoint = await storage.updateWebhookEndpoint(req.params.id, updates);
+      res.json(endpoint);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/webhook-endpoints PATCH route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // Issue a new secret; the old one keeps signing deliveries for the grace period
+  app.post("/api/webhook-endpoints/:id/rotate-secret", async (req, res) => {
+    try {
+      const rotation = rotateWebhookSecretSchema.parse(req.body ?? {});
+
+      const existing = await storage.getWebhookEndpoint(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
+        return;
+      }
+
+      const endpoint = await storage.rotateWebhookEndpointSecret(req.params.id, rotation);
+      res.json(endpoint);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
-        console.error("Error in /api/webhook-settings POST route:", error);
-        res.status(500).json({ error: "Internal server error updating webhook settings" });
+        console.error("Error in /api/webhook-endpoints rotate-secret route:", error);
+        res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
+  app.delete("/api/webhook-endpoints/:id", async (req, res) => {
+    try {
+      await storage.deleteWebhookEndpoint(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/webhook-endpoints DELETE route:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Form submission routes
   app.post("/api/submissions", async (req, res) => {
     try {
@@ -187,6 +1633,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         clientIp: clientIp?.toString(),
         userAgent
       });
+
+      // Clients can only submit against the form their token opens
+      if (!ensureFormAccess(req, res, submissionData.formId, "forms:write")) {
+        return;
+      }
       
       // Create the submission record
       const submission = await storage.createSubmission(submissionData);
@@ -206,7 +1657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/forms/:id/submissions", async (req, res) => {
+  app.get("/api/forms/:id/submissions", requirePermission("submissions:read"), async (req, res) => {
     try {
       const formId = parseInt(req.params.id);
       const submissions = await storage.getSubmissions(formId);
@@ -217,7 +1668,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New endpoint to get all submissions across all forms
-  app.get("/api/submissions", async (req, res) => {
+  app.get("/api/submissions", requirePermission("submissions:read"), async (req, res) => {
     try {
       const submissions = await storage.getAllSubmissions();
       res.json(submissions);
@@ -226,7 +1677,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/forms/:id/complete", async (req, res) => {
+  app.post("/api/forms/:id/complete", requireFormAccess("forms:write"), async (req, res) => {
     try {
       const formIdParam = req.params.id;
       // The existing storage implementation expects a number ID. If your IDs are UUIDs
@@ -241,10 +1692,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const success = await storage.sendFormCompletionWebhookNotification(formId);
 
+      // Emails and notifications are a courtesy; the form is complete whether or not they go out
+      try {
+        const form = await storage.getFormContact(formIdParam);
+        if (form) {
+          await dispatchNotification(storage, { type: 'form_completed', form }, { baseUrl: getAppBaseUrl(req) });
+          await sendCompletionReceipt(form);
+        }
+      } catch (error) {
+        console.error("Error sending completion emails:", error);
+      }
+
       if (!success) {
         // The webhook call can legitimately return false (e.g. disabled). We still
         // return 200 to the client but include the success flag for transparency.
-        res.json({ success: false, message: "Webhook not sent (disabled or mis-configured)." });
+        res.json({ success: false, message: "Webhook not sent (no subscribed endpoints or delivery failed)." });
         return;
       }
 
@@ -256,48 +1718,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Webhook testing endpoints
-  app.post("/api/webhook/test", async (req, res) => {
+  app.post("/api/webhook-endpoints/:id/test", async (req, res) => {
     try {
-      const settings = await storage.getWebhookSettings();
-      
-      if (!settings.webhookEnabled || !settings.webhookUrl) {
-        res.status(400).json({ error: "Webhook not configured or disabled" });
+      const endpoint = await storage.getWebhookEndpoint(req.params.id);
+      if (!endpoint) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
         return;
       }
 
-      // Create a test payload
-      const testPayload = {
-        event: 'webhook.test',
-        timestamp: new Date().toISOString(),
-        data: {
-          message: 'This is a test webhook from your onboarding forms system',
-          test_id: Math.random().toString(36).substring(7)
-        }
-      };
-
-      // Generate signature if secret is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
+      const delivery = await storage.sendTestWebhook(endpoint.id);
 
-      if (settings.webhookSecret) {
-        const crypto = require('crypto');
-        const signature = crypto
-          .createHmac('sha256', settings.webhookSecret)
-          .update(JSON.stringify(testPayload))
-          .digest('hex');
-        
-        headers['X-Webhook-Signature'] = signature;
-      }
-
-      // Send the test webhook
-      const axios = require('axios');
-      await axios.post(settings.webhookUrl, testPayload, { 
-        headers,
-        timeout: 10000 // 10 second timeout
-      });
+      if (delivery.status !== 'succeeded') {
+        res.status(502).json({
+          error: "Failed to send test webhook",
+          details: delivery.last_error || "Unknown error",
+          delivery
+        });
+        return;
+      }
 
-      res.json({ success: true, message: "Test webhook sent successfully" });
+      res.json({ success: true, message: "Test webhook sent successfully", delivery });
     } catch (error) {
       console.error("Webhook test error:", error);
       res.status(500).json({ 
@@ -336,7 +1776,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const success = await storage.sendFormUpdatedWebhookNotification(formId, newData, oldData);
 
       if (!success) {
-        res.json({ success: false, message: "Webhook not sent (disabled or mis-configured)." });
+        res.json({ success: false, message: "Webhook not sent (no subscribed endpoints or delivery failed)." });
         return;
       }
 
@@ -350,8 +1790,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Catalogue of webhook events with JSON Schemas for each envelope
+  app.get("/api/webhook/events", (req, res) => {
+    try {
+      res.json(getWebhookEventCatalogue());
+    } catch (error) {
+      console.error("Error building webhook event catalogue:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Webhook delivery history and analytics
+  app.get("/api/webhook/deliveries", async (req, res) => {
+    try {
+      const filters = webhookDeliveryFiltersSchema.parse(req.query);
+      const result = await storage.getWebhookDeliveries(filters);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/webhook/deliveries GET route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  app.get("/api/webhook/deliveries/:id", async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        res.status(404).json({ error: "Webhook delivery not found" });
+        return;
+      }
+      res.json(delivery);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/webhook/deliveries/:id/redeliver", async (req, res) => {
+    try {
+      const original = await storage.getWebhookDelivery(req.params.id);
+      if (!original) {
+        res.status(404).json({ error: "Webhook delivery not found" });
+        return;
+      }
+
+      const delivery = await storage.redeliverWebhookDelivery(original.id);
+      res.json({ success: delivery.status === 'succeeded', delivery });
+    } catch (error) {
+      console.error("Webhook redeliver error:", error);
+      res.status(500).json({
+        error: "Failed to redeliver webhook",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/webhook/stats", async (req, res) => {
+    try {
+      const days = z.coerce.number().int().min(1).max(90).default(30).parse(req.query.days);
+      const stats = await storage.getWebhookStats(days);
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error("Error in /api/webhook/stats GET route:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
   // Update form data endpoint with webhook trigger
-  app.patch("/api/forms/:id/data", async (req, res) => {
+  app.patch("/api/forms/:id/data", requireFormAccess("forms:write"), async (req, res) => {
     try {
       const formId = parseInt(req.params.id, 10);
       
@@ -360,11 +1873,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      const data = req.body;
+      const data = z.record(z.any()).parse(req.body);
+      const form = await storage.getForm(formId);
+      if (!form) {
+        res.status(404).json({ error: "Form not found" });
+        return;
+      }
+      const saved = form as typeof form & { data?: Record<string, unknown> | null; template_version_id?: string | null };
+      if (hasAnswerErrors(res, await checkFormAnswers(storage, saved.template_version_id ?? null, saved.data, data))) {
+        return;
+      }
+
       await storage.updateFormData(formId, data);
+      await saveFormRevision(req, saved.data, data, 'api');
       
       res.json({ success: true, message: "Form data updated successfully" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+        return;
+      }
       console.error("Form data update error:", error);
       res.status(500).json({ 
         error: "Failed to update form data", 
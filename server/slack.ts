@@ -0,0 +1,113 @@
+import axios from 'axios';
+import type { NotificationContent, NotificationEvent } from './notifications';
+
+// Block Kit objects are passed through to Slack as-is
+export type SlackBlock = Record<string, unknown>;
+
+export interface SlackMessage {
+  text: string; // Shown in push notifications and by clients that can't render blocks
+  blocks: SlackBlock[];
+  channel?: string;
+}
+
+const SLACK_TIMEOUT_MS = 10000;
+
+// Slack's header blocks are limited to 150 characters
+const MAX_HEADER_LENGTH = 150;
+
+// Slack treats &, < and > as control characters in mrkdwn
+function escapeSlackText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function header(text: string): SlackBlock {
+  const title = text.length > MAX_HEADER_LENGTH ? `${text.slice(0, MAX_HEADER_LENGTH - 1)}…` : text;
+  return { type: 'header', text: { type: 'plain_text', text: title, emoji: true } };
+}
+
+function fields(values: Array<[string, string | number | null | undefined]>): SlackBlock {
+  return {
+    type: 'section',
+    fields: values
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([label, value]) => ({ type: 'mrkdwn', text: `*${label}*\n${escapeSlackText(String(value))}` })),
+  };
+}
+
+function eventFields(event: NotificationEvent): SlackBlock {
+  switch (event.type) {
+    case 'webhook_failed':
+      return fields([
+        ['Event', event.delivery.event],
+        ['Endpoint', event.delivery.url],
+        ['Attempts', event.delivery.attempt_count ?? 0],
+        ['Last error', event.delivery.last_error],
+      ]);
+    case 'section_completed':
+      return fields([
+        ['Client', event.form.client_name],
+        ['Email', event.form.client_email],
+        ['Section', event.sectionName],
+        ['Progress', event.form.progress === null ? null : `${event.form.progress}%`],
+      ]);
+    default:
+      return fields([
+        ['Client', event.form.client_name],
+        ['Email', event.form.client_email],
+      ]);
+  }
+}
+
+// The button is left out when there's no base URL to link to
+export function buildSlackMessage(event: NotificationEvent, content: NotificationContent, baseUrl?: string): SlackMessage {
+  const blocks: SlackBlock[] = [
+    header(content.title),
+    { type: 'section', text: { type: 'mrkdwn', text: escapeSlackText(content.message) } },
+    eventFields(event),
+  ];
+
+  if (baseUrl) {
+    blocks.push({
+      type: 'actions',
+      elements: [{
+        type: 'button',
+        text: { type: 'plain_text', text: content.link.label },
+        url: `${baseUrl.replace(/\/$/, '')}${content.link.path}`,
+        style: event.type === 'webhook_failed' ? 'danger' : 'primary',
+      }],
+    });
+  }
+
+  return { text: `${content.title}: ${content.message}`, blocks };
+}
+
+export function buildSlackTestMessage(baseUrl?: string): SlackMessage {
+  const message = 'Form completions, section completions and webhook failures will be posted here, depending on your settings.';
+  const blocks: SlackBlock[] = [
+    header('Slack is connected'),
+    { type: 'section', text: { type: 'mrkdwn', text: message } },
+  ];
+  if (baseUrl) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Sent from <${baseUrl.replace(/\/$/, '')}/admin/webhook-settings|Sixty Seconds settings>` }],
+    });
+  }
+  return { text: `Slack is connected. ${message}`, blocks };
+}
+
+// Throws with Slack's reply (e.g. "invalid_payload" or "no_service") when the post is refused
+export async function sendSlackMessage(webhookUrl: string, message: SlackMessage): Promise<void> {
+  try {
+    await axios.post(webhookUrl, message, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: SLACK_TIMEOUT_MS,
+    });
+  } catch (error: any) {
+    if (error?.response) {
+      const body = typeof error.response.data === 'string' ? error.response.data : JSON.stringify(error.response.data);
+      throw new Error(`Slack responded with ${error.response.status}${body ? `: ${body}` : ''}`);
+    }
+    throw error;
+  }
+}
@@ -1,7 +1,59 @@
-import { type User, type InsertUser, type OnboardingForm, type InsertForm, type FormSection, type InsertSection, type FormSubmission, type InsertFormSubmission, type SystemSettings, type IStorage } from "./types";
+import { type User, type InsertUser, type OnboardingForm, type NewForm, type FormSection, type InsertSection, type FormSubmission, type InsertFormSubmission, type WebhookEndpoint, type InsertWebhookEndpoint, type UpdateWebhookEndpoint, type RotateWebhookSecret, type WebhookEventType, type WebhookEvent, type WebhookSigningOptions, type WebhookDelivery, type WebhookDeliveryFilters, type WebhookStats, type FormAccessToken, type InsertFormAccessToken, type ClientFormUpdate, type FormLock, type TeamMember, type NewTeamMember, type TeamMemberUpdate, type Invitation, type InsertInvitationRecord, type InvitationUpdate, type FormContact, type EmailLogEntry, type InsertEmailLog, type EmailLogFilters, type RemindableForm, type ReminderSettings, type Notification, type InsertNotification, type NotificationFilters, type NotificationCounts, type NotificationPreferences, type SlackSettings, type DigestForm, type WebhookFailureCounts, type InsertDigestReport, type DigestReportRecord, type DigestReportFilters, type DigestPeriod, type FormTemplate, type FormTemplateVersion, type InsertFormTemplate, type UpdateFormTemplate, type FormRevision, type FormRevisionSummary, type InsertFormRevision, type BrandAsset, type InsertBrandAsset, type CatalogueFont, type CreateCatalogueFont, type UpdateCatalogueFont, type IStorage } from "./types";
 import { createClient } from '@supabase/supabase-js';
 import axios from 'axios';
 import crypto from 'crypto';
+import type { UserRole } from '@shared/permissions';
+import { getNextRetryAt } from './webhookWorker';
+import { summarizeWebhookDeliveries } from './webhookStats';
+import { signWebhookPayload, WEBHOOK_ID_HEADER, WEBHOOK_SIGNATURE_HEADER } from '@shared/webhookSignature';
+import { createWebhookEvent } from './webhookEvents';
+import { hashFormPassword } from './formAccess';
+import { defaultNotificationPreferences, defaultReminderSettings, defaultSlackSettings, notificationPreferencesSchema } from '@shared/schema';
+import { dispatchNotification } from './notifications';
+
+// Receiver responses are stored for debugging; cap them so a large error page doesn't bloat the log
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+function truncateResponseBody(body: unknown): string | null {
+  if (body === undefined || body === null || body === '') return null;
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return text.length > MAX_RESPONSE_BODY_LENGTH ? text.slice(0, MAX_RESPONSE_BODY_LENGTH) : text;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TEAM_MEMBER_COLUMNS = 'user_id, email, name, role, deactivated_at, created_at';
+
+// Saved preferences predate any alert added since, so missing alerts fall back to the defaults
+function withDefaultPreferences(stored: any): NotificationPreferences {
+  const merged = {
+    ...defaultNotificationPreferences,
+    ...stored,
+    alerts: { ...defaultNotificationPreferences.alerts, ...stored?.alerts },
+  };
+  const parsed = notificationPreferencesSchema.safeParse(merged);
+  return parsed.success ? parsed.data : defaultNotificationPreferences;
+}
+
+// For case-insensitive exact matches with ilike; emails may contain _ which is a wildcard
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Changing a secret outside of an explicit rotation still gives receivers a day to catch up
+const DEFAULT_SECRET_GRACE_HOURS = 24;
+
+// The current secret, plus the previous one while its grace period lasts
+function getSigningSecrets(endpoint: WebhookSigningOptions, now: Date = new Date()): string[] {
+  const secrets: string[] = [];
+  if (endpoint.secret) {
+    secrets.push(endpoint.secret);
+  }
+  if (endpoint.previous_secret && endpoint.previous_secret_expires_at && new Date(endpoint.previous_secret_expires_at) > now) {
+    secrets.push(endpoint.previous_secret);
+  }
+  return secrets;
+}
 
 export class SupabaseStorage implements IStorage {
   private supabase;
@@ -51,6 +103,166 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
+  // Resolve a Supabase access token to the auth user it was issued for
+  async verifyAccessToken(accessToken: string): Promise<{ id: string; email?: string } | null> {
+    const { data, error } = await this.supabase.auth.getUser(accessToken);
+    if (error || !data.user) return null;
+    return { id: data.user.id, email: data.user.email };
+  }
+
+  // Deactivated users have no role, so they can sign in but can't do anything
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('role, deactivated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || data.deactivated_at) return null;
+    return data.role;
+  }
+
+  // Create a confirmed Supabase auth user. Returns null if the email is already registered.
+  async createAuthUser(email: string, password: string): Promise<{ id: string } | null> {
+    const { data, error } = await this.supabase.auth.admin.createUser({ email, password, email_confirm: true });
+    if (error) {
+      if (error.status === 422) return null;
+      throw error;
+    }
+    return { id: data.user.id };
+  }
+
+  // Team operations
+  async getTeamMembers(): Promise<TeamMember[]> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select(TEAM_MEMBER_COLUMNS)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getTeamMember(userId: string): Promise<TeamMember | undefined> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select(TEAM_MEMBER_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getTeamMemberByEmail(email: string): Promise<TeamMember | undefined> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select(TEAM_MEMBER_COLUMNS)
+      .ilike('email', escapeLikePattern(email))
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  // Also reactivates a user who is invited again after being deactivated
+  async addTeamMember(member: NewTeamMember): Promise<TeamMember> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .upsert({ ...member, deactivated_at: null }, { onConflict: 'user_id' })
+      .select(TEAM_MEMBER_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateTeamMember(userId: string, update: TeamMemberUpdate): Promise<TeamMember | undefined> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .update({
+        ...update,
+        deactivated_at: update.deactivated_at === undefined ? undefined : update.deactivated_at?.toISOString() ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .select(TEAM_MEMBER_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getInvitations(): Promise<Invitation[]> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getInvitation(id: string): Promise<Invitation | undefined> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .select('*')
+      .eq('token', tokenHash)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getPendingInvitationByEmail(email: string): Promise<Invitation | undefined> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .select('*')
+      .ilike('email', escapeLikePattern(email))
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async createInvitation(invitation: InsertInvitationRecord): Promise<Invitation> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .insert({ ...invitation, status: 'pending' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateInvitation(id: string, update: InvitationUpdate): Promise<Invitation> {
+    const { data, error } = await this.supabase
+      .from('invitations')
+      .update(update)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const { data, error } = await this.supabase
       .from('users')
@@ -63,7 +275,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   // Form operations
-  async createForm(form: InsertForm): Promise<OnboardingForm> {
+  async createForm(form: NewForm): Promise<OnboardingForm> {
     const { data, error } = await this.supabase
       .from('forms')
       .insert({
@@ -80,7 +292,7 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
-  async getForm(id: number): Promise<OnboardingForm | undefined> {
+  async getForm(id: number | string): Promise<OnboardingForm | undefined> {
     const { data, error } = await this.supabase
       .from('forms')
       .select('*')
@@ -111,21 +323,16 @@ export class SupabaseStorage implements IStorage {
 
     if (error) throw error;
     
-    // After updating form data, check if we should send a webhook notification
+    // After updating form data, notify any endpoints subscribed to form updates
     try {
-      const settings = await this.getWebhookSettings();
-      
-      // If webhook is enabled and form.updated notifications are enabled, send the webhook
-      if (settings.webhookEnabled && settings.webhookUrl) {
-        await this.sendFormUpdatedWebhookNotification(id, data, currentForm?.data || {});
-      }
+      await this.sendFormUpdatedWebhookNotification(id, data, currentForm?.data || {});
     } catch (webhookError) {
       console.error('Error sending form.updated webhook notification:', webhookError);
       // Don't throw the error to avoid breaking the form update
     }
   }
 
-  async updateLastReminder(id: number): Promise<void> {
+  async updateLastReminder(id: string): Promise<void> {
     const { error } = await this.supabase
       .from('forms')
       .update({ last_reminder: new Date().toISOString() })
@@ -134,6 +341,17 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
+  async getFormContact(formId: string): Promise<FormContact | undefined> {
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('id, client_name, client_email, slug, progress, status')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
   async getForms(): Promise<OnboardingForm[]> {
     const { data, error } = await this.supabase
       .from('forms')
@@ -144,6 +362,110 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
+  // Automatic reminders live on the single system_settings row
+  async getReminderSettings(): Promise<ReminderSettings> {
+    const { data, error } = await this.supabase
+      .from('system_settings')
+      .select('reminders_enabled, first_reminder_hours, second_reminder_hours, final_reminder_hours, reminder_message')
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return defaultReminderSettings;
+    return {
+      enabled: data.reminders_enabled,
+      firstReminder: data.first_reminder_hours,
+      secondReminder: data.second_reminder_hours,
+      finalReminder: data.final_reminder_hours,
+      customMessage: data.reminder_message ?? '',
+    };
+  }
+
+  async updateReminderSettings(settings: ReminderSettings): Promise<ReminderSettings> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('system_settings')
+      .select('id')
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    const row = {
+      reminders_enabled: settings.enabled,
+      first_reminder_hours: settings.firstReminder,
+      second_reminder_hours: settings.secondReminder,
+      final_reminder_hours: settings.finalReminder,
+      reminder_message: settings.customMessage || null,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = existing
+      ? await this.supabase.from('system_settings').update(row).eq('id', existing.id)
+      : await this.supabase.from('system_settings').insert(row);
+
+    if (error) throw error;
+    return settings;
+  }
+
+  async getSlackSettings(): Promise<SlackSettings> {
+    const { data, error } = await this.supabase
+      .from('system_settings')
+      .select('slack_enabled, slack_webhook_url, slack_channel, slack_alerts')
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return defaultSlackSettings;
+    return {
+      enabled: data.slack_enabled,
+      webhookUrl: data.slack_webhook_url ?? '',
+      channel: data.slack_channel ?? '',
+      alerts: { ...defaultSlackSettings.alerts, ...data.slack_alerts },
+    };
+  }
+
+  async updateSlackSettings(settings: SlackSettings): Promise<SlackSettings> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('system_settings')
+      .select('id')
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    const row = {
+      slack_enabled: settings.enabled,
+      slack_webhook_url: settings.webhookUrl || null,
+      slack_channel: settings.channel || null,
+      slack_alerts: settings.alerts,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = existing
+      ? await this.supabase.from('system_settings').update(row).eq('id', existing.id)
+      : await this.supabase.from('system_settings').insert(row);
+
+    if (error) throw error;
+    return settings;
+  }
+
+  // Incomplete, enabled forms that haven't opted out of reminders
+  async getRemindableForms(createdBefore: Date): Promise<RemindableForm[]> {
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('id, client_name, client_email, slug, progress, status, created_at, last_reminder')
+      .neq('status', 'completed')
+      .eq('is_disabled', false)
+      .eq('reminders_opted_out', false)
+      .lte('created_at', createdBefore.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
   // Section operations
   async createSection(section: InsertSection): Promise<FormSection> {
     const { data, error } = await this.supabase
@@ -165,12 +487,34 @@ export class SupabaseStorage implements IStorage {
       .from('form_sections')
       .select('*')
       .eq('share_id', shareId)
-      .single();
+      .maybeSingle();
 
     if (error) throw error;
     return data;
   }
 
+  async getSectionFormId(sectionId: number): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from('form_sections')
+      .select('form_id')
+      .eq('id', sectionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.form_id ?? null;
+  }
+
+  async getSectionName(sectionId: number): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('form_sections')
+      .select('section')
+      .eq('id', sectionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.section ?? null;
+  }
+
   async updateSectionData(id: number, data: any): Promise<void> {
     const { error } = await this.supabase
       .from('form_sections')
@@ -191,12 +535,12 @@ export class SupabaseStorage implements IStorage {
         .single();
       
       if (section) {
-        // Get webhook settings
-        const settings = await this.getWebhookSettings();
-        
-        // If section notifications are enabled, send the webhook
-        if (settings.webhookEnabled && settings.notifyOnSectionCompletion) {
-          await this.sendSectionWebhookNotification(section.form_id, id, data, section.section);
+        // Notify any endpoints subscribed to section completions
+        await this.sendSectionWebhookNotification(section.form_id, id, data, section.section);
+
+        const form = await this.getFormContact(String(section.form_id));
+        if (form) {
+          await dispatchNotification(this, { type: 'section_completed', form, sectionName: section.section });
         }
         
         // Check if this was the last section to be completed
@@ -218,9 +562,11 @@ export class SupabaseStorage implements IStorage {
             })
             .eq('id', section.form_id);
           
-          // Send form completion webhook if enabled
-          if (settings.webhookEnabled && settings.notifyOnFormCompletion) {
-            await this.sendFormCompletionWebhookNotification(section.form_id);
+          // Notify any endpoints subscribed to form completions
+          await this.sendFormCompletionWebhookNotification(section.form_id);
+
+          if (form) {
+            await dispatchNotification(this, { type: 'form_completed', form });
           }
         }
       }
@@ -241,158 +587,1072 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
-  // Webhook operations - updated for system-wide settings
-  async getWebhookSettings(): Promise<SystemSettings> {
-    // Always get the first record (we only have one)
+  async updateSectionDataByShareId(shareId: string, data: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('form_sections')
+      .update({ data })
+      .eq('share_id', shareId);
+
+    if (error) throw error;
+  }
+
+  // Client access through the onboarding link
+  async getFormByIdOrSlug(idOrSlug: string): Promise<OnboardingForm | undefined> {
+    const column = UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug';
     const { data, error } = await this.supabase
-      .from('system_settings')
+      .from('forms')
       .select('*')
-      .order('id', { ascending: true })
-      .limit(1)
-      .maybeSingle(); // Use maybeSingle() to handle no-row case gracefully
+      .eq(column, idOrSlug)
+      .maybeSingle();
 
-    // If there's an error (and it's not a PostgREST error for no rows, though maybeSingle handles that)
-    if (error) {
-      console.error("Error fetching webhook settings:", error);
-      // Fallback to default settings on error to prevent downstream issues
-      return {
-        id: 0, // Or handle ID appropriately if it needs to be valid/non-default
-        webhookUrl: null, // Or ""
-        webhookEnabled: false,
-        webhookSecret: null, // Or ""
-        notifyOnSectionCompletion: false,
-        notifyOnFormCompletion: true, // Default as per schema
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-    }
+    if (error) throw error;
+    return data ?? undefined;
+  }
 
-    // If no data is returned (e.g., table is empty), return default settings
-    if (!data) {
-      return {
-        id: 0, // Or handle ID appropriately
-        webhookUrl: null,
-        webhookEnabled: false,
-        webhookSecret: null,
-        notifyOnSectionCompletion: false,
-        notifyOnFormCompletion: true,
-        createdAt: new Date(), // These might not be strictly necessary for GET but good for consistency
-        updatedAt: new Date(),
-      };
-    }
+  async updateClientForm(id: string, update: ClientFormUpdate): Promise<void> {
+    const { error } = await this.supabase
+      .from('forms')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id);
 
-    return data;
+    if (error) throw error;
   }
 
-  async updateWebhookSettings(settings: Partial<Omit<SystemSettings, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
-    const { data: existingSettings, error: fetchError } = await this.supabase
-      .from('system_settings')
-      .select('id')
-      .order('id', { ascending: true })
-      .limit(1)
+  async getFormLock(formId: string): Promise<FormLock | undefined> {
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('id, client_name, is_disabled, password_hash')
+      .eq('id', formId)
       .maybeSingle();
 
-    if (fetchError) {
-      console.error("Error fetching existing settings for update:", fetchError);
-      throw fetchError; // Propagate error if fetching fails
-    }
+    if (error) throw error;
+    return data ?? undefined;
+  }
 
-    const dataToUpsert = {
-      webhookUrl: settings.webhookUrl === undefined ? null : settings.webhookUrl,
-      webhookEnabled: settings.webhookEnabled === undefined ? false : settings.webhookEnabled,
-      webhookSecret: settings.webhookSecret === undefined ? null : settings.webhookSecret,
-      notifyOnSectionCompletion: settings.notifyOnSectionCompletion === undefined ? false : settings.notifyOnSectionCompletion,
-      notifyOnFormCompletion: settings.notifyOnFormCompletion === undefined ? true : settings.notifyOnFormCompletion,
-      updated_at: new Date().toISOString(),
-    };
+  // Pass null to remove password protection. Also clears any legacy plaintext password.
+  async setFormPassword(formId: string, passwordHash: string | null): Promise<void> {
+    const { error } = await this.supabase
+      .from('forms')
+      .update({ password_hash: passwordHash, password: null })
+      .eq('id', formId);
 
-    if (!existingSettings) {
-      // If no settings exist, create a new record with all fields, applying defaults
-      const { error: insertError } = await this.supabase
-        .from('system_settings')
-        .insert({
-          ...dataToUpsert,
-          // Default values for fields not in settings, if any, can be added here
-          // or rely on database defaults if defined in schema
-        });
-
-      if (insertError) {
-        console.error("Error inserting new webhook settings:", insertError);
-        throw insertError;
-      }
-    } else {
-      // Update the existing record, only setting fields that are explicitly passed in settings
-      // However, our dataToUpsert is now complete with defaults for undefined optional fields
-      const { error: updateError } = await this.supabase
-        .from('system_settings')
-        .update(dataToUpsert) // Use the prepared object
-        .eq('id', existingSettings.id);
-
-      if (updateError) {
-        console.error("Error updating webhook settings:", updateError);
-        throw updateError;
-      }
-    }
+    if (error) throw error;
   }
 
-  async generateWebhookSecret(): Promise<string> {
-    return crypto.randomBytes(32).toString('hex');
-  }
+  // Forms used to keep their password in plain text; hash whatever is left over
+  async hashLegacyFormPasswords(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('id, password')
+      .not('password', 'is', null);
 
-  async sendWebhookNotification(formId: number, data: any): Promise<boolean> {
-    return this.sendSubmissionWebhookNotification(formId, data);
+    if (error) throw error;
+
+    const legacy = (data ?? []).filter(form => form.password);
+    for (const form of legacy) {
+      await this.setFormPassword(form.id, hashFormPassword(form.password));
+    }
+    return legacy.length;
   }
 
-  // Send webhook notification for section completion
-  async sendSectionWebhookNotification(formId: number, sectionId: number, sectionData: any, sectionName: string): Promise<boolean> {
-    try {
-      // Get the global webhook settings
-      const { data: settings, error } = await this.supabase
-        .from('system_settings')
-        .select('webhook_url, webhook_enabled, webhook_secret, notify_on_section_completion')
-        .order('id', { ascending: true })
-        .limit(1)
-        .single();
+  async createFormAccessToken(token: InsertFormAccessToken): Promise<FormAccessToken> {
+    const { data, error } = await this.supabase
+      .from('form_access_tokens')
+      .insert(token)
+      .select()
+      .single();
 
-      if (error) throw error;
-      
-      // If webhook is not enabled or URL is not set or section notifications are disabled, skip
-      if (!settings.webhook_enabled || !settings.webhook_url || !settings.notify_on_section_completion) {
-        return false;
-      }
+    if (error) throw error;
+    return data;
+  }
 
-      // Get form details to include in the payload
-      const form = await this.getForm(formId);
-      
-      // Prepare the payload
-      const payload = {
-        event: 'section_completion',
+  async getFormAccessTokenByHash(tokenHash: string): Promise<FormAccessToken | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_access_tokens')
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getFormAccessTokens(formId: string): Promise<FormAccessToken[]> {
+    const { data, error } = await this.supabase
+      .from('form_access_tokens')
+      .select('*')
+      .eq('form_id', formId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async revokeFormAccessToken(formId: string, id: string): Promise<FormAccessToken | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_access_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('form_id', formId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  // Email log operations
+  async createEmailLog(entry: InsertEmailLog): Promise<EmailLogEntry> {
+    const { data, error } = await this.supabase
+      .from('email_log')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getEmailLog(filters: EmailLogFilters): Promise<{ emails: EmailLogEntry[], total: number }> {
+    let query = this.supabase
+      .from('email_log')
+      .select('*', { count: 'exact' });
+
+    if (filters.template) {
+      query = query.eq('template', filters.template);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.formId) {
+      query = query.eq('form_id', filters.formId);
+    }
+    if (filters.to) {
+      query = query.ilike('to_email', `%${escapeLikePattern(filters.to)}%`);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { emails: data || [], total: count || 0 };
+  }
+
+  // Notification operations
+  async createNotifications(notifications: InsertNotification[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('notifications')
+      .insert(notifications);
+
+    if (error) throw error;
+  }
+
+  async getNotifications(userId: string, filters: NotificationFilters): Promise<{ notifications: Notification[], total: number }> {
+    let query = this.supabase
+      .from('notifications')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (filters.type) {
+      query = query.eq('type', filters.type);
+    }
+    if (filters.unread !== undefined) {
+      query = filters.unread ? query.is('read_at', null) : query.not('read_at', 'is', null);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { notifications: data || [], total: count || 0 };
+  }
+
+  async getNotificationCounts(userId: string): Promise<NotificationCounts> {
+    const countWhere = async (filter: (query: any) => any): Promise<number> => {
+      const { count, error } = await filter(
+        this.supabase.from('notifications').select('id', { count: 'exact', head: true }).eq('user_id', userId)
+      );
+      if (error) throw error;
+      return count || 0;
+    };
+
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const [total, unread, highPriority, today] = await Promise.all([
+      countWhere(query => query),
+      countWhere(query => query.is('read_at', null)),
+      countWhere(query => query.is('read_at', null).eq('priority', 'high')),
+      countWhere(query => query.gte('created_at', startOfDay.toISOString())),
+    ]);
+    return { total, unread, highPriority, today };
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<Notification | undefined> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .select('id');
+
+    if (error) throw error;
+    return data?.length ?? 0;
+  }
+
+  async dismissNotification(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data?.length ?? 0) > 0;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await this.getNotificationPreferencesFor([userId]);
+    return preferences.get(userId)!;
+  }
+
+  async getNotificationPreferencesFor(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    const preferences = new Map(userIds.map(userId => [userId, defaultNotificationPreferences]));
+    if (userIds.length === 0) return preferences;
+
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('user_id, preferences')
+      .in('user_id', userIds);
+
+    if (error) throw error;
+    for (const row of data || []) {
+      preferences.set(row.user_id, withDefaultPreferences(row.preferences));
+    }
+    return preferences;
+  }
+
+  async updateNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .upsert({ user_id: userId, preferences, updated_at: new Date().toISOString() })
+      .select('preferences')
+      .single();
+
+    if (error) throw error;
+    return withDefaultPreferences(data.preferences);
+  }
+
+  // Digest report operations
+  async getDigestForms(start: Date, end: Date): Promise<DigestForm[]> {
+    const since = start.toISOString();
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('id, client_name, client_email, slug, progress, status, is_disabled, created_at, started_at, completed_at, updated_at')
+      .lt('created_at', end.toISOString())
+      .or(`created_at.gte.${since},started_at.gte.${since},completed_at.gte.${since},status.neq.completed`);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async countWebhookFailures(start: Date, end: Date): Promise<WebhookFailureCounts> {
+    const countStatus = async (status: 'failed' | 'dead'): Promise<number> => {
+      const { count, error } = await this.supabase
+        .from('webhook_deliveries')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status)
+        .gte('last_attempt_at', start.toISOString())
+        .lt('last_attempt_at', end.toISOString());
+      if (error) throw error;
+      return count || 0;
+    };
+
+    const [failed, dead] = await Promise.all([countStatus('failed'), countStatus('dead')]);
+    return { failed, dead };
+  }
+
+  async createDigestReport(report: InsertDigestReport): Promise<DigestReportRecord | undefined> {
+    // The unique (period, period_start) index stops two servers writing the same report
+    const { data, error } = await this.supabase
+      .from('digest_reports')
+      .upsert(report, { onConflict: 'period,period_start', ignoreDuplicates: true })
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getDigestReportFor(period: DigestPeriod, periodStart: Date): Promise<DigestReportRecord | undefined> {
+    const { data, error } = await this.supabase
+      .from('digest_reports')
+      .select('*')
+      .eq('period', period)
+      .eq('period_start', periodStart.toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getDigestReports(filters: DigestReportFilters): Promise<{ reports: DigestReportRecord[], total: number }> {
+    let query = this.supabase
+      .from('digest_reports')
+      .select('*', { count: 'exact' });
+
+    if (filters.period) {
+      query = query.eq('period', filters.period);
+    }
+
+    const { data, error, count } = await query
+      .order('period_start', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { reports: data || [], total: count || 0 };
+  }
+
+  async getDigestReport(id: string): Promise<DigestReportRecord | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('digest_reports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  // Form template operations
+  async getFormTemplates(): Promise<FormTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('form_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getFormTemplate(id: string): Promise<FormTemplate | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('form_templates')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getDefaultFormTemplate(): Promise<FormTemplate | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_templates')
+      .select('*')
+      .eq('is_default', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  // Only one template can be the default (a partial unique index enforces it)
+  private async clearDefaultFormTemplate(exceptId?: string): Promise<void> {
+    let query = this.supabase
+      .from('form_templates')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  async createFormTemplate(template: InsertFormTemplate): Promise<FormTemplate> {
+    const { data, error } = await this.supabase
+      .from('form_templates')
+      .insert(template)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateFormTemplate(id: string, update: UpdateFormTemplate): Promise<FormTemplate | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    if (update.is_default) {
+      await this.clearDefaultFormTemplate(id);
+    }
+
+    const { data, error } = await this.supabase
+      .from('form_templates')
+      .update({
+        ...update,
+        ...(update.definition !== undefined ? { has_draft_changes: true } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async deleteFormTemplate(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('form_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async countFormsUsingTemplate(id: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('forms')
+      .select('id', { count: 'exact', head: true })
+      .eq('template_id', id);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  // The unique (template_id, version) index stops two publishes taking the same number
+  async publishFormTemplate(id: string, publishedBy: string | null): Promise<FormTemplateVersion | undefined> {
+    const template = await this.getFormTemplate(id);
+    if (!template) return undefined;
+
+    const { data: version, error } = await this.supabase
+      .from('form_template_versions')
+      .insert({
+        template_id: template.id,
+        version: (template.published_version ?? 0) + 1,
+        name: template.name,
+        definition: template.definition,
+        published_by: publishedBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { error: updateError } = await this.supabase
+      .from('form_templates')
+      .update({ published_version: version.version, has_draft_changes: false, updated_at: new Date().toISOString() })
+      .eq('id', template.id);
+
+    if (updateError) throw updateError;
+    return version;
+  }
+
+  async getFormTemplateVersions(templateId: string): Promise<FormTemplateVersion[]> {
+    if (!UUID_PATTERN.test(templateId)) return [];
+    const { data, error } = await this.supabase
+      .from('form_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getFormTemplateVersion(id: string): Promise<FormTemplateVersion | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('form_template_versions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getLatestFormTemplateVersion(templateId: string): Promise<FormTemplateVersion | undefined> {
+    if (!UUID_PATTERN.test(templateId)) return undefined;
+    const { data, error } = await this.supabase
+      .from('form_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async getFormTemplateVersionId(formId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('forms')
+      .select('template_version_id')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.template_version_id ?? null;
+  }
+
+  // Form revision history
+  async createFormRevision(revision: InsertFormRevision): Promise<FormRevision> {
+    const { data, error } = await this.supabase
+      .from('form_revisions')
+      .insert(revision)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getFormRevisions(formId: string): Promise<FormRevisionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('form_revisions')
+      .select('id, form_id, source, author_user_id, author_token_id, changes, restored_from, created_at, users(name, email)')
+      .eq('form_id', formId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(({ users, ...revision }: any) => ({
+      ...revision,
+      author: revision.author_user_id
+        ? { kind: 'user', name: users?.name || users?.email || null }
+        : revision.author_token_id ? { kind: 'client', name: null } : null,
+    }));
+  }
+
+  async getFormRevision(formId: string, id: string): Promise<FormRevision | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('form_revisions')
+      .select('*')
+      .eq('form_id', formId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+  // Brand assets
+  async createBrandAsset(asset: InsertBrandAsset): Promise<BrandAsset> {
+    const { data, error } = await this.supabase
+      .from('brand_assets')
+      .insert(asset)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getBrandAssets(formId: string): Promise<BrandAsset[]> {
+    const { data, error } = await this.supabase
+      .from('brand_assets')
+      .select('*')
+      .eq('form_id', formId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getBrandAsset(formId: string, id: string): Promise<BrandAsset | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('brand_assets')
+      .select('*')
+      .eq('form_id', formId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async deleteBrandAsset(formId: string, id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('brand_assets')
+      .delete()
+      .eq('form_id', formId)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getFontCatalogue(): Promise<CatalogueFont[]> {
+    const { data, error } = await this.supabase
+      .from('font_catalogue')
+      .select('*')
+      .order('family', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCatalogueFont(id: string): Promise<CatalogueFont | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('font_catalogue')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async createCatalogueFont(font: CreateCatalogueFont): Promise<CatalogueFont> {
+    const { data, error } = await this.supabase
+      .from('font_catalogue')
+      .insert(font)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateCatalogueFont(id: string, update: UpdateCatalogueFont): Promise<CatalogueFont | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const { data, error } = await this.supabase
+      .from('font_catalogue')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? undefined;
+  }
+
+  async deleteCatalogueFont(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('font_catalogue')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Webhook endpoint operations
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .insert({
+        ...endpoint,
+        // Every endpoint gets a signing secret unless one was supplied
+        secret: endpoint.secret || await this.generateWebhookSecret()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateWebhookEndpoint(id: string, updates: UpdateWebhookEndpoint): Promise<WebhookEndpoint> {
+    const { secret, ...rest } = updates;
+    let fields: Record<string, any> = { ...rest };
+
+    // A new secret goes through rotation so receivers on the old one keep verifying
+    if (secret !== undefined) {
+      const current = await this.getWebhookEndpoint(id);
+      if (current && secret !== current.secret) {
+        fields = {
+          ...fields,
+          ...this.secretRotationFields(current, secret || await this.generateWebhookSecret(), DEFAULT_SECRET_GRACE_HOURS)
+        };
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update({
+        ...fields,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async rotateWebhookEndpointSecret(id: string, rotation: RotateWebhookSecret): Promise<WebhookEndpoint> {
+    const current = await this.getWebhookEndpoint(id);
+    if (!current) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    const secret = rotation.secret || await this.generateWebhookSecret();
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update({
+        ...this.secretRotationFields(current, secret, rotation.graceHours),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private secretRotationFields(current: WebhookEndpoint, secret: string, graceHours: number) {
+    const keepPrevious = !!current.secret && graceHours > 0;
+    return {
+      secret,
+      previous_secret: keepPrevious ? current.secret : null,
+      previous_secret_expires_at: keepPrevious
+        ? new Date(Date.now() + graceHours * 60 * 60 * 1000).toISOString()
+        : null
+    };
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async generateWebhookSecret(): Promise<string> {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // Enabled endpoints that subscribe to the given event
+  private async getSubscribedWebhookEndpoints(event: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('enabled', true)
+      .contains('events', [event]);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Webhook delivery log operations
+  // Signed fresh on every attempt so retries carry a current timestamp; the id stays the same
+  // across retries so receivers can drop duplicates
+  private buildWebhookHeaders(delivery: WebhookDelivery, endpoint: WebhookSigningOptions | null): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...(endpoint?.headers || {}),
+      'Content-Type': 'application/json',
+      [WEBHOOK_ID_HEADER]: delivery.id
+    };
+
+    const secrets = endpoint ? getSigningSecrets(endpoint) : [];
+    if (secrets.length > 0) {
+      // axios serializes the payload with JSON.stringify, so this is the exact body sent
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(JSON.stringify(delivery.payload), secrets);
+    }
+
+    return headers;
+  }
+
+  private async createWebhookDelivery(event: string, formId: number | string | null, endpoint: WebhookEndpoint, payload: WebhookEvent | unknown): Promise<WebhookDelivery> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .insert({
+        endpoint_id: endpoint.id,
+        event,
         form_id: formId,
-        form_name: form?.clientName || 'Unknown',
-        client_email: form?.clientEmail || 'Unknown',
-        section_id: sectionId,
-        section_name: sectionName,
-        data: sectionData,
-        timestamp: new Date().toISOString()
-      };
+        url: endpoint.url,
+        payload,
+        status: 'pending',
+        attempt_count: 0
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Record a delivery per endpoint and make the first attempts; failures are retried by the worker.
+  // Returns true if at least one endpoint accepted the event.
+  private async deliverWebhook(formId: number | string | null, endpoints: WebhookEndpoint[], payload: WebhookEvent): Promise<boolean> {
+    const results = await Promise.all(endpoints.map(async (endpoint) => {
+      try {
+        const delivery = await this.createWebhookDelivery(payload.type, formId, endpoint, payload);
+        return await this.attemptWebhookDelivery(delivery, endpoint);
+      } catch (error) {
+        console.error(`Error delivering ${payload.type} webhook to endpoint ${endpoint.id}:`, error);
+        return false;
+      }
+    }));
+
+    return results.some(Boolean);
+  }
+
+  // Make a single delivery attempt and record its outcome. Returns true if the receiver accepted it.
+  async attemptWebhookDelivery(delivery: WebhookDelivery, endpoint: WebhookSigningOptions | null): Promise<boolean> {
+    const attempt = (delivery.attempt_count || 0) + 1;
+    const startedAt = Date.now();
+    let succeeded = false;
+    let outcome: Record<string, any>;
+
+    try {
+      const response = await axios.post(delivery.url, delivery.payload, {
+        headers: this.buildWebhookHeaders(delivery, endpoint),
+        timeout: 10000 // 10 second timeout
+      });
 
-      // Generate signature if secret is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
+      succeeded = true;
+      outcome = {
+        status: 'succeeded',
+        response_status: response?.status ?? null,
+        response_body: truncateResponseBody(response?.data),
+        last_error: null,
+        next_retry_at: null,
+        delivered_at: new Date().toISOString()
       };
+    } catch (error: any) {
+      const nextRetryAt = getNextRetryAt(attempt);
+      outcome = {
+        status: nextRetryAt ? 'failed' : 'dead',
+        response_status: error?.response?.status ?? null,
+        response_body: truncateResponseBody(error?.response?.data),
+        last_error: error instanceof Error ? error.message : String(error),
+        next_retry_at: nextRetryAt ? nextRetryAt.toISOString() : null
+      };
+    }
 
-      if (settings.webhook_secret) {
-        const signature = crypto
-          .createHmac('sha256', settings.webhook_secret)
-          .update(JSON.stringify(payload))
-          .digest('hex');
-        
-        headers['X-Webhook-Signature'] = signature;
+    await this.recordWebhookAttempt(delivery.id, {
+      ...outcome,
+      attempt_count: attempt,
+      latency_ms: Date.now() - startedAt
+    });
+
+    // Tell admins once the delivery has run out of retries, whichever attempt that was
+    if (outcome.status === 'dead') {
+      await dispatchNotification(this, { type: 'webhook_failed', delivery: { ...delivery, ...outcome, attempt_count: attempt } });
+    }
+
+    return succeeded;
+  }
+
+  private async recordWebhookAttempt(id: string, outcome: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        ...outcome,
+        last_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) {
+      // The attempt itself already happened; losing the log entry shouldn't change the result
+      console.error('Error recording webhook delivery attempt:', error);
+    }
+  }
+
+  async retryWebhookDelivery(id: string): Promise<boolean> {
+    const { data: delivery, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    const endpoint = delivery.endpoint_id ? await this.getWebhookEndpoint(delivery.endpoint_id) : undefined;
+    if (!endpoint) {
+      // Nowhere to sign or send it from any more
+      const outcome = { status: 'dead' as const, last_error: 'Webhook endpoint no longer exists', next_retry_at: null };
+      await this.recordWebhookAttempt(delivery.id, outcome);
+      await dispatchNotification(this, { type: 'webhook_failed', delivery: { ...delivery, ...outcome } });
+      return false;
+    }
+
+    return this.attemptWebhookDelivery(delivery, endpoint);
+  }
+
+  // Send a previous delivery's payload again as a new delivery, keeping the original in the log
+  async redeliverWebhookDelivery(id: string): Promise<WebhookDelivery> {
+    const original = await this.getWebhookDelivery(id);
+    if (!original) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    const endpoint = original.endpoint_id ? await this.getWebhookEndpoint(original.endpoint_id) : undefined;
+    if (!endpoint) {
+      throw new Error('Webhook endpoint no longer exists');
+    }
+
+    const delivery = await this.createWebhookDelivery(original.event, original.form_id, endpoint, original.payload);
+    await this.attemptWebhookDelivery(delivery, endpoint);
+
+    return (await this.getWebhookDelivery(delivery.id)) || delivery;
+  }
+
+  // Send a webhook.test event to one endpoint, regardless of its subscriptions
+  async sendTestWebhook(endpointId: string): Promise<WebhookDelivery> {
+    const endpoint = await this.getWebhookEndpoint(endpointId);
+    if (!endpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    const payload = createWebhookEvent('webhook.test', {
+      message: 'This is a test webhook from your onboarding forms system',
+      test_id: crypto.randomBytes(4).toString('hex')
+    });
+
+    const delivery = await this.createWebhookDelivery(payload.type, null, endpoint, payload);
+    await this.attemptWebhookDelivery(delivery, endpoint);
+
+    return (await this.getWebhookDelivery(delivery.id)) || delivery;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async getWebhookDeliveries(filters: WebhookDeliveryFilters): Promise<{ deliveries: WebhookDelivery[], total: number }> {
+    let query = this.supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' });
+
+    if (filters.endpointId) {
+      query = query.eq('endpoint_id', filters.endpointId);
+    }
+    if (filters.event) {
+      query = query.eq('event', filters.event);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { deliveries: data || [], total: count || 0 };
+  }
+
+  async getWebhookStats(days: number): Promise<WebhookStats> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('event, status, latency_ms, created_at')
+      .gte('created_at', since.toISOString());
+
+    if (error) throw error;
+    return summarizeWebhookDeliveries(data || [], days);
+  }
+
+  async getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('status', 'failed')
+      .lte('next_retry_at', new Date().toISOString())
+      .order('next_retry_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The form fields every form event carries. Rows come back from Supabase in snake_case.
+  private webhookFormSummary(formId: number | string, form: OnboardingForm | undefined) {
+    const saved = form as typeof form & { client_name?: string | null; client_email?: string | null };
+    return {
+      id: formId,
+      client_name: saved?.client_name ?? null,
+      client_email: saved?.client_email ?? null
+    };
+  }
+
+  async sendWebhookNotification(formId: number, data: any): Promise<boolean> {
+    return this.sendSubmissionWebhookNotification(formId, data);
+  }
+
+  // Send webhook notification for section completion
+  async sendSectionWebhookNotification(formId: number, sectionId: number, sectionData: any, sectionName: string): Promise<boolean> {
+    try {
+      // Skip the payload work when no endpoint wants this event
+      const endpoints = await this.getSubscribedWebhookEndpoints('section.completed');
+      if (endpoints.length === 0) {
+        return false;
       }
 
-      // Send the webhook
-      await axios.post(settings.webhook_url, payload, { headers });
-      return true;
+      // Get form details to include in the payload
+      const form = await this.getForm(formId);
+      
+      const payload = createWebhookEvent('section.completed', {
+        form: this.webhookFormSummary(formId, form),
+        section: {
+          id: sectionId,
+          name: sectionName,
+          data: sectionData || {}
+        }
+      });
+
+      // Record the delivery and make the first attempt; failures are retried by the worker
+      return await this.deliverWebhook(formId, endpoints, payload);
     } catch (error) {
       console.error('Error sending section webhook notification:', error);
       return false;
@@ -402,18 +1662,9 @@ export class SupabaseStorage implements IStorage {
   // Send webhook notification for form completion with all sections
   async sendFormCompletionWebhookNotification(formId: number): Promise<boolean> {
     try {
-      // Get the global webhook settings
-      const { data: settings, error } = await this.supabase
-        .from('system_settings')
-        .select('webhook_url, webhook_enabled, webhook_secret, notify_on_form_completion')
-        .order('id', { ascending: true })
-        .limit(1)
-        .single();
-
-      if (error) throw error;
-      
-      // If webhook is not enabled or URL is not set or form notifications are disabled, skip
-      if (!settings.webhook_enabled || !settings.webhook_url || !settings.notify_on_form_completion) {
+      // Skip the payload work when no endpoint wants this event
+      const endpoints = await this.getSubscribedWebhookEndpoints('form.completed');
+      if (endpoints.length === 0) {
         return false;
       }
 
@@ -425,37 +1676,18 @@ export class SupabaseStorage implements IStorage {
       const sections = await this.getSections(formId);
       
       // Prepare the payload with all section data
-      const payload = {
-        event: 'form_completion',
-        form_id: formId,
-        form_name: form.clientName,
-        client_email: form.clientEmail,
-        form_data: form.data || {},
+      const payload = createWebhookEvent('form.completed', {
+        form: this.webhookFormSummary(formId, form),
+        form_data: (form.data as Record<string, unknown>) || {},
         sections: sections.map(section => ({
-          section_id: section.id,
-          section_name: section.section,
-          data: section.data || {}
-        })),
-        timestamp: new Date().toISOString()
-      };
-
-      // Generate signature if secret is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
-
-      if (settings.webhook_secret) {
-        const signature = crypto
-          .createHmac('sha256', settings.webhook_secret)
-          .update(JSON.stringify(payload))
-          .digest('hex');
-        
-        headers['X-Webhook-Signature'] = signature;
-      }
+          id: section.id,
+          name: section.section,
+          data: (section.data as Record<string, unknown>) || {}
+        }))
+      });
 
-      // Send the webhook
-      await axios.post(settings.webhook_url, payload, { headers });
-      return true;
+      // Record the delivery and make the first attempt; failures are retried by the worker
+      return await this.deliverWebhook(formId, endpoints, payload);
     } catch (error) {
       console.error('Error sending form completion webhook notification:', error);
       return false;
@@ -465,51 +1697,22 @@ export class SupabaseStorage implements IStorage {
   // Original sendWebhookNotification renamed to sendSubmissionWebhookNotification for clarity
   async sendSubmissionWebhookNotification(formId: number, data: any): Promise<boolean> {
     try {
-      // Get the global webhook settings
-      const { data: settings, error } = await this.supabase
-        .from('system_settings')
-        .select('webhook_url, webhook_enabled, webhook_secret')
-        .order('id', { ascending: true })
-        .limit(1)
-        .single();
-
-      if (error) throw error;
-      
-      // If webhook is not enabled or URL is not set, skip
-      if (!settings.webhook_enabled || !settings.webhook_url) {
+      // Skip the payload work when no endpoint wants this event
+      const endpoints = await this.getSubscribedWebhookEndpoints('form.submitted');
+      if (endpoints.length === 0) {
         return false;
       }
 
       // Get form details to include in the payload
       const form = await this.getForm(formId);
       
-      // Prepare the payload
-      const payload = {
-        event: 'form_submission',
-        form_id: formId,
-        form_name: form?.clientName || 'Unknown',
-        client_email: form?.clientEmail || 'Unknown',
-        data,
-        timestamp: new Date().toISOString()
-      };
-
-      // Generate signature if secret is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
-
-      if (settings.webhook_secret) {
-        const signature = crypto
-          .createHmac('sha256', settings.webhook_secret)
-          .update(JSON.stringify(payload))
-          .digest('hex');
-        
-        headers['X-Webhook-Signature'] = signature;
-      }
+      const payload = createWebhookEvent('form.submitted', {
+        form: this.webhookFormSummary(formId, form),
+        submission: data || {}
+      });
 
-      // Send the webhook
-      await axios.post(settings.webhook_url, payload, { headers });
-      return true;
+      // Record the delivery and make the first attempt; failures are retried by the worker
+      return await this.deliverWebhook(formId, endpoints, payload);
     } catch (error) {
       console.error('Error sending submission webhook notification:', error);
       return false;
@@ -550,51 +1753,26 @@ export class SupabaseStorage implements IStorage {
   }
 
   // New method to send form.updated webhook notifications
-  async sendFormUpdatedWebhookNotification(formId: number, newData: any, oldData: any): Promise<boolean> {
+  async sendFormUpdatedWebhookNotification(formId: number | string, newData: any, oldData: any): Promise<boolean> {
     try {
-      // Get the global webhook settings
-      const { data: settings, error } = await this.supabase
-        .from('system_settings')
-        .select('webhook_url, webhook_enabled, webhook_secret')
-        .order('id', { ascending: true })
-        .limit(1)
-        .single();
-
-      if (error) throw error;
-      
-      // If webhook is not enabled or URL is not set, skip
-      if (!settings.webhook_enabled || !settings.webhook_url) {
+      // Skip the payload work when no endpoint wants this event
+      const endpoints = await this.getSubscribedWebhookEndpoints('form.updated');
+      if (endpoints.length === 0) {
         return false;
       }
 
-      // Prepare the payload
-      const payload = {
-        event: 'form_updated',
-        form_id: formId,
-        new_data: newData,
-        old_data: oldData,
-        timestamp: new Date().toISOString()
-      };
-
-      // Generate signature if secret is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
+      const form = await this.getForm(formId);
 
-      if (settings.webhook_secret) {
-        const signature = crypto
-          .createHmac('sha256', settings.webhook_secret)
-          .update(JSON.stringify(payload))
-          .digest('hex');
-        
-        headers['X-Webhook-Signature'] = signature;
-      }
+      const payload = createWebhookEvent('form.updated', {
+        form: this.webhookFormSummary(formId, form),
+        data: newData || {},
+        previous_data: oldData || {}
+      });
 
-      // Send the webhook
-      await axios.post(settings.webhook_url, payload, { headers });
-      return true;
+      // Record the delivery and make the first attempt; failures are retried by the worker
+      return await this.deliverWebhook(formId, endpoints, payload);
     } catch (error) {
-      console.error('Error sending form.updated webhook notification:', error);
+      console.error('Error sending form updated webhook notification:', error);
       return false;
     }
   }
@@ -1,42 +1,208 @@
-import { type User, type InsertUser, type OnboardingForm, type InsertForm, type FormSection, type InsertSection, type FormSubmission, type InsertFormSubmission, type SystemSettings } from "@shared/schema";
+import { type User, type InsertUser, type OnboardingForm, type InsertForm, type FormSection, type InsertSection, type FormSubmission, type InsertFormSubmission, type SystemSettings, type WebhookEndpoint, type InsertWebhookEndpoint, type UpdateWebhookEndpoint, type RotateWebhookSecret, type WebhookEventType, type WebhookEvent, type WebhookDelivery, type WebhookDeliveryFilters, type WebhookStats, type FormAccessToken, type ClientFormUpdate, type TeamMember, type Invitation, type EmailLogEntry, type EmailLogFilters, type ReminderSettings, type Notification, type NotificationFilters, type NotificationCounts, type NotificationPreferences, type SlackSettings, type DigestReportRecord, type DigestReportFilters, type DigestPeriod, type FormTemplate, type FormTemplateVersion, type CreateFormTemplate, type UpdateFormTemplate, type FormRevision, type FormRevisionSummary, type BrandAsset, type CatalogueFont, type CreateCatalogueFont, type UpdateCatalogueFont } from "@shared/schema";
+import type { UserRole } from "@shared/permissions";
 
-export type { User, InsertUser, OnboardingForm, InsertForm, FormSection, InsertSection, FormSubmission, InsertFormSubmission, SystemSettings };
+export type { User, InsertUser, OnboardingForm, InsertForm, FormSection, InsertSection, FormSubmission, InsertFormSubmission, SystemSettings, WebhookEndpoint, InsertWebhookEndpoint, UpdateWebhookEndpoint, RotateWebhookSecret, WebhookEventType, WebhookEvent, WebhookDelivery, WebhookDeliveryFilters, WebhookStats, FormAccessToken, ClientFormUpdate, TeamMember, Invitation, EmailLogEntry, EmailLogFilters, ReminderSettings, Notification, NotificationFilters, NotificationCounts, NotificationPreferences, SlackSettings, DigestReportRecord, DigestReportFilters, DigestPeriod, FormTemplate, FormTemplateVersion, CreateFormTemplate, UpdateFormTemplate, FormRevision, FormRevisionSummary, BrandAsset, CatalogueFont, CreateCatalogueFont, UpdateCatalogueFont };
+
+// The row written when a client access link is issued
+export type InsertFormAccessToken = Pick<FormAccessToken, 'form_id' | 'section_id' | 'token_hash' | 'expires_at' | 'created_by'>;
+
+// A form created by staff through the API
+export type NewForm = { client_name: string; client_email: string; slug: string; password_hash: string | null; created_by: string | null; template_id: string | null; template_version_id: string | null };
+
+// Whether a client may open a form: closed forms can't be opened, protected ones need the password
+export type FormLock = { id: string; client_name: string | null; is_disabled: boolean | null; password_hash: string | null };
+
+// Team management. Deactivating sets deactivated_at; reactivating clears it.
+export type TeamMemberUpdate = { role?: UserRole; deactivated_at?: Date | null };
+export type NewTeamMember = Pick<TeamMember, 'user_id' | 'email' | 'name' | 'role'>;
+export type InsertInvitationRecord = Pick<Invitation, 'email' | 'role' | 'token' | 'expires_at' | 'invited_by'>;
+export type InvitationUpdate = Partial<Pick<Invitation, 'token' | 'expires_at' | 'status' | 'accepted_at'>>;
+
+// Who a form belongs to, for emails about it
+export type FormContact = { id: string; client_name: string; client_email: string; slug: string | null; progress: number | null; status: string | null };
+
+// An incomplete form the reminder scheduler looks at
+export type RemindableForm = FormContact & { created_at: string; last_reminder: string | null };
+
+export type InsertEmailLog = Pick<EmailLogEntry, 'to_email' | 'subject' | 'template' | 'status' | 'transport' | 'message_id' | 'error' | 'form_id' | 'sent_by'>;
+
+export type InsertNotification = Pick<Notification, 'user_id' | 'type' | 'priority' | 'title' | 'message' | 'form_id' | 'data'>;
+
+// What a digest report needs to know about a form
+export type DigestForm = FormContact & {
+  is_disabled: boolean | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string | null;
+};
+
+export type WebhookFailureCounts = { failed: number; dead: number };
+
+// A staff-authored template, as saved
+export type InsertFormTemplate = CreateFormTemplate & { created_by: string | null };
+
+// A save of a form's answers, as added to its history
+export type InsertFormRevision = Omit<FormRevision, 'id' | 'created_at'>;
+
+export type InsertBrandAsset = Omit<BrandAsset, 'id' | 'created_at'>;
+
+export type InsertDigestReport = Pick<DigestReportRecord, 'period' | 'period_start' | 'period_end' | 'report'>;
+
+// The parts of an endpoint needed to sign and send a delivery
+export type WebhookSigningOptions = Pick<WebhookEndpoint, 'secret' | 'previous_secret' | 'previous_secret_expires_at' | 'headers'>;
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  verifyAccessToken(accessToken: string): Promise<{ id: string; email?: string } | null>;
+  getUserRole(userId: string): Promise<UserRole | null>;
+  createAuthUser(email: string, password: string): Promise<{ id: string } | null>;
+
+  // Team operations
+  getTeamMembers(): Promise<TeamMember[]>;
+  getTeamMember(userId: string): Promise<TeamMember | undefined>;
+  getTeamMemberByEmail(email: string): Promise<TeamMember | undefined>;
+  addTeamMember(member: NewTeamMember): Promise<TeamMember>;
+  updateTeamMember(userId: string, update: TeamMemberUpdate): Promise<TeamMember | undefined>;
+  getInvitations(): Promise<Invitation[]>;
+  getInvitation(id: string): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  getPendingInvitationByEmail(email: string): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitationRecord): Promise<Invitation>;
+  updateInvitation(id: string, update: InvitationUpdate): Promise<Invitation>;
   
   // Form operations  
-  createForm(form: InsertForm): Promise<OnboardingForm>;
-  getForm(id: number): Promise<OnboardingForm | undefined>;
+  createForm(form: NewForm): Promise<OnboardingForm>;
+  getForm(id: number | string): Promise<OnboardingForm | undefined>;
   updateFormProgress(id: number, progress: number): Promise<void>;
   updateFormData(id: number, data: any): Promise<void>;
-  updateLastReminder(id: number): Promise<void>;
+  updateLastReminder(id: string): Promise<void>;
+  getFormContact(formId: string): Promise<FormContact | undefined>;
   getForms(): Promise<OnboardingForm[]>;
+
+  // Automatic reminder operations
+  getReminderSettings(): Promise<ReminderSettings>;
+  updateReminderSettings(settings: ReminderSettings): Promise<ReminderSettings>;
+  getSlackSettings(): Promise<SlackSettings>;
+  updateSlackSettings(settings: SlackSettings): Promise<SlackSettings>;
+  getRemindableForms(createdBefore: Date): Promise<RemindableForm[]>;
   
   // Section operations
   createSection(section: InsertSection): Promise<FormSection>;
   getSection(shareId: string): Promise<FormSection | undefined>;
+  getSectionFormId(sectionId: number): Promise<number | null>;
+  // Which of the template's sections it holds, by key or slug
+  getSectionName(sectionId: number): Promise<string | null>;
+  updateSectionDataByShareId(shareId: string, data: Record<string, any>): Promise<void>;
   updateSectionData(id: number, data: any): Promise<void>;
   getSections(formId: number): Promise<FormSection[]>;
   
-  // Webhook operations - updated for system-wide settings
-  getWebhookSettings(): Promise<SystemSettings>;
-  updateWebhookSettings(settings: { 
-    webhookUrl?: string, 
-    webhookEnabled?: boolean, 
-    webhookSecret?: string,
-    notifyOnSectionCompletion?: boolean,
-    notifyOnFormCompletion?: boolean
-  }): Promise<void>;
+  // Client access operations
+  getFormByIdOrSlug(idOrSlug: string): Promise<OnboardingForm | undefined>;
+  updateClientForm(id: string, update: ClientFormUpdate): Promise<void>;
+  getFormLock(formId: string): Promise<FormLock | undefined>;
+  setFormPassword(formId: string, passwordHash: string | null): Promise<void>;
+  hashLegacyFormPasswords(): Promise<number>;
+  createFormAccessToken(token: InsertFormAccessToken): Promise<FormAccessToken>;
+  getFormAccessTokenByHash(tokenHash: string): Promise<FormAccessToken | undefined>;
+  getFormAccessTokens(formId: string): Promise<FormAccessToken[]>;
+  revokeFormAccessToken(formId: string, id: string): Promise<FormAccessToken | undefined>;
+
+  // Email log operations
+  createEmailLog(entry: InsertEmailLog): Promise<EmailLogEntry>;
+  getEmailLog(filters: EmailLogFilters): Promise<{ emails: EmailLogEntry[], total: number }>;
+
+  // Notification operations, always for one staff member
+  createNotifications(notifications: InsertNotification[]): Promise<void>;
+  getNotifications(userId: string, filters: NotificationFilters): Promise<{ notifications: Notification[], total: number }>;
+  getNotificationCounts(userId: string): Promise<NotificationCounts>;
+  markNotificationRead(userId: string, id: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  dismissNotification(userId: string, id: string): Promise<boolean>;
+
+  // Stored preferences with defaults filled in; users who never saved any get the defaults
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  getNotificationPreferencesFor(userIds: string[]): Promise<Map<string, NotificationPreferences>>;
+  updateNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences>;
+
+  // Digest reports
+  // Forms with something in the period (created, started or completed) plus every incomplete one
+  getDigestForms(start: Date, end: Date): Promise<DigestForm[]>;
+  // Deliveries whose last attempt in the period failed
+  countWebhookFailures(start: Date, end: Date): Promise<WebhookFailureCounts>;
+  // Undefined when there's already a report for that period
+  createDigestReport(report: InsertDigestReport): Promise<DigestReportRecord | undefined>;
+  getDigestReportFor(period: DigestPeriod, periodStart: Date): Promise<DigestReportRecord | undefined>;
+  getDigestReports(filters: DigestReportFilters): Promise<{ reports: DigestReportRecord[], total: number }>;
+  getDigestReport(id: string): Promise<DigestReportRecord | undefined>;
+
+  // Form templates
+  getFormTemplates(): Promise<FormTemplate[]>;
+  getFormTemplate(id: string): Promise<FormTemplate | undefined>;
+  // The template picked for new forms, if an admin picked one over the built-in default
+  getDefaultFormTemplate(): Promise<FormTemplate | undefined>;
+  createFormTemplate(template: InsertFormTemplate): Promise<FormTemplate>;
+  // Making a template the default takes the flag off the previous one. Changing the
+  // definition marks the draft as having unpublished changes.
+  updateFormTemplate(id: string, update: UpdateFormTemplate): Promise<FormTemplate | undefined>;
+  // Deletes its versions too
+  deleteFormTemplate(id: string): Promise<void>;
+  countFormsUsingTemplate(id: string): Promise<number>;
+  // Snapshots the draft as the next version; undefined for an unknown template
+  publishFormTemplate(id: string, publishedBy: string | null): Promise<FormTemplateVersion | undefined>;
+  // Newest first
+  getFormTemplateVersions(templateId: string): Promise<FormTemplateVersion[]>;
+  getFormTemplateVersion(id: string): Promise<FormTemplateVersion | undefined>;
+  // The version new forms get; undefined when the template was never published
+  getLatestFormTemplateVersion(templateId: string): Promise<FormTemplateVersion | undefined>;
+  // Null when the form uses the built-in default
+  getFormTemplateVersionId(formId: string): Promise<string | null>;
+
+  // Form revision history; rows are never changed once added
+  createFormRevision(revision: InsertFormRevision): Promise<FormRevision>;
+  // Newest first
+  getFormRevisions(formId: string): Promise<FormRevisionSummary[]>;
+  getFormRevision(formId: string, id: string): Promise<FormRevision | undefined>;
+
+  // Files uploaded for file and font fields, oldest first
+  createBrandAsset(asset: InsertBrandAsset): Promise<BrandAsset>;
+  getBrandAssets(formId: string): Promise<BrandAsset[]>;
+  getBrandAsset(formId: string, id: string): Promise<BrandAsset | undefined>;
+  deleteBrandAsset(formId: string, id: string): Promise<void>;
+
+  // The font catalogue, by family name
+  getFontCatalogue(): Promise<CatalogueFont[]>;
+  getCatalogueFont(id: string): Promise<CatalogueFont | undefined>;
+  createCatalogueFont(font: CreateCatalogueFont): Promise<CatalogueFont>;
+  updateCatalogueFont(id: string, update: UpdateCatalogueFont): Promise<CatalogueFont | undefined>;
+  deleteCatalogueFont(id: string): Promise<void>;
+
+  // Webhook endpoint operations
+  getWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, updates: UpdateWebhookEndpoint): Promise<WebhookEndpoint>;
+  rotateWebhookEndpointSecret(id: string, rotation: RotateWebhookSecret): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(id: string): Promise<void>;
   generateWebhookSecret(): Promise<string>;
+  sendTestWebhook(endpointId: string): Promise<WebhookDelivery>;
   sendWebhookNotification(formId: number, data: any): Promise<boolean>;
   sendSubmissionWebhookNotification(formId: number, data: any): Promise<boolean>;
   sendSectionWebhookNotification(formId: number, sectionId: number, sectionData: any, sectionName: string): Promise<boolean>;
   sendFormCompletionWebhookNotification(formId: number): Promise<boolean>;
-  sendFormUpdatedWebhookNotification(formId: number, newData: any, oldData: any): Promise<boolean>;
+  sendFormUpdatedWebhookNotification(formId: number | string, newData: any, oldData: any): Promise<boolean>;
+
+  // Webhook delivery log operations
+  attemptWebhookDelivery(delivery: WebhookDelivery, endpoint: WebhookSigningOptions | null): Promise<boolean>;
+  retryWebhookDelivery(id: string): Promise<boolean>;
+  getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  redeliverWebhookDelivery(id: string): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filters: WebhookDeliveryFilters): Promise<{ deliveries: WebhookDelivery[], total: number }>;
+  getWebhookStats(days: number): Promise<WebhookStats>;
   
   // Form submission operations
   createSubmission(submission: InsertFormSubmission): Promise<FormSubmission>;
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  WEBHOOK_API_VERSION,
+  webhookEventNames,
+  webhookEventSchemas,
+  webhookEventTypes,
+  type WebhookEvent,
+  type WebhookEventCatalogue,
+  type WebhookEventData,
+  type WebhookEventName,
+} from "@shared/schema";
+
+// Wrap event data in the versioned envelope every webhook delivery uses
+export function createWebhookEvent<T extends WebhookEventName>(type: T, data: WebhookEventData<T>, now: Date = new Date()): WebhookEvent<T> {
+  return {
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    type,
+    api_version: WEBHOOK_API_VERSION,
+    created_at: now.toISOString(),
+    data,
+  } as WebhookEvent<T>;
+}
+
+const eventDescriptions: Record<WebhookEventName, string> = {
+  'form.completed': 'A client completed every section of their onboarding form',
+  'section.completed': 'A client completed one section of their onboarding form',
+  'form.submitted': 'A form submission was recorded',
+  'form.updated': 'Form data was saved; includes the data before and after the change',
+  'webhook.test': 'Sent from the admin settings to check an endpoint is reachable',
+};
+
+const exampleForm = { id: 123, client_name: 'Acme Corp', client_email: 'john@acme.com' };
+
+const eventExamples: { [T in WebhookEventName]: WebhookEventData<T> } = {
+  'form.completed': {
+    form: exampleForm,
+    form_data: { businessDetails: { name: 'Acme Corp' } },
+    sections: [{ id: 101, name: 'Business Details', data: { name: 'Acme Corp' } }],
+  },
+  'section.completed': {
+    form: exampleForm,
+    section: { id: 101, name: 'Business Details', data: { name: 'Acme Corp' } },
+  },
+  'form.submitted': {
+    form: exampleForm,
+    submission: { businessDetails: { name: 'Acme Corp' } },
+  },
+  'form.updated': {
+    form: exampleForm,
+    data: { businessDetails: { name: 'Acme Corporation' } },
+    previous_data: { businessDetails: { name: 'Acme Corp' } },
+  },
+  'webhook.test': {
+    message: 'This is a test webhook from your onboarding forms system',
+    test_id: 'a1b2c3d4',
+  },
+};
+
+// Every event with its JSON Schema and an example, for docs and receiver code generation
+export function getWebhookEventCatalogue(): WebhookEventCatalogue {
+  return {
+    api_version: WEBHOOK_API_VERSION,
+    events: webhookEventNames.map(type => ({
+      type,
+      description: eventDescriptions[type],
+      subscribable: (webhookEventTypes as readonly string[]).includes(type),
+      schema: zodToJsonSchema(webhookEventSchemas[type], { $refStrategy: 'none' }) as Record<string, unknown>,
+      example: {
+        id: 'evt_5f0c6a8e2b7d4c1a9e3f6b8d0a2c4e6f',
+        type,
+        api_version: WEBHOOK_API_VERSION,
+        created_at: '2025-01-15T10:30:00.000Z',
+        data: eventExamples[type],
+      } as WebhookEvent,
+    })),
+  };
+}
@@ -0,0 +1,78 @@
+import { type WebhookDelivery, type WebhookStats, type WebhookEventStats, type WebhookDailyStats } from "@shared/schema";
+
+export type WebhookStatsRow = Pick<WebhookDelivery, 'event' | 'status' | 'latency_ms' | 'created_at'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Aggregate delivery rows from the last `days` days into the numbers shown on the Settings page.
+// "failed" counts deliveries still being retried; "dead" ones are reported separately.
+export function summarizeWebhookDeliveries(rows: WebhookStatsRow[], days: number, now: Date = new Date()): WebhookStats {
+  const byEvent = new Map<string, WebhookEventStats>();
+  const daily = new Map<string, WebhookDailyStats>();
+
+  // Pre-fill every day in the period so charts don't skip quiet days
+  for (let i = days - 1; i >= 0; i--) {
+    const key = toDateKey(new Date(now.getTime() - i * DAY_MS));
+    daily.set(key, { date: key, succeeded: 0, failed: 0 });
+  }
+
+  let successfulDeliveries = 0;
+  let failedDeliveries = 0;
+  let deadDeliveries = 0;
+  let pendingDeliveries = 0;
+  let latencyTotal = 0;
+  let latencyCount = 0;
+  let lastDelivery: Date | null = null;
+
+  for (const row of rows) {
+    const eventStats = byEvent.get(row.event) || { event: row.event, total: 0, succeeded: 0, failed: 0 };
+    eventStats.total++;
+
+    const createdAt = row.created_at ? new Date(row.created_at) : null;
+    const day = createdAt ? daily.get(toDateKey(createdAt)) : undefined;
+
+    if (row.status === 'succeeded') {
+      successfulDeliveries++;
+      eventStats.succeeded++;
+      if (day) day.succeeded++;
+    } else if (row.status === 'failed' || row.status === 'dead') {
+      if (row.status === 'dead') deadDeliveries++;
+      else failedDeliveries++;
+      eventStats.failed++;
+      if (day) day.failed++;
+    } else {
+      pendingDeliveries++;
+    }
+
+    byEvent.set(row.event, eventStats);
+
+    if (typeof row.latency_ms === 'number') {
+      latencyTotal += row.latency_ms;
+      latencyCount++;
+    }
+
+    if (createdAt && (!lastDelivery || createdAt > lastDelivery)) {
+      lastDelivery = createdAt;
+    }
+  }
+
+  const finished = successfulDeliveries + failedDeliveries + deadDeliveries;
+
+  return {
+    periodDays: days,
+    totalDeliveries: rows.length,
+    successfulDeliveries,
+    failedDeliveries,
+    deadDeliveries,
+    pendingDeliveries,
+    successRate: finished > 0 ? Math.round((successfulDeliveries / finished) * 100) : 0,
+    averageResponseTime: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null,
+    lastDelivery: lastDelivery ? lastDelivery.toISOString() : null,
+    byEvent: Array.from(byEvent.values()).sort((a, b) => b.total - a.total),
+    daily: Array.from(daily.values()),
+  };
+}
@@ -0,0 +1,78 @@
+import { type IStorage } from "./types";
+
+export interface WebhookRetryConfig {
+  // Attempts (including the first one) before a delivery is dead-lettered
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getWebhookRetryConfig(): WebhookRetryConfig {
+  return {
+    maxAttempts: readNumberEnv('WEBHOOK_MAX_ATTEMPTS', 8),
+    baseDelayMs: readNumberEnv('WEBHOOK_RETRY_BASE_DELAY_MS', 30 * 1000),
+    maxDelayMs: readNumberEnv('WEBHOOK_RETRY_MAX_DELAY_MS', 6 * 60 * 60 * 1000),
+    pollIntervalMs: readNumberEnv('WEBHOOK_RETRY_POLL_INTERVAL_MS', 15 * 1000),
+    batchSize: readNumberEnv('WEBHOOK_RETRY_BATCH_SIZE', 25),
+  };
+}
+
+// Exponential backoff: base, 2x base, 4x base... capped at maxDelayMs.
+// `attempt` is the number of attempts already made (1 after the first failure).
+export function getRetryDelayMs(attempt: number, config: WebhookRetryConfig = getWebhookRetryConfig()): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(config.baseDelayMs * Math.pow(2, exponent), config.maxDelayMs);
+}
+
+// Returns when the next attempt is due, or null when the delivery should be dead-lettered
+export function getNextRetryAt(attempt: number, now: Date = new Date(), config: WebhookRetryConfig = getWebhookRetryConfig()): Date | null {
+  if (attempt >= config.maxAttempts) {
+    return null;
+  }
+  return new Date(now.getTime() + getRetryDelayMs(attempt, config));
+}
+
+// Retries every failed delivery whose next_retry_at has passed. Returns how many were retried.
+export async function processDueWebhookDeliveries(storage: IStorage, config: WebhookRetryConfig = getWebhookRetryConfig()): Promise<number> {
+  const due = await storage.getDueWebhookDeliveries(config.batchSize);
+
+  for (const delivery of due) {
+    // Admins hear about deliveries that run out of retries from the attempt itself
+    try {
+      await storage.retryWebhookDelivery(delivery.id);
+    } catch (error) {
+      console.error(`Error retrying webhook delivery ${delivery.id}:`, error);
+    }
+  }
+
+  return due.length;
+}
+
+export function startWebhookRetryWorker(storage: IStorage, config: WebhookRetryConfig = getWebhookRetryConfig()): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip this tick if the previous batch is still being delivered
+    if (running) return;
+    running = true;
+    try {
+      await processDueWebhookDeliveries(storage, config);
+    } catch (error) {
+      console.error('Webhook retry worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, config.pollIntervalMs);
+
+  // Don't keep the process alive just for retries
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
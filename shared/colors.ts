@@ -0,0 +1,209 @@
+// Colour maths for brand palettes: WCAG contrast between colours, tint and shade ramps,
+// nearby colours that pass a contrast level, and a palette picked out of an image's pixels.
+// Colours are six-digit hex strings, as colour fields save them.
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const HEX_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+export function parseHex(hex: string): Rgb | null {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return { r: value >> 16, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+export function toHex({ r, g, b }: Rgb): string {
+  return `#${[r, g, b].map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+// https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+export function relativeLuminance(color: Rgb): number {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// From 1 (no contrast) to 21 (black on white). NaN when either colour isn't a hex colour.
+export function getContrastRatio(foreground: string, background: string): number {
+  const a = parseHex(foreground);
+  const b = parseHex(background);
+  if (!a || !b) return NaN;
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// AA needs 4.5:1 for body text and 3:1 for large text (24px, or 19px bold); AAA needs 7:1
+export const CONTRAST_AA = 4.5;
+export const CONTRAST_AA_LARGE = 3;
+export const CONTRAST_AAA = 7;
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export function getContrastLevel(ratio: number): ContrastLevel {
+  if (ratio >= CONTRAST_AAA) return 'AAA';
+  if (ratio >= CONTRAST_AA) return 'AA';
+  if (ratio >= CONTRAST_AA_LARGE) return 'AA Large';
+  return 'Fail';
+}
+
+// Black or white text, whichever reads better on the colour
+export function getReadableTextColor(background: string): '#000000' | '#FFFFFF' {
+  return getContrastRatio('#000000', background) >= getContrastRatio('#FFFFFF', background) ? '#000000' : '#FFFFFF';
+}
+
+export interface PaletteColor {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface ColorPairing {
+  foreground: PaletteColor;
+  background: PaletteColor;
+  ratio: number;
+  level: ContrastLevel;
+  // A colour close to the foreground that reads as body text on the background, when it doesn't
+  suggestion: string | null;
+}
+
+// Every colour as text on every other colour, and on white. Contrast is the same both ways,
+// so each pair of colours is checked once, with the lighter one as the background.
+export function checkPaletteContrast(colors: PaletteColor[]): ColorPairing[] {
+  const valid = colors.filter(color => parseHex(color.value));
+  const white: PaletteColor = { key: 'white', label: 'White', value: '#FFFFFF' };
+  const pairs: [PaletteColor, PaletteColor][] = [];
+  valid.forEach((color, index) => {
+    for (const other of valid.slice(index + 1)) {
+      const lighter = relativeLuminance(parseHex(other.value)!) > relativeLuminance(parseHex(color.value)!);
+      pairs.push(lighter ? [color, other] : [other, color]);
+    }
+  });
+  valid.forEach(color => pairs.push([color, white]));
+
+  return pairs.map(([foreground, background]) => {
+    const ratio = getContrastRatio(foreground.value, background.value);
+    return {
+      foreground,
+      background,
+      ratio,
+      level: getContrastLevel(ratio),
+      suggestion: ratio >= CONTRAST_AA ? null : suggestAccessibleColor(foreground.value, background.value),
+    };
+  });
+}
+
+interface Hsl {
+  h: number; // 0-360
+  s: number; // 0-1
+  l: number; // 0-1
+}
+
+function toHsl({ r, g, b }: Rgb): Hsl {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === red ? (green - blue) / d + (green < blue ? 6 : 0) : max === green ? (blue - red) / d + 2 : (red - green) / d + 4;
+  return { h: h * 60, s, l };
+}
+
+function fromHsl({ h, s, l }: Hsl): Rgb {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] = h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] : h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+}
+
+// The foreground made lighter or darker, keeping its hue, until it reaches the ratio against
+// the background. Whichever direction needs the smaller change wins. Null if neither gets there.
+export function suggestAccessibleColor(foreground: string, background: string, minRatio = CONTRAST_AA): string | null {
+  const color = parseHex(foreground);
+  if (!color || !parseHex(background)) return null;
+  if (getContrastRatio(foreground, background) >= minRatio) return toHex(color);
+
+  const hsl = toHsl(color);
+  for (let step = 0.01; step <= 1; step += 0.01) {
+    for (const l of [hsl.l - step, hsl.l + step]) {
+      if (l < 0 || l > 1) continue;
+      const candidate = toHex(fromHsl({ ...hsl, l }));
+      if (getContrastRatio(candidate, background) >= minRatio) return candidate;
+    }
+  }
+  return null;
+}
+
+export const shadeSteps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+export type ShadeStep = typeof shadeSteps[number];
+export type ShadeRamp = Record<ShadeStep, string>;
+
+// How much white (below 500) or black (above it) goes into each step
+const shadeMix: Record<ShadeStep, number> = {
+  50: 0.92, 100: 0.84, 200: 0.66, 300: 0.48, 400: 0.24, 500: 0, 600: 0.14, 700: 0.3, 800: 0.46, 900: 0.62,
+};
+
+function mix(color: Rgb, toward: Rgb, amount: number): Rgb {
+  return {
+    r: color.r + (toward.r - color.r) * amount,
+    g: color.g + (toward.g - color.g) * amount,
+    b: color.b + (toward.b - color.b) * amount,
+  };
+}
+
+// Tints and shades in the Tailwind 50-900 steps, with the colour itself as 500. Null for anything
+// that isn't a hex colour.
+export function generateShadeRamp(hex: string): ShadeRamp | null {
+  const color = parseHex(hex);
+  if (!color) return null;
+  const white = { r: 255, g: 255, b: 255 };
+  const black = { r: 0, g: 0, b: 0 };
+  return Object.fromEntries(shadeSteps.map(step => [
+    step,
+    toHex(mix(color, step < 500 ? white : black, shadeMix[step])),
+  ])) as ShadeRamp;
+}
+
+// Picks the main colours out of raw RGBA pixels, most used first. Transparent pixels and the
+// near-white or near-black of backgrounds and outlines are left out, as are colours on less
+// than 2% of the rest, which are mostly blended edges. Colours too close to one already
+// picked are skipped, so a gradient doesn't fill the whole palette.
+export function extractPalette(pixels: Uint8Array | Uint8ClampedArray, count = 3): string[] {
+  const buckets = new Map<number, { total: number; r: number; g: number; b: number }>();
+  let counted = 0;
+  for (let offset = 0; offset + 3 < pixels.length; offset += 4) {
+    const [r, g, b, alpha] = [pixels[offset], pixels[offset + 1], pixels[offset + 2], pixels[offset + 3]];
+    if (alpha < 128) continue;
+    if (Math.min(r, g, b) > 235 || Math.max(r, g, b) < 20) continue;
+    // 4 bits a channel is enough to group anti-aliased edges with their colour
+    const key = (r >> 4) << 8 | (g >> 4) << 4 | (b >> 4);
+    const bucket = buckets.get(key) ?? { total: 0, r: 0, g: 0, b: 0 };
+    counted++;
+    bucket.total++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const picked: Rgb[] = [];
+  const ranked = Array.from(buckets.values()).sort((a, b) => b.total - a.total);
+  for (const bucket of ranked) {
+    if (bucket.total < counted * 0.02) break;
+    const color = { r: bucket.r / bucket.total, g: bucket.g / bucket.total, b: bucket.b / bucket.total };
+    const distinct = picked.every(other => Math.hypot(color.r - other.r, color.g - other.g, color.b - other.b) > 48);
+    if (distinct) picked.push(color);
+    if (picked.length === count) break;
+  }
+  return picked.map(toHex);
+}
@@ -0,0 +1,484 @@
+import type { z } from "zod";
+import { getTemplateSection, sectionAnswersSchema } from "./formTemplate";
+import type { FormTemplateDefinition } from "./schema";
+
+// The built-in onboarding template: the six sections every form had before templates existed.
+// Forms without a template_id use it, so the section and field keys must stay as they are;
+// saved answers are looked up by them.
+
+export const DEFAULT_FORM_TEMPLATE_NAME = 'Standard onboarding';
+
+const businessTypes = [
+  { value: 'saas', label: 'SaaS / Software' },
+  { value: 'consulting', label: 'Consulting / Professional Services' },
+  { value: 'agency', label: 'Marketing / Creative Agency' },
+  { value: 'technology', label: 'Technology / IT Services' },
+  { value: 'finance', label: 'Finance / Fintech' },
+  { value: 'manufacturing', label: 'Manufacturing / Industrial' },
+  { value: 'logistics', label: 'Logistics / Supply Chain' },
+  { value: 'healthcare', label: 'Healthcare Technology' },
+  { value: 'education', label: 'EdTech / Corporate Training' },
+  { value: 'construction', label: 'Construction / Engineering' },
+  { value: 'legal', label: 'Legal Technology / Services' },
+  { value: 'realestate', label: 'Commercial Real Estate' },
+  { value: 'security', label: 'Cybersecurity / Risk Management' },
+  { value: 'hr', label: 'HR Technology / Recruiting' },
+  { value: 'sales', label: 'Sales Enablement / CRM' },
+  { value: 'data', label: 'Data Analytics / Business Intelligence' },
+  { value: 'automation', label: 'Process Automation / RPA' },
+  { value: 'compliance', label: 'Compliance / Regulatory Technology' },
+  { value: 'other', label: 'Other B2B Business' },
+];
+
+// Keywords in the website address that hint at the business type, checked in this order
+const businessTypeKeywords = [
+  { value: 'saas', keywords: ['saas', 'software', 'app', 'platform', 'cloud', 'api'] },
+  { value: 'consulting', keywords: ['consulting', 'advisory', 'solutions', 'strategy', 'expert', 'services'] },
+  { value: 'agency', keywords: ['agency', 'marketing', 'creative', 'advertising', 'digital'] },
+  { value: 'technology', keywords: ['tech', 'system', 'network', 'infrastructure'] },
+  { value: 'finance', keywords: ['finance', 'fintech', 'payment', 'banking', 'invest', 'capital'] },
+  { value: 'manufacturing', keywords: ['manufacturing', 'industrial', 'production', 'factory'] },
+  { value: 'logistics', keywords: ['logistics', 'supply', 'chain', 'shipping', 'freight', 'transport'] },
+  { value: 'healthcare', keywords: ['healthtech', 'medtech'] },
+  { value: 'education', keywords: ['edtech', 'training', 'learning'] },
+  { value: 'construction', keywords: ['construction', 'engineering', 'build', 'contractor', 'architect'] },
+  { value: 'legal', keywords: ['legaltech', 'lawtech'] },
+  { value: 'realestate', keywords: ['commercial', 'realty', 'property', 'realestate'] },
+  { value: 'security', keywords: ['security', 'cyber', 'risk'] },
+  { value: 'hr', keywords: ['hrtech', 'recruiting', 'talent'] },
+  { value: 'sales', keywords: ['crm', 'sales', 'lead', 'pipeline', 'revenue'] },
+  { value: 'data', keywords: ['analytics', 'data', 'intelligence', 'insights', 'dashboard'] },
+  { value: 'automation', keywords: ['automation', 'workflow', 'process', 'rpa', 'integration'] },
+  { value: 'compliance', keywords: ['compliance', 'regulatory', 'governance', 'audit', 'control'] },
+];
+
+// Suggestions for the business type chosen in Business Details, and for when there's none
+const jobTitles = ['CEO', 'COO', 'VP of Operations', 'Managing Director', 'Business Owner', 'General Manager', 'Department Head', 'Director'];
+
+const jobTitlesByBusinessType: Record<string, string[]> = {
+  saas: ['CTO', 'VP of Engineering', 'Head of Product', 'VP of Technology', 'Chief Product Officer', 'IT Director', 'Head of Infrastructure', 'VP of R&D'],
+  consulting: ['Managing Partner', 'Principal', 'Practice Leader', 'VP of Strategy', 'Director of Consulting', 'Business Development Director', 'Client Partner', 'Senior Principal'],
+  agency: ['Agency Owner', 'Creative Director', 'VP of Client Services', 'Account Director', 'Head of Strategy', 'VP of Business Development', 'Managing Director', 'Partner'],
+  technology: ['CTO', 'IT Director', 'VP of Technology', 'Chief Information Officer', 'Head of IT', 'Systems Director', 'Infrastructure Manager', 'VP of Engineering'],
+  finance: ['CFO', 'VP of Finance', 'Chief Risk Officer', 'Investment Director', 'Finance Director', 'Head of Treasury', 'VP of Financial Planning', 'Controller'],
+  manufacturing: ['VP of Operations', 'Plant Manager', 'Manufacturing Director', 'VP of Supply Chain', 'Operations Director', 'Production Director', 'Quality Director', 'Head of Procurement'],
+  logistics: ['VP of Logistics', 'Supply Chain Director', 'Operations Director', 'Head of Transportation', 'Distribution Manager', 'Logistics Director', 'VP of Operations', 'Warehouse Director'],
+  healthcare: ['Chief Medical Officer', 'VP of Clinical Operations', 'Healthcare Administrator', 'Medical Director', 'Chief Technology Officer', 'VP of Digital Health', 'Clinical Director', 'Head of Innovation'],
+  education: ['Chief Learning Officer', 'VP of Training', 'Director of Learning & Development', 'Head of Corporate Training', 'Training Manager', 'Learning Director', 'VP of Education', 'Curriculum Director'],
+  construction: ['VP of Construction', 'Project Director', 'Construction Manager', 'Director of Operations', 'Head of Engineering', 'Project Executive', 'Business Development Director', 'Operations Manager'],
+  legal: ['General Counsel', 'Chief Legal Officer', 'Legal Director', 'Compliance Officer', 'Managing Partner', 'Head of Legal', 'VP of Legal Affairs', 'Chief Compliance Officer'],
+  realestate: ['VP of Real Estate', 'Director of Commercial Real Estate', 'Portfolio Manager', 'Investment Director', 'Head of Property Management', 'Real Estate Director', 'Asset Manager', 'Development Director'],
+  security: ['CISO', 'Chief Security Officer', 'VP of Security', 'Head of Cybersecurity', 'Security Director', 'Risk Manager', 'Compliance Director', 'Information Security Manager'],
+  hr: ['CHRO', 'VP of Human Resources', 'Head of Talent Acquisition', 'Director of People Operations', 'HR Director', 'VP of Talent', 'Head of Recruiting', 'People Director'],
+  sales: ['Chief Revenue Officer', 'VP of Sales', 'Sales Director', 'Head of Business Development', 'VP of Revenue Operations', 'Sales Operations Director', 'Channel Director', 'Enterprise Sales Director'],
+  data: ['Chief Data Officer', 'VP of Analytics', 'Head of Business Intelligence', 'Data Director', 'Analytics Director', 'VP of Data Science', 'Business Intelligence Director', 'Head of Data'],
+  automation: ['VP of Operations', 'Process Director', 'Head of Business Process', 'Operations Director', 'Automation Manager', 'VP of Digital Transformation', 'Process Excellence Director', 'Chief Operations Officer'],
+  compliance: ['Chief Compliance Officer', 'VP of Compliance', 'Compliance Director', 'Risk Director', 'Head of Regulatory Affairs', 'Audit Director', 'VP of Risk Management', 'Chief Risk Officer'],
+};
+
+const keyMessages = ['Trusted by industry leaders', 'Proven results and expertise', 'Personalized service and support', 'Innovation that drives success', 'Exceptional value and quality', 'Your success is our priority'];
+
+const keyMessagesByBusinessType: Record<string, string[]> = {
+  saas: ['Save time and increase productivity', 'Streamline your workflow', 'Scale your business efficiently', 'Reduce manual work by 80%', 'Free trial with no credit card required', 'Integrate with 100+ popular tools'],
+  agency: ['Expert team with proven results', 'Customized solutions for your business', 'ROI-focused marketing strategies', 'Full-service digital marketing', 'Award-winning creative campaigns', 'Data-driven approach to growth'],
+  consulting: ['Expert guidance from industry veterans', 'Proven methodologies and frameworks', 'Customized strategies for your goals', 'Measurable results and ROI', 'Transform your business operations', 'Strategic insights that drive growth'],
+  healthcare: ['Compassionate care from experienced professionals', 'State-of-the-art technology and treatments', 'Convenient scheduling and locations', 'Comprehensive health solutions', 'Patient-centered approach to wellness', 'Insurance accepted and affordable care'],
+  finance: ['Secure and transparent financial solutions', 'Expert guidance for your financial goals', 'Competitive rates and low fees', 'Personalized investment strategies', 'Trusted by thousands of clients', 'Advanced security and compliance'],
+  education: ['Learn from industry experts', 'Flexible learning at your own pace', 'Practical skills for real-world success', 'Lifetime access to course materials', 'Career support and networking', 'Certification upon completion'],
+  realestate: ['Expert knowledge of local markets', 'Personalized service for buyers and sellers', 'Proven track record of successful deals', 'Comprehensive market analysis', 'Negotiation expertise that saves money', 'End-to-end support throughout the process'],
+  legal: ['Experienced attorneys with proven results', 'Personalized attention to your case', 'Transparent pricing and communication', 'Strong track record of successful outcomes', 'Available 24/7 for urgent matters', 'No fees unless we win your case'],
+  construction: ['Quality craftsmanship and attention to detail', 'Licensed and insured professionals', 'On-time and on-budget project delivery', 'Free estimates and consultations', 'Sustainable building practices', 'Warranty on all work completed'],
+  manufacturing: ['Precision manufacturing and quality control', 'Custom solutions for unique requirements', 'Fast turnaround and reliable delivery', 'ISO certified processes and standards', 'Competitive pricing and bulk discounts', 'Advanced technology and automation'],
+  logistics: ['Reliable delivery and shipping solutions', 'Global network and local expertise', 'Real-time tracking and updates', 'Cost-effective and efficient logistics', 'Secure handling of valuable cargo', 'Flexible solutions for any size business'],
+  technology: ['Cutting-edge technology solutions', 'Expert IT support and maintenance', 'Scalable systems for growing businesses', 'Cybersecurity and data protection', '24/7 monitoring and support', 'Custom software development'],
+};
+
+export const defaultFormTemplate: FormTemplateDefinition = {
+  sections: [
+    {
+      key: 'businessDetails',
+      slug: 'business-details',
+      title: 'Business Details',
+      subtitle: 'Company information',
+      description: 'Tell us about your business',
+      icon: 'building',
+      tips: [
+        'Your information is automatically saved as you type',
+        "We'll suggest business type based on your website",
+      ],
+      fields: [
+        {
+          key: 'name',
+          label: 'Business Name',
+          type: 'text',
+          placeholder: 'Your business name',
+          helpText: 'The legal or trading name of your business',
+          group: 'Business Identity',
+          validation: { required: true, minLength: 2 },
+        },
+        {
+          key: 'type',
+          label: 'Business Type',
+          type: 'select',
+          placeholder: 'Select business type',
+          helpText: 'The industry or category your business operates in',
+          group: 'Business Identity',
+          options: businessTypes,
+          inferFrom: { from: 'businessDetails.website', rules: businessTypeKeywords },
+          validation: { required: true },
+        },
+        {
+          key: 'website',
+          label: 'Website',
+          type: 'url',
+          placeholder: 'https://your-website.com',
+          helpText: 'Your business website URL',
+          group: 'Business Identity',
+        },
+        {
+          key: 'location',
+          label: 'Location',
+          type: 'text',
+          placeholder: 'City, Country',
+          helpText: 'Primary location of your business',
+          group: 'Location & Contact',
+          validation: { required: true, minLength: 3 },
+        },
+        {
+          key: 'phone',
+          label: 'Phone Number',
+          type: 'phone',
+          placeholder: '(555) 555-5555',
+          helpText: 'Your business contact number',
+          group: 'Location & Contact',
+          validation: { required: true },
+        },
+        {
+          key: 'linkedin',
+          label: 'LinkedIn Page',
+          type: 'url',
+          placeholder: 'https://linkedin.com/company/your-company',
+          helpText: 'Optional: Helps us understand your brand better',
+          group: 'Location & Contact',
+        },
+      ],
+    },
+    {
+      key: 'campaign',
+      slug: 'campaign-details',
+      title: 'Campaign',
+      subtitle: 'Goals and objectives',
+      description: 'What do you want your campaign to achieve?',
+      icon: 'target',
+      tips: [
+        'Use numbers and timeframes. "Increase leads by 50% in 3 months" is better than "get more leads"',
+        'Your key messages should highlight how you solve customer problems, not just features',
+      ],
+      fields: [
+        {
+          key: 'objective',
+          label: 'Campaign Objective',
+          type: 'select',
+          placeholder: 'Select campaign objective',
+          helpText: 'What do you want to achieve with this campaign?',
+          options: [
+            { value: 'awareness', label: 'Brand Awareness' },
+            { value: 'leads', label: 'Lead Generation' },
+            { value: 'sales', label: 'Drive Sales' },
+            { value: 'engagement', label: 'Increase Engagement' },
+            { value: 'retention', label: 'Customer Retention' },
+            { value: 'loyalty', label: 'Build Brand Loyalty' },
+          ],
+          validation: { required: true },
+        },
+        {
+          key: 'successCriteria',
+          label: 'What would make this campaign successful for you?',
+          type: 'text',
+          placeholder: 'Describe what success looks like for this campaign',
+          helpText: 'Be specific about your desired outcomes',
+          suggestions: {
+            label: 'Example success criteria',
+            dependsOn: 'campaign.objective',
+            byValue: {
+              awareness: [
+                'Increase brand awareness by 30% in our target market',
+                'Generate 10,000 impressions per month',
+                'Achieve 25% increase in website traffic',
+              ],
+              leads: [
+                'Generate 50 qualified leads per month',
+                'Achieve 15% conversion rate from visitors to leads',
+                'Build email list of 1,000 subscribers',
+              ],
+              sales: [
+                'Increase sales by 20% this quarter',
+                'Generate $100K in new revenue',
+                'Convert 10% of leads to customers',
+              ],
+              engagement: [
+                'Increase social media engagement by 40%',
+                'Achieve 500 comments and shares per post',
+                'Build community of 5,000 active members',
+              ],
+            },
+            values: [
+              'Generate 50 qualified leads per month',
+              'Achieve 15% conversion rate from visitors to leads',
+              'Build email list of 1,000 subscribers',
+            ],
+          },
+          validation: { required: true, minLength: 5, message: 'Please describe what success looks like for this campaign' },
+        },
+        {
+          key: 'keyMessages',
+          label: 'Key Messages',
+          type: 'textarea',
+          placeholder: 'Enter your key campaign messages, one per line',
+          helpText: 'The points you want every prospect to remember',
+          suggestions: {
+            label: 'Suggested key messages for your business',
+            dependsOn: 'businessDetails.type',
+            byValue: keyMessagesByBusinessType,
+            values: keyMessages,
+          },
+        },
+        {
+          key: 'callToAction',
+          label: 'Call to Action',
+          type: 'text',
+          placeholder: "e.g., 'Book a Demo', 'Sign Up Now', 'Learn More'",
+          helpText: 'What should people do after seeing your campaign?',
+          suggestions: {
+            label: 'Popular calls to action',
+            values: ['Get Started Free', 'Book a Demo', 'Download Now', 'Learn More', 'Sign Up Today', 'Request Quote', 'Try Free Trial', 'Contact Sales'],
+          },
+        },
+      ],
+    },
+    {
+      key: 'audience',
+      slug: 'target-audience',
+      title: 'Target Audience',
+      subtitle: 'Ideal customer profile',
+      description: 'Define who you want to reach with your campaign',
+      icon: 'users',
+      tips: [
+        'Focus on decision-makers and influencers in the buying process',
+        'Think about the problems your product or service solves',
+      ],
+      fields: [
+        {
+          key: 'jobTitles',
+          label: 'Target Job Titles',
+          type: 'textarea',
+          placeholder: 'Enter job titles, one per line (e.g., Marketing Manager, CEO, IT Director)',
+          suggestions: {
+            label: 'Suggested job titles for your business',
+            dependsOn: 'businessDetails.type',
+            byValue: jobTitlesByBusinessType,
+            values: jobTitles,
+          },
+          validation: { required: true, message: 'Please enter at least one job title' },
+        },
+        {
+          key: 'industries',
+          label: 'Target Industries',
+          type: 'multiselect',
+          allowOther: true,
+          options: [
+            'Technology', 'Finance', 'Healthcare', 'Education', 'Manufacturing', 'Retail', 'Professional Services',
+            'Marketing & Advertising', 'Media & Entertainment', 'Real Estate', 'Construction', 'Transportation',
+            'Hospitality', 'Non-profit', 'Government',
+          ].map(industry => ({ value: industry, label: industry })),
+          suggestions: {
+            label: 'Recommended industries for your business',
+            dependsOn: 'businessDetails.type',
+            byValue: {
+              saas: ['Technology', 'Professional Services', 'Finance'],
+              agency: ['Marketing & Advertising', 'Professional Services', 'Media & Entertainment'],
+            },
+            values: [],
+          },
+          validation: { required: true, message: 'Please select at least one industry' },
+        },
+        {
+          key: 'companySize',
+          label: 'Company Size',
+          type: 'multiselect',
+          helpText: 'You can select multiple company sizes. Consider both your current customers and your growth targets.',
+          options: [
+            '1-10 employees', '11-50 employees', '51-200 employees', '201-500 employees',
+            '501-1,000 employees', '1,001-5,000 employees', '5,001-10,000 employees', '10,000+ employees',
+          ].map(size => ({ value: size, label: size })),
+          validation: { required: true, message: 'Please select at least one company size' },
+        },
+        {
+          key: 'locations',
+          label: 'Target Locations',
+          type: 'textarea',
+          placeholder: 'Enter locations, one per line (e.g., New York, USA, European Union, Global)',
+          suggestions: {
+            label: 'Examples',
+            values: ['United States', 'United Kingdom', 'European Union', 'North America', 'Global', 'New York, NY', 'London, UK'],
+          },
+        },
+      ],
+    },
+    {
+      key: 'typography',
+      slug: 'typography',
+      title: 'Typography',
+      subtitle: 'Fonts and styles',
+      description: "Choose fonts for your brand's visual identity",
+      icon: 'type',
+      fields: [
+        { key: 'titleFont', label: 'Title Font', type: 'font', helpText: 'Select a font for main headings and titles', allowOther: true },
+        { key: 'subtitleFont', label: 'Subtitle Font', type: 'font', helpText: 'Select a font for subheadings and section titles', allowOther: true },
+        { key: 'bodyFont', label: 'Body Font', type: 'font', helpText: 'Select a font for main text content', allowOther: true },
+      ],
+    },
+    {
+      key: 'brandAssets',
+      slug: 'brand-assets',
+      title: 'Brand Assets',
+      subtitle: 'Logo, colors, etc.',
+      description: 'Help us understand your brand by sharing your visual identity',
+      icon: 'palette',
+      tips: [
+        'Essential: your logo, primary brand color and company name',
+        'Optional but helpful: brand guidelines, secondary colors, font preferences and style references',
+      ],
+      presets: {
+        label: 'Or choose from popular color combinations',
+        options: [
+          { name: 'Professional Blue', values: { mainColor: '#2563EB', secondaryColor: '#1E40AF', highlightColor: '#3B82F6' } },
+          { name: 'Modern Green', values: { mainColor: '#059669', secondaryColor: '#047857', highlightColor: '#10B981' } },
+          { name: 'Creative Purple', values: { mainColor: '#7C3AED', secondaryColor: '#5B21B6', highlightColor: '#8B5CF6' } },
+          { name: 'Bold Orange', values: { mainColor: '#EA580C', secondaryColor: '#C2410C', highlightColor: '#F97316' } },
+        ],
+      },
+      fields: [
+        {
+          key: 'brandName',
+          label: 'Brand Name',
+          type: 'text',
+          placeholder: 'Enter your brand or company name',
+          helpText: 'What should we call your brand?',
+          validation: { required: true },
+        },
+        {
+          key: 'logo',
+          label: 'Logo',
+          type: 'file',
+          accept: 'image/*,.pdf',
+          helpText: 'Upload your logo in any format (PNG, JPG, SVG, PDF). High resolution and a transparent background work best.',
+        },
+        { key: 'mainColor', label: 'Primary Color', type: 'color', group: 'Brand Colors' },
+        { key: 'secondaryColor', label: 'Secondary Color', type: 'color', group: 'Brand Colors' },
+        { key: 'highlightColor', label: 'Accent Color', type: 'color', group: 'Brand Colors' },
+        {
+          key: 'guidelines',
+          label: 'Brand Guidelines & Assets',
+          type: 'file',
+          accept: '.pdf,.doc,.docx,.png,.jpg,.jpeg,.svg',
+          helpText: 'Brand style guides, color palettes, typography guidelines, logo variations or visual references',
+        },
+        {
+          key: 'additionalAssets',
+          label: 'Additional Brand Notes',
+          type: 'textarea',
+          placeholder: 'Describe your brand style, personality, what you like/dislike, or any specific requirements...',
+          helpText: 'Tell us about your brand personality, style preferences, or anything else we should know',
+        },
+      ],
+    },
+    {
+      key: 'systemIntegration',
+      slug: 'system-integration',
+      title: 'System Integration',
+      subtitle: 'Connect your tools',
+      description: 'Connect your systems for a streamlined workflow',
+      icon: 'settings',
+      tips: [
+        "Don't worry if you're missing some information! You can skip fields you're unsure about, and our team will guide you through the setup process later.",
+      ],
+      fields: [
+        {
+          key: 'crmSystem',
+          label: 'Select Your CRM',
+          type: 'select',
+          placeholder: 'Select your CRM',
+          group: 'CRM Integration',
+          options: [
+            { value: 'salesforce', label: 'Salesforce' },
+            { value: 'pipedrive', label: 'Pipedrive' },
+            { value: 'hubspot', label: 'HubSpot' },
+            { value: 'other', label: 'Other CRM' },
+          ],
+        },
+        {
+          key: 'crmInstance',
+          label: 'CRM Instance Details',
+          type: 'text',
+          placeholder: 'Your CRM instance name or URL',
+          group: 'CRM Integration',
+          rules: [{ action: 'show', when: { match: 'all', tests: [{ field: 'systemIntegration.crmSystem', operator: 'equals', value: 'salesforce' }] } }],
+        },
+        {
+          key: 'schedulingTool',
+          label: 'Scheduling Tool',
+          type: 'select',
+          placeholder: 'Select your scheduling tool',
+          group: 'Calendar Integration',
+          options: [
+            { value: 'calendly', label: 'Calendly' },
+            { value: 'savvycal', label: 'SavvyCal' },
+            { value: 'microsoft', label: 'Microsoft' },
+            { value: 'other', label: 'Other Tool' },
+          ],
+        },
+        {
+          key: 'leadCapture',
+          label: 'Lead Capture Method',
+          type: 'select',
+          placeholder: 'How do leads reach you?',
+          group: 'Sales Process Configuration',
+          options: [
+            { value: 'form', label: 'Web Forms' },
+            { value: 'manual', label: 'Manual Entry' },
+          ],
+        },
+        {
+          key: 'leadStatusFlow',
+          label: 'Lead Status Workflow',
+          type: 'textarea',
+          placeholder: 'How should lead status changes be handled? (e.g., Qualified → Meeting Scheduled → Demo Completed)',
+          group: 'Sales Process Configuration',
+        },
+      ],
+    },
+  ],
+};
+
+// A finished section of the default template: its answers and its fields' rules, as the
+// registry checks them when a save finishes the section
+function defaultSectionSchema(key: string) {
+  return sectionAnswersSchema(getTemplateSection(defaultFormTemplate, key)!, {});
+}
+
+// The section schemas that used to be written out in @shared/schema, now built from the
+// template so their field names are the ones the form saves
+export const businessDetailsSchema = defaultSectionSchema('businessDetails');
+export const campaignSchema = defaultSectionSchema('campaign');
+export const targetAudienceSchema = defaultSectionSchema('audience');
+export const typographySchema = defaultSectionSchema('typography');
+export const brandAssetsSchema = defaultSectionSchema('brandAssets');
+export const systemIntegrationSchema = defaultSectionSchema('systemIntegration');
+
+export type BusinessDetails = z.infer<typeof businessDetailsSchema>;
+export type Campaign = z.infer<typeof campaignSchema>;
+export type TargetAudience = z.infer<typeof targetAudienceSchema>;
+export type Typography = z.infer<typeof typographySchema>;
+export type BrandAssets = z.infer<typeof brandAssetsSchema>;
+export type SystemIntegration = z.infer<typeof systemIntegrationSchema>;
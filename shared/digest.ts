@@ -0,0 +1,24 @@
+import type { DigestPeriod, DigestReport } from "./schema";
+
+// Formatting shared by the digest email and the report page
+
+export const digestPeriodLabels: Record<DigestPeriod, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+export function formatDuration(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10} hours`;
+  return `${Math.round((hours / 24) * 10) / 10} days`;
+}
+
+// Periods end at midnight UTC, so the last day shown is the one before periodEnd
+export function formatDigestRange(report: Pick<DigestReport, 'periodStart' | 'periodEnd'>): string {
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  const start = new Date(report.periodStart);
+  const lastDay = new Date(new Date(report.periodEnd).getTime() - 1);
+  return start.toISOString().slice(0, 10) === lastDay.toISOString().slice(0, 10)
+    ? format(start)
+    : `${format(start)} – ${format(lastDay)}`;
+}
@@ -0,0 +1,37 @@
+import { type CatalogueFont } from "./schema";
+
+// Matching font answers to the catalogue. Older answers were saved as keys like "opensans",
+// so names are compared ignoring case, spaces and punctuation.
+
+export function normalizeFontName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function findCatalogueFont(catalogue: CatalogueFont[], name: unknown): CatalogueFont | undefined {
+  if (typeof name !== 'string' || !name.trim()) return undefined;
+  const wanted = normalizeFontName(name);
+  return catalogue.find(font => normalizeFontName(font.family) === wanted);
+}
+
+// Pairings go both ways: a font pairs with the fonts it lists and the fonts that list it
+export function getFontPairings(catalogue: CatalogueFont[], family: string): CatalogueFont[] {
+  const font = findCatalogueFont(catalogue, family);
+  if (!font) return [];
+  const listed = new Set(font.pairings.map(normalizeFontName));
+  const wanted = normalizeFontName(font.family);
+  return catalogue.filter(other => other.id !== font.id && other.is_active && (
+    listed.has(normalizeFontName(other.family)) || other.pairings.some(pairing => normalizeFontName(pairing) === wanted)
+  ));
+}
+
+// Stylesheet for one catalogue family, with the weights it lists
+export function getGoogleFontsUrl(font: Pick<CatalogueFont, 'family' | 'weights'>): string {
+  const weights = Array.from(new Set(font.weights)).sort((a, b) => a - b).join(';');
+  return `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font.family).replace(/%20/g, '+')}:wght@${weights}&display=swap`;
+}
+
+// A CSS font-family value with a fallback for the font's category
+export function getFontStack(family: string, category: CatalogueFont['category'] | undefined = 'sans-serif'): string {
+  const fallback = category === 'serif' ? 'serif' : category === 'monospace' ? 'monospace' : category === 'handwriting' ? 'cursive' : 'sans-serif';
+  return `"${family.replace(/["\\]/g, '')}", ${fallback}`;
+}
@@ -0,0 +1,50 @@
+import { type FieldChange } from "./schema";
+
+// Field-level differences between two copies of a form's data. The server stores them with
+// each revision and the dashboard shows them when comparing any two revisions.
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isSameAnswer(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameAnswer(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isSameAnswer(a[key], b[key]));
+  }
+  return false;
+}
+
+function change(path: string, before: unknown, after: unknown): FieldChange {
+  return {
+    path,
+    ...(before === undefined ? {} : { before }),
+    ...(after === undefined ? {} : { after }),
+  };
+}
+
+// Sections are compared field by field; anything else saved at the top level, such as
+// completedSteps, is compared whole. Changes come in the order the keys appear.
+export function diffFormData(before: Record<string, unknown> | null | undefined, after: Record<string, unknown> | null | undefined): FieldChange[] {
+  const previous = before ?? {};
+  const next = after ?? {};
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+
+  return keys.flatMap(key => {
+    const oldValue = previous[key];
+    const newValue = next[key];
+    if (isPlainObject(oldValue) || isPlainObject(newValue)) {
+      const oldSection = isPlainObject(oldValue) ? oldValue : {};
+      const newSection = isPlainObject(newValue) ? newValue : {};
+      const fieldKeys = Array.from(new Set([...Object.keys(oldSection), ...Object.keys(newSection)]));
+      return fieldKeys
+        .filter(fieldKey => !isSameAnswer(oldSection[fieldKey], newSection[fieldKey]))
+        .map(fieldKey => change(`${key}.${fieldKey}`, oldSection[fieldKey], newSection[fieldKey]));
+    }
+    return isSameAnswer(oldValue, newValue) ? [] : [change(key, oldValue, newValue)];
+  });
+}
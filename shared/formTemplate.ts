@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { fileAnswerSchema, valuelessRuleOperators, type FormField, type FormTemplateDefinition, type FormTemplateSection, type RuleCondition, type RuleTest } from "./schema";
+
+// Reading and checking answers against a form template. The onboarding form and the server
+// use the same rules, so a section the client accepts is never rejected when it's saved.
+
+// A form's data: the answers of each section, keyed by section key and then field key
+export type FormAnswers = Record<string, Record<string, unknown>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[+\d\s()-]+$/;
+const URL_PATTERN = /^(https?:\/\/)?[^\s/.]+(\.[^\s/.]+)+(\/\S*)?$/i;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Multiselect answers used to be saved as comma-separated text
+export function toAnswerList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+  return [];
+}
+
+export function isBlankAnswer(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return String(value).trim() === '';
+}
+
+// "section.field" to that answer
+export function getAnswer(data: FormAnswers, path: string): unknown {
+  const [sectionKey, fieldKey] = path.split('.');
+  return data[sectionKey]?.[fieldKey];
+}
+
+export function getTemplateSection(definition: FormTemplateDefinition, key: string): FormTemplateSection | undefined {
+  return definition.sections.find(section => section.key === key);
+}
+
+// The message for the first rule the answer breaks, or undefined when it's fine.
+// File fields only need an upload when required; the file itself is checked when it's uploaded.
+export function validateFieldValue(field: FormField, value: unknown): string | undefined {
+  const rules = field.validation ?? {};
+  const fail = (message: string) => rules.message || message;
+
+  if (isBlankAnswer(value)) {
+    if (!rules.required) return undefined;
+    if (field.type === 'file') return fail(`Please upload ${field.label.toLowerCase()}`);
+    if (field.type === 'multiselect') return fail('Please select at least one option');
+    if (field.type === 'select' || field.type === 'font') return fail(`Please select ${field.label.toLowerCase()}`);
+    return fail(`${field.label} is required`);
+  }
+
+  if (field.type === 'file') return undefined;
+
+  if (field.type === 'multiselect') {
+    const values = toAnswerList(value);
+    if (!field.allowOther && values.some(item => !field.options?.some(option => option.value === item))) {
+      return fail('Please choose from the options listed');
+    }
+    return undefined;
+  }
+
+  const text = String(value).trim();
+
+  // Font fields without options offer the font catalogue, which changes, so any family is kept
+  const fixedFonts = field.type === 'font' && !field.allowOther && !!field.options?.length;
+  if ((field.type === 'select' || fixedFonts) && !field.options?.some(option => option.value === text)) {
+    return fail('Please choose from the options listed');
+  }
+  if (rules.minLength !== undefined && text.length < rules.minLength) {
+    return fail(`${field.label} must be at least ${rules.minLength} characters`);
+  }
+  if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+    return fail(`${field.label} must be at most ${rules.maxLength} characters`);
+  }
+
+  switch (field.type) {
+    case 'email':
+      if (!EMAIL_PATTERN.test(text)) return fail('Please enter a valid email address');
+      break;
+    case 'phone':
+      if (text.length < 8 || !PHONE_PATTERN.test(text)) return fail('Please enter a valid phone number');
+      break;
+    case 'url':
+      if (!URL_PATTERN.test(text)) return fail('Please enter a valid web address');
+      break;
+    case 'color':
+      if (!COLOR_PATTERN.test(text)) return fail('Use a hex color like #10B981');
+      break;
+    case 'date':
+      if (Number.isNaN(Date.parse(text))) return fail('Please enter a valid date');
+      break;
+    case 'number': {
+      const number = Number(text);
+      if (!Number.isFinite(number)) return fail('Please enter a number');
+      if (rules.min !== undefined && number < rules.min) return fail(`${field.label} must be at least ${rules.min}`);
+      if (rules.max !== undefined && number > rules.max) return fail(`${field.label} must be at most ${rules.max}`);
+      break;
+    }
+  }
+
+  if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+    return fail('Please check the format of this answer');
+  }
+
+  return undefined;
+}
+
+function isRuleTestMet(test: RuleTest, data: FormAnswers): boolean {
+  const answer = getAnswer(data, test.field);
+  if (valuelessRuleOperators.includes(test.operator)) {
+    return isBlankAnswer(answer) === (test.operator === 'notAnswered');
+  }
+
+  const answers = Array.isArray(answer) ? toAnswerList(answer) : isBlankAnswer(answer) ? [] : [String(answer).trim()];
+  const expected = (test.value ?? '').trim().toLowerCase();
+  const matches = answers.some(item => test.operator === 'equals' || test.operator === 'notEquals'
+    ? item.toLowerCase() === expected
+    : item.toLowerCase().includes(expected));
+  return test.operator === 'equals' || test.operator === 'includes' ? matches : !matches;
+}
+
+export function isConditionMet(condition: RuleCondition, data: FormAnswers): boolean {
+  return condition.match === 'any'
+    ? condition.tests.some(test => isRuleTestMet(test, data))
+    : condition.tests.every(test => isRuleTestMet(test, data));
+}
+
+export function isSectionSkipped(section: FormTemplateSection, data: FormAnswers): boolean {
+  return !!section.skipWhen && isConditionMet(section.skipWhen, data);
+}
+
+export function isFieldShown(field: FormField, data: FormAnswers): boolean {
+  const rules = field.rules ?? [];
+  const showRules = rules.filter(rule => rule.action === 'show');
+  if (showRules.length > 0 && !showRules.some(rule => isConditionMet(rule.when, data))) return false;
+  return !rules.some(rule => rule.action === 'hide' && isConditionMet(rule.when, data));
+}
+
+// The section's fields as the rules apply them to these answers: hidden ones left out, and
+// those a require rule holds for marked required. Answers to hidden fields are kept but not checked.
+export function getActiveFields(section: FormTemplateSection, data: FormAnswers): FormField[] {
+  return section.fields.filter(field => isFieldShown(field, data)).map(field => {
+    const required = field.rules?.some(rule => rule.action === 'require' && isConditionMet(rule.when, data));
+    return required && !field.validation?.required ? { ...field, validation: { ...field.validation, required: true } } : field;
+  });
+}
+
+// Field key to message, for every field in the section with a problem. data is the whole form,
+// for rules that look at other sections; without it only this section's answers are seen.
+export function validateSectionAnswers(
+  section: FormTemplateSection,
+  answers: Record<string, unknown> = {},
+  data: FormAnswers = { [section.key]: answers },
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of getActiveFields(section, { ...data, [section.key]: answers })) {
+    const error = validateFieldValue(field, answers[field.key]);
+    if (error) errors[field.key] = error;
+  }
+  return errors;
+}
+
+// Section key to that section's problems, for the sections the rules don't skip
+export function validateFormAnswers(definition: FormTemplateDefinition, data: FormAnswers): Record<string, Record<string, string>> {
+  const errors: Record<string, Record<string, string>> = {};
+  for (const section of definition.sections) {
+    if (isSectionSkipped(section, data)) continue;
+    const sectionErrors = validateSectionAnswers(section, data[section.key], data);
+    if (Object.keys(sectionErrors).length > 0) errors[section.key] = sectionErrors;
+  }
+  return errors;
+}
+
+// Problems with answers being saved: section key, then field key, to message. '' stands for
+// the section as a whole, e.g. when its answers aren't an object.
+export type AnswerErrors = Record<string, Record<string, string>>;
+
+// Longest text answer, for fields without their own maxLength
+const MAX_ANSWER_LENGTH = 10000;
+
+// What each type of field saves. Multiselect answers may still be old comma-separated text,
+// and file fields save the asset uploaded for them.
+function answerValueSchema(field: FormField): z.ZodTypeAny {
+  switch (field.type) {
+    case 'multiselect':
+      return z.union([z.array(z.string().max(MAX_ANSWER_LENGTH)), z.string().max(MAX_ANSWER_LENGTH)], {
+        errorMap: () => ({ message: 'Expected a list of options' }),
+      });
+    case 'number':
+      return z.union([z.number(), z.string().max(100)], {
+        errorMap: () => ({ message: 'Expected a number' }),
+      });
+    case 'file':
+      return z.unknown().refine(value => fileAnswerSchema.safeParse(value).success, { message: 'Expected an uploaded file' });
+    default:
+      return z.string().max(MAX_ANSWER_LENGTH);
+  }
+}
+
+// The Zod schema a section's answers are saved against. Every answer has to be what its field
+// saves; a finished section must also pass its fields' rules, with data as the rest of the form
+// (just this section when it isn't given). Keys the template doesn't know are kept, so answers
+// from older templates survive a save.
+export function sectionAnswersSchema(section: FormTemplateSection, finished?: { data?: FormAnswers }): z.ZodType<Record<string, unknown>> {
+  const schema = z.object(Object.fromEntries(section.fields.map(field => [field.key, answerValueSchema(field).nullish()]))).passthrough();
+  if (!finished) return schema;
+
+  return schema.superRefine((answers, ctx) => {
+    const errors = validateSectionAnswers(section, answers, finished.data);
+    for (const [fieldKey, message] of Object.entries(errors)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [fieldKey] });
+    }
+  });
+}
+
+// The registry the server and the form check answers with: section key to its schema. Sections
+// in finished get their fields' rules too, unless the rules skip them.
+export function getSectionSchemas(definition: FormTemplateDefinition, data: FormAnswers, finished: string[] = []): Record<string, z.ZodType<Record<string, unknown>>> {
+  return Object.fromEntries(definition.sections.map(section => [
+    section.key,
+    sectionAnswersSchema(section, finished.includes(section.key) && !isSectionSkipped(section, data) ? { data } : undefined),
+  ]));
+}
+
+// Field key to the first problem with it
+export function toFieldErrors(error: z.ZodError): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const fieldKey = String(issue.path[0] ?? '');
+    if (!(fieldKey in errors)) errors[fieldKey] = issue.message;
+  }
+  return errors;
+}
+
+// Checks form data against the registry before it's saved. Sections without answers are left
+// alone unless they're in finished.
+export function validateFormData(definition: FormTemplateDefinition, data: Record<string, unknown>, finished: string[] = []): AnswerErrors {
+  const answers = data as FormAnswers;
+  const errors: AnswerErrors = {};
+  for (const [sectionKey, schema] of Object.entries(getSectionSchemas(definition, answers, finished))) {
+    if (data[sectionKey] === undefined && !finished.includes(sectionKey)) continue;
+    const result = schema.safeParse(data[sectionKey] ?? {});
+    if (!result.success) errors[sectionKey] = toFieldErrors(result.error);
+  }
+  return errors;
+}
+
+// The sections a save marks finished: steps in its completedSteps that weren't there before
+export function getFinishingSections(definition: FormTemplateDefinition, previous: Record<string, unknown> | null | undefined, next: Record<string, unknown>): string[] {
+  const steps = (data: Record<string, unknown> | null | undefined) =>
+    Array.isArray(data?.completedSteps) ? data.completedSteps.filter((step): step is number => typeof step === 'number') : [];
+  const before = steps(previous);
+  return steps(next)
+    .filter(step => !before.includes(step))
+    .map(step => definition.sections[step]?.key)
+    .filter((key): key is string => !!key);
+}
+
+// An answer for every field in the section, blank where there isn't one yet, with legacy
+// comma-separated multiselect answers turned into lists
+export function normalizeSectionAnswers(section: FormTemplateSection, answers: Record<string, unknown> = {}): Record<string, unknown> {
+  const normalized: Record<string, unknown> = { ...answers };
+  for (const field of section.fields) {
+    normalized[field.key] = field.type === 'multiselect' ? toAnswerList(answers[field.key])
+      : field.type === 'file' ? answers[field.key] ?? null
+      : answers[field.key] ?? '';
+  }
+  return normalized;
+}
+
+// Of the fields the rules show
+export function countAnsweredFields(section: FormTemplateSection, answers: Record<string, unknown> = {}, data: FormAnswers = { [section.key]: answers }): number {
+  return getActiveFields(section, { ...data, [section.key]: answers }).filter(field => !isBlankAnswer(answers[field.key])).length;
+}
+
+export function getFieldSuggestions(field: FormField, data: FormAnswers): string[] {
+  const suggestions = field.suggestions;
+  if (!suggestions) return [];
+  if (suggestions.dependsOn && suggestions.byValue) {
+    const answer = getAnswer(data, suggestions.dependsOn);
+    if (typeof answer === 'string' && suggestions.byValue[answer]) {
+      return suggestions.byValue[answer];
+    }
+  }
+  return suggestions.values;
+}
+
+// The first rule with a keyword found in the other answer wins
+export function inferFieldValue(field: FormField, data: FormAnswers): string | null {
+  if (!field.inferFrom) return null;
+  const source = getAnswer(data, field.inferFrom.from);
+  if (typeof source !== 'string' || !source.trim()) return null;
+
+  const text = source.toLowerCase();
+  const rule = field.inferFrom.rules.find(rule => rule.keywords.some(keyword => text.includes(keyword.toLowerCase())));
+  return rule?.value ?? null;
+}
+
+export function getOptionLabel(field: FormField, value: string): string {
+  return field.options?.find(option => option.value === value)?.label ?? value;
+}
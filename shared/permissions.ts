@@ -0,0 +1,34 @@
+import { userRoleEnum } from "./schema";
+
+// What each staff role may do through the API. Clients never get a role; they hold a
+// token for a single form and are limited to clientFormPermissions on that form.
+
+export type UserRole = typeof userRoleEnum.enumValues[number];
+
+export const permissions = [
+  'forms:read',
+  'forms:create',
+  'forms:write',
+  'forms:delete',
+  'submissions:read',
+  'webhooks:manage',
+  'team:manage',
+  'emails:read',
+  'settings:manage',
+  'notifications:read',
+  'templates:manage',
+] as const;
+
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  editor: ['forms:read', 'forms:create', 'forms:write', 'submissions:read', 'notifications:read'],
+  viewer: ['forms:read', 'submissions:read', 'notifications:read'],
+};
+
+export const clientFormPermissions: readonly Permission[] = ['forms:read', 'forms:write'];
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
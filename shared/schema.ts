@@ -6,13 +6,32 @@ import { z } from "zod";
 export const userRoleEnum = pgEnum('user_role', ['admin', 'editor', 'viewer']);
 
 // Define enum for invitation status
-export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'expired']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'expired', 'revoked']);
+
+// Define enum for webhook delivery status
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'succeeded', 'failed', 'dead']);
+
+// Define enum for outbound email status
+export const emailStatusEnum = pgEnum('email_status', ['sent', 'failed']);
+
+// Define enums for in-app notifications
+export const notificationTypeEnum = pgEnum('notification_type', ['form_created', 'form_completed', 'section_completed', 'reminder_sent', 'webhook_failed']);
+export const notificationPriorityEnum = pgEnum('notification_priority', ['high', 'medium', 'low']);
+
+// Define enum for where a change to a form's answers came from
+export const formRevisionSources = ['autosave', 'step_navigation', 'admin_edit', 'api', 'restore'] as const;
+export const formRevisionSourceEnum = pgEnum('form_revision_source', formRevisionSources);
+
+// Define enum for font catalogue categories
+export const fontCategories = ['sans-serif', 'serif', 'display', 'handwriting', 'monospace'] as const;
+export const fontCategoryEnum = pgEnum('font_category', fontCategories);
 
 export const users = pgTable("users", {
   user_id: uuid("user_id").primaryKey(), // References auth.users(id) - FK constraint handled in DB
   email: text("email").unique(), // Assuming email is still needed here
   name: text("name"),
   role: userRoleEnum("role").notNull().default("viewer"),
+  deactivated_at: timestamp("deactivated_at", { withTimezone: true }), // Deactivated users keep their row but lose their role
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
 });
@@ -27,6 +46,86 @@ export const onboardingForms = pgTable("onboarding_forms", {
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   lastReminder: timestamp("last_reminder", { withTimezone: true }),
   createdBy: uuid("created_by").references(() => users.user_id),
+  isDisabled: boolean("is_disabled").notNull().default(false),
+  passwordHash: text("password_hash"), // scrypt hash, set through PUT /api/forms/:id/password
+  remindersOptedOut: boolean("reminders_opted_out").notNull().default(false), // No automatic reminders for this form
+  startedAt: timestamp("started_at", { withTimezone: true }), // Set by a trigger on the first save
+  completedAt: timestamp("completed_at", { withTimezone: true }), // Set by a trigger when the status becomes completed
+  templateId: uuid("template_id").references(() => formTemplates.id), // Null for the built-in default template
+  templateVersionId: uuid("template_version_id").references(() => formTemplateVersions.id), // The published version the form was created with
+});
+
+// The questions a form asks, as data. Forms without a template use defaultFormTemplate from @shared/defaultFormTemplate.
+// definition is the draft admins edit; forms only ever get a published version of it.
+export const formTemplates = pgTable("form_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  description: text("description"),
+  definition: jsonb("definition").$type<FormTemplateDefinition>().notNull(), // Validated with formTemplateDefinitionSchema
+  is_default: boolean("is_default").notNull().default(false), // Used for new forms when none is picked; at most one
+  published_version: integer("published_version"), // Latest version number, null until first published
+  has_draft_changes: boolean("has_draft_changes").notNull().default(true), // The draft differs from the latest version
+  created_by: uuid("created_by").references(() => users.user_id, { onDelete: 'set null' }),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+// Published snapshots of a template. Forms point at the version they were created with,
+// so publishing changes never alters a form that has already been sent.
+export const formTemplateVersions = pgTable("form_template_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  template_id: uuid("template_id").notNull().references(() => formTemplates.id, { onDelete: 'cascade' }),
+  version: integer("version").notNull(), // 1, 2, ... per template
+  name: text("name").notNull(), // The template's name when published
+  definition: jsonb("definition").$type<FormTemplateDefinition>().notNull(),
+  published_by: uuid("published_by").references(() => users.user_id, { onDelete: 'set null' }),
+  published_at: timestamp("published_at", { withTimezone: true }).defaultNow(),
+});
+
+// Every save that changed a form's answers. Rows are only ever added: data is the whole
+// of forms.data after the save and changes is what the save changed, field by field.
+export const formRevisions = pgTable("form_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  form_id: uuid("form_id").notNull().references(() => onboardingForms.id, { onDelete: 'cascade' }),
+  source: formRevisionSourceEnum("source").notNull(),
+  author_user_id: uuid("author_user_id").references(() => users.user_id, { onDelete: 'set null' }), // Staff member who saved
+  author_token_id: uuid("author_token_id").references(() => formAccessTokens.id, { onDelete: 'set null' }), // Client link that saved
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  changes: jsonb("changes").$type<FieldChange[]>().notNull(),
+  restored_from: uuid("restored_from"), // The revision a restore brought back
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+// Files clients upload for the form's file fields, such as the logo. The original is kept as
+// uploaded, less anything unsafe in SVGs; images also get the variants in brandAssetVariantNames.
+export const brandAssets = pgTable("brand_assets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  form_id: uuid("form_id").notNull().references(() => onboardingForms.id, { onDelete: 'cascade' }),
+  field: text("field").notNull(), // "section.field" the file was uploaded for
+  file_name: text("file_name").notNull(),
+  content_type: text("content_type").notNull(), // From the file's contents, not what the browser said
+  size_bytes: integer("size_bytes").notNull(),
+  width: integer("width"), // Images only
+  height: integer("height"),
+  storage_key: text("storage_key").notNull(), // Where the original is in the asset store
+  variants: jsonb("variants").$type<BrandAssetVariants>().notNull().default({}),
+  font: jsonb("font").$type<FontMetadata>(), // Font files only: what the file says about itself
+  uploaded_by: uuid("uploaded_by").references(() => users.user_id, { onDelete: 'set null' }),
+  uploaded_by_token: uuid("uploaded_by_token").references(() => formAccessTokens.id, { onDelete: 'set null' }),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+// Fonts offered by font fields that don't list their own options. Families load from Google
+// Fonts; pairings are families that work well beside this one.
+export const fontCatalogue = pgTable("font_catalogue", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  family: text("family").notNull().unique(),
+  category: fontCategoryEnum("category").notNull(),
+  weights: integer("weights").array().notNull(), // Loaded for previews, e.g. [400, 700]
+  pairings: text("pairings").array().notNull(),
+  is_active: boolean("is_active").notNull().default(true), // Inactive fonts stay in the list for admins only
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
 });
 
 export const formSections = pgTable("form_sections", {
@@ -51,11 +150,17 @@ export const formSubmissions = pgTable("form_submissions", {
 
 export const systemSettings = pgTable("system_settings", {
   id: serial("id").primaryKey(),
-  webhookUrl: text("webhook_url"),
-  webhookEnabled: boolean("webhook_enabled").default(false),
-  webhookSecret: text("webhook_secret"),
-  notifyOnSectionCompletion: boolean("notify_on_section_completion").default(false),
-  notifyOnFormCompletion: boolean("notify_on_form_completion").default(true),
+  // Automatic reminders, in hours after the form was created
+  remindersEnabled: boolean("reminders_enabled").notNull().default(false),
+  firstReminderHours: integer("first_reminder_hours").notNull().default(24),
+  secondReminderHours: integer("second_reminder_hours").notNull().default(72),
+  finalReminderHours: integer("final_reminder_hours").notNull().default(168),
+  reminderMessage: text("reminder_message"),
+  // Slack incoming webhook for the whole team
+  slackEnabled: boolean("slack_enabled").notNull().default(false),
+  slackWebhookUrl: text("slack_webhook_url"),
+  slackChannel: text("slack_channel"),
+  slackAlerts: jsonb("slack_alerts").$type<SlackSettings['alerts']>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -64,13 +169,108 @@ export const invitations = pgTable("invitations", {
   id: uuid("id").primaryKey().defaultRandom(),
   email: text("email").notNull(),
   role: userRoleEnum("role").notNull(), // Reference the existing userRoleEnum
-  token: text("token").notNull().unique(),
+  token: text("token").notNull().unique(), // SHA-256 hash of the token in the invitation link
   expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+  accepted_at: timestamp("accepted_at", { withTimezone: true }),
   invited_by: uuid("invited_by").references(() => users.user_id), // Reference the user who invited
   status: invitationStatusEnum("status").notNull().default('pending'),
   created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
 });
 
+// Links that give a client access to one form, or one section of it. Only a hash of
+// each token's secret is stored; the signed token itself is only shown once.
+export const formAccessTokens = pgTable("form_access_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  form_id: uuid("form_id").notNull().references(() => onboardingForms.id, { onDelete: 'cascade' }),
+  section_id: text("section_id"), // share_id of the section, null for the whole form
+  token_hash: text("token_hash").notNull().unique(),
+  expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+  revoked_at: timestamp("revoked_at", { withTimezone: true }),
+  created_by: uuid("created_by").references(() => users.user_id),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret"),
+  // The secret replaced by the last rotation keeps signing deliveries until it expires
+  previous_secret: text("previous_secret"),
+  previous_secret_expires_at: timestamp("previous_secret_expires_at", { withTimezone: true }),
+  enabled: boolean("enabled").notNull().default(true),
+  events: text("events").array().notNull(), // Subscribed event types, see webhookEventTypes
+  headers: jsonb("headers").$type<Record<string, string>>().notNull().default({}), // Custom headers sent with every delivery
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  endpoint_id: uuid("endpoint_id").references(() => webhookEndpoints.id),
+  event: text("event").notNull(),
+  form_id: uuid("form_id").references(() => onboardingForms.id),
+  url: text("url").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default('pending'),
+  attempt_count: integer("attempt_count").notNull().default(0),
+  response_status: integer("response_status"),
+  response_body: text("response_body"),
+  latency_ms: integer("latency_ms"),
+  last_error: text("last_error"),
+  next_retry_at: timestamp("next_retry_at", { withTimezone: true }),
+  last_attempt_at: timestamp("last_attempt_at", { withTimezone: true }),
+  delivered_at: timestamp("delivered_at", { withTimezone: true }),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+// Every email the server tries to send, whether or not the transport accepted it
+export const emailLog = pgTable("email_log", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  to_email: text("to_email").notNull(),
+  subject: text("subject").notNull(),
+  template: text("template").notNull(), // See emailTemplateNames
+  status: emailStatusEnum("status").notNull(),
+  transport: text("transport").notNull(),
+  message_id: text("message_id"),
+  error: text("error"),
+  form_id: uuid("form_id").references(() => onboardingForms.id, { onDelete: 'set null' }),
+  sent_by: uuid("sent_by").references(() => users.user_id, { onDelete: 'set null' }), // Null for automatic emails
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+// In-app notifications. Each staff member gets their own row, so read and dismissed are per person.
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  user_id: uuid("user_id").notNull().references(() => users.user_id, { onDelete: 'cascade' }),
+  type: notificationTypeEnum("type").notNull(),
+  priority: notificationPriorityEnum("priority").notNull().default('medium'),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  form_id: uuid("form_id").references(() => onboardingForms.id, { onDelete: 'cascade' }),
+  data: jsonb("data").$type<NotificationData>(), // What the action buttons need
+  read_at: timestamp("read_at", { withTimezone: true }),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+// Generated digest reports, one per period. Each has a permalink at /admin/reports/:id.
+export const digestReports = pgTable("digest_reports", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  period: text("period").$type<DigestPeriod>().notNull(),
+  period_start: timestamp("period_start", { withTimezone: true }).notNull(), // Unique together with period
+  period_end: timestamp("period_end", { withTimezone: true }).notNull(),
+  report: jsonb("report").$type<DigestReport>().notNull(),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+// Which alerts each staff member wants, and where. Validated with notificationPreferencesSchema.
+export const notificationPreferences = pgTable("notification_preferences", {
+  user_id: uuid("user_id").primaryKey().references(() => users.user_id, { onDelete: 'cascade' }),
+  preferences: jsonb("preferences").$type<NotificationPreferences>().notNull(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   user_id: true,
   createdAt: true,
@@ -82,7 +282,8 @@ export const insertFormSchema = createInsertSchema(onboardingForms).omit({
   createdAt: true,
   lastReminder: true,
   progress: true,
-  data: true
+  data: true,
+  passwordHash: true
 });
 
 export const insertSectionSchema = createInsertSchema(formSections).omit({
@@ -108,6 +309,12 @@ export const insertInvitationSchema = createInsertSchema(invitations).omit({
   token: true // Token is generated server-side
 });
 
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  created_at: true,
+  updated_at: true
+});
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
@@ -126,73 +333,790 @@ export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
 
-// Form validation schemas
-export const businessDetailsSchema = z.object({
-  name: z.string().min(2, "Business name must be at least 2 characters"),
-  type: z.string().min(1, "Please select a business type"),
-  website: z.string().url().optional(),
-  linkedin: z.string().url().optional(),
-  phone: z.string().regex(/^(\+\d{1,3}\s?)?(\(\d{3}\)\s?\d{3}-\d{4}|\d{10})$/),
-  location: z.string().min(3, "Location must be at least 3 characters"),
+export type FormAccessToken = typeof formAccessTokens.$inferSelect;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+
+export type EmailLogEntry = typeof emailLog.$inferSelect;
+
+export type Notification = typeof notifications.$inferSelect;
+export type DigestReportRecord = typeof digestReports.$inferSelect;
+export type FormTemplate = typeof formTemplates.$inferSelect;
+export type FormTemplateVersion = typeof formTemplateVersions.$inferSelect;
+export type FormRevision = typeof formRevisions.$inferSelect;
+export type FormRevisionSource = typeof formRevisionSources[number];
+export type BrandAsset = typeof brandAssets.$inferSelect;
+export type CatalogueFont = typeof fontCatalogue.$inferSelect;
+export type FontCategory = typeof fontCategories[number];
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDeliveryStatus = WebhookDelivery['status'];
+
+// Section answers are checked against the form's template: see getSectionSchemas in
+// @shared/formTemplate. businessDetailsSchema and the other section schemas that used to be
+// here are built from the default template in @shared/defaultFormTemplate.
+
+// Webhook events. Every delivery wraps its data in the same versioned envelope;
+// bump WEBHOOK_API_VERSION whenever an event's data changes shape.
+export const WEBHOOK_API_VERSION = '2025-06-01';
+
+// Events endpoints can subscribe to
+export const webhookEventTypes = ['form.completed', 'section.completed', 'form.submitted', 'form.updated'] as const;
+export type WebhookEventType = typeof webhookEventTypes[number];
+
+// webhook.test is only sent on demand, but uses the same envelope
+export const webhookEventNames = [...webhookEventTypes, 'webhook.test'] as const;
+export type WebhookEventName = typeof webhookEventNames[number];
+
+const webhookFormSchema = z.object({
+  id: z.union([z.number().int(), z.string()]).describe("Form id"),
+  client_name: z.string().nullable(),
+  client_email: z.string().nullable(),
+});
+
+const webhookSectionSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  data: z.record(z.unknown()),
+});
+
+export const webhookEventDataSchemas = {
+  'form.completed': z.object({
+    form: webhookFormSchema,
+    form_data: z.record(z.unknown()),
+    sections: z.array(webhookSectionSchema),
+  }),
+  'section.completed': z.object({
+    form: webhookFormSchema,
+    section: webhookSectionSchema,
+  }),
+  'form.submitted': z.object({
+    form: webhookFormSchema,
+    submission: z.record(z.unknown()),
+  }),
+  'form.updated': z.object({
+    form: webhookFormSchema,
+    data: z.record(z.unknown()).describe("Form data after the update"),
+    previous_data: z.record(z.unknown()).describe("Form data before the update"),
+  }),
+  'webhook.test': z.object({
+    message: z.string(),
+    test_id: z.string(),
+  }),
+} satisfies Record<WebhookEventName, z.ZodTypeAny>;
+
+function webhookEnvelopeSchema<T extends WebhookEventName>(type: T) {
+  return z.object({
+    id: z.string().describe("Unique event id; stays the same across retries and redeliveries"),
+    type: z.literal(type),
+    api_version: z.string(),
+    created_at: z.string().datetime(),
+    data: webhookEventDataSchemas[type],
+  });
+}
+
+export const webhookEventSchemas = {
+  'form.completed': webhookEnvelopeSchema('form.completed'),
+  'section.completed': webhookEnvelopeSchema('section.completed'),
+  'form.submitted': webhookEnvelopeSchema('form.submitted'),
+  'form.updated': webhookEnvelopeSchema('form.updated'),
+  'webhook.test': webhookEnvelopeSchema('webhook.test'),
+};
+
+export const webhookEventSchema = z.discriminatedUnion('type', [
+  webhookEventSchemas['form.completed'],
+  webhookEventSchemas['section.completed'],
+  webhookEventSchemas['form.submitted'],
+  webhookEventSchemas['form.updated'],
+  webhookEventSchemas['webhook.test'],
+]);
+
+export type WebhookEventData<T extends WebhookEventName> = z.infer<typeof webhookEventDataSchemas[T]>;
+export type WebhookEvent<T extends WebhookEventName = WebhookEventName> = z.infer<typeof webhookEventSchemas[T]>;
+
+// Entry in the /api/webhook/events catalogue
+export interface WebhookEventCatalogueEntry {
+  type: WebhookEventName;
+  description: string;
+  subscribable: boolean;
+  schema: Record<string, unknown>; // JSON Schema for the full envelope
+  example: WebhookEvent;
+}
+
+export interface WebhookEventCatalogue {
+  api_version: string;
+  events: WebhookEventCatalogueEntry[];
+}
+
+// Headers the server sets itself; endpoints can't override them
+const reservedWebhookHeaders = ['content-type', 'content-length', 'host', 'user-agent'];
+
+const webhookHeaderName = z.string()
+  .regex(/^[A-Za-z0-9-]+$/, "Header names may only contain letters, digits and hyphens")
+  .refine(name => !reservedWebhookHeaders.includes(name.toLowerCase()) && !name.toLowerCase().startsWith('x-webhook-'), {
+    message: "This header is set automatically and can't be overridden",
+  });
+
+// Webhook endpoint validation schemas
+export const webhookEndpointSchema = z.object({
+  name: z.string().min(1, "Please enter a name for this endpoint").max(100),
+  url: z.string().url("Please enter a valid URL"),
+  secret: z.string().optional().or(z.literal('')),
+  enabled: z.boolean().default(true),
+  events: z.array(z.enum(webhookEventTypes)).min(1, "Subscribe to at least one event"),
+  headers: z.record(webhookHeaderName, z.string()).default({}),
+});
+
+export const updateWebhookEndpointSchema = webhookEndpointSchema.partial();
+
+export const rotateWebhookSecretSchema = z.object({
+  // Leave empty to have the server generate one
+  secret: z.string().optional(),
+  // How long the old secret keeps signing deliveries; 0 switches over immediately
+  graceHours: z.coerce.number().min(0).max(168).default(24),
+});
+
+export type InsertWebhookEndpoint = z.infer<typeof webhookEndpointSchema>;
+export type UpdateWebhookEndpoint = z.infer<typeof updateWebhookEndpointSchema>;
+export type RotateWebhookSecret = z.infer<typeof rotateWebhookSecretSchema>;
+
+// Webhook delivery analytics, computed server-side from webhook_deliveries
+export interface WebhookEventStats {
+  event: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface WebhookDailyStats {
+  date: string; // YYYY-MM-DD (UTC)
+  succeeded: number;
+  failed: number;
+}
+
+export interface WebhookStats {
+  periodDays: number;
+  totalDeliveries: number;
+  successfulDeliveries: number;
+  failedDeliveries: number;
+  deadDeliveries: number;
+  pendingDeliveries: number;
+  successRate: number; // 0-100, rounded
+  averageResponseTime: number | null; // ms, over attempts that recorded a latency
+  lastDelivery: string | null;
+  byEvent: WebhookEventStats[];
+  daily: WebhookDailyStats[];
+}
+
+export const webhookDeliveryFiltersSchema = z.object({
+  endpointId: z.string().uuid().optional(),
+  event: z.string().optional(),
+  status: z.enum(['pending', 'succeeded', 'failed', 'dead']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type WebhookDeliveryFilters = z.infer<typeof webhookDeliveryFiltersSchema>;
+
+// Client access links
+export const createFormAccessTokenSchema = z.object({
+  sectionId: z.string().min(1).optional(),
+  ttlHours: z.coerce.number().min(1).max(24 * 90).default(24 * 30),
+});
+
+export type CreateFormAccessToken = z.infer<typeof createFormAccessTokenSchema>;
+
+// The fields a client may change on their own form
+export const clientFormUpdateSchema = z.object({
+  data: z.record(z.any()).optional(),
+  progress: z.number().int().min(0).max(100).optional(),
+  status: z.enum(['pending', 'in_progress', 'completed']).optional(),
+  // Where the form saved from, for the revision history. Saves without it count as admin
+  // edits when staff make them and as API saves otherwise.
+  source: z.enum(['autosave', 'step_navigation']).optional(),
+}).refine(({ source, ...update }) => Object.values(update).some(value => value !== undefined), {
+  message: "Nothing to update",
+});
+
+export type ClientFormUpdate = z.infer<typeof clientFormUpdateSchema>;
+
+// Revision history. A change is one field whose answer differs: path is "section.field",
+// or just the key for values saved outside a section such as completedSteps. before is
+// undefined for new answers and after is undefined for removed ones.
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface FormRevisionAuthor {
+  kind: 'user' | 'client';
+  name: string | null; // The staff member's name or email; null for clients
+}
+
+// What the timeline lists; the answers themselves are only sent when comparing
+export type FormRevisionSummary = Omit<FormRevision, 'data'> & { author: FormRevisionAuthor | null };
+
+// Brand assets. Images get a small thumbnail and a copy sized for the web, both WebP.
+export const brandAssetVariantNames = ['thumbnail', 'web'] as const;
+export type BrandAssetVariantName = typeof brandAssetVariantNames[number];
+
+export interface BrandAssetVariant {
+  key: string; // In the asset store
+  content_type: string;
+  width: number;
+  height: number;
+  size_bytes: number;
+}
+
+export type BrandAssetVariants = Partial<Record<BrandAssetVariantName, BrandAssetVariant>>;
+
+// Which file field an upload is for, and its name on the client's computer
+export const uploadBrandAssetSchema = z.object({
+  field: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*\.[A-Za-z][A-Za-z0-9_]*$/, "Expected a section.field path"),
+  name: z.string().trim().min(1, "The file needs a name").max(255),
+});
+
+// What a file field saves: the asset uploaded for it
+export const fileAnswerSchema = z.object({
+  assetId: z.string().uuid(),
+  name: z.string().max(255),
+  contentType: z.string().max(100),
+});
+
+export type FileAnswer = z.infer<typeof fileAnswerSchema>;
+
+// Font fields take font files as well as names
+export const FONT_FILE_ACCEPT = '.woff2,.woff,.otf,.ttf';
+
+export interface FontMetadata {
+  family: string;
+  subfamily: string; // e.g. "Bold Italic"
+  weight: number; // CSS font-weight, 1-1000
+  style: 'normal' | 'italic';
+}
+
+// A font file uploaded for the form, for loading it into previews
+export interface UploadedFont extends FontMetadata {
+  assetId: string;
+  field: string;
+  fileName: string;
+}
+
+// What a form's font fields can offer
+export interface FormFonts {
+  catalogue: CatalogueFont[]; // Active fonts only
+  uploaded: UploadedFont[];
+}
+
+// The font catalogue, managed by admins
+export const catalogueFontSchema = z.object({
+  family: z.string().trim().min(1, "Give the font's family name").max(100),
+  category: z.enum(fontCategories),
+  weights: z.array(z.number().int().min(100).max(900).multipleOf(100, "Weights go in hundreds, 100 to 900"))
+    .min(1, "Pick at least one weight").max(9).default([400, 700]),
+  pairings: z.array(z.string().trim().min(1).max(100)).max(12).default([]),
+  is_active: z.boolean().default(true),
+});
+
+export const updateCatalogueFontSchema = catalogueFontSchema.partial();
+
+export type CreateCatalogueFont = z.infer<typeof catalogueFontSchema>;
+export type UpdateCatalogueFont = z.infer<typeof updateCatalogueFontSchema>;
+
+export const compareFormRevisionsSchema = z.object({
+  from: z.string().uuid(),
+  to: z.string().uuid(),
+});
+
+export interface FormRevisionComparison {
+  from: FormRevisionSummary;
+  to: FormRevisionSummary;
+  changes: FieldChange[];
+}
+
+// Password protection and closing a form
+export const formAccessStates = ['open', 'locked', 'closed'] as const;
+export type FormAccessState = typeof formAccessStates[number];
+
+// What the onboarding page needs before it can show a form
+export interface FormAccessStatus {
+  id: string;
+  client_name: string | null;
+  state: FormAccessState;
+}
+
+export const unlockFormSchema = z.object({
+  password: z.string().min(1, "Password is required").max(200),
+});
+
+export const setFormPasswordSchema = z.object({
+  password: z.string().min(4, "Password must be at least 4 characters").max(200).nullable(),
+});
+
+// Team management
+export const userRoles = userRoleEnum.enumValues;
+
+// A row of the Team page. Deactivated users stay listed so they can be reactivated.
+export interface TeamMember {
+  user_id: string;
+  email: string | null;
+  name: string | null;
+  role: typeof userRoles[number];
+  deactivated_at: string | null;
+  created_at: string | null;
+}
+
+export const updateTeamMemberSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  active: z.boolean().optional(),
+}).refine(update => update.role !== undefined || update.active !== undefined, {
+  message: "Nothing to update",
+});
+
+export type UpdateTeamMember = z.infer<typeof updateTeamMemberSchema>;
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(userRoles),
+});
+
+export type CreateInvitation = z.infer<typeof createInvitationSchema>;
+
+// Invitations as listed to admins, without the token hash. Pending invitations past
+// their expiry are reported as expired.
+export type InvitationSummary = Omit<Invitation, 'token'>;
+
+// What the accept page shows before the invitee signs up
+export interface InvitationPreview {
+  email: string;
+  role: typeof userRoles[number];
+  expires_at: string;
+}
+
+// New users choose a password; users who are already signed in only confirm their name
+export const acceptInvitationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200).optional(),
+});
+
+export type AcceptInvitation = z.infer<typeof acceptInvitationSchema>;
+
+// Outbound email
+export const emailTemplateNames = ['clientReminder', 'invitation', 'completionReceipt', 'teamAlert', 'digest'] as const;
+export type EmailTemplateName = typeof emailTemplateNames[number];
+
+export const emailLogFiltersSchema = z.object({
+  template: z.enum(emailTemplateNames).optional(),
+  status: z.enum(['sent', 'failed']).optional(),
+  formId: z.string().uuid().optional(),
+  to: z.string().trim().min(1).optional(), // Part of the recipient address
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type EmailLogFilters = z.infer<typeof emailLogFiltersSchema>;
+
+// Automatic reminders. Each one is sent once its number of hours has passed since the
+// form was created, until the form is completed, disabled or opted out.
+export const reminderStages = ['first', 'second', 'final'] as const;
+export type ReminderStage = typeof reminderStages[number];
+
+const reminderHours = z.number().int().min(1).max(24 * 90);
+
+export const reminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  firstReminder: reminderHours,
+  secondReminder: reminderHours,
+  finalReminder: reminderHours,
+  customMessage: z.string().trim().max(500),
+}).refine(settings => settings.firstReminder < settings.secondReminder && settings.secondReminder < settings.finalReminder, {
+  message: "Each reminder must come after the one before it",
+  path: ["secondReminder"],
+});
+
+export type ReminderSettings = z.infer<typeof reminderSettingsSchema>;
+
+export const defaultReminderSettings: ReminderSettings = {
+  enabled: false,
+  firstReminder: 24,
+  secondReminder: 72,
+  finalReminder: 168,
+  customMessage: '',
+};
+
+// In-app notifications
+export const notificationTypes = notificationTypeEnum.enumValues;
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationPriority = typeof notificationPriorityEnum.enumValues[number];
+
+export interface NotificationData {
+  formSlug?: string | null; // To open the form
+  sectionName?: string;
+  deliveryId?: string; // The webhook delivery to retry
+  webhookUrl?: string;
+}
+
+export const notificationFiltersSchema = z.object({
+  type: z.enum(notificationTypes).optional(),
+  unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>;
+
+export interface NotificationCounts {
+  total: number;
+  unread: number;
+  highPriority: number; // Unread only
+  today: number;
+}
+
+// What staff may send to POST /api/forms. The slug is generated when missing and the
+// password is stored as a hash.
+export const createFormSchema = z.object({
+  client_name: z.string().trim().min(1, "Client name is required").max(200),
+  client_email: z.string().trim().email("Enter a valid email address"),
+  slug: z.string().regex(/^[a-z0-9-]+$/, "Slugs use lowercase letters, numbers and hyphens").max(100).optional(),
+  password: z.string().min(4, "Password must be at least 4 characters").max(200).optional(),
+  template_id: z.string().uuid("Unknown template").optional(), // The default template when missing
+});
+
+export type CreateForm = z.infer<typeof createFormSchema>;
+
+// Notification preferences, edited on the Notifications page and under Settings → Notifications.
+// Every alert can go in-app and by email; webhook failures only reach people who manage webhooks.
+export const notificationChannels = ['inApp', 'email'] as const;
+export type NotificationChannel = typeof notificationChannels[number];
+
+export const digestFrequencies = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = typeof digestFrequencies[number];
+
+const alertChannelsSchema = z.object({
+  inApp: z.boolean(),
+  email: z.boolean(),
+});
+
+export const notificationPreferencesSchema = z.object({
+  alerts: z.object({
+    form_created: alertChannelsSchema,
+    form_completed: alertChannelsSchema,
+    section_completed: alertChannelsSchema,
+    reminder_sent: alertChannelsSchema,
+    webhook_failed: alertChannelsSchema,
+  }),
+  digest: z.enum(digestFrequencies), // Summary email of form activity
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  alerts: {
+    form_created: { inApp: true, email: false },
+    form_completed: { inApp: true, email: true },
+    section_completed: { inApp: true, email: false },
+    reminder_sent: { inApp: true, email: false },
+    webhook_failed: { inApp: true, email: true },
+  },
+  digest: 'off',
+};
+
+// Slack: one incoming webhook for the whole team, set up under Settings → Notifications.
+// Only these alerts can go to Slack.
+export const slackNotificationTypes = ['form_completed', 'section_completed', 'webhook_failed'] as const;
+export type SlackNotificationType = typeof slackNotificationTypes[number];
+
+const slackWebhookUrlSchema = z.string().trim().url("Enter the incoming webhook URL from Slack").regex(/^https:\/\//, "The webhook URL must start with https://");
+
+// Only legacy incoming webhooks honour a channel override; newer ones always post to the channel they were created for
+const slackChannelSchema = z.string().trim().regex(/^([#@][\w.-]+)?$/, "Channels look like #general").max(80);
+
+export const slackSettingsSchema = z.object({
+  enabled: z.boolean(),
+  webhookUrl: slackWebhookUrlSchema.or(z.literal('')),
+  channel: slackChannelSchema,
+  alerts: z.object({
+    form_completed: z.boolean(),
+    section_completed: z.boolean(),
+    webhook_failed: z.boolean(),
+  }),
+}).refine(settings => !settings.enabled || settings.webhookUrl !== '', {
+  message: "Add a webhook URL before turning Slack on",
+  path: ['webhookUrl'],
 });
 
-export const targetAudienceSchema = z.object({
-  jobTitles: z.array(z.string()),
-  industries: z.array(z.string()),
-  companySizes: z.array(z.string()),
-  locations: z.array(z.string()),
+export type SlackSettings = z.infer<typeof slackSettingsSchema>;
+
+export const defaultSlackSettings: SlackSettings = {
+  enabled: false,
+  webhookUrl: '',
+  channel: '',
+  alerts: { form_completed: true, section_completed: false, webhook_failed: true },
+};
+
+// A test message goes to the saved webhook unless the request names another, so settings can be tried before saving
+export const slackTestMessageSchema = z.object({
+  webhookUrl: slackWebhookUrlSchema.optional(),
+  channel: slackChannelSchema.optional(),
 });
 
-export const campaignSchema = z.object({
-  name: z.string().min(1, "Campaign name is required"),
-  objective: z.string().min(1, "Campaign objective is required"),
-  startDate: z.string(),
-  endDate: z.string(),
-  keyMessages: z.array(z.string()),
-  callToAction: z.string(),
+// Digest reports: what happened to forms over a day or a week
+export const digestPeriods = ['daily', 'weekly'] as const;
+export type DigestPeriod = typeof digestPeriods[number];
+
+// An incomplete form nobody has touched for a while
+export interface StalledForm {
+  id: string;
+  client_name: string;
+  client_email: string;
+  slug: string | null;
+  progress: number;
+  lastActivityAt: string;
+  daysInactive: number;
+}
+
+export interface DigestReport {
+  period: DigestPeriod;
+  periodStart: string;
+  periodEnd: string;
+  formsCreated: number;
+  formsStarted: number;
+  formsCompleted: number;
+  medianCompletionHours: number | null; // From creation to completion, for forms completed in the period
+  stalledAfterDays: number;
+  stalledForms: StalledForm[]; // Longest inactive first, capped
+  stalledTotal: number;
+  webhookFailures: {
+    failed: number; // Still being retried
+    dead: number; // Gave up
+  };
+}
+
+export const digestReportFiltersSchema = z.object({
+  period: z.enum(digestPeriods).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
 });
 
+export type DigestReportFilters = z.infer<typeof digestReportFiltersSchema>;
 
-export const typographySchema = z.object({
-  mainTitleFont: z.string(),
-  subtitleFont: z.string(),
-  bodyTextFont: z.string(),
+export const digestPreviewSchema = z.object({
+  period: z.enum(digestPeriods).default('weekly'),
 });
 
-export const brandAssetsSchema = z.object({
-  brandName: z.string(),
-  logoUrl: z.string().optional(),
-  mainColor: z.string(),
-  secondaryColor: z.string(),
-  highlightColor: z.string(),
+// Form templates. A template lists the sections of a form and the fields in each; answers are
+// saved in the form's data as data[section.key][field.key]. Helpers in @shared/formTemplate
+// validate answers against a template, on the client and the server alike.
+export const formFieldTypes = ['text', 'textarea', 'email', 'phone', 'url', 'number', 'date', 'select', 'multiselect', 'color', 'font', 'file'] as const;
+export type FormFieldType = typeof formFieldTypes[number];
+
+// Field types that need a list of options to pick from. Font fields may have one too;
+// without it they offer the font catalogue.
+export const optionFieldTypes: readonly FormFieldType[] = ['select', 'multiselect'];
+
+// Icons a section can show in the progress tracker
+export const formSectionIcons = ['building', 'target', 'users', 'type', 'palette', 'settings', 'file', 'message'] as const;
+export type FormSectionIcon = typeof formSectionIcons[number];
+
+const templateKeySchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "Keys start with a letter and use letters, digits and underscores").max(60);
+
+// Answers elsewhere in the form are referred to as "sectionKey.fieldKey"
+const fieldPathSchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]*\.[A-Za-z][A-Za-z0-9_]*$/, "Refer to other fields as section.field");
+
+const fieldOptionSchema = z.object({
+  value: z.string().min(1),
+  label: z.string().min(1),
 });
 
-export const systemIntegrationSchema = z.object({
-  crmSystem: z.string(),
-  crmInstance: z.string().optional(),
-  crmAccess: z.string().optional(),
-  calendarSystem: z.string().optional(),
-  calendarTool: z.string().optional(),
-  leadCaptureProcess: z.string().optional(),
-  statusChanges: z.string().optional(),
-  notifications: z.string().optional(),
-  otherFeatures: z.string().optional(),
+export const fieldValidationSchema = z.object({
+  required: z.boolean().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(1).optional(),
+  min: z.number().optional(), // Numbers only
+  max: z.number().optional(),
+  pattern: z.string().refine(pattern => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Not a valid regular expression").optional(),
+  message: z.string().max(200).optional(), // Shown instead of the built-in message when a rule fails
 });
 
-export type BusinessDetails = z.infer<typeof businessDetailsSchema>;
-export type TargetAudience = z.infer<typeof targetAudienceSchema>;
-export type Campaign = z.infer<typeof campaignSchema>;
-export type Typography = z.infer<typeof typographySchema>;
-export type BrandAssets = z.infer<typeof brandAssetsSchema>;
-export type SystemIntegration = z.infer<typeof systemIntegrationSchema>;
+// One-click answers shown under a field. With dependsOn, the list for that field's current answer
+// is used, falling back to values.
+const fieldSuggestionsSchema = z.object({
+  label: z.string().max(200).optional(),
+  values: z.array(z.string()).default([]),
+  dependsOn: fieldPathSchema.optional(),
+  byValue: z.record(z.array(z.string())).optional(),
+});
 
-// Webhook settings validation schema
-export const webhookSettingsSchema = z.object({
-  webhookUrl: z.string().url("Please enter a valid URL").optional().or(z.literal('')),
-  webhookEnabled: z.boolean().default(false),
-  webhookSecret: z.string().optional().or(z.literal('')),
-  notifyOnSectionCompletion: z.boolean().default(false),
-  notifyOnFormCompletion: z.boolean().default(true),
+// Proposes an answer from keywords found in another answer, e.g. the business type from the website
+const fieldInferenceSchema = z.object({
+  from: fieldPathSchema,
+  rules: z.array(z.object({
+    value: z.string().min(1),
+    keywords: z.array(z.string().min(1)).min(1),
+  })).min(1),
 });
 
-export type WebhookSettings = z.infer<typeof webhookSettingsSchema>;
\ No newline at end of file
+// Conditional logic. A test looks at one answer elsewhere in the form; text comparisons ignore
+// case, and a list answer matches when any of its items does.
+export const ruleOperators = ['equals', 'notEquals', 'includes', 'notIncludes', 'answered', 'notAnswered'] as const;
+export type RuleOperator = typeof ruleOperators[number];
+
+// Operators that only look at whether there's an answer
+export const valuelessRuleOperators: readonly RuleOperator[] = ['answered', 'notAnswered'];
+
+const ruleTestSchema = z.object({
+  field: fieldPathSchema,
+  operator: z.enum(ruleOperators),
+  value: z.string().max(200).optional(),
+}).refine(test => valuelessRuleOperators.includes(test.operator) || !!test.value?.trim(), {
+  message: "Give the answer to compare with",
+  path: ['value'],
+});
+
+export const ruleConditionSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  tests: z.array(ruleTestSchema).min(1, "A rule needs at least one test"),
+});
+
+// A field with show rules appears only while one of them holds; a hide rule that holds wins
+// over show. A require rule makes the field required while it holds.
+export const fieldRuleActions = ['show', 'hide', 'require'] as const;
+export type FieldRuleAction = typeof fieldRuleActions[number];
+
+const fieldRuleSchema = z.object({
+  action: z.enum(fieldRuleActions),
+  when: ruleConditionSchema,
+});
+
+export const formFieldSchema = z.object({
+  key: templateKeySchema,
+  label: z.string().min(1, "Every field needs a label").max(200),
+  type: z.enum(formFieldTypes),
+  placeholder: z.string().max(300).optional(),
+  helpText: z.string().max(500).optional(),
+  group: z.string().max(100).optional(), // Consecutive fields in the same group share a heading
+  options: z.array(fieldOptionSchema).optional(),
+  allowOther: z.boolean().optional(), // Multiselect and font fields also take a typed answer
+  accept: z.string().max(200).optional(), // File fields, as in <input accept>
+  suggestions: fieldSuggestionsSchema.optional(),
+  inferFrom: fieldInferenceSchema.optional(),
+  validation: fieldValidationSchema.optional(),
+  rules: z.array(fieldRuleSchema).optional(),
+}).refine(field => !optionFieldTypes.includes(field.type) || !!field.options?.length, {
+  message: "Select and multiselect fields need at least one option",
+  path: ['options'],
+});
+
+// Buttons that fill in several fields of a section at once, like a colour palette
+const sectionPresetsSchema = z.object({
+  label: z.string().max(200),
+  options: z.array(z.object({
+    name: z.string().min(1),
+    values: z.record(z.string()),
+  })).min(1),
+});
+
+export const formTemplateSectionSchema = z.object({
+  key: templateKeySchema, // Where the section's answers are saved in the form data
+  slug: z.string().regex(/^[a-z0-9-]+$/, "Slugs use lowercase letters, numbers and hyphens").max(60), // Links to the section as #slug
+  title: z.string().min(1, "Every section needs a title").max(100),
+  subtitle: z.string().max(100).optional(), // Shown in the progress tracker
+  description: z.string().max(500).optional(),
+  icon: z.enum(formSectionIcons).default('file'),
+  tips: z.array(z.string().max(300)).optional(),
+  presets: sectionPresetsSchema.optional(),
+  skipWhen: ruleConditionSchema.optional(), // Left out of the form, and counted as done, while this holds
+  fields: z.array(formFieldSchema).min(1, "Every section needs at least one field"),
+});
+
+export const formTemplateDefinitionSchema = z.object({
+  sections: z.array(formTemplateSectionSchema).min(1, "A template needs at least one section"),
+}).superRefine((definition, ctx) => {
+  const fieldPaths = new Set<string>();
+  const seenSections = new Set<string>();
+  const seenSlugs = new Set<string>();
+
+  definition.sections.forEach((section, sectionIndex) => {
+    if (seenSections.has(section.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Section key "${section.key}" is used twice`, path: ['sections', sectionIndex, 'key'] });
+    }
+    if (seenSlugs.has(section.slug)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Section slug "${section.slug}" is used twice`, path: ['sections', sectionIndex, 'slug'] });
+    }
+    seenSections.add(section.key);
+    seenSlugs.add(section.slug);
+
+    section.fields.forEach((field, fieldIndex) => {
+      const path = `${section.key}.${field.key}`;
+      if (fieldPaths.has(path)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field key "${field.key}" is used twice in ${section.title}`, path: ['sections', sectionIndex, 'fields', fieldIndex, 'key'] });
+      }
+      fieldPaths.add(path);
+    });
+  });
+
+  // Suggestions, inferences and rules may only look at fields that exist. A field's rules can't
+  // look at the field itself, and a section can't be skipped because of its own answers.
+  definition.sections.forEach((section, sectionIndex) => {
+    for (const test of section.skipWhen?.tests ?? []) {
+      if (!fieldPaths.has(test.field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `The skip rule of ${section.title} refers to ${test.field}, which isn't a field`, path: ['sections', sectionIndex, 'skipWhen'] });
+      } else if (test.field.startsWith(`${section.key}.`)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${section.title} can't be skipped because of its own answers`, path: ['sections', sectionIndex, 'skipWhen'] });
+      }
+    }
+
+    section.fields.forEach((field, fieldIndex) => {
+      const ruleReferences = field.rules?.flatMap(rule => rule.when.tests.map(test => test.field)) ?? [];
+      const references = [field.suggestions?.dependsOn, field.inferFrom?.from, ...ruleReferences].filter((path): path is string => !!path);
+      for (const reference of references) {
+        if (!fieldPaths.has(reference)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${field.label}" refers to ${reference}, which isn't a field`, path: ['sections', sectionIndex, 'fields', fieldIndex] });
+        }
+      }
+      if (ruleReferences.includes(`${section.key}.${field.key}`)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `The rules of "${field.label}" can't depend on its own answer`, path: ['sections', sectionIndex, 'fields', fieldIndex, 'rules'] });
+      }
+    });
+  });
+});
+
+export type FormFieldValidation = z.infer<typeof fieldValidationSchema>;
+export type RuleTest = z.infer<typeof ruleTestSchema>;
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type FieldRule = z.infer<typeof fieldRuleSchema>;
+export type FormField = z.infer<typeof formFieldSchema>;
+export type FormTemplateSection = z.infer<typeof formTemplateSectionSchema>;
+export type FormTemplateDefinition = z.infer<typeof formTemplateDefinitionSchema>;
+
+// New templates start as an unpublished draft
+export const createFormTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Give the template a name").max(100),
+  description: z.string().trim().max(500).optional(),
+  definition: formTemplateDefinitionSchema,
+});
+
+// Only a published template can be made the default
+export const updateFormTemplateSchema = createFormTemplateSchema.partial().extend({
+  is_default: z.boolean().optional(),
+});
+
+export type CreateFormTemplate = z.infer<typeof createFormTemplateSchema>;
+export type UpdateFormTemplate = z.infer<typeof updateFormTemplateSchema>;
+
+// The template a form is filled in with. id and version are null for the built-in default.
+export interface ResolvedFormTemplate {
+  id: string | null;
+  version: number | null;
+  name: string;
+  definition: FormTemplateDefinition;
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+
+// Signing and verification for outgoing webhooks. The signature header looks like
+//
+//   X-Webhook-Signature: t=1705314600,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+//
+// where v1 is an HMAC-SHA256 of `${t}.${rawBody}`. While a secret is being rotated the
+// header carries one v1 entry per valid secret, so receivers on either secret keep working.
+// This module only depends on Node's crypto so receivers can import it directly.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+
+const SIGNATURE_SCHEME = 'v1';
+
+// Reject signatures older (or further in the future) than this to stop replays
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookSignatureHeader {
+  timestamp: number;
+  signatures: string[];
+}
+
+export type WebhookVerificationResult =
+  | { valid: true; timestamp: number }
+  | { valid: false; reason: string };
+
+export interface VerifyWebhookSignatureOptions {
+  toleranceSeconds?: number;
+  // Current time in seconds, overridable for tests
+  now?: number;
+}
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+export function signWebhookPayload(body: string, secrets: string[], timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const parts = [`t=${timestamp}`];
+  for (const secret of secrets) {
+    parts.push(`${SIGNATURE_SCHEME}=${computeWebhookSignature(secret, timestamp, body)}`);
+  }
+  return parts.join(',');
+}
+
+export function parseWebhookSignatureHeader(header: string): WebhookSignatureHeader | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (!value) continue;
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === SIGNATURE_SCHEME) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+  return { timestamp, signatures };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Verify a delivery against the raw request body exactly as received. Pass several secrets
+// to accept either side of a rotation.
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null | undefined,
+  secret: string | string[],
+  options: VerifyWebhookSignatureOptions = {}
+): WebhookVerificationResult {
+  if (!header) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  const parsed = parseWebhookSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, reason: 'Timestamp outside the tolerance window' };
+  }
+
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  for (const candidate of secrets) {
+    const expected = computeWebhookSignature(candidate, parsed.timestamp, body);
+    if (parsed.signatures.some(signature => safeEqual(signature, expected))) {
+      return { valid: true, timestamp: parsed.timestamp };
+    }
+  }
+
+  return { valid: false, reason: 'No matching signature' };
+}
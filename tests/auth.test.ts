@@ -0,0 +1,299 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { canAccessForm } from '../server/auth';
+import { createFormAccessToken, parseFormAccessToken } from '../server/formAccess';
+import { hasPermission } from '../shared/permissions';
+import { createTestApp, signInAs, signInAsClient } from './helpers';
+
+describe('Form access tokens', () => {
+  it('round-trips the form and section a token was issued for', () => {
+    const { token, tokenHash } = createFormAccessToken('42', { sectionId: 'abc', ttlHours: 1 });
+    const claims = parseFormAccessToken(token);
+    expect(claims).toMatchObject({ formId: '42', sectionId: 'abc', tokenHash });
+  });
+
+  it('stores only a hash of the secret', () => {
+    const { token, tokenHash } = createFormAccessToken('42', { ttlHours: 1 });
+    const [, secret] = token.split('.');
+    expect(tokenHash).not.toContain(secret);
+    expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects expired tokens', () => {
+    const issuedAt = new Date('2025-01-01T00:00:00Z');
+    const { token } = createFormAccessToken('42', { ttlHours: 1 }, issuedAt);
+    expect(parseFormAccessToken(token, new Date('2025-01-01T00:30:00Z'))).not.toBeNull();
+    expect(parseFormAccessToken(token, new Date('2025-01-01T01:00:01Z'))).toBeNull();
+  });
+
+  it('rejects tampered tokens', () => {
+    const { token } = createFormAccessToken('42', { ttlHours: 1 });
+    const [, secret, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ form: '43', section: null, exp: 9999999999 })).toString('base64url');
+    expect(parseFormAccessToken(`${forged}.${secret}.${signature}`)).toBeNull();
+    expect(parseFormAccessToken('not-a-token')).toBeNull();
+  });
+});
+
+describe('Permission matrix', () => {
+  it('gives admins everything and viewers read access only', () => {
+    expect(hasPermission('admin', 'webhooks:manage')).toBe(true);
+    expect(hasPermission('editor', 'forms:write')).toBe(true);
+    expect(hasPermission('editor', 'webhooks:manage')).toBe(false);
+    expect(hasPermission('viewer', 'forms:read')).toBe(true);
+    expect(hasPermission('viewer', 'forms:write')).toBe(false);
+    expect(hasPermission(null, 'forms:read')).toBe(false);
+  });
+
+  it('limits form clients to their own form', () => {
+    const auth = { kind: 'form' as const, formId: '7', sectionId: null, state: 'open' as const, tokenId: 'token-1' };
+    expect(canAccessForm(auth, 7, 'forms:write')).toBe(true);
+    expect(canAccessForm(auth, 7, 'forms:write', 'abc')).toBe(true);
+    expect(canAccessForm(auth, 8, 'forms:read')).toBe(false);
+    expect(canAccessForm(auth, 7, 'forms:delete')).toBe(false);
+    expect(canAccessForm(undefined, 7, 'forms:read')).toBe(false);
+  });
+
+  it('limits section tokens to their section', () => {
+    const auth = { kind: 'form' as const, formId: '7', sectionId: 'abc', state: 'open' as const, tokenId: 'token-1' };
+    expect(canAccessForm(auth, 7, 'forms:write', 'abc')).toBe(true);
+    expect(canAccessForm(auth, 7, 'forms:write', 'def')).toBe(false);
+    expect(canAccessForm(auth, 7, 'forms:read')).toBe(false);
+  });
+});
+
+describe('Route authorization', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('requires authentication to list submissions', async () => {
+    const app = await createTestApp();
+    await request(app).get('/api/submissions').expect(401);
+  });
+
+  it('rejects an invalid session token', async () => {
+    vi.spyOn(storage, 'verifyAccessToken').mockResolvedValue(null);
+
+    const app = await createTestApp();
+    await request(app)
+      .get('/api/forms')
+      .set('Authorization', 'Bearer expired')
+      .expect(401);
+  });
+
+  it('lets viewers read forms', async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getForms').mockResolvedValue([]);
+
+    const app = await createTestApp();
+    await request(app)
+      .get('/api/forms')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+  });
+
+  it('stops viewers changing forms', async () => {
+    signInAs('viewer');
+    const updateFormData = vi.spyOn(storage, 'updateFormData').mockResolvedValue();
+
+    const app = await createTestApp();
+    await request(app)
+      .patch('/api/forms/1/data')
+      .set('Authorization', 'Bearer token')
+      .send({ businessDetails: { name: 'Acme' } })
+      .expect(403);
+    expect(updateFormData).not.toHaveBeenCalled();
+  });
+
+  it('treats users without a role as having no permissions', async () => {
+    signInAs(null);
+
+    const app = await createTestApp();
+    await request(app)
+      .get('/api/forms')
+      .set('Authorization', 'Bearer token')
+      .expect(403);
+  });
+
+  it('keeps webhook settings admin only', async () => {
+    vi.spyOn(storage, 'getWebhookEndpoints').mockResolvedValue([]);
+    const app = await createTestApp();
+
+    signInAs('editor');
+    await request(app)
+      .get('/api/webhook-endpoints')
+      .set('Authorization', 'Bearer token')
+      .expect(403);
+
+    signInAs('admin');
+    await request(app)
+      .get('/api/webhook-endpoints')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+  });
+
+  it('lets a form client update only their own form', async () => {
+    const updateFormData = vi.spyOn(storage, 'updateFormData').mockResolvedValue();
+    vi.spyOn(storage, 'getForm').mockResolvedValue({ id: 1, data: {} } as never);
+    const createRevision = vi.spyOn(storage, 'createFormRevision').mockImplementation(async revision => ({ id: 'revision-1', created_at: new Date(), ...revision }));
+    const token = signInAsClient(1);
+
+    const app = await createTestApp();
+    await request(app)
+      .patch('/api/forms/1/data')
+      .set('X-Form-Token', token)
+      .send({ businessDetails: { name: 'Acme' } })
+      .expect(200);
+    await request(app)
+      .patch('/api/forms/2/data')
+      .set('X-Form-Token', token)
+      .send({ businessDetails: { name: 'Acme' } })
+      .expect(403);
+    expect(updateFormData).toHaveBeenCalledTimes(1);
+    expect(createRevision.mock.calls[0][0]).toMatchObject({ form_id: '1', source: 'api', author_user_id: null, author_token_id: 'token-1' });
+  });
+
+  it('does not let form clients list other forms or submissions', async () => {
+    const token = signInAsClient(1);
+
+    const app = await createTestApp();
+    await request(app).get('/api/forms').set('X-Form-Token', token).expect(403);
+    await request(app).get('/api/submissions').set('X-Form-Token', token).expect(403);
+  });
+
+  it('rejects revoked and unknown tokens', async () => {
+    const token = signInAsClient(1);
+    const issued = await storage.getFormAccessTokenByHash(parseFormAccessToken(token)!.tokenHash);
+    issued!.revoked_at = new Date();
+    const unknown = createFormAccessToken(1, { ttlHours: 1 }).token;
+
+    const app = await createTestApp();
+    await request(app).patch('/api/forms/1/data').set('X-Form-Token', token).send({}).expect(401);
+    await request(app).patch('/api/forms/1/data').set('X-Form-Token', unknown).send({}).expect(401);
+  });
+
+  it('issues form tokens to editors and stores only the hash', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: 5 } as any);
+    const createToken = vi.spyOn(storage, 'createFormAccessToken').mockImplementation(async token => ({
+      id: 'token-1',
+      revoked_at: null,
+      created_at: new Date(),
+      ...token,
+    }));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/forms/5/access-tokens')
+      .set('Authorization', 'Bearer token')
+      .send({ ttlHours: 2 })
+      .expect(201);
+
+    const claims = parseFormAccessToken(res.body.token);
+    expect(claims?.formId).toBe('5');
+    expect(createToken).toHaveBeenCalledWith(expect.objectContaining({
+      form_id: '5',
+      section_id: null,
+      token_hash: claims?.tokenHash,
+      created_by: 'user-1',
+    }));
+    expect(JSON.stringify(createToken.mock.calls[0][0])).not.toContain(res.body.token);
+  });
+
+  it('does not let viewers issue form tokens', async () => {
+    signInAs('viewer');
+
+    const app = await createTestApp();
+    await request(app)
+      .post('/api/forms/5/access-tokens')
+      .set('Authorization', 'Bearer token')
+      .expect(403);
+  });
+});
+
+describe('Onboarding proxy routes', () => {
+  const form = { id: '11111111-1111-1111-1111-111111111111', slug: 'acme', data: {}, password: 'secret' };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue(form as any);
+  });
+
+  it('serves the form by slug to its token holder without the password', async () => {
+    const token = signInAsClient(form.id);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/onboarding/acme').set('X-Form-Token', token).expect(200);
+
+    expect(res.body.id).toBe(form.id);
+    expect(res.body).not.toHaveProperty('password');
+    expect(res.body).not.toHaveProperty('password_hash');
+  });
+
+  it('refuses anonymous visitors and tokens for other forms', async () => {
+    const token = signInAsClient('22222222-2222-2222-2222-222222222222');
+
+    const app = await createTestApp();
+    await request(app).get('/api/onboarding/acme').expect(401);
+    await request(app).get('/api/onboarding/acme').set('X-Form-Token', token).expect(403);
+  });
+
+  it('lets the token holder save progress and data', async () => {
+    const updateClientForm = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+    vi.spyOn(storage, 'createFormRevision').mockResolvedValue({} as never);
+    const token = signInAsClient(form.id);
+
+    const app = await createTestApp();
+    await request(app)
+      .patch(`/api/onboarding/${form.id}`)
+      .set('X-Form-Token', token)
+      .send({ progress: 50, data: { businessDetails: { name: 'Acme' } } })
+      .expect(200);
+
+    expect(updateClientForm).toHaveBeenCalledWith(form.id, { progress: 50, data: { businessDetails: { name: 'Acme' } } });
+  });
+
+  it('does not let clients change other columns', async () => {
+    const updateClientForm = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+    const token = signInAsClient(form.id);
+
+    const app = await createTestApp();
+    await request(app)
+      .patch(`/api/onboarding/${form.id}`)
+      .set('X-Form-Token', token)
+      .send({ client_email: 'attacker@example.com', created_by: 'someone' })
+      .expect(400);
+    expect(updateClientForm).not.toHaveBeenCalled();
+  });
+
+  it('limits a section token to its section', async () => {
+    vi.spyOn(storage, 'getSection').mockImplementation(async shareId => ({ id: shareId === 'abc' ? 1 : 2 } as any));
+    vi.spyOn(storage, 'getSectionFormId').mockResolvedValue(form.id as any);
+    vi.spyOn(storage, 'getFormTemplateVersionId').mockResolvedValue(null);
+    const updateSection = vi.spyOn(storage, 'updateSectionDataByShareId').mockResolvedValue();
+    const token = signInAsClient(form.id, 'abc');
+
+    const app = await createTestApp();
+    await request(app).get('/api/onboarding/sections/abc').set('X-Form-Token', token).expect(200);
+    await request(app).patch('/api/onboarding/sections/abc').set('X-Form-Token', token).send({ data: { name: 'Acme' } }).expect(200);
+    await request(app).get('/api/onboarding/sections/def').set('X-Form-Token', token).expect(403);
+    await request(app).get('/api/onboarding/acme').set('X-Form-Token', token).expect(403);
+    expect(updateSection).toHaveBeenCalledWith('abc', { name: 'Acme' });
+  });
+
+  it('gives a section token the template through its section', async () => {
+    vi.spyOn(storage, 'getSection').mockImplementation(async shareId => ({ id: shareId === 'abc' ? 1 : 2 } as any));
+    vi.spyOn(storage, 'getSectionFormId').mockResolvedValue(form.id as any);
+    vi.spyOn(storage, 'getFormTemplateVersionId').mockResolvedValue(null);
+    const token = signInAsClient(form.id, 'abc');
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/onboarding/sections/abc/template').set('X-Form-Token', token).expect(200);
+    expect(res.body.definition.sections.map((section: { key: string }) => section.key)).toContain('businessDetails');
+
+    await request(app).get('/api/onboarding/sections/def/template').set('X-Form-Token', token).expect(403);
+    await request(app).get('/api/onboarding/acme/template').set('X-Form-Token', token).expect(403);
+  });
+});
@@ -0,0 +1,184 @@
+import request from 'supertest';
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { assetStore } from '../server/assetStore';
+import { createFormAccessToken } from '../server/formAccess';
+import { detectFileType, isAcceptedFile, processBrandAsset, sanitizeSvg } from '../server/brandAssets';
+import type { BrandAsset } from '../shared/schema';
+import { createTestApp, signInAs, signInAsClient } from './helpers';
+
+const formId = '33333333-3333-4333-8333-333333333333';
+const assetId = '66666666-6666-4666-8666-666666666666';
+
+function png(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 4, background: '#10b981' } }).png().toBuffer();
+}
+
+describe('Brand asset checks', () => {
+  it('goes by what a file is, not what it is called', async () => {
+    const image = await png(4, 4);
+    expect(detectFileType(image)?.contentType).toBe('image/png');
+    expect(detectFileType(Buffer.from('%PDF-1.7 ...'))?.contentType).toBe('application/pdf');
+    expect(detectFileType(Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"></svg>'))?.contentType).toBe('image/svg+xml');
+    expect(detectFileType(Buffer.from('MZ\x90\x00 not an image'))).toBeUndefined();
+
+    const pdf = detectFileType(Buffer.from('%PDF-1.7'))!;
+    expect(isAcceptedFile('image/*,.pdf', pdf)).toBe(true);
+    expect(isAcceptedFile('image/*', pdf)).toBe(false);
+    expect(isAcceptedFile('.png,.jpg', detectFileType(image)!)).toBe(true);
+    expect(isAcceptedFile(undefined, pdf)).toBe(true);
+  });
+
+  it('strips scripts, handlers and outside links from SVGs', () => {
+    const clean = sanitizeSvg([
+      '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)">',
+      '<script>alert(2)</script>',
+      '<a href="javascript:alert(3)"><rect width="10" height="10" onclick=\'alert(4)\'/></a>',
+      '<use href="#shape"/><image href="https://evil.example/track.png"/>',
+      '<style>@import url(https://evil.example/x.css); rect { fill: url(#fade); background: url(https://evil.example/y.png) }</style>',
+      '<foreignObject><iframe src="https://evil.example"></iframe></foreignObject>',
+      '</svg>',
+    ].join(''))!;
+
+    expect(clean).not.toMatch(/alert|evil\.example|<script|<iframe|foreignObject|onload|onclick/i);
+    expect(clean).toContain('href="#shape"');
+    expect(clean).toContain('url(#fade)');
+    expect(sanitizeSvg('<!DOCTYPE svg [<!ENTITY lol "lol">]><svg>&lol;</svg>')).toBeNull();
+
+    // A tag that would only come together once another is removed isn't well-formed to begin with
+    expect(sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg"><scr<script>ipt>alert(1)</scr<script>ipt></svg>')).toBeNull();
+
+    // Prefixed elements are left out whatever namespace the prefix is bound to
+    expect(sanitizeSvg('<svg xmlns:x="http://www.w3.org/2000/svg"><x:script>alert(1)</x:script></svg>'))
+      .toBe('<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"></svg>');
+    expect(sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg" xmlns:x="http://www.w3.org/2000/svg"><x:script>alert(1)</x:script><rect width="1"/></svg>'))
+      .toBe('<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><rect width="1"/></svg>');
+
+    // Links are checked once entities are decoded, in animation values too
+    const animated = sanitizeSvg([
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">',
+      '<a><animate attributeName="href" values="jav&#x61;script:alert(1)"/><set attributeName="href" to="#logo"/></a>',
+      '<use xlink:href="&#x6a;avascript:alert(2)"/><use xlink:href="#logo"/>',
+      '</svg>',
+    ].join(''))!;
+    expect(animated).not.toMatch(/script|alert/i);
+    expect(animated).toContain('<set attributeName="href" to="#logo"/>');
+    expect(animated).toContain('<use xlink:href="#logo"/>');
+  });
+
+  it('makes a thumbnail and a web copy of images, never larger than the original', async () => {
+    const result = await processBrandAsset({ fileName: 'logo.png', body: await png(2000, 1000), accept: 'image/*' });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.asset).toMatchObject({ contentType: 'image/png', extension: '.png', width: 2000, height: 1000 });
+    expect(result.asset.variants.map(({ name, contentType, width, height }) => ({ name, contentType, width, height }))).toEqual([
+      { name: 'thumbnail', contentType: 'image/webp', width: 256, height: 128 },
+      { name: 'web', contentType: 'image/webp', width: 1600, height: 800 },
+    ]);
+
+    const small = await processBrandAsset({ fileName: 'icon.png', body: await png(64, 64) });
+    if ('error' in small) throw new Error(small.error);
+    expect(small.asset.variants.map(variant => variant.width)).toEqual([64, 64]);
+  });
+
+  it('refuses files the field does not take and files it cannot read', async () => {
+    expect(await processBrandAsset({ fileName: 'brief.pdf', body: Buffer.from('%PDF-1.7'), accept: 'image/*' }))
+      .toEqual({ error: "This field doesn't take that type of file" });
+    expect(await processBrandAsset({ fileName: 'logo.png', body: Buffer.from('not really a png') }))
+      .toMatchObject({ error: expect.stringContaining('Upload an image') });
+    expect(await processBrandAsset({ fileName: 'logo.png', body: (await png(8, 8)).subarray(0, 40) }))
+      .toEqual({ error: "This image couldn't be read. It may be damaged." });
+    expect(await processBrandAsset({ fileName: 'empty.png', body: Buffer.alloc(0) })).toEqual({ error: 'The file is empty' });
+  });
+});
+
+describe('Brand asset routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets the client upload a logo for the form and serves its thumbnail', async () => {
+    const token = signInAsClient(formId);
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: {}, template_version_id: null } as never);
+    let saved: BrandAsset | undefined;
+    const create = vi.spyOn(storage, 'createBrandAsset').mockImplementation(async asset => {
+      saved = { ...asset, id: assetId, created_at: new Date() };
+      return saved;
+    });
+    vi.spyOn(storage, 'getBrandAsset').mockImplementation(async (_formId, id) => id === saved?.id ? saved : undefined);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post(`/api/forms/${formId}/assets?field=brandAssets.logo&name=logo.png`)
+      .set('X-Form-Token', token)
+      .set('Content-Type', 'image/png')
+      .send(await png(600, 300))
+      .expect(201);
+
+    expect(res.body).toMatchObject({ id: assetId, field: 'brandAssets.logo', file_name: 'logo.png', content_type: 'image/png', width: 600, height: 300 });
+    expect(create.mock.calls[0][0]).toMatchObject({ form_id: formId, uploaded_by: null, uploaded_by_token: 'token-1' });
+    expect(await assetStore.get(saved!.storage_key)).not.toBeNull();
+
+    const thumbnail = await request(app)
+      .get(`/api/forms/${formId}/assets/${assetId}/thumbnail`)
+      .set('X-Form-Token', token)
+      .buffer(true)
+      .expect(200);
+    expect(thumbnail.headers['content-type']).toBe('image/webp');
+    expect(thumbnail.headers['x-content-type-options']).toBe('nosniff');
+    expect((await sharp(thumbnail.body).metadata()).width).toBe(256);
+
+    const original = await request(app).get(`/api/forms/${formId}/assets/${assetId}/original`).set('X-Form-Token', token).expect(200);
+    expect(original.headers['content-disposition']).toContain('attachment; filename="logo.png"');
+
+    // Other forms' links can't see it
+    const other = createFormAccessToken('77777777-7777-4777-8777-777777777777', { sectionId: null, ttlHours: 1 });
+    await request(app).get(`/api/forms/${formId}/assets/${assetId}/thumbnail`).set('X-Form-Token', other.token).expect(401);
+  });
+
+  it('only takes files for the file fields of the form, of the types they accept', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: {}, template_version_id: null } as never);
+    const create = vi.spyOn(storage, 'createBrandAsset');
+
+    const app = await createTestApp();
+    const wrongField = await request(app)
+      .post(`/api/forms/${formId}/assets?field=brandAssets.brandName&name=logo.png`)
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'image/png')
+      .send(await png(10, 10))
+      .expect(400);
+    expect(wrongField.body.error).toBe('The form has no file or font field called "brandAssets.brandName"');
+
+    const script = await request(app)
+      .post(`/api/forms/${formId}/assets?field=brandAssets.logo&name=logo.png`)
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'image/png')
+      .send(Buffer.from('<script>alert(1)</script>'))
+      .expect(400);
+    expect(script.body.error).toContain('Upload an image');
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('removes the record and the files when an asset is deleted', async () => {
+    signInAs('editor');
+    const asset: BrandAsset = {
+      id: assetId, form_id: formId, field: 'brandAssets.logo', file_name: 'logo.png', content_type: 'image/png', size_bytes: 10, width: 10, height: 10,
+      storage_key: `forms/${formId}/x/original.png`, variants: { thumbnail: { key: `forms/${formId}/x/thumbnail.webp`, content_type: 'image/webp', width: 10, height: 10, size_bytes: 5 } },
+      uploaded_by: 'user-1', uploaded_by_token: null, created_at: new Date(),
+    };
+    vi.spyOn(storage, 'getBrandAsset').mockResolvedValue(asset);
+    const remove = vi.spyOn(storage, 'deleteBrandAsset').mockResolvedValue();
+    const removeFiles = vi.spyOn(assetStore, 'delete').mockResolvedValue();
+
+    const app = await createTestApp();
+    await request(app).delete(`/api/forms/${formId}/assets/${assetId}`).set('Authorization', 'Bearer token').expect(200);
+
+    expect(remove).toHaveBeenCalledWith(formId, assetId);
+    expect(removeFiles).toHaveBeenCalledWith([asset.storage_key, asset.variants.thumbnail!.key]);
+
+    signInAs('viewer');
+    await request(app).delete(`/api/forms/${formId}/assets/${assetId}`).set('Authorization', 'Bearer token').expect(403);
+  });
+});
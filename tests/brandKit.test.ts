@@ -0,0 +1,166 @@
+import zlib from 'zlib';
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { assetStore } from '../server/assetStore';
+import { buildBrandTokens, renderBrandSheet, renderCssVariables, renderDesignTokens, renderTailwindTheme } from '../server/brandKit';
+import { crc32, createZip } from '../server/zip';
+import type { BrandAsset, CatalogueFont } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const formId = '33333333-3333-4333-8333-333333333333';
+const logoId = '66666666-6666-4666-8666-666666666666';
+const fontId = '77777777-7777-4777-8777-777777777777';
+
+// Reads an archive back through its central directory
+function unzip(zip: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  let record = zip.readUInt32LE(end + 16);
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index++) {
+    const method = zip.readUInt16LE(record + 10);
+    const compressedSize = zip.readUInt32LE(record + 20);
+    const nameLength = zip.readUInt16LE(record + 28);
+    const name = zip.toString('utf8', record + 46, record + 46 + nameLength);
+    const header = zip.readUInt32LE(record + 42);
+    const start = header + 30 + zip.readUInt16LE(header + 26) + zip.readUInt16LE(header + 28);
+    const data = zip.subarray(start, start + compressedSize);
+    const body = method === 8 ? zlib.inflateRawSync(data) : data;
+    expect(crc32(body)).toBe(zip.readUInt32LE(record + 16));
+    files.set(name, body);
+    record += 46 + nameLength + zip.readUInt16LE(record + 30) + zip.readUInt16LE(record + 32);
+  }
+  return files;
+}
+
+const catalogue: CatalogueFont[] = [
+  { id: 'inter', family: 'Open Sans', category: 'sans-serif', weights: [700, 400], pairings: [], is_active: true, created_at: new Date(), updated_at: new Date() },
+  { id: 'lora', family: 'Lora', category: 'serif', weights: [400], pairings: [], is_active: true, created_at: new Date(), updated_at: new Date() },
+];
+
+const formData = {
+  businessDetails: { name: 'Acme Corp' },
+  brandAssets: {
+    brandName: 'Acme',
+    logo: { assetId: logoId, name: 'logo.png', contentType: 'image/png' },
+    mainColor: '#2563eb',
+    secondaryColor: '#1E40AF',
+    highlightColor: 'blue',
+  },
+  typography: { titleFont: 'Acme Display', subtitleFont: 'lora', bodyFont: 'opensans' },
+};
+
+const acmeDisplay = { family: 'Acme Display', subfamily: 'Bold', weight: 700, style: 'normal' as const };
+
+describe('Brand tokens', () => {
+  it('turns colour and font answers into tokens', () => {
+    const tokens = buildBrandTokens({ client_name: 'Acme Client', data: formData }, catalogue, [acmeDisplay]);
+
+    expect(tokens.name).toBe('Acme');
+    expect(tokens.colors).toEqual({ primary: '#2563EB', secondary: '#1E40AF' });
+    expect(tokens.fonts.title).toEqual({ family: 'Acme Display', stack: '"Acme Display", sans-serif', weights: [700], source: 'uploaded' });
+    expect(tokens.fonts.subtitle).toMatchObject({ family: 'Lora', stack: '"Lora", serif', source: 'catalogue' });
+    expect(tokens.fonts.body).toMatchObject({ family: 'Open Sans', weights: [400, 700] });
+
+    expect(JSON.parse(renderDesignTokens(tokens))).toMatchObject({
+      color: { primary: { $type: 'color', $value: '#2563EB' } },
+      font: { body: { family: { $type: 'fontFamily', $value: ['Open Sans', 'sans-serif'] } } },
+    });
+    const css = renderCssVariables(tokens);
+    expect(css).toContain('--color-primary: #2563EB;');
+    expect(css).toContain('--font-subtitle: "Lora", serif;');
+    expect(css).toContain('@import url("https://fonts.googleapis.com/css2?family=Lora:wght@400&display=swap");');
+    expect(css).toContain('--color-primary-50: ');
+    expect(renderTailwindTheme(tokens)).toContain('"brand": {\n      "primary": {\n        "50": ');
+    expect(renderTailwindTheme(tokens)).toContain('"DEFAULT": "#2563EB"');
+  });
+
+  it('keeps answers from breaking out of the brand sheet', () => {
+    const tokens = buildBrandTokens({ data: {
+      brandAssets: { brandName: 'Evil <script>alert(1)</script>\n*/' },
+      typography: { titleFont: 'x</style><script>alert(2)</script>' },
+    } }, [], []);
+
+    const sheet = renderBrandSheet(tokens);
+    expect(sheet).not.toMatch(/<script|<\/style><script/);
+    expect(renderTailwindTheme(tokens).split('\n')[0]).toBe('// Evil <script>alert(1)</script> */ brand theme. In tailwind.config.js:');
+    expect(renderCssVariables(tokens)).not.toContain('*/ brand');
+  });
+
+  it('writes archives that unzip to the same files', () => {
+    const text = Buffer.from('tokens '.repeat(100));
+    const random = Buffer.from(Array.from({ length: 64 }, (_, index) => (index * 73) % 256));
+    const files = unzip(createZip([{ name: 'tokens/a.txt', body: text }, { name: 'logos/läge.bin', body: random }]));
+
+    expect(Array.from(files.keys())).toEqual(['tokens/a.txt', 'logos/läge.bin']);
+    expect(files.get('tokens/a.txt')).toEqual(text);
+    expect(files.get('logos/läge.bin')).toEqual(random);
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('Brand kit route', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("bundles the logo, the picked fonts, tokens and a brand sheet", async () => {
+    signInAs('viewer');
+    await assetStore.put(`forms/${formId}/logo/original.png`, Buffer.from('logo-original'), 'image/png');
+    await assetStore.put(`forms/${formId}/logo/web.webp`, Buffer.from('logo-web'), 'image/webp');
+    await assetStore.put(`forms/${formId}/font/original.woff2`, Buffer.from('font-file'), 'font/woff2');
+
+    const asset = (overrides: Partial<BrandAsset>) => ({ form_id: formId, variants: {}, font: null, ...overrides }) as BrandAsset;
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, client_name: 'Acme Client', data: formData } as never);
+    vi.spyOn(storage, 'getFontCatalogue').mockResolvedValue(catalogue);
+    vi.spyOn(storage, 'getBrandAssets').mockResolvedValue([
+      asset({
+        id: logoId, field: 'brandAssets.logo', file_name: 'logo.png', storage_key: `forms/${formId}/logo/original.png`,
+        variants: { web: { key: `forms/${formId}/logo/web.webp`, content_type: 'image/webp', width: 4, height: 4, size_bytes: 8 } },
+      }),
+      asset({ id: fontId, field: 'typography.titleFont', file_name: 'AcmeDisplay-Bold.woff2', storage_key: `forms/${formId}/font/original.woff2`, font: acmeDisplay }),
+      asset({ id: 'tried', field: 'typography.bodyFont', file_name: 'Other.woff2', storage_key: `forms/${formId}/font/original.woff2`, font: { ...acmeDisplay, family: 'Other' } }),
+    ]);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .get(`/api/forms/${formId}/brand-kit`)
+      .set('Authorization', 'Bearer token')
+      .buffer(true)
+      .parse((response, done) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => done(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(res.headers['content-type']).toBe('application/zip');
+    expect(res.headers['content-disposition']).toBe('attachment; filename="acme-brand-kit.zip"');
+    const files = unzip(res.body);
+    expect(Array.from(files.keys()).sort()).toEqual([
+      'brand-sheet.html',
+      'fonts/AcmeDisplay-Bold.woff2',
+      'logos/logo-web.webp',
+      'logos/logo.png',
+      'tokens/tailwind.theme.js',
+      'tokens/tokens.css',
+      'tokens/tokens.json',
+    ]);
+    expect(files.get('logos/logo.png')!.toString()).toBe('logo-original');
+    expect(files.get('tokens/tokens.css')!.toString()).toContain('src: url("../fonts/AcmeDisplay-Bold.woff2") format("woff2");');
+
+    const sheet = files.get('brand-sheet.html')!.toString();
+    expect(sheet).toContain(`src="data:image/webp;base64,${Buffer.from('logo-web').toString('base64')}"`);
+    expect(sheet).toContain('#2563EB');
+    expect(sheet).toContain('url("fonts/AcmeDisplay-Bold.woff2")');
+  });
+
+  it('is for staff only', async () => {
+    const app = await createTestApp();
+    await request(app).get(`/api/forms/${formId}/brand-kit`).expect(401);
+
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue(undefined);
+    await request(app).get(`/api/forms/${formId}/brand-kit`).set('Authorization', 'Bearer token').expect(404);
+  });
+});
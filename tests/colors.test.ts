@@ -0,0 +1,127 @@
+import request from 'supertest';
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { assetStore } from '../server/assetStore';
+import {
+  checkPaletteContrast, extractPalette, generateShadeRamp, getContrastLevel, getContrastRatio, getReadableTextColor,
+  parseHex, relativeLuminance, shadeSteps, suggestAccessibleColor,
+} from '../shared/colors';
+import type { BrandAsset } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const formId = '33333333-3333-4333-8333-333333333333';
+const assetId = '66666666-6666-4666-8666-666666666666';
+
+// A logo-like image: mostly blue on white, with an orange stripe and a transparent corner
+function logo() {
+  const width = 40;
+  const height = 40;
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const color = x < 4 && y < 4 ? [0, 0, 0, 0]
+        : y < 10 ? [255, 255, 255, 255]
+        : y < 30 ? [0x25, 0x63, 0xeb, 255]
+        : [0xf9, 0x73, 0x16, 255];
+      pixels.set(color, offset);
+    }
+  }
+  return { pixels, png: sharp(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer() };
+}
+
+describe('Colour contrast', () => {
+  it('measures contrast the way WCAG does', () => {
+    expect(getContrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21, 5);
+    expect(getContrastRatio('#FFFFFF', '#FFFFFF')).toBe(1);
+    expect(getContrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+    expect(getContrastRatio('#2563EB', 'blue')).toBeNaN();
+
+    expect(getContrastLevel(7.1)).toBe('AAA');
+    expect(getContrastLevel(4.5)).toBe('AA');
+    expect(getContrastLevel(3.2)).toBe('AA Large');
+    expect(getContrastLevel(2.9)).toBe('Fail');
+    expect(getReadableTextColor('#FDE68A')).toBe('#000000');
+    expect(getReadableTextColor('#1E40AF')).toBe('#FFFFFF');
+  });
+
+  it('checks every pairing and suggests a close colour for those that fail', () => {
+    const pairings = checkPaletteContrast([
+      { key: 'mainColor', label: 'Primary Color', value: '#2563EB' },
+      { key: 'secondaryColor', label: 'Secondary Color', value: '#1E40AF' },
+      { key: 'highlightColor', label: 'Accent Color', value: '#3B82F6' },
+      { key: 'unset', label: 'Unset', value: '' },
+    ]);
+
+    expect(pairings.map(pairing => `${pairing.foreground.key} on ${pairing.background.key}`)).toEqual([
+      'secondaryColor on mainColor',
+      'mainColor on highlightColor',
+      'secondaryColor on highlightColor',
+      'mainColor on white',
+      'secondaryColor on white',
+      'highlightColor on white',
+    ]);
+
+    const accentOnMain = pairings.find(pairing => pairing.foreground.key === 'mainColor' && pairing.background.key === 'highlightColor')!;
+    expect(accentOnMain.level).toBe('Fail');
+    expect(getContrastRatio(accentOnMain.suggestion!, '#3B82F6')).toBeGreaterThanOrEqual(4.5);
+
+    const accentOnWhite = pairings.find(pairing => pairing.foreground.key === 'highlightColor')!;
+    expect(accentOnWhite.level).toBe('AA Large');
+    expect(accentOnWhite.suggestion).not.toBeNull();
+    expect(pairings.find(pairing => pairing.foreground.key === 'secondaryColor' && pairing.background.key === 'white')?.suggestion).toBeNull();
+  });
+
+  it('keeps the hue of suggestions and gives up when nothing passes', () => {
+    const suggestion = suggestAccessibleColor('#F97316', '#FFFFFF')!;
+    const { r, g, b } = parseHex(suggestion)!;
+    expect(r).toBeGreaterThan(g);
+    expect(g).toBeGreaterThan(b);
+    expect(getContrastRatio(suggestion, '#FFFFFF')).toBeGreaterThanOrEqual(4.5);
+    expect(suggestAccessibleColor('#000000', '#FFFFFF')).toBe('#000000');
+    expect(suggestAccessibleColor('#777777', '#808080', 21)).toBeNull();
+  });
+});
+
+describe('Shade ramps', () => {
+  it('runs from a light tint to a dark shade with the colour at 500', () => {
+    const ramp = generateShadeRamp('#2563eb')!;
+
+    expect(Object.keys(ramp).map(Number)).toEqual([...shadeSteps]);
+    expect(ramp[500]).toBe('#2563EB');
+    const luminances = shadeSteps.map(step => relativeLuminance(parseHex(ramp[step])!));
+    expect(luminances).toEqual([...luminances].sort((a, b) => b - a));
+    expect(luminances[0]).toBeGreaterThan(0.8);
+    expect(generateShadeRamp('#123')).toBeNull();
+  });
+});
+
+describe('Logo palette', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('picks the main colours, leaving out the background', async () => {
+    expect(extractPalette(logo().pixels)).toEqual(['#2563EB', '#F97316']);
+    expect(extractPalette(new Uint8Array([255, 255, 255, 255, 0, 0, 0, 0]))).toEqual([]);
+  });
+
+  it("reads an uploaded image's colours from its thumbnail", async () => {
+    signInAs('viewer');
+    const key = `forms/${formId}/palette/thumbnail.webp`;
+    await assetStore.put(key, await sharp(await logo().png).webp({ lossless: true }).toBuffer(), 'image/webp');
+    const getAsset = vi.spyOn(storage, 'getBrandAsset').mockResolvedValue({
+      id: assetId, form_id: formId, variants: { thumbnail: { key, content_type: 'image/webp', width: 40, height: 40, size_bytes: 100 } },
+    } as BrandAsset);
+
+    const app = await createTestApp();
+    const res = await request(app).get(`/api/forms/${formId}/assets/${assetId}/palette`).set('Authorization', 'Bearer token').expect(200);
+    expect(res.body.colors).toEqual(['#2563EB', '#F97316']);
+    expect(getAsset).toHaveBeenCalledWith(formId, assetId);
+
+    // PDFs and fonts have no thumbnail to read
+    getAsset.mockResolvedValue({ id: assetId, form_id: formId, variants: {} } as BrandAsset);
+    await request(app).get(`/api/forms/${formId}/assets/${assetId}/palette`).set('Authorization', 'Bearer token').expect(404);
+  });
+});
@@ -0,0 +1,220 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { mailer } from '../server/mailer';
+import { renderEmail } from '../server/emailTemplates';
+import { getCurrentDigestRange, getLatestDigestRange, summarizeDigest } from '../server/digest';
+import { processDueDigests, type DigestSchedulerConfig } from '../server/digestScheduler';
+import type { CaptureTransport } from '../server/email';
+import type { DigestForm, TeamMember } from '../server/types';
+import { defaultNotificationPreferences, type DigestReport, type DigestReportRecord } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const config: DigestSchedulerConfig = { pollIntervalMs: 1000, stalledAfterDays: 7 };
+
+// A Wednesday
+const now = new Date('2025-01-15T09:30:00Z');
+
+function digestForm(overrides: Partial<DigestForm> = {}): DigestForm {
+  return {
+    id: 'form-1',
+    client_name: 'Acme',
+    client_email: 'client@example.com',
+    slug: 'acme',
+    progress: 0,
+    status: 'pending',
+    is_disabled: false,
+    created_at: '2025-01-07T10:00:00Z',
+    started_at: null,
+    completed_at: null,
+    updated_at: '2025-01-07T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function member(overrides: Partial<TeamMember> = {}): TeamMember {
+  return { user_id: 'user-1', email: 'staff@example.com', name: null, role: 'editor', deactivated_at: null, created_at: null, ...overrides };
+}
+
+const weeklyReport: DigestReport = {
+  period: 'weekly',
+  periodStart: '2025-01-06T00:00:00.000Z',
+  periodEnd: '2025-01-13T00:00:00.000Z',
+  formsCreated: 3,
+  formsStarted: 2,
+  formsCompleted: 1,
+  medianCompletionHours: 30,
+  stalledAfterDays: 7,
+  stalledForms: [{
+    id: 'form-9', client_name: 'Quiet <Co>', client_email: 'quiet@example.com', slug: 'quiet', progress: 40,
+    lastActivityAt: '2024-12-20T00:00:00.000Z', daysInactive: 24,
+  }],
+  stalledTotal: 1,
+  webhookFailures: { failed: 2, dead: 1 },
+};
+
+describe('Digest periods', () => {
+  it('reports the last full day and the last full Monday to Sunday week', () => {
+    expect(getLatestDigestRange('daily', now)).toEqual({ start: new Date('2025-01-14T00:00:00Z'), end: new Date('2025-01-15T00:00:00Z') });
+    expect(getLatestDigestRange('weekly', now)).toEqual({ start: new Date('2025-01-06T00:00:00Z'), end: new Date('2025-01-13T00:00:00Z') });
+  });
+
+  it('previews the period in progress up to now', () => {
+    expect(getCurrentDigestRange('weekly', now)).toEqual({ start: new Date('2025-01-13T00:00:00Z'), end: now });
+  });
+});
+
+describe('Digest summary', () => {
+  const range = getLatestDigestRange('weekly', now);
+  const noFailures = { failed: 0, dead: 0 };
+
+  it('counts what happened inside the period only', () => {
+    const report = summarizeDigest('weekly', range, [
+      digestForm(),
+      digestForm({ id: 'form-2', started_at: '2025-01-08T00:00:00Z', updated_at: '2025-01-12T00:00:00Z', status: 'in_progress' }),
+      digestForm({ id: 'form-3', created_at: '2025-01-01T00:00:00Z', started_at: '2025-01-02T00:00:00Z', completed_at: '2025-01-13T00:00:00Z', status: 'completed' }),
+    ], noFailures, 7);
+
+    expect(report).toMatchObject({ formsCreated: 2, formsStarted: 1, formsCompleted: 0, medianCompletionHours: null });
+  });
+
+  it('takes the median time from creation to completion', () => {
+    const completed = (id: string, hours: number) => digestForm({
+      id,
+      status: 'completed',
+      completed_at: new Date(new Date('2025-01-07T10:00:00Z').getTime() + hours * 60 * 60 * 1000).toISOString(),
+    });
+    const report = summarizeDigest('weekly', range, [completed('a', 2), completed('b', 10), completed('c', 30), completed('d', 50)], noFailures, 7);
+
+    expect(report.formsCompleted).toBe(4);
+    expect(report.medianCompletionHours).toBe(20);
+  });
+
+  it('lists open forms that have gone quiet, longest first', () => {
+    const report = summarizeDigest('weekly', range, [
+      digestForm({ id: 'recent', updated_at: '2025-01-10T00:00:00Z' }),
+      digestForm({ id: 'quiet', progress: 40, updated_at: '2025-01-05T00:00:00Z' }),
+      digestForm({ id: 'quieter', updated_at: '2024-12-20T00:00:00Z' }),
+      digestForm({ id: 'disabled', is_disabled: true, updated_at: '2024-12-20T00:00:00Z' }),
+      digestForm({ id: 'done', status: 'completed', completed_at: '2024-12-20T00:00:00Z', updated_at: '2024-12-20T00:00:00Z' }),
+    ], { failed: 2, dead: 1 }, 7);
+
+    expect(report.stalledForms.map(form => form.id)).toEqual(['quieter', 'quiet']);
+    expect(report.stalledForms[1]).toMatchObject({ progress: 40, daysInactive: 8, lastActivityAt: '2025-01-05T00:00:00.000Z' });
+    expect(report.stalledTotal).toBe(2);
+    expect(report.webhookFailures).toEqual({ failed: 2, dead: 1 });
+  });
+});
+
+describe('Digest email', () => {
+  it('summarises the report and links to it', () => {
+    const email = renderEmail('digest', { report: weeklyReport, reportUrl: 'https://app.example.com/admin/reports/report-1' });
+
+    expect(email.subject).toBe('[Sixty Seconds] Weekly report: 1 form completed');
+    expect(email.text).toContain('Jan 6, 2025 – Jan 12, 2025');
+    expect(email.text).toContain('3 forms created, 2 started and 1 completed.');
+    expect(email.text).toContain('Median time to complete: 30 hours.');
+    expect(email.text).toContain('Quiet <Co> (40%, 24 days)');
+    expect(email.text).toContain('2 failing and being retried, 1 gave up');
+    expect(email.html).toContain('Quiet &lt;Co&gt;');
+    expect(email.html).toContain('href="https://app.example.com/admin/reports/report-1"');
+  });
+});
+
+describe('Digest scheduler', () => {
+  const savedReport = (period: DigestReport['period']): DigestReportRecord => ({
+    id: `report-${period}`, period, period_start: new Date(), period_end: new Date(), report: weeklyReport, created_at: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    (mailer.transport as CaptureTransport).sent.length = 0;
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+  });
+
+  it('saves each ended period once and emails the people who asked for it', async () => {
+    const fake = {
+      getDigestReportFor: vi.fn(async (period: string) => period === 'daily' ? savedReport('daily') : undefined),
+      getDigestForms: vi.fn().mockResolvedValue([digestForm()]),
+      countWebhookFailures: vi.fn().mockResolvedValue({ failed: 0, dead: 0 }),
+      createDigestReport: vi.fn(async () => savedReport('weekly')),
+      getTeamMembers: vi.fn().mockResolvedValue([
+        member(),
+        member({ user_id: 'user-2', email: 'daily@example.com' }),
+        member({ user_id: 'user-3', email: 'gone@example.com', deactivated_at: '2025-01-01T00:00:00Z' }),
+      ]),
+      getNotificationPreferencesFor: vi.fn().mockResolvedValue(new Map([
+        ['user-1', { ...defaultNotificationPreferences, digest: 'weekly' }],
+        ['user-2', { ...defaultNotificationPreferences, digest: 'daily' }],
+      ])),
+    };
+
+    // @ts-ignore - only the methods used by the scheduler are provided
+    const results = await processDueDigests(fake, { baseUrl: 'https://app.example.com/', now, config });
+
+    expect(results).toEqual([{ period: 'weekly', reportId: 'report-weekly', emailed: 1 }]);
+    expect(fake.getDigestForms).toHaveBeenCalledWith(new Date('2025-01-06T00:00:00Z'), new Date('2025-01-13T00:00:00Z'));
+    expect(fake.createDigestReport).toHaveBeenCalledWith(expect.objectContaining({
+      period: 'weekly',
+      report: expect.objectContaining({ formsCreated: 1, stalledAfterDays: 7 }),
+    }));
+    const sent = (mailer.transport as CaptureTransport).sent;
+    expect(sent.map(message => message.to)).toEqual(['staff@example.com']);
+    expect(sent[0].text).toContain('https://app.example.com/admin/reports/report-weekly');
+  });
+
+  it('leaves the emails to whoever saved the report first', async () => {
+    const fake = {
+      getDigestReportFor: vi.fn().mockResolvedValue(undefined),
+      getDigestForms: vi.fn().mockResolvedValue([]),
+      countWebhookFailures: vi.fn().mockResolvedValue({ failed: 0, dead: 0 }),
+      createDigestReport: vi.fn().mockResolvedValue(undefined),
+      getTeamMembers: vi.fn(),
+    };
+
+    // @ts-ignore - only the methods used by the scheduler are provided
+    expect(await processDueDigests(fake, { baseUrl: 'https://app.example.com', now, config })).toEqual([]);
+    expect(fake.createDigestReport).toHaveBeenCalledTimes(2);
+    expect(fake.getTeamMembers).not.toHaveBeenCalled();
+  });
+});
+
+describe('Report routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists saved reports for staff', async () => {
+    signInAs('viewer');
+    const getReports = vi.spyOn(storage, 'getDigestReports').mockResolvedValue({ reports: [], total: 0 });
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/reports?period=daily&limit=5').set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body).toEqual({ reports: [], total: 0 });
+    expect(getReports).toHaveBeenCalledWith({ period: 'daily', limit: 5, offset: 0 });
+    await request(app).get('/api/reports?period=monthly').set('Authorization', 'Bearer token').expect(400);
+  });
+
+  it('returns 404 for an unknown report', async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getDigestReport').mockResolvedValue(undefined);
+
+    const app = await createTestApp();
+    await request(app).get('/api/reports/missing').set('Authorization', 'Bearer token').expect(404);
+  });
+
+  it('previews the period in progress without saving it', async () => {
+    signInAs('editor');
+    const getForms = vi.spyOn(storage, 'getDigestForms').mockResolvedValue([digestForm({ created_at: new Date().toISOString() })]);
+    vi.spyOn(storage, 'countWebhookFailures').mockResolvedValue({ failed: 1, dead: 0 });
+    const create = vi.spyOn(storage, 'createDigestReport');
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/reports/preview?period=daily').set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body).toMatchObject({ period: 'daily', formsCreated: 1, webhookFailures: { failed: 1, dead: 0 } });
+    expect(getForms).toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+  });
+});
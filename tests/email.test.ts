@@ -0,0 +1,144 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { createCaptureTransport, createTransportFromEnv, type CaptureTransport } from '../server/email';
+import { renderEmail } from '../server/emailTemplates';
+import { createMailer, mailer } from '../server/mailer';
+import { parseFormAccessToken } from '../server/formAccess';
+import type { InsertEmailLog } from '../server/types';
+import { defaultReminderSettings } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+describe('Email transports', () => {
+  it('captures messages in memory', async () => {
+    const transport = createCaptureTransport();
+    const result = await transport.send({ from: 'a@example.com', to: 'b@example.com', subject: 'Hi', text: 'Hi', html: '<p>Hi</p>' });
+
+    expect(transport.name).toBe('memory');
+    expect(result.messageId).toBeTruthy();
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('b@example.com');
+  });
+
+  it('picks a transport from the environment', () => {
+    expect(createTransportFromEnv({ NODE_ENV: 'test' }).name).toBe('memory');
+    expect(createTransportFromEnv({ NODE_ENV: 'development' }).name).toBe('file');
+    expect(createTransportFromEnv({ NODE_ENV: 'production', SMTP_HOST: 'smtp.example.com' }).name).toBe('smtp');
+    expect(createTransportFromEnv({ NODE_ENV: 'production', EMAIL_API_KEY: 'key' }).name).toBe('api');
+    expect(createTransportFromEnv({ NODE_ENV: 'development', EMAIL_TRANSPORT: 'memory' }).name).toBe('memory');
+  });
+
+  it('rejects unknown or unconfigured transports', () => {
+    expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: 'pigeon' })).toThrow(/Unknown EMAIL_TRANSPORT/);
+    expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: 'smtp' })).toThrow(/SMTP_HOST/);
+  });
+});
+
+describe('Email templates', () => {
+  it('escapes client data in the HTML version', () => {
+    const email = renderEmail('clientReminder', {
+      clientName: '<script>alert(1)</script>',
+      formUrl: 'https://example.com/onboarding/acme?token=abc',
+      progress: 40,
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+    expect(email.text).toContain('<script>alert(1)</script>');
+    expect(email.text).toContain('40%');
+    expect(email.text).toContain('Continue onboarding: https://example.com/onboarding/acme?token=abc');
+  });
+
+  it('uses the custom reminder message when there is one', () => {
+    const email = renderEmail('clientReminder', { clientName: 'Acme', formUrl: 'https://example.com', progress: 0, message: 'Just a nudge!' });
+    expect(email.text).toContain('Just a nudge!');
+    expect(email.text).toContain('Start onboarding');
+  });
+});
+
+describe('Mailer', () => {
+  it('logs sent and failed emails', async () => {
+    const log = vi.fn(async (_entry: InsertEmailLog) => undefined);
+    const transport = createCaptureTransport();
+    const sender = createMailer({ transport, from: 'team@example.com', log });
+
+    const sent = await sender.send({ to: 'client@example.com', template: 'completionReceipt', data: { clientName: 'Acme' }, formId: 'form-1' });
+    expect(sent).toMatchObject({ status: 'sent', transport: 'memory', to_email: 'client@example.com', template: 'completionReceipt', form_id: 'form-1' });
+    expect(transport.sent[0].from).toBe('team@example.com');
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(transport, 'send').mockRejectedValueOnce(new Error('Mailbox unavailable'));
+    const failed = await sender.send({ to: 'client@example.com', template: 'completionReceipt', data: { clientName: 'Acme' } });
+    expect(failed).toMatchObject({ status: 'failed', error: 'Mailbox unavailable' });
+
+    expect(log).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Email routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    (mailer.transport as CaptureTransport).sent.length = 0;
+    vi.spyOn(storage, 'getReminderSettings').mockResolvedValue(defaultReminderSettings);
+    vi.spyOn(storage, 'getTeamMembers').mockResolvedValue([]);
+  });
+
+  it('emails the client a reminder with a fresh access link', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormContact').mockResolvedValue({
+      id: '12', client_name: 'Acme', client_email: 'client@example.com', slug: 'acme', progress: 50, status: 'in_progress',
+    });
+    const createToken = vi.spyOn(storage, 'createFormAccessToken').mockResolvedValue(undefined as never);
+    const updateLastReminder = vi.spyOn(storage, 'updateLastReminder').mockResolvedValue(undefined);
+    const createEmailLog = vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+
+    const app = await createTestApp();
+    await request(app).post('/api/forms/12/reminder').set('Authorization', 'Bearer token').expect(200);
+
+    const [message] = (mailer.transport as CaptureTransport).sent;
+    expect(message.to).toBe('client@example.com');
+    const link = message.text.match(/https?:\/\/\S+/)![0];
+    const token = new URL(link).searchParams.get('token')!;
+    expect(link).toContain('/onboarding/acme?token=');
+    expect(createToken).toHaveBeenCalledWith(expect.objectContaining({ form_id: '12', token_hash: parseFormAccessToken(token)!.tokenHash, created_by: 'user-1' }));
+    expect(updateLastReminder).toHaveBeenCalledWith('12');
+    expect(createEmailLog).toHaveBeenCalledWith(expect.objectContaining({ template: 'clientReminder', status: 'sent', sent_by: 'user-1' }));
+  });
+
+  it('reports a failed reminder without recording it as sent', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormContact').mockResolvedValue({
+      id: '12', client_name: 'Acme', client_email: 'client@example.com', slug: null, progress: 0, status: 'pending',
+    });
+    vi.spyOn(storage, 'createFormAccessToken').mockResolvedValue(undefined as never);
+    const updateLastReminder = vi.spyOn(storage, 'updateLastReminder').mockResolvedValue(undefined);
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+    vi.spyOn(mailer.transport, 'send').mockRejectedValue(new Error('Connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const app = await createTestApp();
+    const res = await request(app).post('/api/forms/12/reminder').set('Authorization', 'Bearer token').expect(502);
+    expect(res.body.details).toBe('Connection refused');
+    expect(updateLastReminder).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for reminders to unknown forms', async () => {
+    signInAs('admin');
+    vi.spyOn(storage, 'getFormContact').mockResolvedValue(undefined);
+
+    const app = await createTestApp();
+    await request(app).post('/api/forms/missing/reminder').set('Authorization', 'Bearer token').expect(404);
+  });
+
+  it('shows the email log to admins only', async () => {
+    signInAs('editor');
+    const getEmailLog = vi.spyOn(storage, 'getEmailLog').mockResolvedValue({ emails: [], total: 0 });
+
+    const app = await createTestApp();
+    await request(app).get('/api/email-log').set('Authorization', 'Bearer token').expect(403);
+
+    signInAs('admin');
+    await request(app).get('/api/email-log?status=failed&limit=10').set('Authorization', 'Bearer token').expect(200);
+    expect(getEmailLog).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', limit: 10, offset: 0 }));
+  });
+});
@@ -0,0 +1,207 @@
+import zlib from 'zlib';
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { parseFontMetadata } from '../server/fontMetadata';
+import { findCatalogueFont, getFontPairings, getGoogleFontsUrl } from '../shared/fonts';
+import { validateFieldValue } from '../shared/formTemplate';
+import type { BrandAsset, CatalogueFont } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const formId = '33333333-3333-4333-8333-333333333333';
+const assetId = '66666666-6666-4666-8666-666666666666';
+
+// A font with just enough in it to be read: Windows names and an OS/2 table
+function fontTables(names: Record<number, string>, weight: number, italic: boolean): [string, Buffer][] {
+  const records = Object.entries(names).map(([id, text]) => ({ id: Number(id), text: Buffer.from(text, 'utf16le').swap16() }));
+  const name = Buffer.alloc(6 + records.length * 12);
+  name.writeUInt16BE(records.length, 2);
+  name.writeUInt16BE(name.length, 4);
+  let offset = 0;
+  records.forEach((record, index) => {
+    const at = 6 + index * 12;
+    name.writeUInt16BE(3, at);
+    name.writeUInt16BE(1, at + 2);
+    name.writeUInt16BE(0x409, at + 4);
+    name.writeUInt16BE(record.id, at + 6);
+    name.writeUInt16BE(record.text.length, at + 8);
+    name.writeUInt16BE(offset, at + 10);
+    offset += record.text.length;
+  });
+
+  const os2 = Buffer.alloc(96);
+  os2.writeUInt16BE(weight, 4);
+  os2.writeUInt16BE(italic ? 0x01 : 0x40, 62);
+  return [['glyf', Buffer.alloc(8, 1)], ['name', Buffer.concat([name, ...records.map(record => record.text)])], ['OS/2', os2]];
+}
+
+function ttf(tables: [string, Buffer][]) {
+  const header = Buffer.alloc(12 + tables.length * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(tables.length, 4);
+  let offset = header.length;
+  tables.forEach(([tag, data], index) => {
+    header.write(tag, 12 + index * 16, 'latin1');
+    header.writeUInt32BE(offset, 12 + index * 16 + 8);
+    header.writeUInt32BE(data.length, 12 + index * 16 + 12);
+    offset += data.length;
+  });
+  return Buffer.concat([header, ...tables.map(([, data]) => data)]);
+}
+
+function woff(tables: [string, Buffer][]) {
+  const compressed = tables.map(([tag, data]) => [tag, data, zlib.deflateSync(data)] as const);
+  const header = Buffer.alloc(44 + tables.length * 20);
+  header.write('wOFF', 0, 'latin1');
+  header.writeUInt16BE(tables.length, 12);
+  let offset = header.length;
+  compressed.forEach(([tag, data, packed], index) => {
+    const stored = packed.length < data.length ? packed : data;
+    header.write(tag, 44 + index * 20, 'latin1');
+    header.writeUInt32BE(offset, 44 + index * 20 + 4);
+    header.writeUInt32BE(stored.length, 44 + index * 20 + 8);
+    header.writeUInt32BE(data.length, 44 + index * 20 + 12);
+    offset += stored.length;
+  });
+  return Buffer.concat([header, ...compressed.map(([, data, packed]) => packed.length < data.length ? packed : data)]);
+}
+
+function base128(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (value >>= 7; value; value >>= 7) bytes.unshift(value & 0x7f | 0x80);
+  return bytes;
+}
+
+// glyf is marked as transformed, so its stored length comes after its original length
+function woff2(tables: [string, Buffer][]) {
+  const knownTags: Record<string, number> = { glyf: 10, name: 5, 'OS/2': 6 };
+  const directory = Buffer.concat(tables.map(([tag, data]) => Buffer.from(tag === 'glyf'
+    ? [knownTags[tag], ...base128(data.length + 4), ...base128(data.length)]
+    : [knownTags[tag], ...base128(data.length)])));
+  const stream = zlib.brotliCompressSync(Buffer.concat(tables.map(([, data]) => data)));
+  const header = Buffer.alloc(48);
+  header.write('wOF2', 0, 'latin1');
+  header.writeUInt16BE(tables.length, 12);
+  header.writeUInt32BE(stream.length, 20);
+  return Buffer.concat([header, directory, stream]);
+}
+
+function catalogueFont(family: string, overrides: Partial<CatalogueFont> = {}): CatalogueFont {
+  return {
+    id: `id-${family}`, family, category: 'sans-serif', weights: [400, 700], pairings: [], is_active: true,
+    created_at: new Date(), updated_at: new Date(), ...overrides,
+  };
+}
+
+describe('Font metadata', () => {
+  it('reads the family, weight and style from TrueType, WOFF and WOFF2 files', () => {
+    const tables = fontTables({ 1: 'Acme Sans SemiBold', 2: 'Italic', 16: 'Acme Sans', 17: 'SemiBold Italic' }, 600, true);
+    const expected = { family: 'Acme Sans', subfamily: 'SemiBold Italic', weight: 600, style: 'italic' };
+
+    expect(parseFontMetadata(ttf(tables))).toEqual(expected);
+    expect(parseFontMetadata(woff(tables))).toEqual(expected);
+    expect(parseFontMetadata(woff2(tables))).toEqual(expected);
+  });
+
+  it('falls back to the basic names and refuses files without a family', () => {
+    expect(parseFontMetadata(ttf(fontTables({ 1: 'Acme Serif', 2: 'Regular' }, 400, false))))
+      .toEqual({ family: 'Acme Serif', subfamily: 'Regular', weight: 400, style: 'normal' });
+    expect(parseFontMetadata(ttf(fontTables({ 2: 'Regular' }, 400, false)))).toBeNull();
+    expect(parseFontMetadata(Buffer.from('wOF2 but not really'))).toBeNull();
+  });
+});
+
+describe('Font catalogue', () => {
+  const catalogue = [
+    catalogueFont('Inter', { pairings: ['Merriweather'] }),
+    catalogueFont('Merriweather', { category: 'serif' }),
+    catalogueFont('Lora', { category: 'serif', pairings: ['Inter'] }),
+    catalogueFont('Open Sans', { pairings: ['Inter'], is_active: false }),
+  ];
+
+  it('matches old answers and pairs fonts both ways', () => {
+    expect(findCatalogueFont(catalogue, 'opensans')?.family).toBe('Open Sans');
+    expect(getFontPairings(catalogue, 'inter').map(font => font.family)).toEqual(['Merriweather', 'Lora']);
+    expect(getFontPairings(catalogue, 'Merriweather').map(font => font.family)).toEqual(['Inter']);
+    expect(getGoogleFontsUrl({ family: 'Open Sans', weights: [700, 400] }))
+      .toBe('https://fonts.googleapis.com/css2?family=Open+Sans:wght@400;700&display=swap');
+  });
+
+  it('keeps any family for font fields without options', () => {
+    expect(validateFieldValue({ key: 'titleFont', label: 'Title Font', type: 'font' }, 'Acme Sans')).toBeUndefined();
+    expect(validateFieldValue({ key: 'titleFont', label: 'Title Font', type: 'font', options: [{ value: 'inter', label: 'Inter' }] }, 'Acme Sans'))
+      .toBe('Please choose from the options listed');
+  });
+});
+
+describe('Font routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets admins add fonts to the catalogue, once per family', async () => {
+    signInAs('admin');
+    vi.spyOn(storage, 'getFontCatalogue').mockResolvedValue([catalogueFont('Open Sans')]);
+    const create = vi.spyOn(storage, 'createCatalogueFont').mockImplementation(async font => catalogueFont(font.family, font));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/fonts')
+      .set('Authorization', 'Bearer token')
+      .send({ family: 'Lora', category: 'serif', pairings: ['Open Sans'] })
+      .expect(201);
+    expect(create).toHaveBeenCalledWith({ family: 'Lora', category: 'serif', weights: [400, 700], pairings: ['Open Sans'], is_active: true });
+    expect(res.body.family).toBe('Lora');
+
+    const clash = await request(app).post('/api/fonts').set('Authorization', 'Bearer token').send({ family: 'open sans', category: 'sans-serif' }).expect(409);
+    expect(clash.body.error).toBe('Open Sans is already in the catalogue');
+    await request(app).post('/api/fonts').set('Authorization', 'Bearer token').send({ family: 'Lora', category: 'serif', weights: [450] }).expect(400);
+
+    signInAs('editor');
+    await request(app).get('/api/fonts').set('Authorization', 'Bearer token').expect(200);
+    await request(app).post('/api/fonts').set('Authorization', 'Bearer token').send({ family: 'Lato', category: 'sans-serif' }).expect(403);
+  });
+
+  it("gives the form the active catalogue and the client's uploaded fonts", async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: {} } as never);
+    vi.spyOn(storage, 'getFontCatalogue').mockResolvedValue([catalogueFont('Inter'), catalogueFont('Lato', { is_active: false })]);
+    vi.spyOn(storage, 'getBrandAssets').mockResolvedValue([
+      { id: assetId, field: 'typography.titleFont', file_name: 'AcmeSans-Bold.woff2', font: { family: 'Acme Sans', subfamily: 'Bold', weight: 700, style: 'normal' } },
+      { id: 'logo', field: 'brandAssets.logo', file_name: 'logo.png', font: null },
+    ] as BrandAsset[]);
+
+    const app = await createTestApp();
+    const res = await request(app).get(`/api/onboarding/${formId}/fonts`).set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body.catalogue.map((font: CatalogueFont) => font.family)).toEqual(['Inter']);
+    expect(res.body.uploaded).toEqual([
+      { family: 'Acme Sans', subfamily: 'Bold', weight: 700, style: 'normal', assetId, field: 'typography.titleFont', fileName: 'AcmeSans-Bold.woff2' },
+    ]);
+  });
+
+  it('takes font files for font fields and records what they are', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: {}, template_version_id: null } as never);
+    const create = vi.spyOn(storage, 'createBrandAsset').mockImplementation(async asset => ({ ...asset, id: assetId, created_at: new Date() }));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post(`/api/forms/${formId}/assets?field=typography.titleFont&name=AcmeSans-Bold.woff`)
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'font/woff')
+      .send(woff(fontTables({ 1: 'Acme Sans', 2: 'Bold' }, 700, false)))
+      .expect(201);
+
+    expect(res.body).toMatchObject({ content_type: 'font/woff', font: { family: 'Acme Sans', subfamily: 'Bold', weight: 700, style: 'normal' } });
+    expect(create.mock.calls[0][0]).toMatchObject({ field: 'typography.titleFont', variants: {} });
+
+    // Font fields only take fonts
+    await request(app)
+      .post(`/api/forms/${formId}/assets?field=typography.titleFont&name=brief.pdf`)
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'application/pdf')
+      .send(Buffer.from('%PDF-1.7'))
+      .expect(400);
+  });
+});
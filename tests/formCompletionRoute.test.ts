@@ -1,20 +1,12 @@
-import express from 'express';
 import request from 'supertest';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { registerRoutes } from '../server/routes';
 import { storage } from '../server/storage';
-
-// Helper to create an express app with routes registered for each test
-async function createTestApp() {
-  const app = express();
-  app.use(express.json());
-  await registerRoutes(app);
-  return app;
-}
+import { createTestApp, signInAsClient } from './helpers';
 
 describe('POST /api/forms/:id/complete', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
+    vi.spyOn(storage, 'getFormContact').mockResolvedValue(undefined);
   });
 
   it('returns success true when webhook sent', async () => {
@@ -23,6 +15,7 @@ describe('POST /api/forms/:id/complete', () => {
     const app = await createTestApp();
     const res = await request(app)
       .post('/api/forms/1/complete')
+      .set('X-Form-Token', signInAsClient(1))
       .expect(200);
 
     expect(res.body).toEqual({ success: true });
@@ -35,6 +28,7 @@ describe('POST /api/forms/:id/complete', () => {
     const app = await createTestApp();
     const res = await request(app)
       .post('/api/forms/1/complete')
+      .set('X-Form-Token', signInAsClient(1))
       .expect(200);
 
     expect(res.body).toEqual({ success: false, message: expect.any(String) });
@@ -44,8 +38,24 @@ describe('POST /api/forms/:id/complete', () => {
     const app = await createTestApp();
     const res = await request(app)
       .post('/api/forms/not-a-number/complete')
+      .set('X-Form-Token', signInAsClient('not-a-number'))
       .expect(400);
 
     expect(res.body).toHaveProperty('error');
   });
+
+  it('returns 401 without a form token', async () => {
+    const app = await createTestApp();
+    await request(app)
+      .post('/api/forms/1/complete')
+      .expect(401);
+  });
+
+  it('returns 403 with a token for another form', async () => {
+    const app = await createTestApp();
+    await request(app)
+      .post('/api/forms/1/complete')
+      .set('X-Form-Token', signInAsClient(2))
+      .expect(403);
+  });
 }); 
\ No newline at end of file
@@ -0,0 +1,170 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { createFailureLimiter } from '../server/rateLimit';
+import {
+  createFormUnlockToken,
+  hashFormPassword,
+  verifyFormPassword,
+  verifyFormUnlockToken,
+} from '../server/formAccess';
+import type { FormLock } from '../server/types';
+import { createTestApp, signInAsClient } from './helpers';
+
+const formId = '11111111-1111-1111-1111-111111111111';
+const form = { id: formId, slug: 'acme', client_name: 'Acme', data: {} };
+const passwordHash = hashFormPassword('open sesame');
+
+function lockForm(lock: Partial<FormLock>) {
+  vi.spyOn(storage, 'getFormLock').mockResolvedValue({
+    id: formId,
+    client_name: 'Acme',
+    is_disabled: false,
+    password_hash: null,
+    ...lock,
+  });
+}
+
+describe('Form passwords', () => {
+  it('verifies against the stored hash only', () => {
+    expect(passwordHash).toMatch(/^scrypt\$/);
+    expect(passwordHash).not.toContain('open sesame');
+    expect(verifyFormPassword('open sesame', passwordHash)).toBe(true);
+    expect(verifyFormPassword('open sesame!', passwordHash)).toBe(false);
+    expect(verifyFormPassword('open sesame', 'open sesame')).toBe(false);
+  });
+
+  it('ends unlock sessions when they expire or the password changes', () => {
+    const issuedAt = new Date('2025-01-01T00:00:00Z');
+    const { token } = createFormUnlockToken(formId, passwordHash, issuedAt);
+    expect(verifyFormUnlockToken(token, formId, passwordHash, new Date('2025-01-01T01:00:00Z'))).toBe(true);
+    expect(verifyFormUnlockToken(token, formId, passwordHash, new Date('2025-01-01T03:00:00Z'))).toBe(false);
+    expect(verifyFormUnlockToken(token, formId, hashFormPassword('new password'), new Date('2025-01-01T01:00:00Z'))).toBe(false);
+    expect(verifyFormUnlockToken(token, 'another-form', passwordHash, new Date('2025-01-01T01:00:00Z'))).toBe(false);
+  });
+});
+
+describe('Failure limiter', () => {
+  it('blocks a key after too many failures until the window ends', () => {
+    const limiter = createFailureLimiter({ maxFailures: 2, windowMs: 60_000 });
+    limiter.recordFailure('a', 0);
+    expect(limiter.retryAfter('a', 0)).toBe(0);
+    limiter.recordFailure('a', 1_000);
+    expect(limiter.retryAfter('a', 1_000)).toBe(59);
+    expect(limiter.retryAfter('b', 1_000)).toBe(0);
+    expect(limiter.retryAfter('a', 60_000)).toBe(0);
+  });
+
+  it('forgets failures on reset', () => {
+    const limiter = createFailureLimiter({ maxFailures: 1, windowMs: 60_000 });
+    limiter.recordFailure('a', 0);
+    limiter.reset('a');
+    expect(limiter.retryAfter('a', 0)).toBe(0);
+  });
+});
+
+describe('Locked and closed forms', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue(form as any);
+  });
+
+  it('reports a password protected form as locked and withholds it', async () => {
+    const token = signInAsClient(formId);
+    lockForm({ password_hash: passwordHash });
+
+    const app = await createTestApp();
+    const status = await request(app).get('/api/onboarding/acme/status').set('X-Form-Token', token).expect(200);
+    expect(status.body).toEqual({ id: formId, client_name: 'Acme', state: 'locked' });
+
+    const res = await request(app).get('/api/onboarding/acme').set('X-Form-Token', token).expect(403);
+    expect(res.body.code).toBe('form_locked');
+  });
+
+  it('opens the form with the unlock token from the right password', async () => {
+    const token = signInAsClient(formId);
+    lockForm({ password_hash: passwordHash });
+
+    const app = await createTestApp();
+    const unlock = await request(app)
+      .post('/api/forms/acme/unlock')
+      .set('X-Form-Token', token)
+      .send({ password: 'open sesame' })
+      .expect(200);
+    expect(unlock.body.unlockToken).toBeTruthy();
+
+    const res = await request(app)
+      .get('/api/onboarding/acme')
+      .set('X-Form-Token', token)
+      .set('X-Form-Unlock', unlock.body.unlockToken)
+      .expect(200);
+    expect(res.body.id).toBe(formId);
+  });
+
+  it('rejects a wrong password and rate limits repeated failures', async () => {
+    const token = signInAsClient(formId);
+    lockForm({ password_hash: passwordHash });
+
+    const app = await createTestApp();
+    for (let i = 0; i < 5; i++) {
+      const res = await request(app).post('/api/forms/acme/unlock').set('X-Form-Token', token).send({ password: 'guess' }).expect(401);
+      expect(res.body.error).toBe('Incorrect password');
+    }
+
+    const limited = await request(app)
+      .post('/api/forms/acme/unlock')
+      .set('X-Form-Token', token)
+      .send({ password: 'open sesame' })
+      .expect(429);
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('only lets the link holder try a password', async () => {
+    lockForm({ password_hash: passwordHash });
+
+    const app = await createTestApp();
+    await request(app).post('/api/forms/acme/unlock').send({ password: 'open sesame' }).expect(401);
+  });
+
+  it('keeps closed forms closed', async () => {
+    const token = signInAsClient(formId);
+    lockForm({ is_disabled: true });
+
+    const app = await createTestApp();
+    const status = await request(app).get('/api/onboarding/acme/status').set('X-Form-Token', token).expect(200);
+    expect(status.body.state).toBe('closed');
+
+    const res = await request(app)
+      .patch(`/api/onboarding/${formId}`)
+      .set('X-Form-Token', token)
+      .send({ progress: 10 })
+      .expect(403);
+    expect(res.body.code).toBe('form_closed');
+  });
+
+  it('lets staff set a password, stored hashed', async () => {
+    vi.spyOn(storage, 'verifyAccessToken').mockResolvedValue({ id: 'user-1', email: 'staff@example.com' });
+    vi.spyOn(storage, 'getUserRole').mockResolvedValue('editor');
+    lockForm({});
+    const setFormPassword = vi.spyOn(storage, 'setFormPassword').mockResolvedValue();
+
+    const app = await createTestApp();
+    await request(app)
+      .put(`/api/forms/${formId}/password`)
+      .set('Authorization', 'Bearer token')
+      .send({ password: 'open sesame' })
+      .expect(200);
+
+    const [, stored] = setFormPassword.mock.calls[0];
+    expect(stored).not.toBe('open sesame');
+    expect(verifyFormPassword('open sesame', stored!)).toBe(true);
+  });
+
+  it('does not let clients change the password', async () => {
+    const token = signInAsClient(formId);
+    lockForm({});
+
+    const app = await createTestApp();
+    await request(app).put(`/api/forms/${formId}/password`).set('X-Form-Token', token).send({ password: null }).expect(403);
+  });
+});
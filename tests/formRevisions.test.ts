@@ -0,0 +1,152 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { diffFormData } from '../shared/formRevisions';
+import type { FormRevision, FormRevisionSummary } from '../shared/schema';
+import { createTestApp, signInAs, signInAsClient } from './helpers';
+
+const formId = '33333333-3333-4333-8333-333333333333';
+const firstId = '44444444-4444-4444-8444-444444444444';
+const secondId = '55555555-5555-4555-8555-555555555555';
+
+function revision(overrides: Partial<FormRevision> = {}): FormRevision {
+  return {
+    id: firstId,
+    form_id: formId,
+    source: 'autosave',
+    author_user_id: null,
+    author_token_id: 'token-1',
+    data: { about: { name: 'Acme' } },
+    changes: [{ path: 'about.name', after: 'Acme' }],
+    restored_from: null,
+    created_at: new Date('2025-03-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function summary({ data, ...saved }: FormRevision): FormRevisionSummary {
+  return { ...saved, author: saved.author_user_id ? { kind: 'user', name: 'Sam' } : { kind: 'client', name: null } };
+}
+
+describe('Form data diffs', () => {
+  it('lists changed answers field by field', () => {
+    const before = { about: { name: 'Acme', size: '10' }, goals: { list: ['a', 'b'] }, completedSteps: [0] };
+    const after = { about: { name: 'Acme Ltd', size: '10' }, goals: { list: ['a', 'b'], budget: 500 }, completedSteps: [0, 1] };
+
+    expect(diffFormData(before, after)).toEqual([
+      { path: 'about.name', before: 'Acme', after: 'Acme Ltd' },
+      { path: 'goals.budget', after: 500 },
+      { path: 'completedSteps', before: [0], after: [0, 1] },
+    ]);
+  });
+
+  it('reports removed sections as removed answers and nothing for equal data', () => {
+    expect(diffFormData({ about: { name: 'Acme' } }, {})).toEqual([{ path: 'about.name', before: 'Acme' }]);
+    expect(diffFormData(null, {})).toEqual([]);
+    expect(diffFormData({ about: { tags: ['x'] } }, { about: { tags: ['x'] } })).toEqual([]);
+  });
+});
+
+describe('Form revision history', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records who saved what, and where from, on every change', async () => {
+    const token = signInAsClient(formId);
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: { about: { name: 'Acme' } }, template_version_id: null } as never);
+    const save = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+    const createRevision = vi.spyOn(storage, 'createFormRevision').mockImplementation(async saved => revision(saved));
+
+    const app = await createTestApp();
+    await request(app)
+      .patch(`/api/onboarding/${formId}`)
+      .set('X-Form-Token', token)
+      .send({ data: { about: { name: 'Acme Ltd' } }, source: 'autosave' })
+      .expect(200);
+
+    expect(save).toHaveBeenCalledWith(formId, { data: { about: { name: 'Acme Ltd' } } });
+    expect(createRevision).toHaveBeenCalledWith({
+      form_id: formId,
+      source: 'autosave',
+      author_user_id: null,
+      author_token_id: 'token-1',
+      data: { about: { name: 'Acme Ltd' } },
+      changes: [{ path: 'about.name', before: 'Acme', after: 'Acme Ltd' }],
+      restored_from: null,
+    });
+
+    // Saving the same answers again adds nothing; staff saves without a source are admin edits
+    await request(app).patch(`/api/onboarding/${formId}`).set('X-Form-Token', token).send({ data: { about: { name: 'Acme' } } }).expect(200);
+    expect(createRevision).toHaveBeenCalledTimes(1);
+
+    signInAs('editor');
+    await request(app).patch(`/api/onboarding/${formId}`).set('Authorization', 'Bearer token').send({ data: { about: { name: 'Acme Inc' } } }).expect(200);
+    expect(createRevision.mock.calls[1][0]).toMatchObject({ source: 'admin_edit', author_user_id: 'user-1', author_token_id: null });
+  });
+
+  it('compares any two revisions field by field', async () => {
+    signInAs('viewer');
+    const first = revision();
+    const second = revision({ id: secondId, source: 'admin_edit', author_user_id: 'user-1', author_token_id: null, data: { about: { name: 'Acme Ltd', size: '10' } } });
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockImplementation(async idOrSlug => idOrSlug === 'acme' ? { id: formId } as never : undefined);
+    const listRevisions = vi.spyOn(storage, 'getFormRevisions').mockResolvedValue([summary(second), summary(first)]);
+    vi.spyOn(storage, 'getFormRevision').mockImplementation(async (_formId, id) => [first, second].find(saved => saved.id === id));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .get(`/api/forms/acme/revisions/compare?from=${firstId}&to=${secondId}`)
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(res.body.from.id).toBe(firstId);
+    expect(res.body.to.author).toEqual({ kind: 'user', name: 'Sam' });
+    expect(res.body.changes).toEqual([
+      { path: 'about.name', before: 'Acme', after: 'Acme Ltd' },
+      { path: 'about.size', after: '10' },
+    ]);
+
+    expect(listRevisions).toHaveBeenCalledWith(formId);
+
+    await request(app).get(`/api/forms/acme/revisions/compare?from=${firstId}`).set('Authorization', 'Bearer token').expect(400);
+    await request(app).get(`/api/forms/unknown/revisions/compare?from=${firstId}&to=${secondId}`).set('Authorization', 'Bearer token').expect(404);
+  });
+
+  it('restores a revision as a new one and sends form.updated again', async () => {
+    signInAs('editor');
+    const current = { about: { name: 'Acme Ltd' } };
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: current } as never);
+    vi.spyOn(storage, 'getFormRevision').mockResolvedValue(revision());
+    const save = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+    const createRevision = vi.spyOn(storage, 'createFormRevision').mockImplementation(async saved => revision({ ...saved, id: secondId }));
+    const webhook = vi.spyOn(storage, 'sendFormUpdatedWebhookNotification').mockResolvedValue(true);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post(`/api/forms/${formId}/revisions/${firstId}/restore`)
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(save).toHaveBeenCalledWith(formId, { data: { about: { name: 'Acme' } } });
+    expect(createRevision.mock.calls[0][0]).toMatchObject({ source: 'restore', author_user_id: 'user-1', restored_from: firstId });
+    expect(webhook).toHaveBeenCalledWith(formId, { about: { name: 'Acme' } }, current);
+    expect(res.body.revision.id).toBe(secondId);
+
+    // Viewers can look but not restore
+    signInAs('viewer');
+    await request(app).post(`/api/forms/${formId}/revisions/${firstId}/restore`).set('Authorization', 'Bearer token').expect(403);
+  });
+
+  it("doesn't restore answers the form already has", async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: formId, data: { about: { name: 'Acme' } } } as never);
+    vi.spyOn(storage, 'getFormRevision').mockResolvedValue(revision());
+    const save = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+
+    const app = await createTestApp();
+    const res = await request(app).post(`/api/forms/${formId}/revisions/${firstId}/restore`).set('Authorization', 'Bearer token').expect(409);
+
+    expect(res.body.error).toBe('The form already has these answers');
+    expect(save).not.toHaveBeenCalled();
+  });
+});
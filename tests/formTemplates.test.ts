@@ -0,0 +1,436 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { businessDetailsSchema, defaultFormTemplate, DEFAULT_FORM_TEMPLATE_NAME, systemIntegrationSchema } from '../shared/defaultFormTemplate';
+import {
+  getActiveFields, getFieldSuggestions, getFinishingSections, getTemplateSection, inferFieldValue, isSectionSkipped, normalizeSectionAnswers,
+  validateFieldValue, validateFormAnswers, validateFormData, validateSectionAnswers,
+} from '../shared/formTemplate';
+import {
+  formTemplateDefinitionSchema, type FormField, type FormTemplate, type FormTemplateDefinition, type FormTemplateVersion,
+} from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const templateId = '11111111-1111-4111-8111-111111111111';
+
+const definition: FormTemplateDefinition = {
+  sections: [{
+    key: 'about',
+    slug: 'about',
+    title: 'About you',
+    icon: 'file',
+    fields: [{ key: 'name', label: 'Name', type: 'text', validation: { required: true } }],
+  }],
+};
+
+function savedTemplate(overrides: Partial<FormTemplate> = {}): FormTemplate {
+  return {
+    id: templateId,
+    name: 'Short form',
+    description: null,
+    definition,
+    is_default: false,
+    published_version: 1,
+    has_draft_changes: false,
+    created_by: 'user-1',
+    created_at: new Date('2025-01-01T00:00:00Z'),
+    updated_at: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function templateVersion(overrides: Partial<FormTemplateVersion> = {}): FormTemplateVersion {
+  return {
+    id: '22222222-2222-4222-8222-222222222222',
+    template_id: templateId,
+    version: 1,
+    name: 'Short form',
+    definition,
+    published_by: 'user-1',
+    published_at: new Date('2025-01-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function field(overrides: Partial<FormField>): FormField {
+  return { key: 'answer', label: 'Answer', type: 'text', ...overrides } as FormField;
+}
+
+describe('Template definitions', () => {
+  it('ships the six original sections as the default template', () => {
+    const parsed = formTemplateDefinitionSchema.safeParse(defaultFormTemplate);
+
+    expect(parsed.success).toBe(true);
+    expect(defaultFormTemplate.sections.map(section => section.slug)).toEqual([
+      'business-details', 'campaign-details', 'target-audience', 'typography', 'brand-assets', 'system-integration',
+    ]);
+  });
+
+  it('rejects duplicate keys and references to fields that do not exist', () => {
+    const duplicated = formTemplateDefinitionSchema.safeParse({
+      sections: [definition.sections[0], { ...definition.sections[0], slug: 'other' }],
+    });
+    expect(duplicated.success).toBe(false);
+
+    const dangling = formTemplateDefinitionSchema.safeParse({
+      sections: [{
+        ...definition.sections[0],
+        fields: [field({ key: 'notes', type: 'textarea', suggestions: { values: [], dependsOn: 'about.missing', byValue: {} } })],
+      }],
+    });
+    expect(dangling.success).toBe(false);
+  });
+
+  it('needs options for select fields', () => {
+    const parsed = formTemplateDefinitionSchema.safeParse({
+      sections: [{ ...definition.sections[0], fields: [field({ type: 'select' })] }],
+    });
+    expect(parsed.success).toBe(false);
+  });
+});
+
+describe('Field validation', () => {
+  it('checks required answers and their format', () => {
+    expect(validateFieldValue(field({ validation: { required: true } }), '  ')).toBe('Answer is required');
+    expect(validateFieldValue(field({}), '')).toBeUndefined();
+    expect(validateFieldValue(field({ type: 'email' }), 'nope')).toBe('Please enter a valid email address');
+    expect(validateFieldValue(field({ type: 'phone' }), '+44 20 7946 0000')).toBeUndefined();
+    expect(validateFieldValue(field({ type: 'color' }), '#12345')).toBe('Use a hex color like #10B981');
+    expect(validateFieldValue(field({ type: 'number', validation: { max: 10 } }), '11')).toBe('Answer must be at most 10');
+    expect(validateFieldValue(field({ validation: { minLength: 5, message: 'Tell us a bit more' } }), 'abc')).toBe('Tell us a bit more');
+  });
+
+  it('only accepts listed options unless others are allowed', () => {
+    const options = [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }];
+
+    expect(validateFieldValue(field({ type: 'select', options }), 'c')).toBe('Please choose from the options listed');
+    expect(validateFieldValue(field({ type: 'multiselect', options, validation: { required: true } }), [])).toBe('Please select at least one option');
+    expect(validateFieldValue(field({ type: 'multiselect', options, allowOther: true }), ['a', 'Something else'])).toBeUndefined();
+  });
+
+  it('matches the old required fields of the default template', () => {
+    const business = getTemplateSection(defaultFormTemplate, 'businessDetails')!;
+    const errors = validateSectionAnswers(business, { name: 'Acme' });
+
+    expect(Object.keys(errors).sort()).toEqual(['location', 'phone', 'type']);
+  });
+
+  it('turns old comma-separated multiselect answers into lists', () => {
+    const audience = getTemplateSection(defaultFormTemplate, 'audience')!;
+
+    expect(normalizeSectionAnswers(audience, { industries: 'Technology, Finance' })).toMatchObject({
+      industries: ['Technology', 'Finance'],
+      companySize: [],
+      locations: '',
+    });
+  });
+});
+
+describe('Conditional rules', () => {
+  const crmOptions = [{ value: 'salesforce', label: 'Salesforce' }, { value: 'hubspot', label: 'HubSpot' }];
+  const branching: FormTemplateDefinition = {
+    sections: [
+      {
+        key: 'tools',
+        slug: 'tools',
+        title: 'Tools',
+        icon: 'settings',
+        fields: [
+          field({ key: 'crm', type: 'select', options: crmOptions }),
+          field({
+            key: 'instance',
+            rules: [{ action: 'show', when: { match: 'all', tests: [{ field: 'tools.crm', operator: 'equals', value: 'salesforce' }] } }],
+          }),
+          field({
+            key: 'notes',
+            rules: [{ action: 'require', when: { match: 'any', tests: [{ field: 'tools.crm', operator: 'notAnswered' }, { field: 'tools.crm', operator: 'equals', value: 'hubspot' }] } }],
+          }),
+        ],
+      },
+      {
+        key: 'fonts',
+        slug: 'fonts',
+        title: 'Fonts',
+        icon: 'type',
+        skipWhen: { match: 'all', tests: [{ field: 'tools.notes', operator: 'includes', value: 'brand guide' }] },
+        fields: [field({ key: 'heading', validation: { required: true } })],
+      },
+    ],
+  };
+  const [tools, fonts] = branching.sections;
+
+  it('shows, hides and requires fields from other answers', () => {
+    expect(formTemplateDefinitionSchema.safeParse(branching).success).toBe(true);
+
+    expect(getActiveFields(tools, { tools: { crm: 'Salesforce' } }).map(active => active.key)).toEqual(['crm', 'instance', 'notes']);
+    expect(getActiveFields(tools, { tools: { crm: 'hubspot' } }).map(active => active.key)).toEqual(['crm', 'notes']);
+
+    expect(validateSectionAnswers(tools, {})).toEqual({ notes: 'Answer is required' });
+    expect(validateSectionAnswers(tools, { crm: 'salesforce' })).toEqual({});
+  });
+
+  it('skips sections and leaves them out of validation', () => {
+    const data = { tools: { crm: 'salesforce', notes: 'Our Brand Guide has it all' } };
+
+    expect(isSectionSkipped(fonts, data)).toBe(true);
+    expect(validateFormAnswers(branching, data)).toEqual({});
+    expect(validateFormAnswers(branching, { tools: { crm: 'salesforce' } })).toEqual({ fonts: { heading: 'Answer is required' } });
+  });
+
+  it('only lets rules look at other fields that exist', () => {
+    const selfReference = formTemplateDefinitionSchema.safeParse({
+      sections: [{
+        ...tools,
+        fields: [field({ key: 'crm', rules: [{ action: 'hide', when: { match: 'all', tests: [{ field: 'tools.crm', operator: 'answered' }] } }] })],
+      }],
+    });
+    expect(selfReference.success).toBe(false);
+
+    const ownSection = formTemplateDefinitionSchema.safeParse({
+      sections: [tools, { ...fonts, skipWhen: { match: 'all', tests: [{ field: 'fonts.heading', operator: 'answered' }] } }],
+    });
+    expect(ownSection.success).toBe(false);
+
+    const missingValue = formTemplateDefinitionSchema.safeParse({
+      sections: [tools, { ...fonts, skipWhen: { match: 'all', tests: [{ field: 'tools.crm', operator: 'equals' }] } }],
+    });
+    expect(missingValue.success).toBe(false);
+  });
+
+  it('asks for the CRM instance only for Salesforce in the default template', () => {
+    const integration = getTemplateSection(defaultFormTemplate, 'systemIntegration')!;
+    const shown = (crmSystem: string) => getActiveFields(integration, { systemIntegration: { crmSystem } }).some(active => active.key === 'crmInstance');
+
+    expect(shown('salesforce')).toBe(true);
+    expect(shown('pipedrive')).toBe(false);
+  });
+});
+
+describe('Saving answers', () => {
+  it('checks the type of every answer, and the rules of finished sections', () => {
+    expect(validateFormData(defaultFormTemplate, { businessDetails: { name: 42 }, audience: { industries: [1] } })).toEqual({
+      businessDetails: { name: 'Expected string, received number' },
+      audience: { industries: 'Expected a list of options' },
+    });
+    expect(validateFormData(defaultFormTemplate, { businessDetails: { name: 'Acme', legacyNote: 'kept' } })).toEqual({});
+    expect(validateFormData(defaultFormTemplate, { businessDetails: { name: 'Acme' } }, ['businessDetails'])).toEqual({
+      businessDetails: { type: 'Please select business type', location: 'Location is required', phone: 'Phone Number is required' },
+    });
+  });
+
+  it('keeps the shared section schemas, built from the default template', () => {
+    const result = businessDetailsSchema.safeParse({ name: 'Acme', phone: 'call us' });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(issue => issue.path[0]).sort()).toEqual(['location', 'phone', 'type']);
+    expect(businessDetailsSchema.parse({ name: 'Acme', type: 'saas', location: 'London', phone: '+44 20 7946 0000' })).toMatchObject({ name: 'Acme' });
+    expect(systemIntegrationSchema.safeParse({ crmSystem: 'spreadsheet' }).success).toBe(false);
+  });
+
+  it('finishes the sections newly added to completedSteps', () => {
+    expect(getFinishingSections(defaultFormTemplate, { completedSteps: [0] }, { completedSteps: [0, 2] })).toEqual(['audience']);
+    expect(getFinishingSections(defaultFormTemplate, null, { completedSteps: [9] })).toEqual([]);
+  });
+});
+
+describe('Suggestions', () => {
+  const campaign = getTemplateSection(defaultFormTemplate, 'campaign')!;
+  const business = getTemplateSection(defaultFormTemplate, 'businessDetails')!;
+
+  it('follows the answer they depend on', () => {
+    const keyMessages = campaign.fields.find(candidate => candidate.key === 'keyMessages')!;
+
+    const general = getFieldSuggestions(keyMessages, {});
+    const forSaas = getFieldSuggestions(keyMessages, { businessDetails: { type: 'saas' } });
+    expect(forSaas.length).toBeGreaterThan(0);
+    expect(forSaas).not.toEqual(general);
+  });
+
+  it('guesses the business type from the website', () => {
+    const type = business.fields.find(candidate => candidate.key === 'type')!;
+
+    expect(inferFieldValue(type, { businessDetails: { website: 'https://acme-software.io' } })).toBe('saas');
+    expect(inferFieldValue(type, { businessDetails: { website: '' } })).toBeNull();
+  });
+});
+
+describe('Template routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists templates for any staff member', async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormTemplates').mockResolvedValue([savedTemplate()]);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/form-templates').set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({ id: templateId, name: 'Short form' });
+  });
+
+  it('lets only admins create templates, and checks the definition', async () => {
+    const create = vi.spyOn(storage, 'createFormTemplate').mockImplementation(async template => savedTemplate(template));
+    const app = await createTestApp();
+
+    signInAs('editor');
+    await request(app).post('/api/form-templates').set('Authorization', 'Bearer token').send({ name: 'Short form', definition }).expect(403);
+
+    signInAs('admin');
+    await request(app).post('/api/form-templates').set('Authorization', 'Bearer token').send({ name: 'Empty', definition: { sections: [] } }).expect(400);
+    await request(app).post('/api/form-templates').set('Authorization', 'Bearer token').send({ name: 'Short form', definition }).expect(201);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ name: 'Short form', created_by: 'user-1' }));
+  });
+
+  it("won't delete a template forms still use", async () => {
+    signInAs('admin');
+    vi.spyOn(storage, 'getFormTemplate').mockResolvedValue(savedTemplate());
+    vi.spyOn(storage, 'countFormsUsingTemplate').mockResolvedValue(2);
+    const remove = vi.spyOn(storage, 'deleteFormTemplate');
+
+    const app = await createTestApp();
+    const res = await request(app).delete(`/api/form-templates/${templateId}`).set('Authorization', 'Bearer token').expect(409);
+
+    expect(res.body.error).toBe('This template is used by 2 forms');
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('publishes the draft as the next version', async () => {
+    const publish = vi.spyOn(storage, 'publishFormTemplate').mockResolvedValue(templateVersion({ version: 2 }));
+    const app = await createTestApp();
+
+    signInAs('editor');
+    await request(app).post(`/api/form-templates/${templateId}/publish`).set('Authorization', 'Bearer token').expect(403);
+
+    signInAs('admin');
+    const res = await request(app).post(`/api/form-templates/${templateId}/publish`).set('Authorization', 'Bearer token').expect(201);
+
+    expect(res.body).toMatchObject({ template_id: templateId, version: 2 });
+    expect(publish).toHaveBeenCalledWith(templateId, 'user-1');
+  });
+
+  it('only makes published templates the default', async () => {
+    signInAs('admin');
+    const getTemplate = vi.spyOn(storage, 'getFormTemplate').mockResolvedValue(savedTemplate({ published_version: null, has_draft_changes: true }));
+    const update = vi.spyOn(storage, 'updateFormTemplate').mockImplementation(async (id, changes) => savedTemplate(changes));
+
+    const app = await createTestApp();
+    const res = await request(app).patch(`/api/form-templates/${templateId}`).set('Authorization', 'Bearer token').send({ is_default: true }).expect(400);
+    expect(res.body.error).toBe('Publish the template before making it the default');
+    expect(update).not.toHaveBeenCalled();
+
+    getTemplate.mockResolvedValue(savedTemplate());
+    await request(app).patch(`/api/form-templates/${templateId}`).set('Authorization', 'Bearer token').send({ is_default: true }).expect(200);
+    expect(update).toHaveBeenCalledWith(templateId, { is_default: true });
+  });
+
+  it('shows forms the template version they were created with', async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: 'form-1', template_version_id: 'version-1' } as never);
+    const getVersion = vi.spyOn(storage, 'getFormTemplateVersion').mockResolvedValue(templateVersion({ id: 'version-1', name: 'Old name' }));
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/onboarding/acme/template').set('Authorization', 'Bearer token').expect(200);
+
+    expect(getVersion).toHaveBeenCalledWith('version-1');
+    expect(res.body).toEqual({ id: templateId, version: 1, name: 'Old name', definition });
+  });
+
+  it('gives forms whose template has gone the built-in questions', async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: 'form-1', template_version_id: 'version-1' } as never);
+    vi.spyOn(storage, 'getFormTemplateVersion').mockResolvedValue(undefined);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/onboarding/acme/template').set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body).toEqual({ id: null, version: null, name: DEFAULT_FORM_TEMPLATE_NAME, definition: defaultFormTemplate });
+  });
+
+  it('creates forms with a published template, or the default one', async () => {
+    signInAs('editor');
+    const createForm = vi.spyOn(storage, 'createForm').mockImplementation(async newForm => ({ id: 'form-9', ...newForm }) as never);
+    vi.spyOn(storage, 'getDefaultFormTemplate').mockResolvedValue(savedTemplate({ id: 'default-template', is_default: true }));
+    vi.spyOn(storage, 'getTeamMembers').mockResolvedValue([]);
+    const getLatest = vi.spyOn(storage, 'getLatestFormTemplateVersion').mockImplementation(async id =>
+      id === 'default-template' ? templateVersion({ id: 'default-version', template_id: 'default-template' }) : undefined);
+
+    const app = await createTestApp();
+    const newForm = { client_name: 'Acme', client_email: 'client@example.com' };
+
+    const res = await request(app).post('/api/forms').set('Authorization', 'Bearer token').send({ ...newForm, template_id: templateId }).expect(400);
+    expect(res.body.error).toBe('Pick a published template');
+    expect(createForm).not.toHaveBeenCalled();
+
+    await request(app).post('/api/forms').set('Authorization', 'Bearer token').send(newForm).expect(200);
+    expect(createForm.mock.calls[0][0]).toMatchObject({ template_id: 'default-template', template_version_id: 'default-version' });
+
+    getLatest.mockResolvedValue(templateVersion({ version: 3 }));
+    await request(app).post('/api/forms').set('Authorization', 'Bearer token').send({ ...newForm, template_id: templateId }).expect(200);
+    expect(createForm.mock.calls[1][0]).toMatchObject({ template_id: templateId, template_version_id: templateVersion().id });
+  });
+
+  it("rejects finished sections that don't pass the form's template, field by field", async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({ id: 'form-1', data: { completedSteps: [] }, template_version_id: 'version-1' } as never);
+    vi.spyOn(storage, 'getFormTemplateVersion').mockResolvedValue(templateVersion({ id: 'version-1' }));
+    const save = vi.spyOn(storage, 'updateClientForm').mockResolvedValue();
+    vi.spyOn(storage, 'createFormRevision').mockResolvedValue({} as never);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .patch('/api/onboarding/form-1')
+      .set('Authorization', 'Bearer token')
+      .send({ data: { about: { name: ' ' }, completedSteps: [0] } })
+      .expect(400);
+
+    expect(res.body).toEqual({ error: 'Some answers need fixing', fieldErrors: { about: { name: 'Name is required' } } });
+    expect(save).not.toHaveBeenCalled();
+
+    // Half-typed answers in sections that aren't being finished still save
+    await request(app).patch('/api/onboarding/form-1').set('Authorization', 'Bearer token').send({ data: { about: { name: ' ' } } }).expect(200);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks answers saved through the form data API too', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getForm').mockResolvedValue({ id: 1, data: { completedSteps: [] }, template_version_id: 'version-1' } as never);
+    vi.spyOn(storage, 'getFormTemplateVersion').mockResolvedValue(templateVersion({ id: 'version-1' }));
+    const save = vi.spyOn(storage, 'updateFormData').mockResolvedValue();
+    vi.spyOn(storage, 'createFormRevision').mockResolvedValue({} as never);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .patch('/api/forms/1/data')
+      .set('Authorization', 'Bearer token')
+      .send({ about: { name: ' ' }, completedSteps: [0] })
+      .expect(400);
+    expect(res.body).toEqual({ error: 'Some answers need fixing', fieldErrors: { about: { name: 'Name is required' } } });
+
+    await request(app).patch('/api/forms/1/data').set('Authorization', 'Bearer token').send(['not', 'answers']).expect(400);
+    expect(save).not.toHaveBeenCalled();
+
+    await request(app).patch('/api/forms/1/data').set('Authorization', 'Bearer token').send({ about: { name: 'Ada' }, completedSteps: [0] }).expect(200);
+    expect(save).toHaveBeenCalledWith(1, { about: { name: 'Ada' }, completedSteps: [0] });
+  });
+
+  it('checks a section saved on its own against its own part of the template', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getSectionFormId').mockResolvedValue('form-1' as never);
+    vi.spyOn(storage, 'getFormTemplateVersionId').mockResolvedValue(null);
+    const getName = vi.spyOn(storage, 'getSectionName').mockResolvedValue('system-integration');
+    const save = vi.spyOn(storage, 'updateSectionData').mockResolvedValue();
+
+    const app = await createTestApp();
+    const res = await request(app).patch('/api/sections/7/data').set('Authorization', 'Bearer token').send({ crmSystem: 'notion' }).expect(400);
+    expect(res.body.fieldErrors).toEqual({ systemIntegration: { crmSystem: 'Please choose from the options listed' } });
+
+    await request(app).patch('/api/sections/7/data').set('Authorization', 'Bearer token').send({ crmSystem: 'hubspot' }).expect(200);
+    expect(save).toHaveBeenCalledWith(7, { crmSystem: 'hubspot' });
+
+    getName.mockResolvedValue('unknown');
+    await request(app).patch('/api/sections/7/data').set('Authorization', 'Bearer token').send({}).expect(400);
+  });
+});
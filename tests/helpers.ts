@@ -0,0 +1,52 @@
+import express from 'express';
+import { vi } from 'vitest';
+import { createFormAccessToken } from '../server/formAccess';
+import { registerRoutes } from '../server/routes';
+import { storage } from '../server/storage';
+import type { UserRole } from '../shared/permissions';
+import type { FormAccessToken } from '../shared/schema';
+
+// Shared setup for the route tests
+
+// An express app with the routes registered, as the server builds it
+export async function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+  return app;
+}
+
+export const staffUser = { id: 'user-1', email: 'staff@example.com' };
+
+// Any bearer token signs in as the user with the role; null is a user with no role
+export function signInAs(role: UserRole | null, user: { id: string; email: string } = staffUser) {
+  vi.spyOn(storage, 'verifyAccessToken').mockResolvedValue(user);
+  vi.spyOn(storage, 'getUserRole').mockResolvedValue(role);
+}
+
+// Tokens issued in the current test by hash, standing in for the form_access_tokens table
+const clientTokens = new Map<string, FormAccessToken>();
+
+// A client token for the form, or one of its sections, as if issued from the dashboard. Tokens
+// are numbered token-1, token-2... within a test, and the form is open unless the test locks it
+// afterwards. Returns the token for the X-Form-Token header.
+export function signInAsClient(formId: string | number, sectionId: string | null = null) {
+  if (!vi.isMockFunction(storage.getFormAccessTokenByHash)) {
+    clientTokens.clear();
+    vi.spyOn(storage, 'getFormAccessTokenByHash').mockImplementation(async hash => clientTokens.get(hash));
+    vi.spyOn(storage, 'getFormLock').mockResolvedValue(undefined);
+  }
+
+  const { token, tokenHash, expiresAt } = createFormAccessToken(formId, { sectionId, ttlHours: 1 });
+  clientTokens.set(tokenHash, {
+    id: `token-${clientTokens.size + 1}`,
+    form_id: String(formId),
+    section_id: sectionId,
+    token_hash: tokenHash,
+    expires_at: expiresAt,
+    revoked_at: null,
+    created_by: null,
+    created_at: new Date(),
+  });
+  return token;
+}
@@ -0,0 +1,252 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { describeNotification, dispatchNotification } from '../server/notifications';
+import { verifyFormPassword } from '../server/formAccess';
+import { mailer } from '../server/mailer';
+import type { CaptureTransport } from '../server/email';
+import type { FormContact, Notification, NotificationPreferences, TeamMember } from '../server/types';
+import { defaultNotificationPreferences, defaultSlackSettings } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const form: FormContact = {
+  id: 'form-1', client_name: 'Acme', client_email: 'client@example.com', slug: 'acme', progress: 40, status: 'in_progress',
+};
+
+function member(userId: string, role: TeamMember['role'], overrides: Partial<TeamMember> = {}): TeamMember {
+  return { user_id: userId, email: `${userId}@example.com`, name: null, role, deactivated_at: null, created_at: null, ...overrides };
+}
+
+const team = [
+  member('admin-1', 'admin'),
+  member('editor-1', 'editor'),
+  member('viewer-1', 'viewer'),
+  member('viewer-2', 'viewer', { deactivated_at: new Date() }),
+];
+
+function preferencesFor(overrides: Record<string, NotificationPreferences> = {}) {
+  return async (userIds: string[]) => new Map(userIds.map(id => [id, overrides[id] ?? defaultNotificationPreferences]));
+}
+
+function fakeStorage(overrides: Record<string, NotificationPreferences> = {}) {
+  return {
+    getTeamMembers: vi.fn().mockResolvedValue(team),
+    getNotificationPreferencesFor: vi.fn(preferencesFor(overrides)),
+    createNotifications: vi.fn().mockResolvedValue(undefined),
+    getSlackSettings: vi.fn().mockResolvedValue(defaultSlackSettings),
+  };
+}
+
+function sentEmails() {
+  return (mailer.transport as CaptureTransport).sent;
+}
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: 'notification-1',
+    user_id: 'user-1',
+    type: 'form_completed',
+    priority: 'high',
+    title: 'Form completed - Acme',
+    message: 'Acme has completed their onboarding form.',
+    form_id: 'form-1',
+    data: { formSlug: 'acme' },
+    read_at: null,
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Notification content', () => {
+  it('links form notifications to the form', () => {
+    const content = describeNotification({ type: 'section_completed', form, sectionName: 'Brand Guidelines' });
+    expect(content).toMatchObject({ priority: 'medium', formId: 'form-1', data: { formSlug: 'acme', sectionName: 'Brand Guidelines' } });
+    expect(content.message).toContain('Brand Guidelines');
+  });
+
+  it('keeps what a webhook retry needs', () => {
+    const content = describeNotification({
+      type: 'webhook_failed',
+      delivery: { id: 'delivery-1', event: 'form.completed', url: 'https://example.com/hook', attempt_count: 5, last_error: 'HTTP 500', form_id: 'form-1' },
+    });
+    expect(content).toMatchObject({ priority: 'high', data: { deliveryId: 'delivery-1', webhookUrl: 'https://example.com/hook' } });
+    expect(content.message).toContain('5 attempt(s): HTTP 500');
+  });
+});
+
+describe('Notification dispatch', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sentEmails().length = 0;
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+  });
+
+  it('notifies active staff except whoever caused the event', async () => {
+    const fake = fakeStorage();
+
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    expect(await dispatchNotification(fake, { type: 'form_created', form, actorId: 'editor-1' })).toEqual({ inApp: 2, email: 0, slack: 0 });
+    expect(fake.getNotificationPreferencesFor).toHaveBeenCalledWith(['admin-1', 'viewer-1']);
+
+    const rows = fake.createNotifications.mock.calls[0][0];
+    expect(rows.map((row: Notification) => row.user_id)).toEqual(['admin-1', 'viewer-1']);
+    expect(rows[0]).toMatchObject({ type: 'form_created', form_id: 'form-1', data: { formSlug: 'acme' } });
+  });
+
+  it('sends webhook failures only to people who can manage webhooks', async () => {
+    const fake = fakeStorage();
+    const delivery = { id: 'delivery-1', event: 'form.completed', url: 'https://example.com/hook', attempt_count: 5, last_error: null, form_id: null };
+
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    await dispatchNotification(fake, { type: 'webhook_failed', delivery });
+
+    const rows = fake.createNotifications.mock.calls[0][0];
+    expect(rows.map((row: Notification) => row.user_id)).toEqual(['admin-1']);
+  });
+
+  it('sends each channel only to the people who want it', async () => {
+    const fake = fakeStorage({
+      'admin-1': {
+        ...defaultNotificationPreferences,
+        alerts: { ...defaultNotificationPreferences.alerts, form_completed: { inApp: false, email: true } },
+      },
+      'viewer-1': {
+        ...defaultNotificationPreferences,
+        alerts: { ...defaultNotificationPreferences.alerts, form_completed: { inApp: true, email: false } },
+      },
+    });
+
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    const result = await dispatchNotification(fake, { type: 'form_completed', form }, { baseUrl: 'https://app.example.com/' });
+
+    expect(result).toEqual({ inApp: 2, email: 2, slack: 0 });
+    expect(fake.createNotifications.mock.calls[0][0].map((row: Notification) => row.user_id)).toEqual(['editor-1', 'viewer-1']);
+    expect(sentEmails().map(email => email.to)).toEqual(['admin-1@example.com', 'editor-1@example.com']);
+    expect(sentEmails()[0].subject).toContain('Form completed - Acme');
+    expect(sentEmails()[0].text).toContain('https://app.example.com/admin/dashboard?search=client%40example.com');
+  });
+
+  it('never fails the action that triggered it', async () => {
+    const fake = fakeStorage();
+    fake.createNotifications.mockRejectedValue(new Error('Database unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Emails still go out when the in-app rows can't be written
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    expect(await dispatchNotification(fake, { type: 'form_completed', form })).toEqual({ inApp: 0, email: 3, slack: 0 });
+
+    fake.getTeamMembers.mockRejectedValue(new Error('Database unavailable'));
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    expect(await dispatchNotification(fake, { type: 'form_completed', form })).toEqual({ inApp: 0, email: 0, slack: 0 });
+  });
+});
+
+describe('Notification routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists the signed-in user's notifications with counts", async () => {
+    signInAs('viewer');
+    const getNotifications = vi.spyOn(storage, 'getNotifications').mockResolvedValue({ notifications: [notification()], total: 1 });
+    const counts = { total: 1, unread: 1, highPriority: 1, today: 1 };
+    vi.spyOn(storage, 'getNotificationCounts').mockResolvedValue(counts);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/notifications?type=form_completed&unread=true').set('Authorization', 'Bearer token').expect(200);
+
+    expect(res.body.total).toBe(1);
+    expect(res.body.counts).toEqual(counts);
+    expect(getNotifications).toHaveBeenCalledWith('user-1', { type: 'form_completed', unread: true, limit: 50, offset: 0 });
+
+    await request(app).get('/api/notifications?type=weekly_report').set('Authorization', 'Bearer token').expect(400);
+  });
+
+  it('marks notifications read and dismisses them for the signed-in user only', async () => {
+    signInAs('editor');
+    const markRead = vi.spyOn(storage, 'markNotificationRead')
+      .mockResolvedValueOnce(notification({ read_at: new Date() }))
+      .mockResolvedValueOnce(undefined);
+    const markAllRead = vi.spyOn(storage, 'markAllNotificationsRead').mockResolvedValue(3);
+    const dismiss = vi.spyOn(storage, 'dismissNotification').mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const app = await createTestApp();
+    await request(app).post('/api/notifications/notification-1/read').set('Authorization', 'Bearer token').expect(200);
+    await request(app).post('/api/notifications/someone-elses/read').set('Authorization', 'Bearer token').expect(404);
+    expect(markRead).toHaveBeenCalledWith('user-1', 'someone-elses');
+
+    const res = await request(app).post('/api/notifications/read-all').set('Authorization', 'Bearer token').expect(200);
+    expect(res.body).toEqual({ updated: 3 });
+    expect(markAllRead).toHaveBeenCalledWith('user-1');
+
+    await request(app).delete('/api/notifications/notification-1').set('Authorization', 'Bearer token').expect(200);
+    await request(app).delete('/api/notifications/notification-1').set('Authorization', 'Bearer token').expect(404);
+    expect(dismiss).toHaveBeenCalledWith('user-1', 'notification-1');
+  });
+
+  it('creates forms on the server and tells the rest of the team', async () => {
+    signInAs('editor');
+    const createForm = vi.spyOn(storage, 'createForm').mockImplementation(async newForm => ({ id: 'form-9', ...newForm }) as never);
+    vi.spyOn(storage, 'getDefaultFormTemplate').mockResolvedValue(undefined);
+    vi.spyOn(storage, 'getTeamMembers').mockResolvedValue([member('user-1', 'editor'), member('admin-1', 'admin')]);
+    vi.spyOn(storage, 'getNotificationPreferencesFor').mockImplementation(preferencesFor());
+    const createNotifications = vi.spyOn(storage, 'createNotifications').mockResolvedValue(undefined);
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/forms')
+      .set('Authorization', 'Bearer token')
+      .send({ client_name: 'Acme Corp', client_email: 'client@example.com', password: 'secret' })
+      .expect(200);
+
+    expect(res.body.id).toBe('form-9');
+    const created = createForm.mock.calls[0][0];
+    expect(created).toMatchObject({ client_name: 'Acme Corp', created_by: 'user-1' });
+    expect(created.slug).toMatch(/^acme-corp-/);
+    expect(verifyFormPassword('secret', created.password_hash!)).toBe(true);
+
+    const rows = createNotifications.mock.calls[0][0];
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ user_id: 'admin-1', type: 'form_created', data: { formSlug: created.slug } });
+  });
+
+  it('rejects forms without a valid client email', async () => {
+    signInAs('editor');
+    const createForm = vi.spyOn(storage, 'createForm');
+
+    const app = await createTestApp();
+    await request(app).post('/api/forms').set('Authorization', 'Bearer token').send({ client_name: 'Acme', client_email: 'nope' }).expect(400);
+    expect(createForm).not.toHaveBeenCalled();
+  });
+});
+
+describe('Notification preference routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reads and saves the signed-in user's preferences", async () => {
+    signInAs('viewer');
+    vi.spyOn(storage, 'getNotificationPreferences').mockResolvedValue(defaultNotificationPreferences);
+    const update = vi.spyOn(storage, 'updateNotificationPreferences').mockImplementation(async (_userId, value) => value);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/notifications/preferences').set('Authorization', 'Bearer token').expect(200);
+    expect(res.body).toEqual(defaultNotificationPreferences);
+
+    const preferences = { ...defaultNotificationPreferences, digest: 'weekly' };
+    await request(app).put('/api/notifications/preferences').set('Authorization', 'Bearer token').send(preferences).expect(200);
+    expect(update).toHaveBeenCalledWith('user-1', preferences);
+  });
+
+  it('rejects preferences with a missing alert or an unknown digest', async () => {
+    signInAs('admin');
+    const update = vi.spyOn(storage, 'updateNotificationPreferences');
+    const { form_completed, ...alerts } = defaultNotificationPreferences.alerts;
+
+    const app = await createTestApp();
+    await request(app).put('/api/notifications/preferences').set('Authorization', 'Bearer token').send({ ...defaultNotificationPreferences, alerts }).expect(400);
+    await request(app).put('/api/notifications/preferences').set('Authorization', 'Bearer token').send({ ...defaultNotificationPreferences, digest: 'hourly' }).expect(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { mailer } from '../server/mailer';
+import { getDueReminderStage, processDueReminders, type ReminderSchedulerConfig } from '../server/reminderScheduler';
+import type { CaptureTransport } from '../server/email';
+import type { RemindableForm } from '../server/types';
+import { defaultReminderSettings, type ReminderSettings } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const config: ReminderSchedulerConfig = {
+  pollIntervalMs: 1000,
+  minGapMs: 12 * 60 * 60 * 1000,
+  retryDelayMs: 60 * 60 * 1000,
+};
+
+const settings: ReminderSettings = { ...defaultReminderSettings, enabled: true, customMessage: 'Any questions? Just reply.' };
+
+const now = new Date('2025-01-10T00:00:00Z');
+
+function hoursBefore(hours: number): string {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+function remindableForm(overrides: Partial<RemindableForm> = {}): RemindableForm {
+  return {
+    id: 'form-1',
+    client_name: 'Acme',
+    client_email: 'client@example.com',
+    slug: 'acme',
+    progress: 20,
+    status: 'in_progress',
+    created_at: hoursBefore(30),
+    last_reminder: null,
+    ...overrides,
+  };
+}
+
+describe('Reminder schedule', () => {
+  it('waits for the first reminder time', () => {
+    expect(getDueReminderStage({ created_at: hoursBefore(23), last_reminder: null }, settings, now, config)).toBeNull();
+    expect(getDueReminderStage({ created_at: hoursBefore(24), last_reminder: null }, settings, now, config)).toBe('first');
+  });
+
+  it('sends each stage once, counting from when the form was created', () => {
+    // First reminder sent at 25 hours; the second is due at 72
+    expect(getDueReminderStage({ created_at: hoursBefore(50), last_reminder: hoursBefore(25) }, settings, now, config)).toBeNull();
+    expect(getDueReminderStage({ created_at: hoursBefore(72), last_reminder: hoursBefore(47) }, settings, now, config)).toBe('second');
+    expect(getDueReminderStage({ created_at: hoursBefore(170), last_reminder: hoursBefore(97) }, settings, now, config)).toBe('final');
+    expect(getDueReminderStage({ created_at: hoursBefore(400), last_reminder: hoursBefore(200) }, settings, now, config)).toBeNull();
+  });
+
+  it('sends only the latest missed stage', () => {
+    expect(getDueReminderStage({ created_at: hoursBefore(200), last_reminder: null }, settings, now, config)).toBe('final');
+  });
+
+  it('leaves a gap after a recent manual reminder', () => {
+    expect(getDueReminderStage({ created_at: hoursBefore(73), last_reminder: hoursBefore(2) }, settings, now, config)).toBeNull();
+    expect(getDueReminderStage({ created_at: hoursBefore(73), last_reminder: hoursBefore(60) }, settings, now, config)).toBe('second');
+  });
+});
+
+describe('Reminder scheduler', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    (mailer.transport as CaptureTransport).sent.length = 0;
+    vi.spyOn(storage, 'createFormAccessToken').mockResolvedValue(undefined as never);
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+    vi.spyOn(storage, 'getTeamMembers').mockResolvedValue([]);
+  });
+
+  it('does nothing while reminders are off', async () => {
+    vi.spyOn(storage, 'getReminderSettings').mockResolvedValue(defaultReminderSettings);
+    const getForms = vi.spyOn(storage, 'getRemindableForms');
+
+    expect(await processDueReminders(storage, { baseUrl: 'https://app.example.com', now, config })).toBe(0);
+    expect(getForms).not.toHaveBeenCalled();
+  });
+
+  it('emails due clients with the custom message and records the send', async () => {
+    vi.spyOn(storage, 'getReminderSettings').mockResolvedValue(settings);
+    const getForms = vi.spyOn(storage, 'getRemindableForms').mockResolvedValue([
+      remindableForm(),
+      remindableForm({ id: 'form-2', client_email: 'later@example.com', created_at: hoursBefore(30), last_reminder: hoursBefore(5) }),
+    ]);
+    const updateLastReminder = vi.spyOn(storage, 'updateLastReminder').mockResolvedValue(undefined);
+
+    const sent = await processDueReminders(storage, { baseUrl: 'https://app.example.com', now, config });
+
+    expect(sent).toBe(1);
+    expect(getForms).toHaveBeenCalledWith(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+    const [message] = (mailer.transport as CaptureTransport).sent;
+    expect(message.to).toBe('client@example.com');
+    expect(message.text).toContain('Any questions? Just reply.');
+    expect(message.text).toContain('https://app.example.com/onboarding/acme?token=');
+    expect(updateLastReminder).toHaveBeenCalledWith('form-1');
+    expect(storage.createEmailLog).toHaveBeenCalledWith(expect.objectContaining({ template: 'clientReminder', form_id: 'form-1', sent_by: null }));
+  });
+
+  it('waits before retrying a form whose email failed', async () => {
+    vi.spyOn(storage, 'getReminderSettings').mockResolvedValue(settings);
+    vi.spyOn(storage, 'getRemindableForms').mockResolvedValue([remindableForm()]);
+    const updateLastReminder = vi.spyOn(storage, 'updateLastReminder').mockResolvedValue(undefined);
+    const send = vi.spyOn(mailer.transport, 'send').mockRejectedValue(new Error('Connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const retryAfter = new Map<string, number>();
+
+    expect(await processDueReminders(storage, { baseUrl: 'https://app.example.com', now, config, retryAfter })).toBe(0);
+    expect(await processDueReminders(storage, { baseUrl: 'https://app.example.com', now: new Date(now.getTime() + 60 * 1000), config, retryAfter })).toBe(0);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(updateLastReminder).not.toHaveBeenCalled();
+
+    send.mockResolvedValue({ messageId: 'abc' });
+    expect(await processDueReminders(storage, { baseUrl: 'https://app.example.com', now: new Date(now.getTime() + config.retryDelayMs), config, retryAfter })).toBe(1);
+    expect(retryAfter.has('form-1')).toBe(false);
+  });
+});
+
+describe('Reminder settings routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets staff read the settings and only admins change them', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getReminderSettings').mockResolvedValue(settings);
+    const update = vi.spyOn(storage, 'updateReminderSettings').mockImplementation(async value => value);
+
+    const app = await createTestApp();
+    const res = await request(app).get('/api/reminder-settings').set('Authorization', 'Bearer token').expect(200);
+    expect(res.body).toEqual(settings);
+    await request(app).put('/api/reminder-settings').set('Authorization', 'Bearer token').send(settings).expect(403);
+
+    signInAs('admin');
+    await request(app).put('/api/reminder-settings').set('Authorization', 'Bearer token').send({ ...settings, customMessage: '  Hi!  ' }).expect(200);
+    expect(update).toHaveBeenCalledWith({ ...settings, customMessage: 'Hi!' });
+  });
+
+  it('rejects reminders out of order', async () => {
+    signInAs('admin');
+    const update = vi.spyOn(storage, 'updateReminderSettings');
+
+    const app = await createTestApp();
+    await request(app)
+      .put('/api/reminder-settings')
+      .set('Authorization', 'Bearer token')
+      .send({ ...settings, firstReminder: 96, secondReminder: 72 })
+      .expect(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { storage } from '../server/storage';
+import { describeNotification, dispatchNotification, type NotificationEvent } from '../server/notifications';
+import { buildSlackMessage, sendSlackMessage } from '../server/slack';
+import type { FormContact } from '../server/types';
+import { defaultSlackSettings, type SlackSettings } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const form: FormContact = {
+  id: 'form-1', client_name: 'Acme <Corp>', client_email: 'client@example.com', slug: 'acme', progress: 60, status: 'in_progress',
+};
+
+// Stands in for hooks.slack.com: records each post and answers like Slack does
+interface SlackStub {
+  url: string;
+  received: any[];
+  reply: { status: number; body: string };
+  close: () => Promise<void>;
+}
+
+async function startSlackStub(): Promise<SlackStub> {
+  const received: any[] = [];
+  const reply = { status: 200, body: 'ok' };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.writeHead(reply.status, { 'Content-Type': 'text/plain' });
+      res.end(reply.body);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/services/T000/B000/secret`,
+    received,
+    reply,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function message(event: NotificationEvent, baseUrl?: string) {
+  return buildSlackMessage(event, describeNotification(event), baseUrl);
+}
+
+describe('Slack messages', () => {
+  it('formats section completions as Block Kit with a link to the form', () => {
+    const slack = message({ type: 'section_completed', form, sectionName: 'Brand Guidelines' }, 'https://app.example.com/');
+    const [header, body, fields, actions] = slack.blocks as any[];
+
+    expect(slack.text).toContain('Section completed - Acme <Corp>');
+    expect(header).toEqual({ type: 'header', text: { type: 'plain_text', text: 'Section completed - Acme <Corp>', emoji: true } });
+    expect(body.text.text).toContain('Acme &lt;Corp&gt; completed the Brand Guidelines section.');
+    expect(fields.fields.map((field: any) => field.text)).toEqual([
+      '*Client*\nAcme &lt;Corp&gt;',
+      '*Email*\nclient@example.com',
+      '*Section*\nBrand Guidelines',
+      '*Progress*\n60%',
+    ]);
+    expect(actions.elements[0].url).toBe('https://app.example.com/admin/dashboard?search=client%40example.com');
+  });
+
+  it('points webhook failures at the deliveries tab', () => {
+    const slack = message({
+      type: 'webhook_failed',
+      delivery: { id: 'delivery-1', event: 'form.completed', url: 'https://example.com/hook', attempt_count: 5, last_error: 'HTTP 500', form_id: null },
+    }, 'https://app.example.com');
+    const actions = slack.blocks[3] as any;
+
+    expect(actions.elements[0]).toMatchObject({ url: 'https://app.example.com/admin/webhook-settings?tab=deliveries', style: 'danger' });
+  });
+
+  it('leaves the button out without a base URL', () => {
+    const slack = message({ type: 'form_completed', form });
+    expect(slack.blocks.map((block: any) => block.type)).toEqual(['header', 'section', 'section']);
+  });
+});
+
+describe('Slack delivery', () => {
+  let stub: SlackStub;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    stub = await startSlackStub();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it("reports Slack's reason when a post is refused", async () => {
+    await sendSlackMessage(stub.url, message({ type: 'form_completed', form }));
+    expect(stub.received).toHaveLength(1);
+
+    stub.reply.status = 404;
+    stub.reply.body = 'no_service';
+    await expect(sendSlackMessage(stub.url, message({ type: 'form_completed', form }))).rejects.toThrow('Slack responded with 404: no_service');
+  });
+
+  it('posts the events Slack is set up for', async () => {
+    const settings: SlackSettings = { ...defaultSlackSettings, enabled: true, webhookUrl: stub.url, channel: '#onboarding' };
+    const fake = {
+      getTeamMembers: vi.fn().mockResolvedValue([]),
+      getSlackSettings: vi.fn().mockResolvedValue(settings),
+    };
+
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    const completed = await dispatchNotification(fake, { type: 'form_completed', form }, { baseUrl: 'https://app.example.com' });
+    // @ts-ignore - section completions are off by default
+    const section = await dispatchNotification(fake, { type: 'section_completed', form, sectionName: 'Brand Guidelines' });
+    // @ts-ignore - new forms are never posted to Slack
+    await dispatchNotification(fake, { type: 'form_created', form });
+
+    expect(completed.slack).toBe(1);
+    expect(section.slack).toBe(0);
+    expect(fake.getSlackSettings).toHaveBeenCalledTimes(2);
+    expect(stub.received).toHaveLength(1);
+    expect(stub.received[0]).toMatchObject({ channel: '#onboarding', text: expect.stringContaining('Form completed - Acme <Corp>') });
+  });
+
+  it('keeps going when Slack is down', async () => {
+    stub.reply.status = 500;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fake = {
+      getTeamMembers: vi.fn().mockResolvedValue([]),
+      getSlackSettings: vi.fn().mockResolvedValue({ ...defaultSlackSettings, enabled: true, webhookUrl: stub.url }),
+    };
+
+    // @ts-ignore - only the methods used by the dispatcher are provided
+    expect(await dispatchNotification(fake, { type: 'form_completed', form })).toEqual({ inApp: 0, email: 0, slack: 0 });
+    expect(stub.received).toHaveLength(1);
+  });
+});
+
+describe('Slack settings routes', () => {
+  let stub: SlackStub;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    stub = await startSlackStub();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('lets only webhook admins see and change the settings', async () => {
+    signInAs('editor');
+    vi.spyOn(storage, 'getSlackSettings').mockResolvedValue(defaultSlackSettings);
+    const update = vi.spyOn(storage, 'updateSlackSettings').mockImplementation(async value => value);
+
+    const app = await createTestApp();
+    await request(app).get('/api/slack-settings').set('Authorization', 'Bearer token').expect(403);
+
+    signInAs('admin');
+    const res = await request(app).get('/api/slack-settings').set('Authorization', 'Bearer token').expect(200);
+    expect(res.body).toEqual(defaultSlackSettings);
+
+    const webhookUrl = 'https://hooks.slack.com/services/T000/B000/secret';
+    const settings = { ...defaultSlackSettings, enabled: true, webhookUrl: ` ${webhookUrl} `, channel: '#onboarding' };
+    await request(app).put('/api/slack-settings').set('Authorization', 'Bearer token').send(settings).expect(200);
+    expect(update).toHaveBeenCalledWith({ ...settings, webhookUrl });
+  });
+
+  it('needs a webhook URL before Slack can be turned on', async () => {
+    signInAs('admin');
+    const update = vi.spyOn(storage, 'updateSlackSettings');
+
+    const app = await createTestApp();
+    await request(app).put('/api/slack-settings').set('Authorization', 'Bearer token').send({ ...defaultSlackSettings, enabled: true }).expect(400);
+    await request(app).put('/api/slack-settings').set('Authorization', 'Bearer token').send({ ...defaultSlackSettings, webhookUrl: 'not a url' }).expect(400);
+    const res = await request(app).put('/api/slack-settings').set('Authorization', 'Bearer token')
+      .send({ ...defaultSlackSettings, webhookUrl: 'http://hooks.slack.com/services/T000/B000/secret' }).expect(400);
+    expect(res.body.error).toContain('must start with https://');
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('sends a test message to the saved webhook, with the given channel', async () => {
+    signInAs('admin');
+    vi.spyOn(storage, 'getSlackSettings').mockResolvedValue({ ...defaultSlackSettings, webhookUrl: stub.url, channel: '#saved' });
+
+    const app = await createTestApp();
+    await request(app).post('/api/slack-settings/test').set('Authorization', 'Bearer token').send({}).expect(200);
+    expect(stub.received[0]).toMatchObject({ channel: '#saved', text: expect.stringContaining('Slack is connected') });
+
+    await request(app).post('/api/slack-settings/test').set('Authorization', 'Bearer token').send({ channel: '' }).expect(200);
+    expect(stub.received[1].channel).toBeUndefined();
+    await request(app).post('/api/slack-settings/test').set('Authorization', 'Bearer token').send({ webhookUrl: stub.url }).expect(400);
+
+    stub.reply.status = 403;
+    stub.reply.body = 'invalid_token';
+    const res = await request(app).post('/api/slack-settings/test').set('Authorization', 'Bearer token').send({}).expect(502);
+    expect(res.body.details).toBe('Slack responded with 403: invalid_token');
+  });
+
+  it('asks for a webhook URL when none is saved', async () => {
+    signInAs('admin');
+    vi.spyOn(storage, 'getSlackSettings').mockResolvedValue(defaultSlackSettings);
+
+    const app = await createTestApp();
+    await request(app).post('/api/slack-settings/test').set('Authorization', 'Bearer token').send({}).expect(400);
+  });
+});
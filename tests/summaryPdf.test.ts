@@ -0,0 +1,175 @@
+import zlib from 'zlib';
+import request from 'supertest';
+import sharp from 'sharp';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { assetStore } from '../server/assetStore';
+import { mailer } from '../server/mailer';
+import { sendCompletionReceipt } from '../server/formEmails';
+import { createPdfDocument, measureText, wrapText } from '../server/pdf';
+import type { CaptureTransport } from '../server/email';
+import type { BrandAsset } from '../shared/schema';
+import { createTestApp, signInAs, signInAsClient } from './helpers';
+
+const formId = '44444444-4444-4444-8444-444444444444';
+const logoId = '88888888-8888-4888-8888-888888888888';
+
+// Checks the cross-reference table points at every object, and returns the text drawn on the
+// pages and how many pages there are
+function readPdf(pdf: Buffer): { text: string; pages: number; images: number } {
+  expect(pdf.subarray(0, 9).toString('latin1')).toBe('%PDF-1.4\n');
+  const source = pdf.toString('latin1');
+  const xref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(source)![1]);
+  const table = source.slice(xref).split('\n');
+  expect(table[0]).toBe('xref');
+  const count = Number(table[1].split(' ')[1]);
+  for (let id = 1; id < count; id++) {
+    const offset = Number(table[2 + id].slice(0, 10));
+    expect(source.slice(offset, offset + `${id} 0 obj`.length)).toBe(`${id} 0 obj`);
+  }
+
+  const text: string[] = [];
+  const streams = /<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+  for (let match = streams.exec(source); match; match = streams.exec(source)) {
+    const start = match.index + match[0].length;
+    const content = zlib.inflateSync(pdf.subarray(start, start + Number(match[1]))).toString('latin1');
+    for (const shown of content.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)) text.push(shown[1].replace(/\\(.)/g, '$1'));
+  }
+  return {
+    text: text.join('\n'),
+    pages: Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(source)![1]),
+    images: source.match(/\/Subtype \/Image/g)?.length ?? 0,
+  };
+}
+
+function readBody(req: request.Test) {
+  return req.buffer(true).parse((response, done) => {
+    const chunks: Buffer[] = [];
+    response.on('data', (chunk: Buffer) => chunks.push(chunk));
+    response.on('end', () => done(null, Buffer.concat(chunks)));
+  });
+}
+
+const formData = {
+  businessDetails: { name: 'Acme Corp', type: 'saas', website: 'https://acme.example' },
+  campaign: { objective: 'leads', keyMessages: 'Faster (and cheaper) widgets. '.repeat(40) },
+  audience: { industries: ['Technology', 'Finance'] },
+  typography: { titleFont: 'Acme Display' },
+  brandAssets: {
+    brandName: 'Acme',
+    logo: { assetId: logoId, name: 'logo.png', contentType: 'image/png' },
+    mainColor: '#2563EB',
+  },
+  systemIntegration: {},
+};
+
+async function mockForm(overrides: Record<string, unknown> = {}) {
+  const web = `forms/${formId}/summary-logo/web.webp`;
+  await assetStore.put(web, await sharp({ create: { width: 40, height: 20, channels: 4, background: '#2563EB' } }).webp().toBuffer(), 'image/webp');
+  vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue({
+    id: formId, slug: 'acme', client_name: 'Acme Client', data: formData, progress: 100,
+    completed_at: '2026-03-04T10:00:00Z', template_version_id: null, ...overrides,
+  } as never);
+  vi.spyOn(storage, 'getFontCatalogue').mockResolvedValue([]);
+  vi.spyOn(storage, 'getBrandAssets').mockResolvedValue([{
+    id: logoId, form_id: formId, field: 'brandAssets.logo', file_name: 'logo.png', content_type: 'image/png',
+    storage_key: `forms/${formId}/summary-logo/original.png`, font: null,
+    variants: { web: { key: web, content_type: 'image/webp', width: 40, height: 20, size_bytes: 100 } },
+  } as unknown as BrandAsset]);
+}
+
+describe('PDF writer', () => {
+  it('measures and wraps text in Helvetica', () => {
+    expect(measureText('Hello', 10)).toBeCloseTo(22.78, 2);
+    expect(measureText('Hello', 10, true)).toBeGreaterThan(measureText('Hello', 10));
+
+    const lines = wrapText('The quick brown fox jumps over the lazy dog\nagain', 10, 100);
+    expect(lines).toEqual(['The quick brown fox', 'jumps over the lazy', 'dog', 'again']);
+    expect(lines.every(line => measureText(line, 10) <= 100)).toBe(true);
+    expect(wrapText('x'.repeat(60), 10, 100).map(line => line.length)).toEqual([20, 20, 20]);
+  });
+
+  it('writes pages, text and images a reader can find', async () => {
+    const doc = createPdfDocument({ title: 'Test' });
+    doc.addPage();
+    doc.text('Price (£10) – “quoted” 日本', 48, 60);
+    const jpeg = await sharp({ create: { width: 2, height: 2, channels: 3, background: '#ff0000' } }).jpeg().toBuffer();
+    doc.image(doc.addImage(jpeg, 2, 2), 48, 80, 20, 20);
+    doc.addPage();
+    doc.rect(0, 0, 10, 10, '#000000');
+
+    const { text, pages, images } = readPdf(doc.toBuffer());
+    expect(text).toBe('Price (\xa310) \x96 \x93quoted\x94 ??');
+    expect(pages).toBe(2);
+    expect(images).toBe(1);
+  });
+});
+
+describe('Form summary', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    (mailer.transport as CaptureTransport).sent.length = 0;
+  });
+
+  it('lets the client download a summary of their answers', async () => {
+    await mockForm();
+    const token = signInAsClient(formId);
+
+    const app = await createTestApp();
+    const res = await readBody(request(app).get(`/api/forms/${formId}/summary.pdf`).set('X-Form-Token', token)).expect(200);
+
+    expect(res.headers['content-type']).toBe('application/pdf');
+    expect(res.headers['content-disposition']).toBe('attachment; filename="acme-onboarding-summary.pdf"');
+    const { text, pages, images } = readPdf(res.body);
+    expect(pages).toBe(2);
+    expect(images).toBe(1);
+    expect(text).toContain('Acme\nOnboarding summary \xb7 Completed 4 March 2026\nPrepared for Acme Client');
+    expect(text).toContain('Business Details');
+    expect(text).toContain('Acme Corp');
+    expect(text).toContain('SaaS / Software');
+    expect(text).toContain('Lead Generation');
+    expect(text).toContain('Technology, Finance');
+    expect(text).toContain('Acme Display');
+    expect(text).toContain('#2563EB');
+    expect(text).toContain('logo.png');
+    expect(text).toContain('Not answered');
+    expect(text).toContain('Page 2 of 2');
+  });
+
+  it('is for staff or the form itself', async () => {
+    const app = await createTestApp();
+    await request(app).get(`/api/forms/${formId}/summary.pdf`).expect(401);
+
+    signInAs('viewer');
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockResolvedValue(undefined);
+    await request(app).get(`/api/forms/${formId}/summary.pdf`).set('Authorization', 'Bearer token').expect(404);
+  });
+
+  it('attaches the summary to completion receipts when asked to', async () => {
+    await mockForm();
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+    const contact = { id: formId, client_name: 'Acme Client', client_email: 'client@example.com', slug: 'acme', progress: 100, status: 'completed' };
+
+    await sendCompletionReceipt(contact, { attachSummary: true });
+    await sendCompletionReceipt(contact, { attachSummary: false });
+
+    const [withSummary, without] = (mailer.transport as CaptureTransport).sent;
+    expect(withSummary.attachments).toEqual([{ filename: 'acme-onboarding-summary.pdf', content: expect.any(Buffer), contentType: 'application/pdf' }]);
+    expect(readPdf(withSummary.attachments![0].content).text).toContain('Acme Corp');
+    expect(withSummary.text).toContain('A PDF summary of your answers is attached');
+    expect(without.attachments).toBeUndefined();
+    expect(without.text).not.toContain('attached');
+  });
+
+  it('still sends the receipt when the summary fails', async () => {
+    vi.spyOn(storage, 'getFormByIdOrSlug').mockRejectedValue(new Error('Database unavailable'));
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await sendCompletionReceipt({ id: formId, client_name: 'Acme', client_email: 'client@example.com', slug: null, progress: 100, status: 'completed' }, { attachSummary: true });
+
+    const [message] = (mailer.transport as CaptureTransport).sent;
+    expect(message.to).toBe('client@example.com');
+    expect(message.attachments).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import request from 'supertest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { storage } from '../server/storage';
+import { createInvitationToken, getInvitationStatus, hashInvitationToken } from '../server/invitations';
+import type { Invitation } from '../shared/schema';
+import { createTestApp, signInAs } from './helpers';
+
+const admin = { id: 'admin-1', email: 'admin@example.com' };
+
+function invitation(overrides: Partial<Invitation> = {}): Invitation {
+  return {
+    id: 'invite-1',
+    email: 'new@example.com',
+    role: 'editor',
+    token: 'hash',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    accepted_at: null,
+    invited_by: 'admin-1',
+    status: 'pending',
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Invitation tokens', () => {
+  it('stores only a hash of the link token', () => {
+    const { token, tokenHash, expiresAt } = createInvitationToken(new Date('2025-01-01T00:00:00Z'));
+    expect(tokenHash).toBe(hashInvitationToken(token));
+    expect(tokenHash).not.toContain(token);
+    expect(expiresAt.toISOString()).toBe('2025-01-08T00:00:00.000Z');
+  });
+
+  it('reports pending invitations past their expiry as expired', () => {
+    const now = new Date('2025-01-02T00:00:00Z');
+    expect(getInvitationStatus({ status: 'pending', expires_at: new Date('2025-01-01T00:00:00Z') }, now)).toBe('expired');
+    expect(getInvitationStatus({ status: 'pending', expires_at: new Date('2025-01-03T00:00:00Z') }, now)).toBe('pending');
+    expect(getInvitationStatus({ status: 'accepted', expires_at: new Date('2025-01-01T00:00:00Z') }, now)).toBe('accepted');
+  });
+});
+
+describe('Team routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(storage, 'createEmailLog').mockImplementation(async entry => ({ id: 'email-1', created_at: new Date(), ...entry }));
+  });
+
+  it('is admin only', async () => {
+    signInAs('editor', admin);
+
+    const app = await createTestApp();
+    await request(app).get('/api/team/members').set('Authorization', 'Bearer token').expect(403);
+    await request(app).post('/api/team/invitations').set('Authorization', 'Bearer token').send({ email: 'a@example.com', role: 'viewer' }).expect(403);
+  });
+
+  it('creates an invitation and returns its link once', async () => {
+    signInAs('admin', admin);
+    vi.spyOn(storage, 'getTeamMemberByEmail').mockResolvedValue(undefined);
+    vi.spyOn(storage, 'getPendingInvitationByEmail').mockResolvedValue(undefined);
+    const createInvitation = vi.spyOn(storage, 'createInvitation').mockImplementation(async record => invitation(record));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/team/invitations')
+      .set('Authorization', 'Bearer token')
+      .send({ email: 'New@Example.com ', role: 'editor' })
+      .expect(201);
+
+    const token = new URL(res.body.inviteUrl).searchParams.get('token')!;
+    expect(createInvitation).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'new@example.com',
+      role: 'editor',
+      token: hashInvitationToken(token),
+      invited_by: 'admin-1',
+    }));
+    expect(res.body.invitation).not.toHaveProperty('token');
+    expect(res.body.emailSent).toBe(true);
+  });
+
+  it('refuses to invite existing members or invite twice', async () => {
+    signInAs('admin', admin);
+    const getMember = vi.spyOn(storage, 'getTeamMemberByEmail').mockResolvedValue({
+      user_id: 'user-2', email: 'new@example.com', name: null, role: 'viewer', deactivated_at: null, created_at: null,
+    });
+    vi.spyOn(storage, 'getPendingInvitationByEmail').mockResolvedValue(invitation());
+
+    const app = await createTestApp();
+    await request(app).post('/api/team/invitations').set('Authorization', 'Bearer token').send({ email: 'new@example.com', role: 'viewer' }).expect(409);
+
+    getMember.mockResolvedValue(undefined);
+    await request(app).post('/api/team/invitations').set('Authorization', 'Bearer token').send({ email: 'new@example.com', role: 'viewer' }).expect(409);
+  });
+
+  it('resends with a new token and revokes', async () => {
+    signInAs('admin', admin);
+    vi.spyOn(storage, 'getInvitation').mockResolvedValue(invitation({ status: 'expired' }));
+    const updateInvitation = vi.spyOn(storage, 'updateInvitation').mockImplementation(async (id, update) => invitation({ id, ...update }));
+
+    const app = await createTestApp();
+    const res = await request(app).post('/api/team/invitations/invite-1/resend').set('Authorization', 'Bearer token').expect(200);
+    const token = new URL(res.body.inviteUrl).searchParams.get('token')!;
+    expect(updateInvitation).toHaveBeenCalledWith('invite-1', expect.objectContaining({ token: hashInvitationToken(token), status: 'pending' }));
+
+    await request(app).delete('/api/team/invitations/invite-1').set('Authorization', 'Bearer token').expect(200);
+    expect(updateInvitation).toHaveBeenLastCalledWith('invite-1', { status: 'revoked' });
+  });
+
+  it('changes roles and deactivates other members but not yourself', async () => {
+    signInAs('admin', admin);
+    const updateTeamMember = vi.spyOn(storage, 'updateTeamMember').mockResolvedValue({
+      user_id: 'user-2', email: 'b@example.com', name: null, role: 'viewer', deactivated_at: null, created_at: null,
+    });
+
+    const app = await createTestApp();
+    await request(app).patch('/api/team/members/user-2').set('Authorization', 'Bearer token').send({ role: 'viewer' }).expect(200);
+    expect(updateTeamMember).toHaveBeenCalledWith('user-2', { role: 'viewer', deactivated_at: undefined });
+
+    await request(app).patch('/api/team/members/user-2').set('Authorization', 'Bearer token').send({ active: false }).expect(200);
+    expect(updateTeamMember.mock.calls[1][1].deactivated_at).toBeInstanceOf(Date);
+
+    await request(app).patch('/api/team/members/admin-1').set('Authorization', 'Bearer token').send({ active: false }).expect(400);
+    expect(updateTeamMember).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Accepting invitations', () => {
+  const { token, tokenHash } = createInvitationToken();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows a valid invitation by its token', async () => {
+    const lookup = vi.spyOn(storage, 'getInvitationByTokenHash').mockResolvedValue(invitation({ token: tokenHash }));
+
+    const app = await createTestApp();
+    const res = await request(app).get(`/api/invitations/${token}`).expect(200);
+
+    expect(lookup).toHaveBeenCalledWith(tokenHash);
+    expect(res.body).toMatchObject({ email: 'new@example.com', role: 'editor' });
+  });
+
+  it('creates the account with the invited role and marks the invitation accepted', async () => {
+    vi.spyOn(storage, 'getInvitationByTokenHash').mockResolvedValue(invitation({ token: tokenHash }));
+    const createAuthUser = vi.spyOn(storage, 'createAuthUser').mockResolvedValue({ id: 'user-9' });
+    const addTeamMember = vi.spyOn(storage, 'addTeamMember').mockImplementation(async member => ({ ...member, deactivated_at: null, created_at: null }));
+    const updateInvitation = vi.spyOn(storage, 'updateInvitation').mockResolvedValue(invitation({ status: 'accepted' }));
+
+    const app = await createTestApp();
+    await request(app).post(`/api/invitations/${token}/accept`).send({ name: 'Nia', password: 'long enough' }).expect(200);
+
+    expect(createAuthUser).toHaveBeenCalledWith('new@example.com', 'long enough');
+    expect(addTeamMember).toHaveBeenCalledWith({ user_id: 'user-9', email: 'new@example.com', name: 'Nia', role: 'editor' });
+    expect(updateInvitation).toHaveBeenCalledWith('invite-1', expect.objectContaining({ status: 'accepted' }));
+  });
+
+  it('lets a signed-in user accept only their own invitation', async () => {
+    vi.spyOn(storage, 'getInvitationByTokenHash').mockResolvedValue(invitation({ token: tokenHash }));
+    signInAs(null, { id: 'user-3', email: 'someone-else@example.com' });
+    const addTeamMember = vi.spyOn(storage, 'addTeamMember');
+
+    const app = await createTestApp();
+    await request(app).post(`/api/invitations/${token}/accept`).set('Authorization', 'Bearer token').send({ name: 'Sam' }).expect(403);
+    expect(addTeamMember).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired, revoked and used invitations', async () => {
+    const lookup = vi.spyOn(storage, 'getInvitationByTokenHash');
+    const createAuthUser = vi.spyOn(storage, 'createAuthUser');
+
+    const app = await createTestApp();
+    lookup.mockResolvedValue(invitation({ expires_at: new Date(Date.now() - 1000) }));
+    await request(app).post(`/api/invitations/${token}/accept`).send({ name: 'Nia', password: 'long enough' }).expect(410);
+
+    lookup.mockResolvedValue(invitation({ status: 'revoked' }));
+    await request(app).get(`/api/invitations/${token}`).expect(404);
+
+    lookup.mockResolvedValue(invitation({ status: 'accepted' }));
+    await request(app).post(`/api/invitations/${token}/accept`).send({ name: 'Nia', password: 'long enough' }).expect(409);
+
+    expect(createAuthUser).not.toHaveBeenCalled();
+  });
+});
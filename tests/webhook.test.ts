@@ -2,19 +2,44 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SupabaseStorage } from '../server/storage';
 import axios from 'axios';
 import crypto from 'crypto';
+import { webhookEventSchema, WEBHOOK_API_VERSION } from '@shared/schema';
 
 // Mock axios and crypto
 vi.mock('axios');
-vi.mock('crypto', () => ({
-  randomBytes: vi.fn().mockReturnValue({
-    toString: vi.fn().mockReturnValue('mock-secret')
-  }),
-  createHmac: vi.fn().mockReturnValue({
-    update: vi.fn().mockReturnValue({
-      digest: vi.fn().mockReturnValue('mock-signature')
+vi.mock('crypto', () => {
+  const mocked = {
+    randomBytes: vi.fn().mockReturnValue({
+      toString: vi.fn().mockReturnValue('mock-secret')
+    }),
+    randomUUID: vi.fn().mockReturnValue('5f0c6a8e-2b7d-4c1a-9e3f-6b8d0a2c4e6f'),
+    createHmac: vi.fn().mockReturnValue({
+      update: vi.fn().mockReturnValue({
+        digest: vi.fn().mockReturnValue('mock-signature')
+      })
     })
-  })
-}));
+  };
+  return { ...mocked, default: mocked };
+});
+
+const crmEndpoint = {
+  id: 'endpoint-crm',
+  name: 'CRM',
+  url: 'https://example.com/webhook',
+  secret: 'test-secret',
+  enabled: true,
+  events: ['form.completed', 'section.completed', 'form.submitted', 'form.updated'],
+  headers: { Authorization: 'Bearer crm-token' }
+};
+
+const slackEndpoint = {
+  id: 'endpoint-slack',
+  name: 'Slack relay',
+  url: 'https://hooks.example.com/relay',
+  secret: null,
+  enabled: true,
+  events: ['form.completed'],
+  headers: {}
+};
 
 // Mock Supabase client
 const mockSupabase = {
@@ -22,23 +47,18 @@ const mockSupabase = {
   select: vi.fn().mockReturnThis(),
   insert: vi.fn().mockReturnThis(),
   update: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
   eq: vi.fn().mockReturnThis(),
   order: vi.fn().mockReturnThis(),
   limit: vi.fn().mockReturnThis(),
-  single: vi.fn().mockReturnValue({
-    data: {
-      id: 1,
-      webhook_url: 'https://example.com/webhook',
-      webhook_enabled: true,
-      webhook_secret: 'test-secret',
-      notify_on_section_completion: true,
-      notify_on_form_completion: true
-    },
-    error: null
-  })
+  // Subscribed endpoint lookup ends with .contains()
+  contains: vi.fn(),
+  // Delivery log inserts end with .single()
+  single: vi.fn(),
+  maybeSingle: vi.fn()
 };
 
-describe('System-wide Webhook Functionality', () => {
+describe('Webhook Endpoint Functionality', () => {
   let storage: SupabaseStorage;
 
   beforeEach(() => {
@@ -51,8 +71,8 @@ describe('System-wide Webhook Functionality', () => {
     // Mock getForm to return form details
     storage.getForm = vi.fn().mockResolvedValue({
       id: 1,
-      clientName: 'Test Client',
-      clientEmail: 'test@example.com'
+      client_name: 'Test Client',
+      client_email: 'test@example.com'
     });
     
     // Mock getSections to return sections
@@ -63,6 +83,12 @@ describe('System-wide Webhook Functionality', () => {
     
     // Mock axios.post to resolve successfully
     (axios.post as any).mockResolvedValue({ status: 200 });
+
+    mockSupabase.contains.mockResolvedValue({ data: [crmEndpoint], error: null });
+    mockSupabase.single.mockImplementation(() => Promise.resolve({
+      data: { id: 'delivery-1', attempt_count: 0, ...mockSupabase.insert.mock.lastCall?.[0] },
+      error: null
+    }));
   });
 
   it('should generate a webhook secret', async () => {
@@ -71,42 +97,136 @@ describe('System-wide Webhook Functionality', () => {
     expect(crypto.randomBytes).toHaveBeenCalledWith(32);
   });
 
-  it('should get webhook settings with notification options', async () => {
-    const settings = await storage.getWebhookSettings();
-    
-    expect(settings).toEqual({
-      id: 1,
-      webhook_url: 'https://example.com/webhook',
-      webhook_enabled: true,
-      webhook_secret: 'test-secret',
-      notify_on_section_completion: true,
-      notify_on_form_completion: true
+  it('should generate a secret for new endpoints without one', async () => {
+    await storage.createWebhookEndpoint({
+      name: 'CRM',
+      url: 'https://example.com/webhook',
+      enabled: true,
+      events: ['form.completed'],
+      headers: {}
     });
-    
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('*');
-    expect(mockSupabase.order).toHaveBeenCalledWith('id', { ascending: true });
-    expect(mockSupabase.limit).toHaveBeenCalledWith(1);
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('webhook_endpoints');
+    expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'CRM',
+      secret: 'mock-secret',
+      events: ['form.completed']
+    }));
+  });
+
+  it('should only look up enabled endpoints subscribed to the event', async () => {
+    await storage.sendSubmissionWebhookNotification(1, { test: 'data' });
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('webhook_endpoints');
+    expect(mockSupabase.eq).toHaveBeenCalledWith('enabled', true);
+    expect(mockSupabase.contains).toHaveBeenCalledWith('events', ['form.submitted']);
+  });
+
+  it('should fan an event out to every subscribed endpoint with its own headers', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [crmEndpoint, slackEndpoint], error: null });
+
+    const result = await storage.sendFormCompletionWebhookNotification(1);
+
+    expect(result).toBe(true);
+    expect(axios.post).toHaveBeenCalledTimes(2);
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://example.com/webhook',
+      expect.objectContaining({ type: 'form.completed' }),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: 'Bearer crm-token',
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature$/)
+        })
+      })
+    );
+    // No secret, so no signature
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://hooks.example.com/relay',
+      expect.objectContaining({ type: 'form.completed' }),
+      { headers: { 'Content-Type': 'application/json', 'X-Webhook-Id': expect.any(String) }, timeout: 10000 }
+    );
+    // Each endpoint gets its own delivery log entry
+    expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({ endpoint_id: 'endpoint-crm' }));
+    expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({ endpoint_id: 'endpoint-slack' }));
+  });
+
+  it('should succeed if at least one endpoint accepts the event', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [crmEndpoint, slackEndpoint], error: null });
+    (axios.post as any)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ status: 200 });
+
+    const result = await storage.sendFormCompletionWebhookNotification(1);
+
+    expect(result).toBe(true);
+  });
+
+  it('should sign with both secrets while a rotation is in its grace period', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({
+      data: [{
+        ...crmEndpoint,
+        previous_secret: 'old-secret',
+        previous_secret_expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+      }],
+      error: null
+    });
+
+    await storage.sendSubmissionWebhookNotification(1, { test: 'data' });
+
+    expect(crypto.createHmac).toHaveBeenCalledWith('sha256', 'test-secret');
+    expect(crypto.createHmac).toHaveBeenCalledWith('sha256', 'old-secret');
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://example.com/webhook',
+      expect.anything(),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature,v1=mock-signature$/),
+          'X-Webhook-Id': 'delivery-1'
+        })
+      })
+    );
+  });
+
+  it('should stop signing with the previous secret once it expires', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({
+      data: [{
+        ...crmEndpoint,
+        previous_secret: 'old-secret',
+        previous_secret_expires_at: new Date(Date.now() - 1000).toISOString()
+      }],
+      error: null
+    });
+
+    await storage.sendSubmissionWebhookNotification(1, { test: 'data' });
+
+    expect(crypto.createHmac).not.toHaveBeenCalledWith('sha256', 'old-secret');
   });
 
-  it('should update webhook settings with notification options', async () => {
-    const settings = {
-      webhookUrl: 'https://example.com/webhook',
-      webhookEnabled: true,
-      webhookSecret: 'test-secret',
-      notifyOnSectionCompletion: true,
-      notifyOnFormCompletion: false
-    };
-
-    await storage.updateWebhookSettings(settings);
-
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('id');
-    expect(mockSupabase.update).toHaveBeenCalledWith({
-      ...settings,
-      updated_at: expect.any(String)
+  it('should keep the old secret for the grace period when rotating', async () => {
+    mockSupabase.maybeSingle.mockResolvedValueOnce({ data: crmEndpoint, error: null });
+
+    await storage.rotateWebhookEndpointSecret('endpoint-crm', { graceHours: 48 });
+
+    const update = mockSupabase.update.mock.lastCall?.[0];
+    expect(update).toMatchObject({
+      secret: 'mock-secret',
+      previous_secret: 'test-secret'
     });
-    expect(mockSupabase.eq).toHaveBeenCalledWith('id', 1);
+    const expiresIn = new Date(update.previous_secret_expires_at).getTime() - Date.now();
+    expect(expiresIn).toBeGreaterThan(47 * 60 * 60 * 1000);
+    expect(expiresIn).toBeLessThanOrEqual(48 * 60 * 60 * 1000);
+  });
+
+  it('should drop the old secret immediately when rotating without a grace period', async () => {
+    mockSupabase.maybeSingle.mockResolvedValueOnce({ data: crmEndpoint, error: null });
+
+    await storage.rotateWebhookEndpointSecret('endpoint-crm', { secret: 'new-secret', graceHours: 0 });
+
+    expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      secret: 'new-secret',
+      previous_secret: null,
+      previous_secret_expires_at: null
+    }));
   });
 
   it('should send section completion webhook notification', async () => {
@@ -114,42 +234,32 @@ describe('System-wide Webhook Functionality', () => {
     const result = await storage.sendSectionWebhookNotification(1, 101, sectionData, 'Business Details');
 
     expect(result).toBe(true);
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('webhook_url, webhook_enabled, webhook_secret, notify_on_section_completion');
+    expect(mockSupabase.contains).toHaveBeenCalledWith('events', ['section.completed']);
     
     // Check that axios.post was called with the right arguments
     expect(axios.post).toHaveBeenCalledWith(
       'https://example.com/webhook',
-      expect.objectContaining({
-        event: 'section_completion',
-        form_id: 1,
-        form_name: 'Test Client',
-        client_email: 'test@example.com',
-        section_id: 101,
-        section_name: 'Business Details',
-        data: { name: 'Test Business' }
-      }),
+      {
+        id: 'evt_5f0c6a8e2b7d4c1a9e3f6b8d0a2c4e6f',
+        type: 'section.completed',
+        api_version: WEBHOOK_API_VERSION,
+        created_at: expect.any(String),
+        data: {
+          form: { id: 1, client_name: 'Test Client', client_email: 'test@example.com' },
+          section: { id: 101, name: 'Business Details', data: { name: 'Test Business' } }
+        }
+      },
       expect.objectContaining({
         headers: expect.objectContaining({
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': 'mock-signature'
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature$/)
         })
       })
     );
   });
 
-  it('should not send section webhook if section notifications are disabled', async () => {
-    // Override the mock to return disabled section notifications
-    mockSupabase.single.mockReturnValueOnce({
-      data: {
-        webhook_url: 'https://example.com/webhook',
-        webhook_enabled: true,
-        webhook_secret: 'test-secret',
-        notify_on_section_completion: false,
-        notify_on_form_completion: true
-      },
-      error: null
-    });
+  it('should not send section webhook if no endpoint subscribes to it', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [], error: null });
 
     const sectionData = { name: 'Test Business' };
     const result = await storage.sendSectionWebhookNotification(1, 101, sectionData, 'Business Details');
@@ -162,56 +272,38 @@ describe('System-wide Webhook Functionality', () => {
     const result = await storage.sendFormCompletionWebhookNotification(1);
 
     expect(result).toBe(true);
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('webhook_url, webhook_enabled, webhook_secret, notify_on_form_completion');
+    expect(mockSupabase.contains).toHaveBeenCalledWith('events', ['form.completed']);
     
     // Check that axios.post was called with the right arguments
     expect(axios.post).toHaveBeenCalledWith(
       'https://example.com/webhook',
       expect.objectContaining({
-        event: 'form_completion',
-        form_id: 1,
-        form_name: 'Test Client',
-        client_email: 'test@example.com',
-        sections: expect.arrayContaining([
-          expect.objectContaining({
-            section_id: 101,
-            section_name: 'Business Details',
-            data: { name: 'Test Business' }
-          }),
-          expect.objectContaining({
-            section_id: 102,
-            section_name: 'Target Audience',
-            data: { audience: 'Everyone' }
-          })
-        ])
+        type: 'form.completed',
+        data: expect.objectContaining({
+          form: { id: 1, client_name: 'Test Client', client_email: 'test@example.com' },
+          sections: [
+            { id: 101, name: 'Business Details', data: { name: 'Test Business' } },
+            { id: 102, name: 'Target Audience', data: { audience: 'Everyone' } }
+          ]
+        })
       }),
       expect.objectContaining({
         headers: expect.objectContaining({
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': 'mock-signature'
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature$/)
         })
       })
     );
   });
 
-  it('should not send form completion webhook if form notifications are disabled', async () => {
-    // Override the mock to return disabled form notifications
-    mockSupabase.single.mockReturnValueOnce({
-      data: {
-        webhook_url: 'https://example.com/webhook',
-        webhook_enabled: true,
-        webhook_secret: 'test-secret',
-        notify_on_section_completion: true,
-        notify_on_form_completion: false
-      },
-      error: null
-    });
+  it('should not send form completion webhook if no endpoint subscribes to it', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [], error: null });
 
     const result = await storage.sendFormCompletionWebhookNotification(1);
 
     expect(result).toBe(false);
     expect(axios.post).not.toHaveBeenCalled();
+    expect(storage.getForm).not.toHaveBeenCalled();
   });
 
   it('should send submission webhook notification', async () => {
@@ -219,60 +311,28 @@ describe('System-wide Webhook Functionality', () => {
     const result = await storage.sendSubmissionWebhookNotification(1, data);
 
     expect(result).toBe(true);
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('webhook_url, webhook_enabled, webhook_secret');
     
     // Check that axios.post was called with the right arguments
     expect(axios.post).toHaveBeenCalledWith(
       'https://example.com/webhook',
       expect.objectContaining({
-        event: 'form_submission',
-        form_id: 1,
-        form_name: 'Test Client',
-        client_email: 'test@example.com',
-        data: { test: 'data' }
+        type: 'form.submitted',
+        data: {
+          form: { id: 1, client_name: 'Test Client', client_email: 'test@example.com' },
+          submission: { test: 'data' }
+        }
       }),
       expect.objectContaining({
         headers: expect.objectContaining({
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': 'mock-signature'
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature$/)
         })
       })
     );
   });
 
-  it('should not send webhook if disabled', async () => {
-    // Override the mock to return disabled webhook
-    mockSupabase.single.mockReturnValueOnce({
-      data: {
-        webhook_url: 'https://example.com/webhook',
-        webhook_enabled: false,
-        webhook_secret: 'test-secret',
-        notify_on_section_completion: true,
-        notify_on_form_completion: true
-      },
-      error: null
-    });
-
-    const data = { test: 'data' };
-    const result = await storage.sendSubmissionWebhookNotification(1, data);
-
-    expect(result).toBe(false);
-    expect(axios.post).not.toHaveBeenCalled();
-  });
-
-  it('should not send webhook if URL is missing', async () => {
-    // Override the mock to return webhook without URL
-    mockSupabase.single.mockReturnValueOnce({
-      data: {
-        webhook_url: '',
-        webhook_enabled: true,
-        webhook_secret: 'test-secret',
-        notify_on_section_completion: true,
-        notify_on_form_completion: true
-      },
-      error: null
-    });
+  it('should not send webhook if there are no endpoints', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [], error: null });
 
     const data = { test: 'data' };
     const result = await storage.sendSubmissionWebhookNotification(1, data);
@@ -287,38 +347,29 @@ describe('System-wide Webhook Functionality', () => {
     const result = await storage.sendFormUpdatedWebhookNotification(1, newData, oldData);
 
     expect(result).toBe(true);
-    expect(mockSupabase.from).toHaveBeenCalledWith('system_settings');
-    expect(mockSupabase.select).toHaveBeenCalledWith('webhook_url, webhook_enabled, webhook_secret');
+    expect(mockSupabase.contains).toHaveBeenCalledWith('events', ['form.updated']);
     
     // Check that axios.post was called with the right arguments
     expect(axios.post).toHaveBeenCalledWith(
       'https://example.com/webhook',
       expect.objectContaining({
-        event: 'form.updated',
-        form_id: 1,
-        new_data: newData,
-        old_data: oldData,
-        timestamp: expect.any(String)
+        type: 'form.updated',
+        data: expect.objectContaining({
+          data: newData,
+          previous_data: oldData
+        })
       }),
       expect.objectContaining({
         headers: expect.objectContaining({
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': 'mock-signature'
+          'X-Webhook-Signature': expect.stringMatching(/^t=\d+,v1=mock-signature$/)
         })
       })
     );
   });
 
-  it('should not send form updated webhook if disabled', async () => {
-    // Override the mock to return disabled webhook
-    mockSupabase.single.mockReturnValueOnce({
-      data: {
-        webhook_url: 'https://example.com/webhook',
-        webhook_enabled: false,
-        webhook_secret: 'test-secret'
-      },
-      error: null
-    });
+  it('should not send form updated webhook if no endpoint subscribes to it', async () => {
+    mockSupabase.contains.mockResolvedValueOnce({ data: [], error: null });
 
     const oldData = { test: 'old' };
     const newData = { test: 'new' };
@@ -338,4 +389,17 @@ describe('System-wide Webhook Functionality', () => {
 
     expect(result).toBe(false);
   });
+
+  it('should send payloads that match the published event schemas', async () => {
+    await storage.sendFormCompletionWebhookNotification(1);
+    await storage.sendSectionWebhookNotification(1, 101, { name: 'Test Business' }, 'Business Details');
+    await storage.sendSubmissionWebhookNotification(1, { test: 'data' });
+    await storage.sendFormUpdatedWebhookNotification(1, { a: 1 }, { a: 0 });
+
+    const payloads = (axios.post as any).mock.calls.map((call: any[]) => call[1]);
+    expect(payloads.map((p: any) => p.type)).toEqual(['form.completed', 'section.completed', 'form.submitted', 'form.updated']);
+    for (const payload of payloads) {
+      expect(webhookEventSchema.safeParse(payload).success).toBe(true);
+    }
+  });
 }); 
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { SupabaseStorage } from '../server/storage';
+import {
+  getRetryDelayMs,
+  getNextRetryAt,
+  processDueWebhookDeliveries,
+  type WebhookRetryConfig
+} from '../server/webhookWorker';
+import { summarizeWebhookDeliveries } from '../server/webhookStats';
+import { dispatchNotification } from '../server/notifications';
+
+vi.mock('axios');
+vi.mock('../server/notifications', () => ({ dispatchNotification: vi.fn() }));
+
+const config: WebhookRetryConfig = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 5000,
+  pollIntervalMs: 1000,
+  batchSize: 10
+};
+
+const mockSupabase = {
+  from: vi.fn().mockReturnThis(),
+  select: vi.fn().mockReturnThis(),
+  insert: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  eq: vi.fn().mockReturnThis(),
+  lte: vi.fn().mockReturnThis(),
+  order: vi.fn().mockReturnThis(),
+  limit: vi.fn().mockReturnThis(),
+  single: vi.fn(),
+  maybeSingle: vi.fn()
+};
+
+const delivery = {
+  id: 'delivery-1',
+  event: 'form.completed',
+  form_id: null,
+  url: 'https://example.com/webhook',
+  payload: { event: 'form.completed', form_id: 1 },
+  status: 'failed' as const,
+  attempt_count: 0,
+  response_status: null,
+  response_body: null,
+  latency_ms: null,
+  last_error: null,
+  next_retry_at: null,
+  last_attempt_at: null,
+  delivered_at: null,
+  created_at: null,
+  updated_at: null
+};
+
+describe('Webhook retry policy', () => {
+  it('backs off exponentially up to the maximum delay', () => {
+    expect(getRetryDelayMs(1, config)).toBe(1000);
+    expect(getRetryDelayMs(2, config)).toBe(2000);
+    expect(getRetryDelayMs(3, config)).toBe(4000);
+    expect(getRetryDelayMs(10, config)).toBe(5000);
+  });
+
+  it('dead-letters once the attempt limit is reached', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    expect(getNextRetryAt(1, now, config)).toEqual(new Date('2025-01-01T00:00:01Z'));
+    expect(getNextRetryAt(4, now, config)).toBeNull();
+  });
+
+  it('retries every due delivery and keeps going after a failure', async () => {
+    const storage = {
+      getDueWebhookDeliveries: vi.fn().mockResolvedValue([{ id: 'a' }, { id: 'b' }]),
+      retryWebhookDelivery: vi.fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(true)
+    };
+
+    // @ts-ignore - only the methods used by the worker are provided
+    const processed = await processDueWebhookDeliveries(storage, config);
+
+    expect(processed).toBe(2);
+    expect(storage.getDueWebhookDeliveries).toHaveBeenCalledWith(10);
+    expect(storage.retryWebhookDelivery).toHaveBeenCalledWith('a');
+    expect(storage.retryWebhookDelivery).toHaveBeenCalledWith('b');
+  });
+});
+
+describe('Webhook delivery log', () => {
+  let storage: SupabaseStorage;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // @ts-ignore - we're mocking the implementation
+    storage = new SupabaseStorage();
+    // @ts-ignore - replace the supabase client with our mock
+    storage.supabase = mockSupabase;
+  });
+
+  it('records a successful attempt', async () => {
+    (axios.post as any).mockResolvedValue({ status: 202, data: { ok: true } });
+
+    const result = await storage.attemptWebhookDelivery(delivery, null);
+
+    expect(result).toBe(true);
+    expect(mockSupabase.from).toHaveBeenCalledWith('webhook_deliveries');
+    expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'succeeded',
+      attempt_count: 1,
+      response_status: 202,
+      response_body: '{"ok":true}',
+      next_retry_at: null,
+      latency_ms: expect.any(Number)
+    }));
+    expect(mockSupabase.eq).toHaveBeenCalledWith('id', 'delivery-1');
+  });
+
+  it('schedules a retry when the receiver fails', async () => {
+    (axios.post as any).mockRejectedValue(Object.assign(new Error('Request failed with status code 503'), {
+      response: { status: 503, data: 'Service Unavailable' }
+    }));
+
+    const result = await storage.attemptWebhookDelivery(delivery, null);
+
+    expect(result).toBe(false);
+    expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      attempt_count: 1,
+      response_status: 503,
+      response_body: 'Service Unavailable',
+      last_error: 'Request failed with status code 503',
+      next_retry_at: expect.any(String)
+    }));
+    expect(dispatchNotification).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a delivery that has used up its attempts', async () => {
+    (axios.post as any).mockRejectedValue(new Error('Network error'));
+
+    const result = await storage.attemptWebhookDelivery({ ...delivery, attempt_count: 99 }, null);
+
+    expect(result).toBe(false);
+    expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'dead',
+      attempt_count: 100,
+      next_retry_at: null
+    }));
+    expect(dispatchNotification).toHaveBeenCalledWith(storage, {
+      type: 'webhook_failed',
+      delivery: expect.objectContaining({ id: 'delivery-1', status: 'dead', attempt_count: 100, last_error: 'Network error' })
+    });
+  });
+
+  it('alerts admins when the first attempt is also the last', async () => {
+    vi.stubEnv('WEBHOOK_MAX_ATTEMPTS', '1');
+    (axios.post as any).mockRejectedValue(new Error('Network error'));
+    const endpoint = { id: 'endpoint-1', url: delivery.url, secret: 'secret' };
+    // @ts-ignore - only what a redelivery reads is provided
+    vi.spyOn(storage, 'getWebhookEndpoint').mockResolvedValue(endpoint);
+    vi.spyOn(storage, 'getWebhookDelivery').mockResolvedValue({ ...delivery, endpoint_id: 'endpoint-1' } as never);
+    // @ts-ignore - private
+    vi.spyOn(storage, 'createWebhookDelivery').mockResolvedValue({ ...delivery, id: 'delivery-2' });
+
+    try {
+      // A manual redelivery that fails is dead straight away
+      await storage.redeliverWebhookDelivery('delivery-1');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead', attempt_count: 1 }));
+    expect(dispatchNotification).toHaveBeenCalledTimes(1);
+    expect(dispatchNotification).toHaveBeenCalledWith(storage, {
+      type: 'webhook_failed',
+      delivery: expect.objectContaining({ id: 'delivery-2', status: 'dead', attempt_count: 1 })
+    });
+  });
+
+  it('only picks up failed deliveries that are due', async () => {
+    mockSupabase.limit.mockResolvedValueOnce({ data: [delivery], error: null });
+
+    const due = await storage.getDueWebhookDeliveries(25);
+
+    expect(due).toEqual([delivery]);
+    expect(mockSupabase.eq).toHaveBeenCalledWith('status', 'failed');
+    expect(mockSupabase.lte).toHaveBeenCalledWith('next_retry_at', expect.any(String));
+    expect(mockSupabase.limit).toHaveBeenCalledWith(25);
+  });
+});
+
+describe('Webhook delivery stats', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+
+  it('summarizes deliveries by status, event and day', () => {
+    const stats = summarizeWebhookDeliveries([
+      { event: 'form.completed', status: 'succeeded', latency_ms: 100, created_at: new Date('2025-01-10T09:00:00Z') },
+      { event: 'form.completed', status: 'dead', latency_ms: 300, created_at: new Date('2025-01-09T09:00:00Z') },
+      { event: 'form.updated', status: 'failed', latency_ms: null, created_at: new Date('2025-01-09T10:00:00Z') },
+      { event: 'form.updated', status: 'pending', latency_ms: null, created_at: new Date('2025-01-10T11:00:00Z') }
+    ], 3, now);
+
+    expect(stats).toMatchObject({
+      periodDays: 3,
+      totalDeliveries: 4,
+      successfulDeliveries: 1,
+      failedDeliveries: 1,
+      deadDeliveries: 1,
+      pendingDeliveries: 1,
+      successRate: 33,
+      averageResponseTime: 200,
+      lastDelivery: '2025-01-10T11:00:00.000Z'
+    });
+    expect(stats.byEvent).toEqual([
+      { event: 'form.completed', total: 2, succeeded: 1, failed: 1 },
+      { event: 'form.updated', total: 2, succeeded: 0, failed: 1 }
+    ]);
+    expect(stats.daily).toEqual([
+      { date: '2025-01-08', succeeded: 0, failed: 0 },
+      { date: '2025-01-09', succeeded: 0, failed: 2 },
+      { date: '2025-01-10', succeeded: 1, failed: 0 }
+    ]);
+  });
+
+  it('reports no rate or latency when nothing has been sent', () => {
+    const stats = summarizeWebhookDeliveries([], 7, now);
+
+    expect(stats.successRate).toBe(0);
+    expect(stats.averageResponseTime).toBeNull();
+    expect(stats.lastDelivery).toBeNull();
+    expect(stats.daily).toHaveLength(7);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createWebhookEvent, getWebhookEventCatalogue } from '../server/webhookEvents';
+import { webhookEventNames, webhookEventSchema, WEBHOOK_API_VERSION } from '@shared/schema';
+
+describe('Webhook event envelope', () => {
+  it('wraps data with an id, type, version and timestamp', () => {
+    const event = createWebhookEvent('webhook.test', { message: 'hi', test_id: 'abc' }, new Date('2025-01-15T10:30:00Z'));
+
+    expect(event).toEqual({
+      id: expect.stringMatching(/^evt_[0-9a-f]{32}$/),
+      type: 'webhook.test',
+      api_version: WEBHOOK_API_VERSION,
+      created_at: '2025-01-15T10:30:00.000Z',
+      data: { message: 'hi', test_id: 'abc' }
+    });
+    expect(webhookEventSchema.safeParse(event).success).toBe(true);
+  });
+
+  it('gives every event a unique id', () => {
+    const data = { message: 'hi', test_id: 'abc' };
+    expect(createWebhookEvent('webhook.test', data).id).not.toBe(createWebhookEvent('webhook.test', data).id);
+  });
+
+  it('rejects payloads that do not match the event type', () => {
+    const result = webhookEventSchema.safeParse({
+      id: 'evt_1',
+      type: 'form.updated',
+      api_version: WEBHOOK_API_VERSION,
+      created_at: '2025-01-15T10:30:00.000Z',
+      data: { message: 'hi', test_id: 'abc' }
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Webhook event catalogue', () => {
+  const catalogue = getWebhookEventCatalogue();
+
+  it('lists every event with a JSON Schema', () => {
+    expect(catalogue.api_version).toBe(WEBHOOK_API_VERSION);
+    expect(catalogue.events.map(e => e.type)).toEqual([...webhookEventNames]);
+
+    const formUpdated = catalogue.events.find(e => e.type === 'form.updated')!;
+    expect(formUpdated.subscribable).toBe(true);
+    expect(formUpdated.schema).toMatchObject({
+      type: 'object',
+      required: ['id', 'type', 'api_version', 'created_at', 'data'],
+      properties: { type: { type: 'string', const: 'form.updated' } }
+    });
+    expect(catalogue.events.find(e => e.type === 'webhook.test')!.subscribable).toBe(false);
+  });
+
+  it('publishes examples that validate against their own schemas', () => {
+    for (const entry of catalogue.events) {
+      expect(webhookEventSchema.safeParse(entry.example).success).toBe(true);
+    }
+  });
+});
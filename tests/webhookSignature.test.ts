@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  signWebhookPayload,
+  parseWebhookSignatureHeader,
+  verifyWebhookSignature
+} from '../shared/webhookSignature';
+
+const body = JSON.stringify({ event: 'form_completion', form_id: 1 });
+const now = 1705314600;
+
+describe('Webhook signatures', () => {
+  it('signs the timestamp and body', () => {
+    const header = signWebhookPayload(body, ['secret'], now);
+
+    expect(header).toMatch(/^t=1705314600,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, 'secret', { now })).toEqual({ valid: true, timestamp: now });
+  });
+
+  it('rejects a tampered body or the wrong secret', () => {
+    const header = signWebhookPayload(body, ['secret'], now);
+
+    expect(verifyWebhookSignature(body.replace('1', '2'), header, 'secret', { now })).toMatchObject({ valid: false });
+    expect(verifyWebhookSignature(body, header, 'other-secret', { now })).toEqual({
+      valid: false,
+      reason: 'No matching signature'
+    });
+  });
+
+  it('rejects replays outside the tolerance window', () => {
+    const header = signWebhookPayload(body, ['secret'], now);
+
+    expect(verifyWebhookSignature(body, header, 'secret', { now: now + 301 })).toEqual({
+      valid: false,
+      reason: 'Timestamp outside the tolerance window'
+    });
+    expect(verifyWebhookSignature(body, header, 'secret', { now: now + 3600, toleranceSeconds: 3600 })).toMatchObject({ valid: true });
+  });
+
+  it('carries a signature per secret during rotation', () => {
+    const header = signWebhookPayload(body, ['new-secret', 'old-secret'], now);
+
+    expect(parseWebhookSignatureHeader(header)?.signatures).toHaveLength(2);
+    // Receivers still on the old secret keep verifying
+    expect(verifyWebhookSignature(body, header, 'old-secret', { now })).toMatchObject({ valid: true });
+    expect(verifyWebhookSignature(body, header, 'new-secret', { now })).toMatchObject({ valid: true });
+    // And receivers can accept either secret while they switch over
+    const newOnly = signWebhookPayload(body, ['new-secret'], now);
+    expect(verifyWebhookSignature(body, newOnly, ['old-secret', 'new-secret'], { now })).toMatchObject({ valid: true });
+  });
+
+  it('rejects missing and malformed headers', () => {
+    expect(verifyWebhookSignature(body, undefined, 'secret', { now })).toEqual({ valid: false, reason: 'Missing signature header' });
+    expect(verifyWebhookSignature(body, 'deadbeef', 'secret', { now })).toEqual({ valid: false, reason: 'Malformed signature header' });
+    expect(parseWebhookSignatureHeader('t=abc,v1=00')).toBeNull();
+  });
+});
@@ -1,8 +1,20 @@
-const express = require('express');
-const crypto = require('crypto');
+// Run with `npx tsx webhook-test-server.js` so the shared TypeScript helper can be imported.
+// Set WEBHOOK_SECRET to the endpoint's signing secret (comma-separate two secrets while rotating).
+import express from 'express';
+import { verifyWebhookSignature } from './shared/webhookSignature.ts';
 
 const app = express();
-app.use(express.json());
+// Signatures are computed over the raw body, so keep it around
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf.toString('utf8');
+  }
+}));
+
+const secrets = (process.env.WEBHOOK_SECRET || '').split(',').map(s => s.trim()).filter(Boolean);
+
+// Delivery ids already seen, so retries of the same delivery are only processed once
+const seenWebhookIds = new Set();
 
 // Store received webhooks for display
 let receivedWebhooks = [];
@@ -10,19 +22,42 @@ let receivedWebhooks = [];
 // Webhook endpoint
 app.post('/webhook', (req, res) => {
   const signature = req.headers['x-webhook-signature'];
+  const webhookId = req.headers['x-webhook-id'];
   const payload = req.body;
+  const verification = secrets.length > 0
+    ? verifyWebhookSignature(req.rawBody || '', signature, secrets)
+    : null;
   
   console.log('\n🎯 Webhook Received!');
   console.log('📅 Timestamp:', new Date().toISOString());
+  console.log('🆔 Webhook ID:', webhookId || 'No id');
   console.log('🔐 Signature:', signature || 'No signature');
+  if (verification) {
+    console.log(verification.valid ? '✅ Signature verified' : `❌ Signature invalid: ${verification.reason}`);
+  }
   console.log('📦 Payload:', JSON.stringify(payload, null, 2));
+
+  if (verification && !verification.valid) {
+    res.status(401).json({ success: false, message: verification.reason });
+    return;
+  }
+
+  if (webhookId && seenWebhookIds.has(webhookId)) {
+    console.log('🔁 Duplicate delivery, already processed');
+    res.status(200).json({ success: true, message: 'Duplicate webhook ignored' });
+    return;
+  }
+  if (webhookId) {
+    seenWebhookIds.add(webhookId);
+  }
   
   // Store the webhook
   receivedWebhooks.unshift({
     timestamp: new Date().toISOString(),
     signature,
+    verified: verification ? verification.valid : null,
     payload,
-    id: Math.random().toString(36).substring(7)
+    id: webhookId || Math.random().toString(36).substring(7)
   });
   
   // Keep only last 10 webhooks
@@ -70,6 +105,7 @@ app.get('/', (req, res) => {
           <h3>Setup Instructions:</h3>
           <p><strong>Webhook URL:</strong> <code>http://localhost:3001/webhook</code></p>
           <p>Configure this URL in your admin settings to receive webhooks.</p>
+          <p><strong>Signature verification:</strong> ${secrets.length > 0 ? `on (${secrets.length} secret${secrets.length > 1 ? 's' : ''})` : 'off - start with WEBHOOK_SECRET=&lt;secret&gt; to verify'}</p>
           <p>This page auto-refreshes every 5 seconds to show new webhooks.</p>
         </div>
         
@@ -83,10 +119,13 @@ app.get('/', (req, res) => {
           receivedWebhooks.map(webhook => `
             <div class="webhook">
               <div class="webhook-header">
-                <span class="event-type">${webhook.payload.event || 'unknown'}</span>
+                <span class="event-type">${webhook.payload.type || webhook.payload.event || 'unknown'}</span>
                 <span class="timestamp">${webhook.timestamp}</span>
               </div>
-              ${webhook.signature ? `<div class="signature">✅ Signature: ${webhook.signature}</div>` : '<div style="color: #ffc107;">⚠️ No signature</div>'}
+              ${webhook.signature
+                ? `<div class="signature">${webhook.verified ? '✅ Verified' : '🔐 Not verified (set WEBHOOK_SECRET)'} · ${webhook.signature}</div>`
+                : '<div style="color: #ffc107;">⚠️ No signature</div>'}
+              <div class="timestamp">ID: ${webhook.id}</div>
               <div class="payload">
                 <pre>${JSON.stringify(webhook.payload, null, 2)}</pre>
               </div>